@@ -57,6 +57,8 @@ jest.mock('recharts', () => ({
   Cell: () => <div data-testid="cell" />,
   ScatterChart: ({ children }) => <div data-testid="scatter-chart">{children}</div>,
   Scatter: () => <div data-testid="scatter" />,
+  ComposedChart: ({ children }) => <div data-testid="composed-chart">{children}</div>,
+  Brush: jest.fn(() => <div data-testid="brush" />),
 }))
 
 jest.mock('html2canvas', () => ({
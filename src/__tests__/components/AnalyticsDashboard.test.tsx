@@ -17,7 +17,9 @@ const mockData: ProcessedDayData[] = [
     liquidity: 0.8,
     dayOfWeek: 1,
     weekOfYear: 1,
-    monthOfYear: 1
+    monthOfYear: 1,
+    hourOfDay: 0,
+    session: 'asia'
   },
   {
     date: new Date(2024, 0, 2),
@@ -31,7 +33,9 @@ const mockData: ProcessedDayData[] = [
     liquidity: 0.9,
     dayOfWeek: 2,
     weekOfYear: 1,
-    monthOfYear: 1
+    monthOfYear: 1,
+    hourOfDay: 0,
+    session: 'asia'
   },
   {
     date: new Date(2024, 0, 3),
@@ -45,7 +49,9 @@ const mockData: ProcessedDayData[] = [
     liquidity: 0.7,
     dayOfWeek: 3,
     weekOfYear: 1,
-    monthOfYear: 1
+    monthOfYear: 1,
+    hourOfDay: 0,
+    session: 'asia'
   }
 ];
 
@@ -139,7 +145,9 @@ describe('AnalyticsDashboard', () => {
         liquidity: 0.8,
         dayOfWeek: 1,
         weekOfYear: 1,
-        monthOfYear: 1
+        monthOfYear: 1,
+        hourOfDay: 0,
+        session: 'asia' as const
       }
     ];
 
@@ -170,7 +178,9 @@ describe('AnalyticsDashboard', () => {
         liquidity: 0.8,
         dayOfWeek: 1,
         weekOfYear: 1,
-        monthOfYear: 1
+        monthOfYear: 1,
+        hourOfDay: 0,
+        session: 'asia' as const
       },
       {
         date: new Date(2024, 0, 2),
@@ -184,7 +194,9 @@ describe('AnalyticsDashboard', () => {
         liquidity: 0.9,
         dayOfWeek: 2,
         weekOfYear: 1,
-        monthOfYear: 1
+        monthOfYear: 1,
+        hourOfDay: 0,
+        session: 'asia' as const
       }
     ];
 
@@ -262,7 +274,9 @@ describe('AnalyticsDashboard', () => {
         liquidity: 0,
         dayOfWeek: 1,
         weekOfYear: 1,
-        monthOfYear: 1
+        monthOfYear: 1,
+        hourOfDay: 0,
+        session: 'asia'
       }
     ];
     
@@ -287,7 +301,9 @@ describe('AnalyticsDashboard', () => {
         liquidity: 0.8,
         dayOfWeek: 1,
         weekOfYear: 1,
-        monthOfYear: 1
+        monthOfYear: 1,
+        hourOfDay: 0,
+        session: 'asia'
       }
     ];
     
@@ -312,7 +328,9 @@ describe('AnalyticsDashboard', () => {
         liquidity: 0,
         dayOfWeek: 1,
         weekOfYear: 1,
-        monthOfYear: 1
+        monthOfYear: 1,
+        hourOfDay: 0,
+        session: 'asia'
       }
     ];
     
@@ -336,7 +354,9 @@ describe('AnalyticsDashboard', () => {
       liquidity: 0.5 + (i % 10) / 20,
       dayOfWeek: new Date(2024, 0, i + 1).getDay(),
       weekOfYear: Math.ceil((new Date(2024, 0, i + 1).getTime() - new Date(2024, 0, 1).getTime()) / (7 * 24 * 60 * 60 * 1000)),
-      monthOfYear: new Date(2024, 0, i + 1).getMonth() + 1
+      monthOfYear: new Date(2024, 0, i + 1).getMonth() + 1,
+      hourOfDay: 0,
+      session: 'asia' as const
     }));
 
     render(
@@ -366,7 +386,9 @@ describe('AnalyticsDashboard', () => {
         liquidity: 0.8,
         dayOfWeek: 1,
         weekOfYear: 1,
-        monthOfYear: 1
+        monthOfYear: 1,
+        hourOfDay: 0,
+        session: 'asia' as const
       },
       {
         date: new Date(2024, 0, 2),
@@ -380,7 +402,9 @@ describe('AnalyticsDashboard', () => {
         liquidity: 0.9,
         dayOfWeek: 2,
         weekOfYear: 1,
-        monthOfYear: 1
+        monthOfYear: 1,
+        hourOfDay: 0,
+        session: 'asia' as const
       },
       {
         date: new Date(2024, 0, 3),
@@ -394,7 +418,9 @@ describe('AnalyticsDashboard', () => {
         liquidity: 1.0,
         dayOfWeek: 3,
         weekOfYear: 1,
-        monthOfYear: 1
+        monthOfYear: 1,
+        hourOfDay: 0,
+        session: 'asia' as const
       }
     ];
 
@@ -426,7 +452,9 @@ describe('AnalyticsDashboard', () => {
         liquidity: 0.8,
         dayOfWeek: 1,
         weekOfYear: 1,
-        monthOfYear: 1
+        monthOfYear: 1,
+        hourOfDay: 0,
+        session: 'asia' as const
       }
     ];
 
@@ -457,7 +485,9 @@ describe('AnalyticsDashboard', () => {
         liquidity: 0.8,
         dayOfWeek: 4,
         weekOfYear: 9,
-        monthOfYear: 2
+        monthOfYear: 2,
+        hourOfDay: 0,
+        session: 'asia' as const
       }
     ];
 
@@ -487,7 +517,9 @@ describe('AnalyticsDashboard', () => {
       liquidity: 0.5 + (i % 10) / 20,
       dayOfWeek: new Date(2024, 1, i + 1).getDay(),
       weekOfYear: Math.ceil((new Date(2024, 1, i + 1).getTime() - new Date(2024, 0, 1).getTime()) / (7 * 24 * 60 * 60 * 1000)),
-      monthOfYear: 2
+      monthOfYear: 2,
+      hourOfDay: 0,
+      session: 'asia' as const
     }));
 
     render(
@@ -517,7 +549,9 @@ describe('AnalyticsDashboard', () => {
         liquidity: 0.8,
         dayOfWeek: 1,
         weekOfYear: 1,
-        monthOfYear: 1
+        monthOfYear: 1,
+        hourOfDay: 0,
+        session: 'asia' as const
       },
       {
         date: new Date('2024-01-02T00:00:00.000Z'),
@@ -531,7 +565,9 @@ describe('AnalyticsDashboard', () => {
         liquidity: 0.9,
         dayOfWeek: 2,
         weekOfYear: 1,
-        monthOfYear: 1
+        monthOfYear: 1,
+        hourOfDay: 0,
+        session: 'asia' as const
       }
     ];
 
@@ -562,7 +598,9 @@ describe('AnalyticsDashboard', () => {
         liquidity: -0.5,
         dayOfWeek: 1,
         weekOfYear: 1,
-        monthOfYear: 1
+        monthOfYear: 1,
+        hourOfDay: 0,
+        session: 'asia' as const
       }
     ];
 
@@ -592,7 +630,9 @@ describe('AnalyticsDashboard', () => {
       liquidity: 0.5 + (i % 10) / 20,
       dayOfWeek: new Date(2024, 0, i + 1).getDay(),
       weekOfYear: Math.ceil((new Date(2024, 0, i + 1).getTime() - new Date(2024, 0, 1).getTime()) / (7 * 24 * 60 * 60 * 1000)),
-      monthOfYear: new Date(2024, 0, i + 1).getMonth() + 1
+      monthOfYear: new Date(2024, 0, i + 1).getMonth() + 1,
+      hourOfDay: 0,
+      session: 'asia' as const
     }));
 
     render(
@@ -622,7 +662,9 @@ describe('AnalyticsDashboard', () => {
         liquidity: 0.8,
         dayOfWeek: 1,
         weekOfYear: 1,
-        monthOfYear: 1
+        monthOfYear: 1,
+        hourOfDay: 0,
+        session: 'asia' as const
       },
       {
         date: new Date(2024, 0, 2),
@@ -636,7 +678,9 @@ describe('AnalyticsDashboard', () => {
         liquidity: 0.9,
         dayOfWeek: 2,
         weekOfYear: 1,
-        monthOfYear: 1
+        monthOfYear: 1,
+        hourOfDay: 0,
+        session: 'asia' as const
       }
     ];
 
@@ -676,7 +720,9 @@ describe('AnalyticsDashboard', () => {
         liquidity: 0.8,
         dayOfWeek: 1,
         weekOfYear: 1,
-        monthOfYear: 1
+        monthOfYear: 1,
+        hourOfDay: 0,
+        session: 'asia' as const
       }
     ];
 
@@ -699,4 +745,42 @@ describe('AnalyticsDashboard', () => {
 
     expect(performanceButton.closest('button')).toHaveClass('bg-blue-600');
   });
+
+  test('shows indicator overlays and asks for new periods', () => {
+    const onIndicatorSettingsChange = jest.fn();
+    render(<AnalyticsDashboard {...defaultProps} onIndicatorSettingsChange={onIndicatorSettingsChange} />);
+
+    fireEvent.click(screen.getByText('Indicators'));
+    // The price chart above has the same overlay toggles; the indicator chart's come last
+    const overlayButton = (name: string) => screen.getAllByRole('button', { name }).slice(-1)[0];
+    expect(overlayButton('Bollinger 20, 2σ')).toHaveAttribute('aria-pressed', 'true');
+    fireEvent.click(overlayButton('EMA 21'));
+    expect(overlayButton('EMA 21')).toHaveAttribute('aria-pressed', 'true');
+
+    fireEvent.change(screen.getByLabelText('EMA'), { target: { value: '50' } });
+    expect(onIndicatorSettingsChange).toHaveBeenCalledWith(expect.objectContaining({ emaPeriod: 50 }));
+  });
+
+  test('zooms the candlestick chart and selects the brushed dates', () => {
+    const candles = Array.from({ length: 40 }, (_, i) => ({
+      ...mockData[0],
+      date: new Date(2024, 0, i + 1),
+    }));
+    const onDateRangeSelect = jest.fn();
+    render(<AnalyticsDashboard {...defaultProps} data={candles} onDateRangeSelect={onDateRangeSelect} />);
+
+    expect(screen.getByText('BTCUSDT Price')).toBeInTheDocument();
+    expect(screen.getByText('40 of 40 candles')).toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: 'Zoom in' }));
+    expect(screen.getByText('20 of 40 candles')).toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: 'Pan right' }));
+
+    const Brush = jest.requireMock('recharts').Brush as jest.Mock;
+    const brushProps = Brush.mock.calls[Brush.mock.calls.length - 1][0];
+    expect(brushProps).toMatchObject({ startIndex: 15, endIndex: 34 });
+
+    act(() => brushProps.onDragEnd({ startIndex: 2, endIndex: 12 }));
+    expect(onDateRangeSelect).toHaveBeenCalledWith({ start: new Date(2024, 0, 3), end: new Date(2024, 0, 13) });
+    expect(screen.getByText('11 of 40 candles')).toBeInTheDocument();
+  });
 }); 
\ No newline at end of file
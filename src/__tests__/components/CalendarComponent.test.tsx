@@ -34,10 +34,11 @@ jest.mock('date-fns', () => ({
 
 import { format } from 'date-fns';
 import React from 'react';
-import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { render, screen, fireEvent, waitFor, within } from '@testing-library/react';
 import '@testing-library/jest-dom';
 import CalendarComponent from '../../components/CalendarComponent';
 import { ProcessedDayData, DateRange } from '../../types';
+import { DEFAULT_ANALYSIS_TIME, getTradingDate } from '../../utils/timezone';
 
 test('date-fns format mock works for different dates', () => {
   const d1 = new Date(2024, 0, 1);
@@ -61,7 +62,9 @@ const mockData: ProcessedDayData[] = [
     liquidity: 0.8,
     dayOfWeek: 1,
     weekOfYear: 1,
-    monthOfYear: 1
+    monthOfYear: 1,
+    hourOfDay: 0,
+    session: 'asia'
   },
   {
     date: new Date(2024, 0, 2),
@@ -75,7 +78,9 @@ const mockData: ProcessedDayData[] = [
     liquidity: 0.9,
     dayOfWeek: 2,
     weekOfYear: 1,
-    monthOfYear: 1
+    monthOfYear: 1,
+    hourOfDay: 0,
+    session: 'asia'
   },
   {
     date: new Date(2024, 0, 3),
@@ -89,7 +94,9 @@ const mockData: ProcessedDayData[] = [
     liquidity: 0.7,
     dayOfWeek: 3,
     weekOfYear: 1,
-    monthOfYear: 1
+    monthOfYear: 1,
+    hourOfDay: 0,
+    session: 'asia'
   }
 ];
 
@@ -245,7 +252,9 @@ describe('CalendarComponent', () => {
         liquidity: 0,
         dayOfWeek: 1,
         weekOfYear: 1,
-        monthOfYear: 1
+        monthOfYear: 1,
+        hourOfDay: 0,
+        session: 'asia'
       }
     ];
     
@@ -268,7 +277,9 @@ describe('CalendarComponent', () => {
         liquidity: 0.8,
         dayOfWeek: 1,
         weekOfYear: 1,
-        monthOfYear: 1
+        monthOfYear: 1,
+        hourOfDay: 0,
+        session: 'asia'
       }
     ];
     
@@ -346,7 +357,9 @@ describe('CalendarComponent', () => {
         liquidity: 0.8,
         dayOfWeek: 4,
         weekOfYear: 9,
-        monthOfYear: 2
+        monthOfYear: 2,
+        hourOfDay: 0,
+        session: 'asia'
       }
     ];
     
@@ -369,7 +382,9 @@ describe('CalendarComponent', () => {
         liquidity: 0.8,
         dayOfWeek: 0,
         weekOfYear: 53,
-        monthOfYear: 12
+        monthOfYear: 12,
+        hourOfDay: 0,
+        session: 'asia'
       }
     ];
     
@@ -392,7 +407,9 @@ describe('CalendarComponent', () => {
         liquidity: 0.8,
         dayOfWeek: 1,
         weekOfYear: 1,
-        monthOfYear: 1
+        monthOfYear: 1,
+        hourOfDay: 0,
+        session: 'asia' as const
       }
     ];
 
@@ -421,6 +438,71 @@ describe('CalendarComponent', () => {
     });
   });
 
+  test('marks today\'s cell while its candle streams live', () => {
+    const today = { ...mockData[0], date: getTradingDate(new Date(), DEFAULT_ANALYSIS_TIME) };
+    const { rerender } = render(<CalendarComponent {...defaultProps} data={[today]} />);
+    expect(screen.queryByLabelText('Updating live')).not.toBeInTheDocument();
+
+    rerender(<CalendarComponent {...defaultProps} data={[today]} live />);
+    expect(screen.getByLabelText('Updating live')).toBeInTheDocument();
+  });
+
+  test('labels the volatility legend with the estimator and its boundaries', () => {
+    render(
+      <CalendarComponent
+        {...defaultProps}
+        volatility={{ estimator: 'parkinson', window: 20, annualize: false }}
+        volatilityThresholds={[0.31, 0.94]}
+      />
+    );
+    expect(screen.getByText('(Parkinson · 20 candles)')).toBeInTheDocument();
+    expect(screen.getByText('Low (<0.31%)')).toBeInTheDocument();
+    expect(screen.getByText('High (>0.94%)')).toBeInTheDocument();
+  });
+
+  test('shades drawdown episodes from peak to recovery', () => {
+    const now = new Date();
+    const day = (date: number) => new Date(now.getFullYear(), now.getMonth(), date);
+    const episode = {
+      peak: day(2),
+      trough: day(3),
+      recovery: day(4),
+      end: day(4),
+      peakClose: 100,
+      troughClose: 80,
+      depth: -20,
+      duration: 2,
+      recoveryDays: 1,
+    };
+    render(<CalendarComponent {...defaultProps} drawdowns={[episode]} />);
+
+    const shades = screen.getAllByTestId('drawdown-shade');
+    expect(shades).toHaveLength(3);
+    expect(shades[0]).toHaveAttribute('title', 'Drawdown #1: -20.0% from the Jan 01, 2024 peak');
+    expect(screen.getByText('1 largest drawdown, peak to recovery')).toBeInTheDocument();
+  });
+
+  test('overlays the volatility or trend regime on each day', () => {
+    const now = new Date();
+    const days = [2, 3].map(date => ({ ...mockData[0], date: new Date(now.getFullYear(), now.getMonth(), date) }));
+    const regimes = [
+      { date: days[0].date, volatility: 'high' as const, trend: 'bull' as const, level: 6, percentile: 0.9 },
+      { date: days[1].date, volatility: 'low' as const, trend: 'bull' as const, level: 2, percentile: 0.1 },
+    ];
+    render(<CalendarComponent {...defaultProps} data={days} regimes={regimes} />);
+
+    expect(screen.queryAllByTestId('regime-marker')).toHaveLength(0);
+    const overlay = screen.getByRole('group', { name: 'Regime overlay' });
+    fireEvent.click(within(overlay).getByRole('button', { name: 'Volatility' }));
+    expect(screen.getAllByTestId('regime-marker').map(marker => marker.getAttribute('title')))
+      .toEqual(['High volatility regime', 'Low volatility regime']);
+
+    fireEvent.click(within(overlay).getByRole('button', { name: 'Trend' }));
+    expect(within(overlay).getByRole('button', { name: 'Trend' })).toHaveAttribute('aria-pressed', 'true');
+    expect(screen.getAllByTestId('regime-marker').map(marker => marker.getAttribute('title')))
+      .toEqual(['Bull regime', 'Bull regime']);
+  });
+
   test('displays metrics correctly in calendar cells', () => {
     const mockData = [
       {
@@ -435,7 +517,9 @@ describe('CalendarComponent', () => {
         liquidity: 0.8,
         dayOfWeek: 1,
         weekOfYear: 1,
-        monthOfYear: 1
+        monthOfYear: 1,
+        hourOfDay: 0,
+        session: 'asia' as const
       }
     ];
 
@@ -0,0 +1,81 @@
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import CorrelationAnalysis from '../../components/CorrelationAnalysis';
+import { ColorScheme, ProcessedDayData } from '../../types';
+
+const colorScheme: ColorScheme = {
+  name: 'Default',
+  volatility: { low: '#10b981', medium: '#f59e0b', high: '#ef4444' },
+  performance: { positive: '#10b981', negative: '#ef4444', neutral: '#6b7280' },
+  liquidity: { high: '#3b82f6', medium: '#6366f1', low: '#8b5cf6' },
+};
+
+// 2023 daily candles compounding the given returns
+const toCandles = (returns: number[]): ProcessedDayData[] => {
+  let close = 100;
+  return returns.map((r, i) => {
+    close *= 1 + r;
+    const date = new Date(2023, 0, 1 + i);
+    return {
+      date,
+      open: close,
+      high: close,
+      low: close,
+      close,
+      volume: 1000,
+      volatility: 1,
+      performance: r * 100,
+      liquidity: 0.5,
+      dayOfWeek: date.getDay(),
+      weekOfYear: 1,
+      monthOfYear: date.getMonth() + 1,
+      hourOfDay: 0,
+      session: 'asia',
+    };
+  });
+};
+
+const btcReturns = Array.from({ length: 365 }, (_, i) => ((i * 7919) % 101 - 50) / 2500);
+// Tracks BTC in the first half of the year and drifts on its own afterwards
+const ethReturns = btcReturns.map((r, i) => (i < 181 ? r : ((i * 104729) % 97 - 48) / 2500));
+
+const renderAnalysis = (onSymbolsLoad = jest.fn()) => render(
+  <CorrelationAnalysis
+    symbol="ETHUSDT"
+    marketData={toCandles(ethReturns)}
+    symbols={['BTCUSDT', 'ETHUSDT', 'SOLUSDT']}
+    correlationData={new Map([['BTCUSDT', toCandles(btcReturns)]])}
+    onSymbolsLoad={onSymbolsLoad}
+    colorScheme={colorScheme}
+  />
+);
+
+describe('CorrelationAnalysis', () => {
+  test('shows the matrix and whether the correlation changes by month', () => {
+    const onSymbolsLoad = jest.fn();
+    renderAnalysis(onSymbolsLoad);
+
+    expect(screen.getByRole('grid', { name: 'Correlation matrix' })).toBeInTheDocument();
+    expect(screen.getByLabelText('ETHUSDT vs ETHUSDT: 1.00 (364 returns)')).toBeInTheDocument();
+    expect(screen.getByLabelText(/^ETHUSDT vs BTCUSDT: 0\.\d\d \(364 returns\)$/)).toBeInTheDocument();
+    expect(screen.getByText(/correlation changes by month/)).toBeInTheDocument();
+    expect(screen.getByRole('row', { name: /January 30 1\.00/ })).toBeInTheDocument();
+    expect(onSymbolsLoad).not.toHaveBeenCalled();
+
+    fireEvent.click(screen.getByRole('button', { name: 'By weekday' }));
+    expect(screen.getByRole('columnheader', { name: 'Weekday' })).toBeInTheDocument();
+  });
+
+  test('fetches a symbol when it is added and drops it when removed', () => {
+    const onSymbolsLoad = jest.fn();
+    renderAnalysis(onSymbolsLoad);
+
+    fireEvent.change(screen.getByLabelText('Add symbol'), { target: { value: 'SOLUSDT' } });
+    expect(onSymbolsLoad).toHaveBeenCalledWith(['SOLUSDT']);
+    expect(screen.getByLabelText('SOLUSDT vs BTCUSDT: – (0 returns)')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Remove SOLUSDT' }));
+    expect(screen.queryByLabelText(/SOLUSDT vs/)).not.toBeInTheDocument();
+  });
+});
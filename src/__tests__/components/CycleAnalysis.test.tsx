@@ -0,0 +1,45 @@
+import React from 'react';
+import { render, screen, fireEvent, within } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import CycleAnalysis from '../../components/CycleAnalysis';
+import { ProcessedDayData } from '../../types';
+
+// A year of daily candles whose returns follow a weekly cycle
+const data: ProcessedDayData[] = Array.from({ length: 364 }, (_, i) => {
+  const date = new Date(2024, 0, 1 + i);
+  return {
+    date,
+    open: 100,
+    high: 100,
+    low: 100,
+    close: 100,
+    volume: 1000,
+    volatility: 1,
+    performance: Math.sin((2 * Math.PI * i) / 7) + (((i * 37) % 11) - 5) / 5,
+    liquidity: 0.5,
+    dayOfWeek: date.getDay(),
+    weekOfYear: 1,
+    monthOfYear: 1,
+    hourOfDay: 0,
+    session: 'asia',
+  };
+});
+
+describe('CycleAnalysis', () => {
+  test('lists the dominant periods of the chosen series', () => {
+    render(<CycleAnalysis data={data} />);
+
+    const periods = screen.getByRole('table', { name: 'Dominant periods' });
+    expect(within(periods).getByText('7.0 candles')).toBeInTheDocument();
+    expect(screen.getByText('ACF')).toBeInTheDocument();
+    expect(screen.getByText('Periodogram')).toBeInTheDocument();
+
+    fireEvent.click(within(screen.getByRole('group', { name: 'Cycle series' })).getByRole('button', { name: 'Volume' }));
+    expect(within(periods).getByText('No period stands out from red noise after correction')).toBeInTheDocument();
+  });
+
+  test('asks for more history on short samples', () => {
+    render(<CycleAnalysis data={data.slice(0, 10)} />);
+    expect(screen.getByText('At least 32 candles are needed to search for cycles (10 loaded).')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,146 @@
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import DataComparison from '../../components/DataComparison';
+import { DataComparison as DataComparisonType, ProcessedDayData } from '../../types';
+
+const candle = (year: number, month: number, day: number, open: number, close: number): ProcessedDayData => ({
+  date: new Date(year, month - 1, day),
+  open,
+  high: Math.max(open, close) + 1,
+  low: Math.min(open, close) - 1,
+  close,
+  volume: 1500,
+  volatility: 2,
+  performance: ((close - open) / open) * 100,
+  liquidity: 0.5,
+  dayOfWeek: new Date(year, month - 1, day).getDay(),
+  weekOfYear: 1,
+  monthOfYear: month,
+  hourOfDay: 0,
+  session: 'asia',
+});
+
+const marketData = [
+  candle(2022, 1, 1, 100, 110), candle(2022, 6, 1, 110, 90),
+  candle(2023, 1, 1, 100, 104), candle(2023, 6, 1, 104, 130),
+];
+
+const renderComparison = (props: Partial<React.ComponentProps<typeof DataComparison>> = {}) => render(
+  <DataComparison
+    comparisons={[]}
+    marketData={marketData}
+    comparisonData={new Map([['SOLUSDT_1d', [candle(2021, 1, 1, 10, 12)]]])}
+    symbols={['ETHUSDT', 'SOLUSDT']}
+    symbol="ETHUSDT"
+    onComparisonCreate={jest.fn()}
+    onComparisonDelete={jest.fn()}
+    {...props}
+  />
+);
+
+describe('DataComparison', () => {
+  test('overlays each year of the loaded symbol with an average line', () => {
+    renderComparison();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Year over year' }));
+
+    expect(screen.queryByText('New Comparison')).not.toBeInTheDocument();
+    expect(screen.getByRole('button', { name: /2022.*-10\.00%/ })).toHaveAttribute('aria-pressed', 'true');
+    expect(screen.getByRole('button', { name: /2023.*\+30\.00%/ })).toBeInTheDocument();
+    // Two years and the average
+    expect(screen.getAllByTestId('line')).toHaveLength(3);
+    expect(screen.getByText(/over 2 complete years/)).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: /2022/ }));
+    expect(screen.getAllByTestId('line')).toHaveLength(2);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Trading day' }));
+    expect(screen.getByRole('button', { name: 'Trading day' })).toHaveAttribute('aria-pressed', 'true');
+  });
+
+  test('overlays a fetched comparison dataset and moves the anchor', () => {
+    renderComparison();
+    fireEvent.click(screen.getByRole('button', { name: 'Year over year' }));
+
+    fireEvent.change(screen.getByLabelText('Year-over-year symbol'), { target: { value: 'SOLUSDT_1d' } });
+    expect(screen.getByRole('button', { name: /2021.*\+20\.00%/ })).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: /2022/ })).not.toBeInTheDocument();
+
+    fireEvent.change(screen.getByLabelText('Year-over-year symbol'), { target: { value: 'market' } });
+    fireEvent.change(screen.getByLabelText('Anchor month'), { target: { value: '6' } });
+    // June to May years: January 2022 belongs to the year starting June 2021
+    expect(screen.getByRole('button', { name: /2021 \(partial\)/ })).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: /2023.*\+25\.00%/ })).toBeInTheDocument();
+  });
+
+  test('rebases datasets, summarises each one and plots the ratio of a pair', () => {
+    const comparison: DataComparisonType = {
+      id: 'c1',
+      name: 'Majors',
+      datasets: [
+        { symbol: 'ETHUSDT', timeframe: '1d', dateRange: { start: new Date(2022, 0, 1), end: new Date(2023, 11, 31) }, color: '#3b82f6' },
+        { symbol: 'SOLUSDT', timeframe: '1d', dateRange: { start: new Date(2021, 0, 1), end: new Date(2023, 11, 31) }, color: '#ef4444' },
+      ],
+      createdAt: new Date(2024, 0, 1),
+    };
+    render(
+      <DataComparison
+        comparisons={[comparison]}
+        marketData={marketData}
+        comparisonData={new Map([['SOLUSDT_1d', [candle(2021, 1, 1, 10, 12), candle(2022, 1, 1, 12, 15), candle(2023, 6, 1, 15, 30)]]])}
+        symbols={['ETHUSDT', 'SOLUSDT']}
+        onComparisonCreate={jest.fn()}
+        onComparisonDelete={jest.fn()}
+      />
+    );
+
+    expect(screen.getByRole('button', { name: 'Rebased' })).toHaveAttribute('aria-pressed', 'true');
+    expect(screen.getAllByTestId('line')).toHaveLength(2);
+    // Both rows start on 1 January 2022, the first date the two datasets share
+    expect(screen.getByRole('row', { name: /ETHUSDT \(1d\) \+18\.18%/ })).toBeInTheDocument();
+    expect(screen.getByRole('row', { name: /SOLUSDT \(1d\) \+100\.00%/ })).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Ratio' }));
+    expect(screen.getByLabelText('First dataset')).toHaveValue('dataset0');
+    expect(screen.getByLabelText('Second dataset')).toHaveValue('dataset1');
+    expect(screen.getAllByTestId('line')).toHaveLength(1);
+
+    fireEvent.change(screen.getByLabelText('Second dataset'), { target: { value: 'dataset0' } });
+    expect(screen.getByText('Pick two different datasets with overlapping dates')).toBeInTheDocument();
+  });
+
+  test('names the provider of the loaded market data in the header', () => {
+    renderComparison({ providerName: 'Binance' });
+
+    expect(screen.getByText(/Compare multiple datasets side by side • Source: Binance/)).toBeInTheDocument();
+  });
+
+  test('names the provider on the year-over-year chart', () => {
+    renderComparison({ providerName: 'Binance' });
+    fireEvent.click(screen.getByRole('button', { name: 'Year over year' }));
+
+    expect(screen.getByText('Source: Binance')).toBeInTheDocument();
+  });
+
+  test('watermarks charts while they plot synthetic market data', () => {
+    const comparison: DataComparisonType = {
+      id: 'c1',
+      name: 'Majors',
+      datasets: [
+        { symbol: 'ETHUSDT', timeframe: '1d', dateRange: { start: new Date(2022, 0, 1), end: new Date(2023, 11, 31) }, color: '#3b82f6' },
+      ],
+      createdAt: new Date(2024, 0, 1),
+    };
+    renderComparison({ comparisons: [comparison], synthetic: true });
+    // ETHUSDT was never fetched, so the chart falls back to the generated market data
+    expect(screen.getByTestId('synthetic-watermark')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Year over year' }));
+    expect(screen.getByTestId('synthetic-watermark')).toBeInTheDocument();
+
+    // A fetched dataset is real data
+    fireEvent.change(screen.getByLabelText('Year-over-year symbol'), { target: { value: 'SOLUSDT_1d' } });
+    expect(screen.queryByTestId('synthetic-watermark')).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,73 @@
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import HourlyHeatmap from '../../components/HourlyHeatmap';
+import { ColorScheme, ProcessedDayData } from '../../types';
+
+const colorScheme: ColorScheme = {
+  name: 'Default',
+  volatility: { low: '#10b981', medium: '#f59e0b', high: '#ef4444' },
+  performance: { positive: '#10b981', negative: '#ef4444', neutral: '#6b7280' },
+  liquidity: { high: '#3b82f6', medium: '#6366f1', low: '#8b5cf6' },
+};
+
+const candle = (dayOfWeek: number, hourOfDay: number, performance: number): ProcessedDayData => ({
+  date: new Date(Date.UTC(2024, 0, 1 + ((dayOfWeek + 6) % 7), hourOfDay)),
+  open: 100,
+  high: 102,
+  low: 99,
+  close: 100 + performance,
+  volume: 500,
+  volatility: 3,
+  performance,
+  liquidity: 0.0005,
+  dayOfWeek,
+  weekOfYear: 1,
+  monthOfYear: 1,
+  hourOfDay,
+  session: hourOfDay < 7 ? 'asia' : hourOfDay < 13 ? 'europe' : hourOfDay < 21 ? 'us' : 'off-hours',
+});
+
+const data = [candle(1, 9, 1.5), candle(1, 9, 0.5), candle(3, 14, -2)];
+
+describe('HourlyHeatmap', () => {
+  test('shows the average of each hour and weekday', () => {
+    render(
+      <HourlyHeatmap data={data} interval="1h" timeZone="UTC" onTimeZoneChange={jest.fn()} colorScheme={colorScheme} />
+    );
+
+    expect(screen.getByRole('grid', { name: 'Hour by weekday heatmap' })).toBeInTheDocument();
+    expect(screen.getByLabelText('Mon 09:00: +1.000% (2 candles)')).toBeInTheDocument();
+    expect(screen.getByLabelText('Wed 14:00: -2.000% (1 candles)')).toBeInTheDocument();
+    expect(screen.getByLabelText('Sun 00:00: no data')).toBeInTheDocument();
+  });
+
+  test('switches the metric shown', () => {
+    render(
+      <HourlyHeatmap data={data} interval="1h" timeZone="UTC" onTimeZoneChange={jest.fn()} colorScheme={colorScheme} />
+    );
+
+    fireEvent.click(screen.getByRole('button', { name: 'Volume' }));
+
+    expect(screen.getByLabelText('Mon 09:00: 500 (2 candles)')).toBeInTheDocument();
+  });
+
+  test('reports timezone changes', () => {
+    const onTimeZoneChange = jest.fn();
+    render(
+      <HourlyHeatmap data={data} interval="1h" timeZone="UTC" onTimeZoneChange={onTimeZoneChange} colorScheme={colorScheme} />
+    );
+
+    fireEvent.change(screen.getByLabelText('Timezone'), { target: { value: 'Asia/Tokyo' } });
+
+    expect(onTimeZoneChange).toHaveBeenCalledWith('Asia/Tokyo');
+  });
+
+  test('asks for an intraday timeframe when daily candles are loaded', () => {
+    render(
+      <HourlyHeatmap data={data} interval="1d" timeZone="UTC" onTimeZoneChange={jest.fn()} colorScheme={colorScheme} />
+    );
+
+    expect(screen.getByText(/needs an intraday timeframe/)).toBeInTheDocument();
+  });
+});
@@ -2,12 +2,24 @@ import React from 'react';
 import { render, screen, fireEvent, waitFor, act } from '@testing-library/react';
 import '@testing-library/jest-dom';
 import MarketSeasonalityExplorer from '../../components/MarketSeasonalityExplorer';
+import { RateLimitError } from '../../services/apiErrors';
+import { RetryNotice } from '../../types';
 
 jest.mock('../../services/binanceApi', () => ({
+  id: 'binance',
+  name: 'Binance',
   getKlineData: jest.fn().mockResolvedValue([
     [1640995200000, '50000', '51000', '49000', '50500', '1000000', 1640995200000, '0.1', 100, '50000000', '0.1'],
     [1641081600000, '50500', '52000', '50000', '51500', '1200000', 1641081600000, '0.2', 120, '60000000', '0.2']
   ]),
+  getCachedKlineHistory: jest.fn().mockResolvedValue({
+    klines: [
+      [1640995200000, '50000', '51000', '49000', '50500', '1000000', 1640995200000, '0.1', 100, '50000000', '0.1'],
+      [1641081600000, '50500', '52000', '50000', '51500', '1200000', 1641081600000, '0.2', 120, '60000000', '0.2']
+    ],
+    cache: { source: 'cache', cachedCandles: 2, fetchedCandles: 0, offline: false }
+  }),
+  clearCandleCache: jest.fn().mockResolvedValue(undefined),
   getSymbols: jest.fn().mockResolvedValue(['BTCUSDT', 'ETHUSDT', 'BNBUSDT']),
   processKlineData: jest.fn().mockReturnValue([
     {
@@ -42,7 +54,10 @@ jest.mock('../../services/binanceApi', () => ({
     trends: []
   }),
   connectWebSocket: jest.fn(),
-  disconnectWebSocket: jest.fn()
+  disconnectWebSocket: jest.fn(),
+  connectStream: jest.fn(),
+  disconnectStream: jest.fn(),
+  setStreamConfig: jest.fn()
 }));
 
 describe('MarketSeasonalityExplorer', () => {
@@ -80,6 +95,70 @@ describe('MarketSeasonalityExplorer', () => {
     expect(screen.getByText('Metrics')).toBeInTheDocument();
   });
 
+  test('displays history range buttons', async () => {
+    await act(async () => {
+      render(<MarketSeasonalityExplorer />);
+    });
+
+    expect(screen.getByText('History')).toBeInTheDocument();
+    expect(screen.getByText('5Y')).toBeInTheDocument();
+  });
+
+  test('requests longer history when a range is selected', async () => {
+    await act(async () => {
+      render(<MarketSeasonalityExplorer />);
+    });
+
+    await act(async () => {
+      fireEvent.click(screen.getByText('5Y'));
+    });
+
+    const mockBinanceApi = jest.requireMock('../../services/binanceApi');
+    const [, , startTime, endTime] = mockBinanceApi.getCachedKlineHistory.mock.calls.at(-1);
+    expect(endTime - startTime).toBe(5 * 365 * 24 * 60 * 60 * 1000);
+  });
+
+  test('shows cache status and clears the cache', async () => {
+    await act(async () => {
+      render(<MarketSeasonalityExplorer />);
+    });
+
+    expect(screen.getByText('Served from cache (2 candles)')).toBeInTheDocument();
+
+    await act(async () => {
+      fireEvent.click(screen.getByTitle('Clear cached candles'));
+    });
+
+    const mockBinanceApi = jest.requireMock('../../services/binanceApi');
+    expect(mockBinanceApi.clearCandleCache).toHaveBeenCalled();
+  });
+
+  test('lists market data providers and labels the calendar with the active one', async () => {
+    await act(async () => {
+      render(<MarketSeasonalityExplorer />);
+    });
+
+    expect(screen.getByLabelText('Data source')).toHaveValue('binance');
+    expect(screen.getByRole('option', { name: 'Binance' })).toBeInTheDocument();
+    expect(screen.getByText('Source: Binance')).toBeInTheDocument();
+  });
+
+  test('buckets days in UTC until another analysis timezone is chosen', async () => {
+    await act(async () => {
+      render(<MarketSeasonalityExplorer />);
+    });
+
+    expect(screen.getByLabelText('Analysis timezone')).toHaveValue('UTC');
+    expect(screen.getByText('Days in UTC')).toBeInTheDocument();
+
+    await act(async () => {
+      fireEvent.change(screen.getByLabelText('Analysis timezone'), { target: { value: 'Asia/Tokyo' } });
+      fireEvent.change(screen.getByLabelText('Trading day starts at'), { target: { value: '9' } });
+    });
+
+    expect(screen.getByText('Days in Tokyo, day starts 09:00')).toBeInTheDocument();
+  });
+
   test('displays timeframe buttons', async () => {
     await act(async () => {
       render(<MarketSeasonalityExplorer />);
@@ -123,6 +202,25 @@ describe('MarketSeasonalityExplorer', () => {
     await waitFor(() => expect(weeklyButton).toHaveClass('bg-blue-100'));
   });
 
+  test('loads a capped window of intraday candles for the hourly view', async () => {
+    const mockBinanceApi = jest.requireMock('../../services/binanceApi');
+    await act(async () => {
+      render(<MarketSeasonalityExplorer />);
+    });
+
+    await act(async () => {
+      fireEvent.click(screen.getByText('1m'));
+    });
+    await act(async () => {
+      fireEvent.click(screen.getByText('Hourly'));
+    });
+
+    const [, interval, startTime, endTime] = mockBinanceApi.getCachedKlineHistory.mock.calls.at(-1);
+    expect(interval).toBe('1m');
+    expect(endTime - startTime).toBe(7 * 24 * 60 * 60 * 1000);
+    expect(screen.getByRole('grid', { name: 'Hour by weekday heatmap' })).toBeInTheDocument();
+  });
+
   test('handles metrics selection', async () => {
     await act(async () => {
       render(<MarketSeasonalityExplorer />);
@@ -178,7 +276,7 @@ describe('MarketSeasonalityExplorer', () => {
 
   test('handles error state', async () => {
     const mockBinanceApi = require('../../services/binanceApi');
-    mockBinanceApi.getKlineData.mockRejectedValueOnce(new Error('API Error'));
+    mockBinanceApi.getCachedKlineHistory.mockRejectedValueOnce(new Error('API Error'));
     
     await act(async () => {
       render(<MarketSeasonalityExplorer />);
@@ -187,11 +285,52 @@ describe('MarketSeasonalityExplorer', () => {
     await waitFor(() => {
       expect(screen.getByText('Market Seasonality Explorer')).toBeInTheDocument();
     });
+    expect(screen.getByText('Failed to load market data')).toBeInTheDocument();
+    expect(screen.getByText('Binance: API Error')).toBeInTheDocument();
+    expect(screen.getByLabelText('Data source: Error')).toBeInTheDocument();
+    expect(screen.queryByRole('grid', { name: 'Calendar' })).not.toBeInTheDocument();
+  });
+
+  test('names the kind of failure when the provider rate limits requests', async () => {
+    const mockBinanceApi = jest.requireMock('../../services/binanceApi');
+    mockBinanceApi.getCachedKlineHistory.mockRejectedValueOnce(
+      new RateLimitError('Fetching klines: Too many requests', 30000)
+    );
+
+    await act(async () => {
+      render(<MarketSeasonalityExplorer />);
+    });
+
+    expect(screen.getByText('Binance is rate limiting requests. Try again in 30s.')).toBeInTheDocument();
+    expect(screen.getByLabelText('Data source: Rate limited')).toBeInTheDocument();
+  });
+
+  test('shows a request the provider is retrying while data loads', async () => {
+    const mockBinanceApi = jest.requireMock('../../services/binanceApi');
+    let notify: (notice: RetryNotice) => void = () => {};
+    mockBinanceApi.onRetry = jest.fn((listener: (notice: RetryNotice) => void) => {
+      notify = listener;
+      return jest.fn();
+    });
+    let finish!: (result: unknown) => void;
+    mockBinanceApi.getCachedKlineHistory.mockReturnValueOnce(new Promise(resolve => { finish = resolve; }));
+
+    await act(async () => {
+      render(<MarketSeasonalityExplorer />);
+    });
+    act(() => notify({ context: 'Fetching klines', attempt: 1, delayMs: 2000, errorKind: 'rate-limited' }));
+    expect(screen.getByText(/Loading market data.*Rate limited, retry 1 in 2s/)).toBeInTheDocument();
+
+    await act(async () => {
+      finish({ klines: [], cache: { source: 'network', cachedCandles: 0, fetchedCandles: 0, offline: false } });
+    });
+    expect(screen.queryByText(/retry 1 in 2s/)).not.toBeInTheDocument();
+    delete mockBinanceApi.onRetry;
   });
 
   test('handles empty data response', async () => {
     const mockBinanceApi = require('../../services/binanceApi');
-    mockBinanceApi.getKlineData.mockResolvedValueOnce([]);
+    mockBinanceApi.getCachedKlineHistory.mockResolvedValueOnce({ klines: [], cache: { source: 'network', cachedCandles: 0, fetchedCandles: 0, offline: false } });
     
     await act(async () => {
       render(<MarketSeasonalityExplorer />);
@@ -200,6 +339,33 @@ describe('MarketSeasonalityExplorer', () => {
     await waitFor(() => {
       expect(screen.getByText('Market Seasonality Explorer')).toBeInTheDocument();
     });
+    expect(screen.getByText('No market data returned for BTCUSDT from Binance')).toBeInTheDocument();
+  });
+
+  test('shows synthetic data only after opting in and watermarks it', async () => {
+    const mockBinanceApi = jest.requireMock('../../services/binanceApi');
+    mockBinanceApi.getCachedKlineHistory.mockRejectedValueOnce(new Error('API Error'));
+
+    await act(async () => {
+      render(<MarketSeasonalityExplorer />);
+    });
+
+    await act(async () => {
+      fireEvent.click(screen.getByText('Use synthetic data'));
+    });
+
+    expect(screen.getByLabelText('Data source: Synthetic')).toBeInTheDocument();
+    expect(screen.getByTestId('synthetic-watermark')).toBeInTheDocument();
+    expect(screen.getByText('Source: Synthetic data')).toBeInTheDocument();
+    expect(mockBinanceApi.detectAllPatterns).not.toHaveBeenCalled();
+  });
+
+  test('reports cached data in the header badge', async () => {
+    await act(async () => {
+      render(<MarketSeasonalityExplorer />);
+    });
+
+    expect(screen.getByLabelText('Data source: Cached')).toBeInTheDocument();
   });
 
   test('handles WebSocket connection', async () => {
@@ -210,6 +376,24 @@ describe('MarketSeasonalityExplorer', () => {
     expect(screen.getByText('Market Seasonality Explorer')).toBeInTheDocument();
   });
 
+  test('toggles live updates from the header indicator', async () => {
+    const mockBinanceApi = jest.requireMock('../../services/binanceApi');
+    await act(async () => {
+      render(<MarketSeasonalityExplorer />);
+    });
+
+    const toggle = screen.getByLabelText('Live updates: off');
+    expect(toggle).toHaveAttribute('aria-pressed', 'false');
+    expect(mockBinanceApi.setStreamConfig).toHaveBeenCalledWith(expect.objectContaining({ autoReconnect: true, maxRetries: 5 }));
+
+    await act(async () => {
+      fireEvent.click(toggle);
+    });
+
+    await waitFor(() => expect(mockBinanceApi.connectStream).toHaveBeenCalledWith(['BTCUSDT'], expect.any(Function)));
+    expect(screen.getByLabelText('Live updates: Connecting')).toHaveAttribute('aria-pressed', 'true');
+  });
+
   test('handles real-time data updates', async () => {
     await act(async () => {
       render(<MarketSeasonalityExplorer />);
@@ -242,6 +426,69 @@ describe('MarketSeasonalityExplorer', () => {
     expect(alertsButton).toBeInTheDocument();
   });
 
+  test('triggers a volatility alert on the daily history from a 1m stream candle', async () => {
+    const mockBinanceApi = jest.requireMock('../../services/binanceApi');
+    const originalNotification = window.Notification;
+    const notify = jest.fn();
+    Object.assign(window, { Notification: Object.assign(notify, { permission: 'granted' }) });
+    await act(async () => {
+      render(<MarketSeasonalityExplorer />);
+    });
+
+    // The daily candle spans 4% of its open; the streamed 1m candle barely moves
+    await act(async () => {
+      fireEvent.click(screen.getByText('Alerts'));
+    });
+    fireEvent.click(screen.getByText('New Alert'));
+    fireEvent.change(screen.getByDisplayValue('0'), { target: { value: '3' } });
+    fireEvent.click(screen.getByText('Create Alert'));
+    await act(async () => {
+      fireEvent.click(screen.getByLabelText('Live updates: off'));
+    });
+    await waitFor(() => expect(mockBinanceApi.connectStream).toHaveBeenCalled());
+
+    const onMessage = mockBinanceApi.connectStream.mock.calls.at(-1)[1];
+    act(() => {
+      onMessage({
+        type: 'kline',
+        symbol: 'BTCUSDT',
+        timestamp: 1641081600000,
+        data: { open: 50500, high: 50510, low: 50490, close: 50500, volume: 3, closed: 0 }
+      });
+    });
+
+    expect(notify).toHaveBeenCalledWith('Market Alert', expect.objectContaining({ body: 'volatility above 3 for BTCUSDT' }));
+    Object.assign(window, { Notification: originalNotification });
+  });
+
+  test('keeps one stream connection while candles stream in', async () => {
+    const mockBinanceApi = jest.requireMock('../../services/binanceApi');
+    let onCandle: (message: unknown) => void = () => undefined;
+    mockBinanceApi.subscribeStream = jest.fn((subscription: { type: string }, listener: (message: unknown) => void) => {
+      if (subscription.type === 'kline') onCandle = listener;
+      return jest.fn();
+    });
+    mockBinanceApi.mergeStreamedCandle = jest.fn((candles: unknown[]) => [...candles]);
+    await act(async () => {
+      render(<MarketSeasonalityExplorer />);
+    });
+    await act(async () => {
+      fireEvent.click(screen.getByLabelText('Live updates: off'));
+    });
+    await waitFor(() => expect(mockBinanceApi.connectStream).toHaveBeenCalledTimes(1));
+
+    for (let tick = 0; tick < 3; tick++) {
+      act(() => {
+        onCandle({ type: 'kline', symbol: 'BTCUSDT', timestamp: 1641081600000, data: { open: 1, high: 2, low: 1, close: 2, volume: 1, closed: 0 } });
+      });
+    }
+
+    expect(mockBinanceApi.mergeStreamedCandle).toHaveBeenCalledTimes(3);
+    expect(mockBinanceApi.connectStream).toHaveBeenCalledTimes(1);
+    delete mockBinanceApi.subscribeStream;
+    delete mockBinanceApi.mergeStreamedCandle;
+  });
+
   test('handles comparison view', async () => {
     await act(async () => {
       render(<MarketSeasonalityExplorer />);
@@ -314,6 +561,6 @@ describe('MarketSeasonalityExplorer', () => {
     });
     
     const mockBinanceApi = require('../../services/binanceApi');
-    expect(mockBinanceApi.disconnectWebSocket).toHaveBeenCalled();
+    expect(mockBinanceApi.disconnectStream).toHaveBeenCalled();
   });
 }); 
\ No newline at end of file
@@ -0,0 +1,58 @@
+import React from 'react';
+import { render, screen, fireEvent, within } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import RegimeAnalysis from '../../components/RegimeAnalysis';
+import { ColorScheme, ProcessedDayData, RegimePoint } from '../../types';
+
+const colorScheme: ColorScheme = {
+  name: 'Default',
+  volatility: { low: '#10b981', medium: '#f59e0b', high: '#ef4444' },
+  performance: { positive: '#10b981', negative: '#ef4444', neutral: '#6b7280' },
+  liquidity: { high: '#3b82f6', medium: '#6366f1', low: '#8b5cf6' },
+};
+
+// Four calm days gaining 1%, then two wild days losing 3%
+const data: ProcessedDayData[] = Array.from({ length: 6 }, (_, i) => {
+  const date = new Date(2024, 0, 1 + i);
+  return {
+    date,
+    open: 100,
+    high: 100,
+    low: 100,
+    close: 100,
+    volume: 1000,
+    volatility: i < 4 ? 1 : 5,
+    performance: i < 4 ? 1 : -3,
+    liquidity: 0.5,
+    dayOfWeek: date.getDay(),
+    weekOfYear: 1,
+    monthOfYear: 1,
+    hourOfDay: 0,
+    session: 'asia',
+  };
+});
+
+const regimes: RegimePoint[] = data.map((candle, i) => ({
+  date: candle.date,
+  volatility: i < 4 ? 'low' : 'high',
+  trend: i < 4 ? 'bull' : 'bear',
+  level: candle.volatility,
+  percentile: i < 4 ? 0.2 : 0.9,
+}));
+
+describe('RegimeAnalysis', () => {
+  test('summarises each regime and the moves between them', () => {
+    render(<RegimeAnalysis data={data} regimes={regimes} colorScheme={colorScheme} />);
+
+    const stats = screen.getByRole('table', { name: 'Regime statistics' });
+    const high = within(stats).getByText('High volatility').closest('tr')!;
+    expect(within(high).getByText('-3.00%')).toBeInTheDocument();
+    expect(within(high).getByText('33%')).toBeInTheDocument();
+    expect(screen.getByLabelText('Low volatility to High volatility: 25% (1 moves)')).toBeInTheDocument();
+    expect(screen.getByLabelText('High volatility to High volatility: 100% (1 moves)')).toBeInTheDocument();
+
+    fireEvent.click(within(screen.getByRole('group', { name: 'Regime type' })).getByRole('button', { name: 'Trend' }));
+    expect(within(stats).getByText('Bear')).toBeInTheDocument();
+    expect(screen.getByLabelText('Bull to Bull: 75% (3 moves)')).toBeInTheDocument();
+  });
+});
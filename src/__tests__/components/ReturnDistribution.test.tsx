@@ -0,0 +1,61 @@
+import React from 'react';
+import { render, screen, fireEvent, within } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import ReturnDistribution from '../../components/ReturnDistribution';
+import { ColorScheme, ProcessedDayData } from '../../types';
+
+const colorScheme: ColorScheme = {
+  name: 'Default',
+  volatility: { low: '#10b981', medium: '#f59e0b', high: '#ef4444' },
+  performance: { positive: '#10b981', negative: '#ef4444', neutral: '#6b7280' },
+  liquidity: { high: '#3b82f6', medium: '#6366f1', low: '#8b5cf6' },
+};
+
+// 2023 daily candles with a spread of returns, larger on Mondays
+const data: ProcessedDayData[] = Array.from({ length: 120 }, (_, i) => {
+  const date = new Date(2023, 0, 2 + i);
+  const performance = ((i * 37) % 11 - 5) * (date.getDay() === 1 ? 1 : 0.2);
+  return {
+    date,
+    open: 100,
+    high: 100,
+    low: 100,
+    close: 100,
+    volume: 1000,
+    volatility: 1,
+    performance,
+    liquidity: 0.5,
+    dayOfWeek: date.getDay(),
+    weekOfYear: 1,
+    monthOfYear: date.getMonth() + 1,
+    hourOfDay: 0,
+    session: 'asia',
+  };
+});
+
+describe('ReturnDistribution', () => {
+  test('summarises the returns and compares weekday tails', () => {
+    render(<ReturnDistribution data={data} colorScheme={colorScheme} />);
+
+    const count = () => screen.getByText('Returns', { selector: 'dt' }).nextElementSibling;
+    expect(screen.getByText('Excess kurtosis')).toBeInTheDocument();
+    expect(count()).toHaveTextContent('120');
+    const risk = screen.getByRole('table', { name: 'Value at risk' });
+    expect(within(risk).getByText('Cornish-Fisher')).toBeInTheDocument();
+    expect(within(risk).getByText('CVaR 99%')).toBeInTheDocument();
+    expect(screen.queryByRole('table', { name: 'Tails by bucket' })).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'By weekday' }));
+    const tails = screen.getByRole('table', { name: 'Tails by bucket' });
+    expect(within(tails).getAllByRole('row')).toHaveLength(8);
+    expect(within(tails).getByText('Monday')).toBeInTheDocument();
+
+    fireEvent.change(screen.getByLabelText('Distribution of'), { target: { value: '1' } });
+    expect(count()).toHaveTextContent('18');
+  });
+
+  test('asks for more data with fewer than two returns', () => {
+    render(<ReturnDistribution data={data.slice(0, 1)} colorScheme={colorScheme} />);
+    expect(screen.getByText(/At least two candle returns/)).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,66 @@
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import SeasonalityHeatmap from '../../components/SeasonalityHeatmap';
+import { ColorScheme, ProcessedDayData } from '../../types';
+
+const colorScheme: ColorScheme = {
+  name: 'Default',
+  volatility: { low: '#10b981', medium: '#f59e0b', high: '#ef4444' },
+  performance: { positive: '#10b981', negative: '#ef4444', neutral: '#6b7280' },
+  liquidity: { high: '#3b82f6', medium: '#6366f1', low: '#8b5cf6' },
+};
+
+const candle = (year: number, month: number, day: number, open: number, close: number): ProcessedDayData => ({
+  date: new Date(year, month - 1, day),
+  open,
+  high: Math.max(open, close) + 1,
+  low: Math.min(open, close) - 1,
+  close,
+  volume: 1500,
+  volatility: 2,
+  performance: ((close - open) / open) * 100,
+  liquidity: 0.5,
+  dayOfWeek: new Date(year, month - 1, day).getDay(),
+  weekOfYear: 1,
+  monthOfYear: month,
+  hourOfDay: 0,
+  session: 'asia',
+});
+
+const data = [
+  candle(2022, 9, 1, 100, 95), candle(2022, 9, 30, 95, 90),
+  candle(2023, 9, 1, 100, 104), candle(2023, 9, 30, 104, 110),
+];
+
+describe('SeasonalityHeatmap', () => {
+  test('shows each year and month with summaries', () => {
+    render(<SeasonalityHeatmap data={data} colorScheme={colorScheme} />);
+
+    expect(screen.getByRole('grid', { name: 'Year by month heatmap' })).toBeInTheDocument();
+    expect(screen.getByLabelText('Sep 2022: -10.00% (2 candles)')).toBeInTheDocument();
+    expect(screen.getByLabelText('Sep 2023: +10.00% (2 candles)')).toBeInTheDocument();
+    // September is up in one of two years
+    expect(screen.getByText('50%')).toBeInTheDocument();
+  });
+
+  test('selects the dates of a clicked cell', () => {
+    const onDateRangeSelect = jest.fn();
+    render(<SeasonalityHeatmap data={data} colorScheme={colorScheme} onDateRangeSelect={onDateRangeSelect} />);
+
+    fireEvent.click(screen.getByLabelText('Sep 2023: +10.00% (2 candles)'));
+
+    expect(onDateRangeSelect).toHaveBeenCalledWith({ start: data[2].date, end: data[3].date });
+  });
+
+  test('switches metric and columns', () => {
+    render(<SeasonalityHeatmap data={data} colorScheme={colorScheme} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Volume' }));
+    expect(screen.getByLabelText('Sep 2022: 3.0K (2 candles)')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Year × Week' }));
+    expect(screen.getByRole('grid', { name: 'Year by week heatmap' })).toBeInTheDocument();
+    expect(screen.getByLabelText('W35 2022: 1.5K (1 candles)')).toBeInTheDocument();
+  });
+});
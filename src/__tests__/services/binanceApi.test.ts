@@ -1,4 +1,6 @@
 import { BinanceApiService } from '../../services/binanceApi';
+import { InvalidSymbolError, NetworkError, ParseError, RateLimitError } from '../../services/apiErrors';
+import { RequestScheduler } from '../../services/requestScheduler';
 
 jest.mock('axios', () => ({
   get: jest.fn(),
@@ -12,6 +14,7 @@ describe('BinanceApiService', () => {
 
   beforeEach(() => {
     service = BinanceApiService.getInstance();
+    service.setRetryPolicy({ maxRetries: 0, baseDelayMs: 0 });
     jest.clearAllMocks();
   });
 
@@ -71,12 +74,31 @@ describe('BinanceApiService', () => {
       );
     });
 
-    test('handles API errors', async () => {
+    test('throws a network error when the request gets no response', async () => {
       const axios = require('axios');
       axios.get.mockRejectedValue(new Error('Network error'));
 
-      const result = await service.getKlineData('BTCUSDT', '1d', 1640995200000, 1641081600000);
-      expect(result).toEqual([]);
+      await expect(service.getKlineData('BTCUSDT', '1d', 1640995200000, 1641081600000))
+        .rejects.toBeInstanceOf(NetworkError);
+    });
+
+    test('throws a parse error for a malformed response', async () => {
+      const axios = jest.requireMock('axios');
+      axios.get.mockResolvedValue({ data: { unexpected: true } });
+
+      await expect(service.getKlineData('BTCUSDT', '1d')).rejects.toBeInstanceOf(ParseError);
+    });
+
+    test('shares one request between identical concurrent calls', async () => {
+      const axios = jest.requireMock('axios');
+      axios.get.mockResolvedValue({ data: [] });
+
+      await Promise.all([
+        service.getKlineData('BTCUSDT', '1d', 1640995200000, 1641081600000),
+        service.getKlineData('BTCUSDT', '1d', 1640995200000, 1641081600000),
+      ]);
+
+      expect(axios.get).toHaveBeenCalledTimes(1);
     });
 
     test('handles empty response', async () => {
@@ -90,6 +112,107 @@ describe('BinanceApiService', () => {
     });
   });
 
+  describe('getKlineHistory', () => {
+    const rawKline = (openTime: number) => [openTime, '100', '110', '90', '105', '10', openTime + 999, '1000', 5, '5', '500'];
+
+    test('paginates past the per-request limit and removes duplicates at chunk edges', async () => {
+      const axios = jest.requireMock('axios');
+      axios.get
+        .mockResolvedValueOnce({ data: [rawKline(1000), rawKline(2000)] })
+        .mockResolvedValueOnce({ data: [rawKline(2000), rawKline(3000)] })
+        .mockResolvedValueOnce({ data: [rawKline(4000)] });
+
+      const result = await service.getKlineHistory('BTCUSDT', '1d', 1000, 5000, { chunkSize: 2 });
+
+      expect(result.map(k => k.openTime)).toEqual([1000, 2000, 3000, 4000]);
+      expect(axios.get).toHaveBeenCalledTimes(3);
+      expect(axios.get.mock.calls[1][1].params.startTime).toBe(2001);
+      expect(axios.get.mock.calls[2][1].params.startTime).toBe(3001);
+    });
+
+    test('reports progress for every chunk', async () => {
+      const axios = jest.requireMock('axios');
+      axios.get
+        .mockResolvedValueOnce({ data: [rawKline(1000), rawKline(2000)] })
+        .mockResolvedValueOnce({ data: [rawKline(3000)] });
+      const onProgress = jest.fn();
+
+      await service.getKlineHistory('BTCUSDT', '1d', 1000, 5000, { chunkSize: 2, onProgress });
+
+      expect(onProgress).toHaveBeenCalledWith(expect.objectContaining({ fetched: 2, requests: 1, done: false }));
+      expect(onProgress).toHaveBeenLastCalledWith(expect.objectContaining({ fetched: 3, requests: 2, done: true }));
+    });
+
+    test('stops when the signal is aborted', async () => {
+      const axios = jest.requireMock('axios');
+      const controller = new AbortController();
+      axios.get.mockImplementation(async () => {
+        controller.abort();
+        return { data: [rawKline(1000), rawKline(2000)] };
+      });
+
+      await expect(
+        service.getKlineHistory('BTCUSDT', '1d', 1000, 5000, { chunkSize: 2, signal: controller.signal })
+      ).rejects.toThrow('aborted');
+      expect(axios.get).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('getCachedKlineHistory', () => {
+    const DAY = 24 * 60 * 60 * 1000;
+    const rawKline = (openTime: number) => [openTime, '100', '110', '90', '105', '10', openTime + DAY - 1, '1000', 5, '5', '500'];
+
+    beforeEach(async () => {
+      await service.clearCandleCache();
+    });
+
+    test('downloads the full range on a cold cache', async () => {
+      const axios = jest.requireMock('axios');
+      axios.get.mockResolvedValueOnce({ data: [rawKline(0), rawKline(DAY)] });
+
+      const result = await service.getCachedKlineHistory('BTCUSDT', '1d', 0, 2 * DAY - 1);
+
+      expect(result.klines).toHaveLength(2);
+      expect(result.cache).toEqual({ source: 'network', cachedCandles: 0, fetchedCandles: 2, offline: false });
+    });
+
+    test('serves a cached range without hitting the network', async () => {
+      const axios = jest.requireMock('axios');
+      axios.get.mockResolvedValueOnce({ data: [rawKline(0), rawKline(DAY)] });
+      await service.getCachedKlineHistory('BTCUSDT', '1d', 0, 2 * DAY - 1);
+
+      const result = await service.getCachedKlineHistory('BTCUSDT', '1d', 0, 2 * DAY - 1);
+
+      expect(axios.get).toHaveBeenCalledTimes(1);
+      expect(result.cache).toEqual({ source: 'cache', cachedCandles: 2, fetchedCandles: 0, offline: false });
+    });
+
+    test('fetches only the missing tail', async () => {
+      const axios = jest.requireMock('axios');
+      axios.get.mockResolvedValueOnce({ data: [rawKline(0), rawKline(DAY)] });
+      await service.getCachedKlineHistory('BTCUSDT', '1d', 0, 2 * DAY - 1);
+      axios.get.mockResolvedValueOnce({ data: [rawKline(DAY), rawKline(2 * DAY)] });
+
+      const result = await service.getCachedKlineHistory('BTCUSDT', '1d', 0, 3 * DAY - 1);
+
+      expect(axios.get.mock.calls[1][1].params.startTime).toBe(DAY);
+      expect(result.klines.map(k => k.openTime)).toEqual([0, DAY, 2 * DAY]);
+      expect(result.cache).toEqual({ source: 'mixed', cachedCandles: 2, fetchedCandles: 1, offline: false });
+    });
+
+    test('serves cached candles when the top-up fails', async () => {
+      const axios = jest.requireMock('axios');
+      axios.get.mockResolvedValueOnce({ data: [rawKline(DAY), rawKline(2 * DAY)] });
+      await service.getCachedKlineHistory('BTCUSDT', '1d', DAY, 3 * DAY - 1);
+      axios.get.mockRejectedValue(new Error('Network error'));
+
+      const result = await service.getCachedKlineHistory('BTCUSDT', '1d', 0, 4 * DAY - 1);
+
+      expect(result.klines).toHaveLength(2);
+      expect(result.cache.offline).toBe(true);
+    });
+  });
+
   describe('getSymbols', () => {
     test('fetches symbols successfully', async () => {
       const mockResponse = {
@@ -134,8 +257,7 @@ describe('BinanceApiService', () => {
       const axios = require('axios');
       axios.get.mockRejectedValue(new Error('Network error'));
 
-      const result = await service.getSymbols();
-      expect(result).toEqual(['BTCUSDT', 'ETHUSDT', 'BNBUSDT', 'ADAUSDT', 'DOTUSDT']);
+      await expect(service.getSymbols()).rejects.toBeInstanceOf(NetworkError);
     });
   });
 
@@ -182,6 +304,34 @@ describe('BinanceApiService', () => {
       expect(result[0]).toHaveProperty('volatility');
       expect(result[0]).toHaveProperty('performance');
       expect(result[0]).toHaveProperty('liquidity');
+      expect(result[1]).toEqual(expect.objectContaining({
+        quoteVolume: 0.2,
+        trades: 120,
+        takerBuyVolume: 60000000,
+        takerBuyQuoteVolume: 0.2
+      }));
+    });
+
+    test('derives calendar fields in the analysis timezone', () => {
+      const kline = {
+        openTime: 1640995200000, // 2022-01-01 00:00 UTC, a Saturday
+        open: '100',
+        high: '110',
+        low: '90',
+        close: '105',
+        volume: '1000000',
+        closeTime: 1641081599999,
+        quoteAssetVolume: '0.1',
+        numberOfTrades: 100,
+        takerBuyBaseAssetVolume: '50000000',
+        takerBuyQuoteAssetVolume: '0.1',
+      };
+
+      const [utc] = service.processKlineData([kline]);
+      const [newYork] = service.processKlineData([kline], { timeZone: 'America/New_York', dayStartHour: 0 });
+
+      expect(utc).toEqual(expect.objectContaining({ dayOfWeek: 6, monthOfYear: 1, weekOfYear: 52, hourOfDay: 0 }));
+      expect(newYork).toEqual(expect.objectContaining({ dayOfWeek: 5, monthOfYear: 12, hourOfDay: 19 }));
     });
 
     test('handles empty data', () => {
@@ -249,7 +399,9 @@ describe('BinanceApiService', () => {
         liquidity: 0.8,
         dayOfWeek: new Date(2024, 0, 1 + i).getDay(),
         weekOfYear: Math.ceil((new Date(2024, 0, 1 + i).getTime() - new Date(2024, 0, 1).getTime()) / (7 * 24 * 60 * 60 * 1000)),
-        monthOfYear: 1
+        monthOfYear: 1,
+        hourOfDay: 0,
+        session: 'asia' as const
       }));
 
       const result = service.calculateTechnicalIndicators(data);
@@ -274,7 +426,9 @@ describe('BinanceApiService', () => {
           liquidity: 0.8,
           dayOfWeek: 1,
           weekOfYear: 1,
-          monthOfYear: 1
+          monthOfYear: 1,
+          hourOfDay: 0,
+          session: 'asia' as const
         }
       ];
 
@@ -285,6 +439,56 @@ describe('BinanceApiService', () => {
     });
   });
 
+  describe('mergeStreamedCandle', () => {
+    const history = () => service.processKlineData(Array.from({ length: 25 }, (_, i) => ({
+      openTime: Date.UTC(2024, 0, 1 + i),
+      open: '100',
+      high: '110',
+      low: '90',
+      close: String(100 + i),
+      volume: '1000',
+      closeTime: Date.UTC(2024, 0, 2 + i) - 1,
+      quoteAssetVolume: '0',
+      numberOfTrades: 0,
+      takerBuyBaseAssetVolume: '0',
+      takerBuyQuoteAssetVolume: '0'
+    })));
+    const klineMessage = (day: number, close: number) => ({
+      type: 'kline' as const,
+      symbol: 'BTCUSDT',
+      timestamp: Date.UTC(2024, 0, day),
+      data: { open: 100, high: 130, low: 90, close, volume: 2000, closed: 0 }
+    });
+
+    test('updates the forming candle in place and recomputes its indicators', () => {
+      const data = service.calculateTechnicalIndicators(history());
+      const merged = service.mergeStreamedCandle(data, klineMessage(25, 120));
+
+      expect(merged).toHaveLength(25);
+      expect(merged[24]).toMatchObject({ close: 120, high: 130, volume: 2000, performance: 20 });
+      expect(merged[24].sma20).toBeCloseTo((data.slice(5, 24).reduce((sum, d) => sum + d.close, 0) + 120) / 20);
+      expect(merged[23]).toBe(data[23]);
+    });
+
+    test('steps the merged candle\'s indicators from the kept state', () => {
+      const data = service.calculateTechnicalIndicators(history());
+      const appended = service.mergeStreamedCandle(data, klineMessage(26, 140));
+      const updated = service.mergeStreamedCandle(appended, klineMessage(26, 90));
+
+      const recalculated = service.calculateTechnicalIndicators(updated);
+      expect(updated[25]).toEqual(recalculated[25]);
+      expect(updated[25].rsi).toBeLessThan(appended[25].rsi!);
+    });
+
+    test('appends the next candle and ignores older ones', () => {
+      const data = history();
+
+      expect(service.mergeStreamedCandle(data, klineMessage(26, 101))).toHaveLength(26);
+      expect(service.mergeStreamedCandle(data, klineMessage(3, 101))).toBe(data);
+      expect(service.mergeStreamedCandle([], klineMessage(3, 101))).toEqual([]);
+    });
+  });
+
   describe('detectAllPatterns', () => {
     test('detects patterns in data', () => {
       const data = [
@@ -300,7 +504,9 @@ describe('BinanceApiService', () => {
           liquidity: 0.8,
           dayOfWeek: 1,
           weekOfYear: 1,
-          monthOfYear: 1
+          monthOfYear: 1,
+          hourOfDay: 0,
+          session: 'asia' as const
         }
       ];
 
@@ -312,6 +518,100 @@ describe('BinanceApiService', () => {
       expect(result).toHaveProperty('trends');
     });
 
+    test('reports seasonal buckets that survive multiple-comparison correction', () => {
+      // Mondays gain about 2%, other days wobble around zero
+      const data = Array.from({ length: 280 }, (_, i) => {
+        const date = new Date(2024, 0, 1 + i);
+        return {
+          date,
+          open: 100,
+          high: 103,
+          low: 97,
+          close: 100,
+          volume: 1000000,
+          volatility: 6,
+          performance: date.getDay() === 1 ? 2 + ((i % 3) - 1) * 0.3 : ((i * 7) % 5) - 2,
+          liquidity: 0.5,
+          dayOfWeek: date.getDay(),
+          weekOfYear: 1 + Math.floor(i / 7),
+          monthOfYear: date.getMonth() + 1,
+          hourOfDay: 0,
+          session: 'asia' as const
+        };
+      });
+
+      const patterns = service.detectSeasonalPatterns(data);
+      const monday = patterns.find(pattern => pattern.id.startsWith('seasonal-weekday-1-'));
+      expect(monday).toBeDefined();
+      expect(monday!.description).toMatch(/^Monday returns \+1\.99% on average vs 0\.28% overall \(d = 1\.51, adjusted p <0\.001\)$/);
+      expect(monday!.frequency).toBe(40);
+      expect(monday!.statistics!.adjustedPValue).toBeLessThan(0.05);
+      expect(monday!.confidence).toBeCloseTo(1 - monday!.statistics!.adjustedPValue);
+      expect(patterns.every(pattern => pattern.statistics!.adjustedPValue < 0.05)).toBe(true);
+    });
+
+    test('reports volatility regimes as cyclical patterns', () => {
+      // 40 calm candles, then 20 wild ones
+      const data = Array.from({ length: 60 }, (_, i) => {
+        const date = new Date(2024, 0, 1 + i);
+        return {
+          date,
+          open: 100,
+          high: 103,
+          low: 97,
+          close: 100,
+          volume: 1000000,
+          volatility: i < 40 ? 1 : 8,
+          performance: 0,
+          liquidity: 0.5,
+          dayOfWeek: date.getDay(),
+          weekOfYear: 1 + Math.floor(i / 7),
+          monthOfYear: date.getMonth() + 1,
+          hourOfDay: 0,
+          session: 'asia' as const
+        };
+      });
+
+      const patterns = service.detectCyclicalPatterns(data);
+      const high = patterns.find(pattern => pattern.id.startsWith('cyclical-high-'));
+      expect(high).toBeDefined();
+      expect(high!.endDate).toEqual(data[59].date);
+      expect(high!.confidence).toBeGreaterThan(0.9);
+      expect(patterns.reduce((sum, pattern) => sum + pattern.strength, 0)).toBeCloseTo(1);
+      expect(service.detectCyclicalPatterns(data.slice(0, 20))).toEqual([]);
+    });
+
+    test('reports dominant periods as cyclical patterns', () => {
+      // Volume swings on a weekly cycle, returns and volatility do not
+      const data = Array.from({ length: 364 }, (_, i) => {
+        const date = new Date(2024, 0, 1 + i);
+        return {
+          date,
+          open: 100,
+          high: 103,
+          low: 97,
+          close: 100,
+          volume: 1000000 * Math.exp(Math.sin((2 * Math.PI * i) / 7) + ((i * 37) % 11) / 20),
+          volatility: 6,
+          performance: 0,
+          liquidity: 0.5,
+          dayOfWeek: date.getDay(),
+          weekOfYear: 1 + Math.floor(i / 7),
+          monthOfYear: date.getMonth() + 1,
+          hourOfDay: 0,
+          session: 'asia' as const
+        };
+      });
+
+      const cycles = service.detectCyclicalPatterns(data).filter(pattern => pattern.cycle);
+      expect(cycles.length).toBeGreaterThan(0);
+      expect(cycles.every(pattern => pattern.cycle!.series === 'volume')).toBe(true);
+      expect(cycles[0].frequency).toBe(7);
+      expect(cycles[0].name).toBe('Volume cycle (7.0 candles)');
+      expect(cycles[0].description).toMatch(/^Volume cycles every 7\.0 candles, [\d.]+x the red-noise background \(adjusted p <0\.001\)$/);
+      expect(cycles[0].confidence).toBeCloseTo(1 - cycles[0].cycle!.adjustedPValue);
+    });
+
     test('handles empty data', () => {
       const result = service.detectAllPatterns([]);
 
@@ -335,7 +635,7 @@ describe('BinanceApiService', () => {
       service.connectWebSocket(['BTCUSDT'], jest.fn());
 
       expect(global.WebSocket).toHaveBeenCalledWith(
-        'wss://stream.binance.com:9443/ws/btcusdt@kline_1m'
+        'wss://stream.binance.com:9443/stream?streams=btcusdt@kline_1m'
       );
     });
 
@@ -370,20 +670,48 @@ describe('BinanceApiService', () => {
       const wsInstance = (global.WebSocket as any).mock.results[0].value;
       wsInstance.onmessage({
         data: JSON.stringify({
-          e: 'kline',
-          s: 'BTCUSDT',
-          k: {
-            t: 1640995200000,
-            o: '50000',
-            h: '51000',
-            l: '49000',
-            c: '50500',
-            v: '1000000'
+          stream: 'btcusdt@kline_1m',
+          data: {
+            e: 'kline',
+            s: 'BTCUSDT',
+            k: {
+              t: 1640995200000,
+              o: '50000',
+              h: '51000',
+              l: '49000',
+              c: '50500',
+              v: '1000000'
+            }
           }
         })
       } as MessageEvent);
 
-      expect(messageHandler).toHaveBeenCalled();
+      expect(messageHandler).toHaveBeenCalledWith(expect.objectContaining({
+        type: 'kline',
+        symbol: 'BTCUSDT',
+        data: expect.objectContaining({ open: 50000, close: 50500 })
+      }));
+    });
+
+    test('reports stream health while connected', () => {
+      const mockWebSocket = {
+        addEventListener: jest.fn(),
+        send: jest.fn(),
+        close: jest.fn()
+      };
+
+      global.WebSocket = jest.fn(() => mockWebSocket) as unknown as typeof WebSocket;
+
+      const healthListener = jest.fn();
+      const unsubscribe = service.onStreamHealthChange(healthListener);
+      service.connectWebSocket(['BTCUSDT', 'ETHUSDT'], jest.fn());
+
+      expect(service.getStreamHealth()).toMatchObject({ state: 'connecting', streams: 2 });
+      expect(healthListener).toHaveBeenCalled();
+
+      service.disconnectWebSocket();
+      expect(service.getStreamHealth()).toMatchObject({ state: 'idle', streams: 0 });
+      unsubscribe();
     });
   });
 
@@ -392,8 +720,89 @@ describe('BinanceApiService', () => {
       const axios = require('axios');
       axios.get.mockRejectedValue(new Error('Network error'));
 
-      const result = await service.getKlineData('BTCUSDT', '1d', 1640995200000, 1641081600000);
-      expect(result).toEqual([]);
+      await expect(service.getKlineData('BTCUSDT', '1d', 1640995200000, 1641081600000))
+        .rejects.toThrow('Fetching klines: Network error');
+    });
+
+    test('classifies rate limiting and honours Retry-After', async () => {
+      const axios = jest.requireMock('axios');
+      axios.get.mockRejectedValue({
+        message: 'Request failed with status code 429',
+        response: { status: 429, headers: { 'retry-after': '7' }, data: { code: -1003, msg: 'Too many requests' } },
+      });
+
+      const error = await service.getKlineData('BTCUSDT', '1d').catch(e => e);
+
+      expect(error).toBeInstanceOf(RateLimitError);
+      expect(error.retryAfterMs).toBe(7000);
+    });
+
+    test('classifies an unknown trading pair as an invalid symbol', async () => {
+      const axios = jest.requireMock('axios');
+      axios.get.mockRejectedValue({
+        response: { status: 400, headers: {}, data: { code: -1121, msg: 'Invalid symbol.' } },
+      });
+
+      const error = await service.getKlineData('NOPEUSDT', '1d').catch(e => e);
+
+      expect(error).toBeInstanceOf(InvalidSymbolError);
+      expect(error.symbol).toBe('NOPEUSDT');
+      expect(axios.get).toHaveBeenCalledTimes(1);
+    });
+
+    test('retries server errors with backoff until the request succeeds', async () => {
+      const axios = jest.requireMock('axios');
+      const warn = jest.spyOn(console, 'warn');
+      const listener = jest.fn();
+      const unsubscribe = service.onRetry(listener);
+      service.setRetryPolicy({ maxRetries: 2 });
+      axios.get
+        .mockRejectedValueOnce({ response: { status: 503, headers: {}, data: {} } })
+        .mockResolvedValueOnce({ data: [] });
+
+      await expect(service.getKlineData('BTCUSDT', '1d')).resolves.toEqual([]);
+      unsubscribe();
+
+      expect(axios.get).toHaveBeenCalledTimes(2);
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledWith(expect.objectContaining({ attempt: 1, errorKind: 'server' }));
+      expect(warn).not.toHaveBeenCalled();
+      warn.mockRestore();
+    });
+
+    test('schedules every retry as its own request against the weight budget', async () => {
+      const axios = jest.requireMock('axios');
+      const { scheduler } = service as unknown as { scheduler: RequestScheduler };
+      service.setRetryPolicy({ maxRetries: 2 });
+      axios.get.mockResolvedValueOnce({ data: [] });
+
+      const start = scheduler.getUsedWeight();
+      await service.getKlineData('BTCUSDT', '1d');
+      const weight = scheduler.getUsedWeight() - start;
+
+      axios.get
+        .mockRejectedValueOnce({ response: { status: 503, headers: {}, data: {} } })
+        .mockResolvedValueOnce({ data: [] });
+      const schedule = jest.spyOn(scheduler, 'schedule');
+      await service.getKlineData('BTCUSDT', '1d');
+
+      expect(schedule).toHaveBeenCalledTimes(2);
+      expect(schedule.mock.calls[1][0]).toEqual(schedule.mock.calls[0][0]);
+      expect(scheduler.getUsedWeight() - start).toBe(3 * weight);
+      schedule.mockRestore();
+    });
+
+    test('tracks the request weight reported by Binance', async () => {
+      const axios = jest.requireMock('axios');
+      const listener = jest.fn();
+      const unsubscribe = service.onRequestWeightChange(listener);
+      axios.get.mockResolvedValue({ data: [], headers: { 'x-mbx-used-weight-1m': '42' } });
+
+      await service.getKlineData('BTCUSDT', '1d');
+      unsubscribe();
+
+      expect(service.getRequestWeight()).toEqual(expect.objectContaining({ used: 42, limit: 6000 }));
+      expect(listener).toHaveBeenCalledWith(expect.objectContaining({ used: 42 }));
     });
 
     test('handles invalid data gracefully', () => {
@@ -0,0 +1,110 @@
+import { CandleCacheService } from '../../services/candleCache';
+import { KlineData } from '../../types';
+
+const kline = (openTime: number, close = '105'): KlineData => ({
+  openTime,
+  open: '100',
+  high: '110',
+  low: '90',
+  close,
+  volume: '10',
+  closeTime: openTime + 999,
+  quoteAssetVolume: '1000',
+  numberOfTrades: 5,
+  takerBuyBaseAssetVolume: '5',
+  takerBuyQuoteAssetVolume: '500',
+});
+
+describe('CandleCacheService', () => {
+  test('returns null for a series that was never cached', async () => {
+    const cache = new CandleCacheService();
+
+    expect(await cache.getSeries('binance', 'BTCUSDT', '1d')).toBeNull();
+  });
+
+  test('merges candles by open time and extends the covered range', async () => {
+    const cache = new CandleCacheService();
+    await cache.mergeSeries('binance', 'BTCUSDT', '1d', [kline(1000), kline(2000, '106')], 1000, 2500);
+    await cache.mergeSeries('binance', 'BTCUSDT', '1d', [kline(2000, '107'), kline(3000)], 2000, 3500);
+
+    const series = await cache.getSeries('binance', 'BTCUSDT', '1d');
+
+    expect(series?.klines.map(k => k.openTime)).toEqual([1000, 2000, 3000]);
+    expect(series?.klines[1].close).toBe('107');
+    expect(series?.coveredFrom).toBe(1000);
+    expect(series?.coveredTo).toBe(3500);
+  });
+
+  test('keeps providers, symbols and intervals in separate series', async () => {
+    const cache = new CandleCacheService();
+    await cache.mergeSeries('binance', 'BTCUSDT', '1d', [kline(1000)], 1000, 2000);
+    await cache.mergeSeries('binance', 'ETHUSDT', '1d', [kline(1000), kline(2000)], 1000, 3000);
+    await cache.mergeSeries('binance', 'BTCUSDT', '1w', [kline(1000)], 1000, 2000);
+    await cache.mergeSeries('candle-store', 'BTCUSDT', '1d', [kline(1000), kline(2000)], 1000, 3000);
+
+    expect((await cache.getSeries('binance', 'ETHUSDT', '1d'))?.klines).toHaveLength(2);
+    expect((await cache.getSeries('candle-store', 'BTCUSDT', '1d'))?.klines).toHaveLength(2);
+    expect(await cache.getStats()).toEqual({ series: 4, candles: 6 });
+  });
+
+  test('evicts the least recently used series beyond the limit', async () => {
+    const cache = new CandleCacheService(undefined, { maxSeries: 2 });
+    const now = jest.spyOn(Date, 'now');
+
+    now.mockReturnValue(1);
+    await cache.mergeSeries('binance', 'BTCUSDT', '1d', [kline(1000)], 1000, 2000);
+    now.mockReturnValue(2);
+    await cache.mergeSeries('binance', 'ETHUSDT', '1d', [kline(1000)], 1000, 2000);
+    now.mockReturnValue(3);
+    await cache.getSeries('binance', 'BTCUSDT', '1d');
+    now.mockReturnValue(4);
+    await cache.mergeSeries('binance', 'BNBUSDT', '1d', [kline(1000)], 1000, 2000);
+
+    expect(await cache.getSeries('binance', 'ETHUSDT', '1d')).toBeNull();
+    expect(await cache.getSeries('binance', 'BTCUSDT', '1d')).not.toBeNull();
+    now.mockRestore();
+  });
+
+  test('records reads and evicts on metadata without loading or rewriting candles', async () => {
+    const cache = new CandleCacheService(undefined, { maxSeries: 1 });
+    const { store } = cache as unknown as { store: { get: () => Promise<unknown>; put: () => Promise<void> } };
+    const now = jest.spyOn(Date, 'now');
+
+    now.mockReturnValue(1);
+    await cache.mergeSeries('binance', 'BTCUSDT', '1d', [kline(1000), kline(2000)], 1000, 3000);
+    const get = jest.spyOn(store, 'get');
+    const put = jest.spyOn(store, 'put');
+
+    now.mockReturnValue(2);
+    await cache.getSeries('binance', 'BTCUSDT', '1d');
+    expect(put).not.toHaveBeenCalled();
+
+    get.mockClear();
+    now.mockReturnValue(3);
+    await cache.mergeSeries('binance', 'ETHUSDT', '1d', [kline(1000)], 1000, 2000);
+    // Only the merged series itself is read; eviction never loads BTCUSDT's candles
+    expect(get).toHaveBeenCalledTimes(1);
+    expect(await cache.getSeries('binance', 'BTCUSDT', '1d')).toBeNull();
+    expect(await cache.getStats()).toEqual({ series: 1, candles: 1 });
+    now.mockRestore();
+  });
+
+  test('trims the oldest candles beyond the per-series limit', async () => {
+    const cache = new CandleCacheService(undefined, { maxCandlesPerSeries: 2 });
+    await cache.mergeSeries('binance', 'BTCUSDT', '1d', [kline(1000), kline(2000), kline(3000)], 1000, 3500);
+
+    const series = await cache.getSeries('binance', 'BTCUSDT', '1d');
+
+    expect(series?.klines.map(k => k.openTime)).toEqual([2000, 3000]);
+    expect(series?.coveredFrom).toBe(2000);
+  });
+
+  test('clear removes every series', async () => {
+    const cache = new CandleCacheService();
+    await cache.mergeSeries('binance', 'BTCUSDT', '1d', [kline(1000)], 1000, 2000);
+
+    await cache.clear();
+
+    expect(await cache.getStats()).toEqual({ series: 0, candles: 0 });
+  });
+});
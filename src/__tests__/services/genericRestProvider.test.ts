@@ -0,0 +1,117 @@
+import { GenericRestProvider, GenericRestProviderConfig, readPath } from '../../services/genericRestProvider';
+import { ParseError } from '../../services/apiErrors';
+
+jest.mock('axios', () => ({
+  get: jest.fn()
+}));
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const config: GenericRestProviderConfig = {
+  id: 'candle-store',
+  name: 'Candle Store',
+  baseUrl: 'https://candles.example.com',
+  timeUnit: 's',
+  maxKlinesPerRequest: 2,
+  intervalMap: { '1d': 'D' },
+  symbols: ['BTCUSD'],
+  endpoints: {
+    klines: {
+      path: '/markets/{symbol}/candles',
+      params: { resolution: '{interval}', from: '{startTime}', to: '{endTime}', count: '{limit}' },
+    },
+    ticker: { path: '/markets/{symbol}/ticker' },
+    orderBook: { path: '/markets/{symbol}/book', params: { depth: '{limit}' } },
+  },
+  fields: {
+    klines: { rows: 'result.candles', openTime: 'ts', open: 'o', high: 'h', low: 'l', close: 'c', volume: 'v' },
+    ticker: { price: 'last', volume: 'vol', high: 'high', low: 'low', open: 'open' },
+    orderBook: { bids: 'bids', asks: 'asks', price: 'px', quantity: 'qty', lastUpdateId: 'seq' },
+  },
+};
+
+const candle = (day: number) => ({ ts: day * 86400, o: 100 + day, h: 110, l: 90, c: 105, v: 10 });
+
+describe('GenericRestProvider', () => {
+  const axios = jest.requireMock('axios');
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  test('reads nested paths and array indices', () => {
+    expect(readPath({ a: { b: [1, 2] } }, 'a.b.1')).toBe(2);
+    expect(readPath([5, 6], '0')).toBe(5);
+    expect(readPath({ a: null }, 'a.b')).toBeUndefined();
+  });
+
+  test('fills endpoint templates and maps candle fields', async () => {
+    axios.get.mockResolvedValue({ data: { result: { candles: [candle(2), candle(1)] } } });
+    const provider = new GenericRestProvider(config);
+
+    const klines = await provider.getKlineData('BTC/USD', '1d', 1 * DAY_MS, 2 * DAY_MS, 2);
+
+    expect(axios.get).toHaveBeenCalledWith('https://candles.example.com/markets/BTC%2FUSD/candles', {
+      params: { resolution: 'D', from: '86400', to: '172800', count: '2' },
+    });
+    expect(klines.map(k => k.openTime)).toEqual([DAY_MS, 2 * DAY_MS]);
+    expect(klines[0]).toMatchObject({ open: '101', close: '105', volume: '10', closeTime: 2 * DAY_MS - 1 });
+  });
+
+  test('omits query parameters without a value', async () => {
+    axios.get.mockResolvedValue({ data: { result: { candles: [] } } });
+    const provider = new GenericRestProvider(config);
+
+    await provider.getKlineData('BTCUSD', '1h', undefined, undefined, 2);
+
+    expect(axios.get.mock.calls[0][1]).toEqual({ params: { resolution: '1h', count: '2' } });
+  });
+
+  test('paginates history using the configured page size', async () => {
+    axios.get
+      .mockResolvedValueOnce({ data: { result: { candles: [candle(1), candle(2)] } } })
+      .mockResolvedValueOnce({ data: { result: { candles: [candle(3)] } } });
+    const provider = new GenericRestProvider(config);
+
+    const klines = await provider.getKlineHistory('BTCUSD', '1d', DAY_MS, 3 * DAY_MS);
+
+    expect(axios.get).toHaveBeenCalledTimes(2);
+    expect(klines).toHaveLength(3);
+  });
+
+  test('maps ticker fields and derives the price change', async () => {
+    axios.get.mockResolvedValue({ data: { last: '110', vol: '5', high: '120', low: '90', open: '100' } });
+    const provider = new GenericRestProvider(config);
+
+    const ticker = await provider.get24hrTicker('BTCUSD');
+
+    expect(ticker).toMatchObject({ price: 110, priceChange: 10, priceChangePercent: 10, close: 110 });
+  });
+
+  test('maps order book levels from objects', async () => {
+    axios.get.mockResolvedValue({ data: { seq: 7, bids: [{ px: 99, qty: 1 }], asks: [{ px: 101, qty: 2 }] } });
+    const provider = new GenericRestProvider(config);
+
+    const book = await provider.getOrderBook('BTCUSD', 10);
+
+    expect(book).toEqual({ symbol: 'BTCUSD', bids: [['99', '1']], asks: [['101', '2']], lastUpdateId: 7 });
+  });
+
+  test('falls back to the static symbol list without a symbols endpoint', async () => {
+    const provider = new GenericRestProvider(config);
+
+    expect(await provider.getSymbols()).toEqual(['BTCUSD']);
+    expect(axios.get).not.toHaveBeenCalled();
+  });
+
+  test('throws typed errors for failed and malformed responses', async () => {
+    const provider = new GenericRestProvider(config);
+    provider.setRetryPolicy({ maxRetries: 0 });
+
+    axios.get.mockResolvedValueOnce({ data: { result: 'oops' } });
+    await expect(provider.getKlineData('BTCUSD', '1d')).rejects.toBeInstanceOf(ParseError);
+
+    axios.get.mockRejectedValueOnce({ response: { status: 404, headers: {}, data: {} }, message: 'Not Found' });
+    await expect(provider.get24hrTicker('BTCUSD')).rejects.toThrow('Candle Store: Fetching 24hr ticker: Not Found');
+  });
+});
@@ -0,0 +1,104 @@
+import { LocalOrderBook } from '../../services/orderBook';
+import { MarketDataProvider } from '../../services/marketDataProvider';
+import { OrderBookData, WebSocketMessage } from '../../types';
+
+const depthEvent = (firstUpdateId: number, finalUpdateId: number, bids: [string, string][] = [], asks: [string, string][] = []): WebSocketMessage => ({
+  type: 'depth',
+  symbol: 'BTCUSDT',
+  timestamp: 0,
+  data: { firstUpdateId, finalUpdateId },
+  levels: { bids, asks },
+});
+
+const snapshot = (lastUpdateId: number): OrderBookData => ({
+  symbol: 'BTCUSDT',
+  bids: [['100', '1'], ['99', '2']],
+  asks: [['101', '1'], ['102', '3']],
+  lastUpdateId,
+});
+
+describe('LocalOrderBook', () => {
+  let emit: (message: WebSocketMessage) => void;
+  let getOrderBook: jest.Mock;
+  let provider: MarketDataProvider;
+
+  beforeEach(() => {
+    getOrderBook = jest.fn();
+    provider = {
+      getOrderBook,
+      subscribeStream: jest.fn((_subscription, listener) => {
+        emit = listener;
+        return jest.fn();
+      }),
+    } as unknown as MarketDataProvider;
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('applies buffered events that continue the snapshot and drops older ones', async () => {
+    getOrderBook.mockResolvedValue(snapshot(10));
+    const book = new LocalOrderBook(provider, 'BTCUSDT', { notifyIntervalMs: 0 });
+    book.start();
+
+    emit(depthEvent(5, 9, [['100', '5']]));          // Already in the snapshot
+    emit(depthEvent(9, 12, [['99', '0']], [['101.5', '4']]));
+    await Promise.resolve();
+
+    const state = book.getState();
+    expect(state.status).toBe('synced');
+    expect(state.lastUpdateId).toBe(12);
+    expect(state.bids).toEqual([[100, 1]]);
+    expect(state.asks).toEqual([[101, 1], [101.5, 4], [102, 3]]);
+  });
+
+  test('fetches a new snapshot when the sequence has a gap', async () => {
+    getOrderBook.mockResolvedValueOnce(snapshot(10)).mockResolvedValueOnce(snapshot(20));
+    const book = new LocalOrderBook(provider, 'BTCUSDT', { notifyIntervalMs: 0 });
+    book.start();
+    await Promise.resolve();
+
+    emit(depthEvent(11, 13));
+    emit(depthEvent(15, 16));
+    expect(book.getState().status).toBe('syncing');
+    await Promise.resolve();
+
+    expect(getOrderBook).toHaveBeenCalledTimes(2);
+    expect(book.getState()).toMatchObject({ status: 'synced', lastUpdateId: 20 });
+  });
+
+  test('refetches a snapshot older than the buffered events after the retry delay', async () => {
+    jest.useFakeTimers();
+    getOrderBook.mockResolvedValueOnce(snapshot(3)).mockResolvedValueOnce(snapshot(12));
+    const book = new LocalOrderBook(provider, 'BTCUSDT', { notifyIntervalMs: 0, retryDelayMs: 1000 });
+    book.start();
+    emit(depthEvent(10, 11));
+    emit(depthEvent(12, 14, [['100.5', '1']]));
+    await Promise.resolve();
+
+    // The stale snapshot is not refetched straight away
+    expect(getOrderBook).toHaveBeenCalledTimes(1);
+    expect(book.getState().status).toBe('syncing');
+
+    jest.advanceTimersByTime(1000);
+    await Promise.resolve();
+
+    expect(getOrderBook).toHaveBeenCalledTimes(2);
+    expect(book.getState()).toMatchObject({ status: 'synced', lastUpdateId: 14 });
+    expect(book.getState().bids[0]).toEqual([100.5, 1]);
+  });
+
+  test('notifies listeners and stops cleanly', async () => {
+    getOrderBook.mockResolvedValue(snapshot(10));
+    const book = new LocalOrderBook(provider, 'BTCUSDT', { notifyIntervalMs: 0 });
+    const listener = jest.fn();
+    book.onChange(listener);
+    book.start();
+    await Promise.resolve();
+
+    expect(listener).toHaveBeenLastCalledWith(expect.objectContaining({ status: 'synced', lastUpdateId: 10 }));
+    book.stop();
+    expect(book.getState().bids).toEqual([]);
+  });
+});
@@ -0,0 +1,100 @@
+import { RequestScheduler } from '../../services/requestScheduler';
+
+const deferred = <T,>() => {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>(res => {
+    resolve = res;
+  });
+  return { promise, resolve };
+};
+
+describe('RequestScheduler', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('shares one call between identical in-flight requests', async () => {
+    const scheduler = new RequestScheduler({ weightPerWindow: 100 });
+    const run = jest.fn().mockResolvedValue(['candles']);
+
+    const [first, second] = await Promise.all([
+      scheduler.schedule({ key: 'BTCUSDT_1d', weight: 5 }, run),
+      scheduler.schedule({ key: 'BTCUSDT_1d', weight: 5 }, run),
+    ]);
+
+    expect(run).toHaveBeenCalledTimes(1);
+    expect(first).toBe(second);
+    expect(scheduler.getUsedWeight()).toBe(5);
+  });
+
+  test('queues requests above the weight budget until the window frees up', async () => {
+    const scheduler = new RequestScheduler({ weightPerWindow: 10, windowMs: 1000 });
+    const run = jest.fn().mockResolvedValue('ok');
+
+    scheduler.schedule({ weight: 6 }, run);
+    const queued = scheduler.schedule({ weight: 6 }, run);
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(run).toHaveBeenCalledTimes(1);
+    expect(scheduler.getQueuedCount()).toBe(1);
+
+    await jest.advanceTimersByTimeAsync(1000);
+
+    await expect(queued).resolves.toBe('ok');
+    expect(run).toHaveBeenCalledTimes(2);
+  });
+
+  test('counts weight reported by the server against the budget', async () => {
+    const scheduler = new RequestScheduler({ weightPerWindow: 10, windowMs: 1000 });
+    const run = jest.fn().mockResolvedValue('ok');
+
+    scheduler.syncUsedWeight(9);
+    scheduler.schedule({ weight: 2 }, run);
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(run).not.toHaveBeenCalled();
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+
+  test('starts queued foreground requests before background ones', async () => {
+    const scheduler = new RequestScheduler({ weightPerWindow: 100, maxConcurrent: 1 });
+    const blocker = deferred<string>();
+    const order: string[] = [];
+
+    scheduler.schedule({ weight: 1 }, () => blocker.promise);
+    const background = scheduler.schedule({ weight: 1, priority: 'background' }, async () => order.push('background'));
+    const foreground = scheduler.schedule({ weight: 1 }, async () => order.push('foreground'));
+
+    blocker.resolve('done');
+    await Promise.all([background, foreground]);
+
+    expect(order).toEqual(['foreground', 'background']);
+  });
+
+  test('cancels a shared request only after every caller has aborted', async () => {
+    const scheduler = new RequestScheduler({ weightPerWindow: 100 });
+    const first = new AbortController();
+    const second = new AbortController();
+    let requestSignal: AbortSignal | undefined;
+    const run = jest.fn((signal: AbortSignal) => {
+      requestSignal = signal;
+      return new Promise(() => {});
+    });
+
+    const a = scheduler.schedule({ key: 'k', weight: 1, signal: first.signal }, run);
+    const b = scheduler.schedule({ key: 'k', weight: 1, signal: second.signal }, run);
+
+    first.abort();
+    await expect(a).rejects.toThrow('aborted');
+    expect(requestSignal?.aborted).toBe(false);
+
+    second.abort();
+    await expect(b).rejects.toThrow('aborted');
+    expect(requestSignal?.aborted).toBe(true);
+  });
+});
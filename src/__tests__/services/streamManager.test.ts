@@ -0,0 +1,164 @@
+import { StreamManager, getStreamName, parseStreamPayload } from '../../services/streamManager';
+
+interface MockSocket {
+  url: string;
+  send: jest.Mock;
+  close: jest.Mock;
+  onopen: (() => void) | null;
+  onmessage: ((event: { data: string }) => void) | null;
+  onclose: (() => void) | null;
+}
+
+const klineFrame = (close: string, openTime = 1, closed = false) => ({
+  data: JSON.stringify({
+    stream: 'btcusdt@kline_1m',
+    data: { e: 'kline', s: 'BTCUSDT', k: { t: openTime, T: openTime + 1, o: '100', h: '110', l: '90', c: close, v: '5', x: closed } },
+  }),
+});
+
+describe('StreamManager', () => {
+  let sockets: MockSocket[];
+  const originalWebSocket = global.WebSocket;
+
+  const lastSocket = () => sockets[sockets.length - 1];
+  const sentFrames = (socket: MockSocket) => socket.send.mock.calls.map(([frame]) => JSON.parse(frame));
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    sockets = [];
+    global.WebSocket = jest.fn((url: string) => {
+      const socket: MockSocket = { url, send: jest.fn(), close: jest.fn(), onopen: null, onmessage: null, onclose: null };
+      sockets.push(socket);
+      return socket;
+    }) as unknown as typeof WebSocket;
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    global.WebSocket = originalWebSocket;
+  });
+
+  test('names streams the Binance way', () => {
+    expect(getStreamName({ symbol: 'BTCUSDT', type: 'kline', interval: '1h' })).toBe('btcusdt@kline_1h');
+    expect(getStreamName({ symbol: 'ETHUSDT', type: 'depth' }, 500)).toBe('ethusdt@depth@100ms');
+    expect(getStreamName({ symbol: 'ETHUSDT', type: 'depth' }, 5000)).toBe('ethusdt@depth');
+    expect(getStreamName({ symbol: 'ETHUSDT', type: 'bookTicker' })).toBe('ethusdt@bookTicker');
+  });
+
+  test('parses book ticker and trade payloads', () => {
+    expect(parseStreamPayload({ u: 7, s: 'BTCUSDT', b: '99.5', B: '2', a: '100.5', A: '3' }, 1000)).toEqual({
+      type: 'bookTicker',
+      symbol: 'BTCUSDT',
+      timestamp: 1000,
+      data: { bidPrice: 99.5, bidQty: 2, askPrice: 100.5, askQty: 3, updateId: 7 },
+    });
+    expect(parseStreamPayload({ e: 'aggTrade', s: 'BTCUSDT', a: 12, p: '100', q: '0.5', T: 2000, m: true }, 0)).toMatchObject({
+      type: 'aggTrade',
+      data: { price: 100, quantity: 0.5, tradeId: 12, buyerIsMaker: 1 },
+    });
+    expect(parseStreamPayload({ result: null }, 0)).toBeNull();
+  });
+
+  test('adds and removes streams on the open socket with frames', () => {
+    const manager = new StreamManager({ url: 'wss://example.test/stream' });
+    const unsubscribeKline = manager.subscribe({ symbol: 'BTCUSDT', type: 'kline' }, jest.fn());
+    const socket = lastSocket();
+    expect(socket.url).toBe('wss://example.test/stream?streams=btcusdt@kline_1m');
+
+    socket.onopen?.();
+    const unsubscribeTrade = manager.subscribe({ symbol: 'BTCUSDT', type: 'trade' }, jest.fn());
+    unsubscribeKline();
+
+    expect(sockets).toHaveLength(1);
+    expect(sentFrames(socket)).toEqual([
+      { method: 'SUBSCRIBE', params: ['btcusdt@trade'], id: 1 },
+      { method: 'UNSUBSCRIBE', params: ['btcusdt@kline_1m'], id: 2 },
+    ]);
+
+    unsubscribeTrade();
+    expect(socket.close).toHaveBeenCalled();
+    expect(manager.getHealth()).toMatchObject({ state: 'idle', streams: 0 });
+  });
+
+  test('delivers the latest snapshot once per update interval', () => {
+    const manager = new StreamManager({ url: 'wss://example.test/stream' });
+    manager.configure({ updateInterval: 1000 });
+    const listener = jest.fn();
+    manager.subscribe({ symbol: 'BTCUSDT', type: 'kline' }, listener);
+    const socket = lastSocket();
+    socket.onopen?.();
+
+    socket.onmessage?.(klineFrame('101'));
+    socket.onmessage?.(klineFrame('102'));
+    socket.onmessage?.(klineFrame('103'));
+    expect(listener).toHaveBeenCalledTimes(1);
+
+    jest.advanceTimersByTime(1000);
+    expect(listener).toHaveBeenCalledTimes(2);
+    expect(listener.mock.calls[1][0].data.close).toBe(103);
+  });
+
+  test('delivers a closed kline before holding the next candle', () => {
+    const manager = new StreamManager({ url: 'wss://example.test/stream' });
+    manager.configure({ updateInterval: 5000 });
+    const listener = jest.fn();
+    manager.subscribe({ symbol: 'BTCUSDT', type: 'kline' }, listener);
+    const socket = lastSocket();
+    socket.onopen?.();
+
+    socket.onmessage?.(klineFrame('101'));
+    socket.onmessage?.(klineFrame('102', 1, true));
+    socket.onmessage?.(klineFrame('103', 60001));
+    expect(listener).toHaveBeenCalledTimes(2);
+    expect(listener.mock.calls[1][0]).toMatchObject({ timestamp: 1, data: { close: 102, closed: 1 } });
+
+    jest.advanceTimersByTime(5000);
+    expect(listener).toHaveBeenCalledTimes(3);
+    expect(listener.mock.calls[2][0]).toMatchObject({ timestamp: 60001, data: { close: 103, closed: 0 } });
+  });
+
+  test('replaces a socket that stops answering heartbeats', () => {
+    const manager = new StreamManager({ url: 'wss://example.test/stream', heartbeatIntervalMs: 1000, staleTimeoutMs: 500 });
+    const states: string[] = [];
+    manager.onHealthChange(health => {
+      if (states[states.length - 1] !== health.state) states.push(health.state);
+    });
+    manager.subscribe({ symbol: 'BTCUSDT', type: 'kline' }, jest.fn());
+    const socket = lastSocket();
+    socket.onopen?.();
+
+    jest.advanceTimersByTime(1000);
+    expect(sentFrames(socket)).toEqual([{ method: 'LIST_SUBSCRIPTIONS', id: 1 }]);
+
+    jest.advanceTimersByTime(500);
+    expect(states).toEqual(['connecting', 'open', 'stale', 'reconnecting']);
+    expect(socket.close).toHaveBeenCalled();
+
+    jest.advanceTimersByTime(1000);
+    expect(sockets).toHaveLength(2);
+    lastSocket().onopen?.();
+    expect(manager.getHealth()).toMatchObject({ state: 'open', reconnectAttempts: 0 });
+  });
+
+  test('gives up after maxRetries and stays down without autoReconnect', () => {
+    const manager = new StreamManager({ url: 'wss://example.test/stream', reconnectBaseDelayMs: 100 });
+    manager.configure({ maxRetries: 2 });
+    manager.subscribe({ symbol: 'BTCUSDT', type: 'kline' }, jest.fn());
+
+    for (let attempt = 1; attempt <= 2; attempt++) {
+      lastSocket().onclose?.();
+      expect(manager.getHealth()).toMatchObject({ state: 'reconnecting', reconnectAttempts: attempt });
+      jest.advanceTimersByTime(1000);
+    }
+    lastSocket().onclose?.();
+
+    expect(sockets).toHaveLength(3);
+    expect(manager.getHealth().state).toBe('failed');
+
+    manager.configure({ autoReconnect: false });
+    manager.subscribe({ symbol: 'ETHUSDT', type: 'miniTicker' }, jest.fn());
+    expect(sockets).toHaveLength(4);
+    lastSocket().onclose?.();
+    expect(manager.getHealth().state).toBe('failed');
+  });
+});
@@ -0,0 +1,53 @@
+import {
+  getDayName,
+  getDayOfYear,
+  getDaysInMonth,
+  getISOWeek,
+  getISOWeekKey,
+  getMonthEndOffset,
+  getMonthName,
+  getQuarter,
+  getTradingDayOfMonth,
+  toCalendarDate,
+} from '../../utils/calendarMath';
+
+describe('calendarMath', () => {
+  test('numbers weeks the ISO-8601 way', () => {
+    expect(getISOWeek({ year: 2024, month: 1, day: 1 })).toEqual({ weekYear: 2024, week: 1 });
+    // Monday 30 December 2024 opens the first week of 2025
+    expect(getISOWeek({ year: 2024, month: 12, day: 30 })).toEqual({ weekYear: 2025, week: 1 });
+    // Friday 1 January 2021 still belongs to the last week of 2020
+    expect(getISOWeek({ year: 2021, month: 1, day: 1 })).toEqual({ weekYear: 2020, week: 53 });
+    expect(getISOWeek({ year: 2021, month: 1, day: 4 })).toEqual({ weekYear: 2021, week: 1 });
+    expect(getISOWeekKey({ year: 2024, month: 12, day: 31 })).toBe('2025-W01');
+  });
+
+  test('counts days of the year and quarters', () => {
+    expect(getDayOfYear({ year: 2024, month: 1, day: 1 })).toBe(1);
+    expect(getDayOfYear({ year: 2024, month: 12, day: 31 })).toBe(366);
+    expect(getDayOfYear({ year: 2023, month: 3, day: 1 })).toBe(60);
+    expect(getQuarter({ year: 2024, month: 3, day: 31 })).toBe(1);
+    expect(getQuarter({ year: 2024, month: 10, day: 1 })).toBe(4);
+    expect(getDaysInMonth(2024, 2)).toBe(29);
+    expect(getDaysInMonth(2023, 2)).toBe(28);
+  });
+
+  test('counts trading days within the month', () => {
+    // March 2024 starts on a Friday and ends on a Sunday
+    expect(getTradingDayOfMonth({ year: 2024, month: 3, day: 4 })).toBe(4);
+    expect(getTradingDayOfMonth({ year: 2024, month: 3, day: 4 }, true)).toBe(2);
+    expect(getTradingDayOfMonth({ year: 2024, month: 3, day: 2 }, true)).toBeNull();
+
+    expect(getMonthEndOffset({ year: 2024, month: 3, day: 31 })).toBe(0);
+    expect(getMonthEndOffset({ year: 2024, month: 3, day: 29 })).toBe(2);
+    expect(getMonthEndOffset({ year: 2024, month: 3, day: 29 }, true)).toBe(0);
+    expect(getMonthEndOffset({ year: 2024, month: 3, day: 31 }, true)).toBeNull();
+  });
+
+  test('reads local calendar dates and names', () => {
+    expect(toCalendarDate(new Date(2024, 1, 29))).toEqual({ year: 2024, month: 2, day: 29 });
+    expect(getDayName(1)).toBe('Monday');
+    expect(getMonthName(12)).toBe('December');
+    expect(getMonthName(13)).toBe('Unknown');
+  });
+});
@@ -0,0 +1,24 @@
+import { clampViewport, getFullViewport, panViewport, zoomViewport } from '../../utils/chartViewport';
+
+describe('chartViewport', () => {
+  test('keeps viewports inside the data', () => {
+    expect(getFullViewport(50)).toEqual({ start: 0, end: 49 });
+    expect(clampViewport({ start: -5, end: 80 }, 50)).toEqual({ start: 0, end: 49 });
+    expect(clampViewport({ start: 30, end: 10 }, 50)).toEqual({ start: 10, end: 30 });
+    expect(clampViewport({ start: 3, end: 4 }, 0)).toEqual({ start: 0, end: 0 });
+  });
+
+  test('zooms around the centre without going below the minimum width', () => {
+    expect(zoomViewport({ start: 0, end: 99 }, 100, 0.5)).toEqual({ start: 25, end: 74 });
+    expect(zoomViewport({ start: 40, end: 59 }, 100, 0.25)).toEqual({ start: 45, end: 54 });
+    // Zooming out near the end slides back inside the data
+    expect(zoomViewport({ start: 80, end: 99 }, 100, 2)).toEqual({ start: 60, end: 99 });
+    expect(zoomViewport({ start: 0, end: 4 }, 5, 0.5)).toEqual({ start: 0, end: 4 });
+  });
+
+  test('pans by whole candles and stops at either end', () => {
+    expect(panViewport({ start: 10, end: 19 }, 100, 5)).toEqual({ start: 15, end: 24 });
+    expect(panViewport({ start: 10, end: 19 }, 100, -50)).toEqual({ start: 0, end: 9 });
+    expect(panViewport({ start: 85, end: 94 }, 100, 20)).toEqual({ start: 90, end: 99 });
+  });
+});
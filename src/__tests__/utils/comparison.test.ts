@@ -0,0 +1,76 @@
+import { ProcessedDayData } from '../../types';
+import {
+  alignSeries,
+  buildComparisonRows,
+  computePerformanceStats,
+  getCommonStart,
+} from '../../utils/comparison';
+
+const candle = (day: number, close: number, year = 2024): ProcessedDayData => ({
+  date: new Date(year, 0, day),
+  open: close,
+  high: close,
+  low: close,
+  close,
+  volume: 1000,
+  volatility: 1,
+  performance: 0,
+  liquidity: 0.5,
+  dayOfWeek: 1,
+  weekOfYear: 1,
+  monthOfYear: 1,
+  hourOfDay: 0,
+  session: 'asia',
+});
+
+const btc = { key: 'btc', data: [candle(1, 60000), candle(2, 66000), candle(3, 54000), candle(4, 63000)] };
+const ada = { key: 'ada', data: [candle(2, 0.4), candle(3, 0.5), candle(4, 0.44)] };
+
+describe('comparison', () => {
+  test('aligns datasets on timestamps rather than formatted dates', () => {
+    const lastYear = { key: 'old', data: [candle(2, 1, 2023)] };
+    const rows = alignSeries([btc, lastYear], c => c.close);
+
+    expect(rows.map(row => row.time)).toEqual([
+      new Date(2023, 0, 2).getTime(), ...btc.data.map(c => c.date.getTime()),
+    ]);
+    expect(rows[0].values).toEqual({ old: 1 });
+    expect(rows[2].values).toEqual({ btc: 66000 });
+  });
+
+  test('rebases every dataset to 100 at the common start', () => {
+    expect(getCommonStart([btc, ada])).toBe(new Date(2024, 0, 2).getTime());
+
+    const rows = buildComparisonRows([btc, ada], 'rebased');
+    expect(rows).toHaveLength(3);
+    expect(rows[0].values).toEqual({ btc: 100, ada: 100 });
+    expect(rows[1].values.btc).toBeCloseTo(54000 / 660);
+    expect(rows[1].values.ada).toBeCloseTo(125);
+  });
+
+  test('takes the ratio and spread of a pair', () => {
+    const ratio = buildComparisonRows([btc, ada], 'ratio', ['ada', 'btc']);
+    expect(ratio.map(row => row.values.ratio)).toEqual([0.4 / 66000, 0.5 / 54000, 0.44 / 63000]);
+
+    const spread = buildComparisonRows([btc, ada], 'spread', ['ada', 'btc']);
+    expect(spread[0].values.spread).toBeCloseTo(0);
+    expect(spread[1].values.spread).toBeCloseTo(125 - 54000 / 660);
+
+    expect(buildComparisonRows([btc, ada], 'ratio', ['btc', 'btc'])).toEqual([]);
+  });
+
+  test('summarises return, drawdown, volatility and Sharpe', () => {
+    const stats = computePerformanceStats(btc.data, '1d')!;
+
+    expect(stats.totalReturn).toBeCloseTo(5);
+    expect(stats.maxDrawdown).toBeCloseTo((54000 / 66000 - 1) * 100);
+    // Three days of 5% growth compound to far more than 5% a year
+    expect(stats.cagr).toBeGreaterThan(1000);
+    expect(stats.volatility).toBeGreaterThan(100);
+    expect(stats.sharpe).not.toBeNull();
+    expect(stats.count).toBe(4);
+
+    expect(computePerformanceStats([], '1d')).toBeNull();
+    expect(computePerformanceStats([candle(1, 10)], '1d')).toMatchObject({ totalReturn: 0, cagr: null, sharpe: null });
+  });
+});
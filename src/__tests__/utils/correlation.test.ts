@@ -0,0 +1,95 @@
+import { ProcessedDayData } from '../../types';
+import {
+  buildCorrelationBreakdown,
+  buildCorrelationMatrix,
+  buildRollingCorrelation,
+  getReturnsByTime,
+  pairReturns,
+} from '../../utils/correlation';
+import { createRandom } from '../../utils/statistics';
+
+// Candles for 2023 compounding the given daily returns from a close of 100
+const toCandles = (returns: number[]): ProcessedDayData[] => {
+  let close = 100;
+  return returns.map((r, i) => {
+    close *= 1 + r;
+    const date = new Date(2023, 0, 1 + i);
+    return {
+      date,
+      open: close,
+      high: close,
+      low: close,
+      close,
+      volume: 1000,
+      volatility: 1,
+      performance: r * 100,
+      liquidity: 0.5,
+      dayOfWeek: date.getDay(),
+      weekOfYear: 1,
+      monthOfYear: date.getMonth() + 1,
+      hourOfDay: 0,
+      session: 'asia',
+    };
+  });
+};
+
+const random = createRandom(7);
+const noise = () => (random() - 0.5) * 0.04;
+const benchmarkReturns = Array.from({ length: 365 }, noise);
+// Moves twice as hard as the benchmark in the first half of the year, on its own afterwards
+const assetReturns = benchmarkReturns.map((r, i) => (new Date(2023, 0, 1 + i).getMonth() < 6 ? 2 * r + noise() * 0.1 : noise()));
+
+const benchmark = toCandles(benchmarkReturns);
+const asset = toCandles(assetReturns);
+
+describe('correlation', () => {
+  test('pairs returns on shared timestamps', () => {
+    const paired = pairReturns(getReturnsByTime(asset.slice(0, 10)), getReturnsByTime(benchmark.slice(5, 20)));
+    expect(paired.times).toEqual(asset.slice(6, 10).map(candle => candle.date.getTime()));
+    expect(paired.benchmark[0]).toBeCloseTo(benchmarkReturns[6]);
+  });
+
+  test('builds a symmetric matrix with Pearson and Spearman', () => {
+    const series = [{ key: 'ASSET', data: asset }, { key: 'BTC', data: benchmark }, { key: 'SHORT', data: asset.slice(0, 2) }];
+    const pearson = buildCorrelationMatrix(series, 'pearson');
+
+    expect(pearson.keys).toEqual(['ASSET', 'BTC', 'SHORT']);
+    expect(pearson.values[0][0]).toBe(1);
+    expect(pearson.values[0][1]).toBe(pearson.values[1][0]);
+    expect(pearson.values[0][1]).toBeGreaterThan(0.5);
+    expect(pearson.counts[0][1]).toBe(364);
+    // One shared return is too few to correlate
+    expect(pearson.values[0][2]).toBeNull();
+
+    const spearman = buildCorrelationMatrix(series, 'spearman');
+    expect(spearman.method).toBe('spearman');
+    expect(spearman.values[0][1]).toBeGreaterThan(0.4);
+  });
+
+  test('rolls correlation and beta against a benchmark', () => {
+    const rolling = buildRollingCorrelation(asset, benchmark, 30);
+    expect(rolling).toHaveLength(364 - 29);
+    expect(rolling[0].time).toBe(asset[30].date.getTime());
+
+    const inFebruary = rolling.find(point => point.time === new Date(2023, 1, 15).getTime())!;
+    expect(inFebruary.correlation).toBeGreaterThan(0.95);
+    expect(inFebruary.beta).toBeCloseTo(2, 0);
+
+    const inOctober = rolling.find(point => point.time === new Date(2023, 9, 15).getTime())!;
+    expect(Math.abs(inOctober.beta ?? 0)).toBeLessThan(0.6);
+  });
+
+  test('detects a correlation that changes by month but not by weekday', () => {
+    const byMonth = buildCorrelationBreakdown(asset, benchmark, 'month');
+    expect(byMonth.buckets.map(bucket => bucket.label)).toHaveLength(12);
+    expect(byMonth.buckets[0]).toMatchObject({ key: 1, label: 'January', count: 30 });
+    expect(byMonth.buckets[0].correlation).toBeGreaterThan(0.95);
+    expect(byMonth.buckets[0].confidenceInterval![0]).toBeGreaterThan(0.9);
+    expect(byMonth.homogeneity!.degreesOfFreedom).toBe(11);
+    expect(byMonth.homogeneity!.pValue).toBeLessThan(0.001);
+
+    const byWeekday = buildCorrelationBreakdown(asset, benchmark, 'weekday');
+    expect(byWeekday.buckets.map(bucket => bucket.label)[0]).toBe('Monday');
+    expect(byWeekday.homogeneity!.pValue).toBeGreaterThan(0.01);
+  });
+});
@@ -0,0 +1,93 @@
+import { ProcessedDayData } from '../../types';
+import {
+  autocorrelation,
+  buildCorrelogram,
+  buildCycleReport,
+  detrend,
+  fft,
+  getCycleSeriesValues,
+  partialAutocorrelation,
+  periodogram,
+} from '../../utils/cycles';
+import { createRandom } from '../../utils/statistics';
+
+// Daily candles from Jan 1 2024 with the given returns and volumes
+const toCandles = (returns: number[], volumes: number[] = returns.map(() => 1000)): ProcessedDayData[] =>
+  returns.map((performance, i) => {
+    const date = new Date(2024, 0, 1 + i);
+    return {
+      date,
+      open: 100,
+      high: 100,
+      low: 100,
+      close: 100,
+      volume: volumes[i],
+      volatility: 1,
+      performance,
+      liquidity: 0.5,
+      dayOfWeek: date.getDay(),
+      weekOfYear: 1,
+      monthOfYear: 1,
+      hourOfDay: 0,
+      session: 'asia',
+    };
+  });
+
+describe('cycles', () => {
+  test('computes autocorrelations and partial autocorrelations', () => {
+    expect(autocorrelation([1, 2, 3, 4], 2)).toEqual([1, 0.25, expect.closeTo(-0.3)]);
+    expect(autocorrelation([5, 5, 5], 2)).toEqual([1, 0, 0]);
+
+    // An AR(1) process has a single partial autocorrelation
+    const random = createRandom(3);
+    const ar = [0];
+    for (let i = 1; i < 3000; i++) ar.push(0.6 * ar[i - 1] + random() - 0.5);
+    const pacf = partialAutocorrelation(autocorrelation(ar, 3));
+    expect(pacf[1]).toBeCloseTo(0.6, 1);
+    expect(Math.abs(pacf[2])).toBeLessThan(0.05);
+
+    const correlogram = buildCorrelogram(ar, 5);
+    expect(correlogram.map(point => point.lag)).toEqual([1, 2, 3, 4, 5]);
+    expect(correlogram[0].acfBand).toBeCloseTo(1.96 / Math.sqrt(3000), 3);
+    expect(correlogram[1].acfBand).toBeGreaterThan(correlogram[0].acfBand);
+    expect(correlogram[1].pacfBand).toBe(correlogram[0].pacfBand);
+  });
+
+  test('transforms and detrends series', () => {
+    const [real, imag] = fft([1, 0, 0, 0, 0, 0, 0, 0], new Array(8).fill(0));
+    expect(real).toEqual(new Array(8).fill(1));
+    expect(imag.every(value => value === 0 || Object.is(value, -0))).toBe(true);
+    const [, sine] = fft([0, 1, 0, -1], [0, 0, 0, 0]);
+    expect(sine).toEqual([0, -2, 0, 2]);
+
+    detrend([1, 3, 5, 7]).forEach(value => expect(value).toBeCloseTo(0));
+    expect(getCycleSeriesValues(toCandles([1, NaN, 2], [10, 0, Math.E]), 'volume')).toEqual([Math.log(10), 1]);
+  });
+
+  test('finds a weekly cycle in noisy returns', () => {
+    const random = createRandom(7);
+    const returns = Array.from({ length: 364 }, (_, i) => Math.sin((2 * Math.PI * i) / 7) + (random() - 0.5) * 2);
+    const report = buildCycleReport(toCandles(returns), 'returns');
+
+    expect(report.count).toBe(364);
+    expect(report.correlogram).toHaveLength(40);
+    expect(report.spectrum).toHaveLength(256);
+    expect(report.peaks).toHaveLength(1);
+    expect(report.peaks[0].period).toBeCloseTo(7, 0);
+    expect(report.peaks[0].adjustedPValue).toBeLessThan(0.001);
+    expect(report.peaks[0].autocorrelation).toBeGreaterThan(0.3);
+
+    const spectrum = periodogram(returns);
+    expect(spectrum[spectrum.length - 1].frequency).toBe(0.5);
+    expect(spectrum.every(point => point.threshold > point.background)).toBe(true);
+  });
+
+  test('reports no cycles in short or pure noise series', () => {
+    expect(buildCycleReport(toCandles([1, 2, 3]), 'returns')).toEqual({
+      series: 'returns', count: 3, correlogram: [], spectrum: [], peaks: [],
+    });
+    const random = createRandom(11);
+    const noise = Array.from({ length: 500 }, () => random() - 0.5);
+    expect(buildCycleReport(toCandles(noise), 'returns').peaks).toEqual([]);
+  });
+});
@@ -0,0 +1,49 @@
+import { describeCacheStatus, describeRetryNotice, getDataSourceStatus } from '../../utils/dataSource';
+import { CandleCacheStatus } from '../../types';
+
+const status = (overrides: Partial<CandleCacheStatus>): CandleCacheStatus => ({
+  source: 'network',
+  cachedCandles: 0,
+  fetchedCandles: 0,
+  offline: false,
+  ...overrides,
+});
+
+describe('dataSource', () => {
+  describe('getDataSourceStatus', () => {
+    test('reports freshly downloaded candles as live', () => {
+      expect(getDataSourceStatus(status({ source: 'network', fetchedCandles: 10 })).state).toBe('live');
+      expect(getDataSourceStatus(status({ source: 'mixed', cachedCandles: 5, fetchedCandles: 1 })).state).toBe('live');
+    });
+
+    test('reports candles served from the local store as cached', () => {
+      expect(getDataSourceStatus(status({ source: 'cache', cachedCandles: 10 })).state).toBe('cached');
+    });
+
+    test('reports a failed refresh as stale', () => {
+      const result = getDataSourceStatus(status({ source: 'cache', cachedCandles: 10, offline: true }));
+
+      expect(result.state).toBe('stale');
+      expect(result.detail).toBe('Offline: served 10 candles from cache');
+    });
+  });
+
+  describe('describeCacheStatus', () => {
+    test('summarises a partial top-up', () => {
+      expect(describeCacheStatus(status({ source: 'mixed', cachedCandles: 300, fetchedCandles: 2 })))
+        .toBe('Fetched 2 new candles, 300 from cache');
+    });
+
+    test('summarises a cache hit', () => {
+      expect(describeCacheStatus(status({ source: 'cache', cachedCandles: 2 }))).toBe('Served from cache (2 candles)');
+    });
+  });
+
+  describe('describeRetryNotice', () => {
+    test('names the failure and the wait before the retry', () => {
+      expect(describeRetryNotice({ context: 'Klines', attempt: 2, delayMs: 6500, errorKind: 'rate-limited' }))
+        .toBe('Rate limited, retry 2 in 7s');
+      expect(describeRetryNotice({ context: 'Klines', attempt: 1, delayMs: 400 })).toBe('Request failed, retry 1 in 1s');
+    });
+  });
+});
@@ -0,0 +1,92 @@
+import { ProcessedDayData } from '../../types';
+import {
+  buildDistributionBuckets,
+  buildQuantilePlot,
+  buildReturnHistogram,
+  estimateValueAtRisk,
+  getRiskEstimate,
+  summarizeReturns,
+} from '../../utils/distribution';
+import { createRandom, normalQuantile } from '../../utils/statistics';
+
+// Daily candles from Monday Jan 2 2023 with the given returns as performance
+const toCandles = (returns: number[]): ProcessedDayData[] =>
+  returns.map((performance, i) => {
+    const date = new Date(2023, 0, 2 + i);
+    return {
+      date,
+      open: 100,
+      high: 100,
+      low: 100,
+      close: 100,
+      volume: 1000,
+      volatility: 1,
+      performance,
+      liquidity: 0.5,
+      dayOfWeek: date.getDay(),
+      weekOfYear: 1,
+      monthOfYear: date.getMonth() + 1,
+      hourOfDay: 0,
+      session: 'asia',
+    };
+  });
+
+// Standard normal returns, percent
+const random = createRandom(11);
+const normalReturns = Array.from({ length: 5000 }, () => normalQuantile(Math.min(Math.max(random(), 1e-9), 1 - 1e-9)));
+
+describe('distribution', () => {
+  test('bins returns with density curves that integrate to one', () => {
+    const histogram = buildReturnHistogram(normalReturns, 40);
+    expect(histogram).toHaveLength(40);
+    expect(histogram.reduce((sum, bin) => sum + bin.count, 0)).toBe(5000);
+
+    const width = histogram[0].to - histogram[0].from;
+    expect(histogram.reduce((sum, bin) => sum + bin.density * width, 0)).toBeCloseTo(1);
+    expect(histogram.reduce((sum, bin) => sum + bin.normal * width, 0)).toBeCloseTo(1, 1);
+    expect(histogram.reduce((sum, bin) => sum + bin.kernel * width, 0)).toBeCloseTo(1, 1);
+
+    expect(buildReturnHistogram([2, 2])).toMatchObject([{ count: 2, density: 1 }]);
+  });
+
+  test('lines normal returns up on the QQ diagonal', () => {
+    const points = buildQuantilePlot(normalReturns);
+    const middle = points[2500];
+    expect(middle.sample).toBeCloseTo(middle.theoretical, 1);
+    expect(points[0].sample).toBeLessThan(points[4999].sample);
+  });
+
+  test('agrees across VaR methods for normal returns and widens with fat tails', () => {
+    const historical = estimateValueAtRisk(normalReturns, 0.95, 'historical')!;
+    const parametric = estimateValueAtRisk(normalReturns, 0.95, 'parametric')!;
+    const cornishFisher = estimateValueAtRisk(normalReturns, 0.95, 'cornishFisher')!;
+    expect(parametric.valueAtRisk).toBeCloseTo(-1.645, 1);
+    expect(parametric.expectedShortfall).toBeCloseTo(-2.063, 1);
+    expect(historical.valueAtRisk).toBeCloseTo(parametric.valueAtRisk, 1);
+    expect(historical.expectedShortfall).toBeCloseTo(parametric.expectedShortfall, 1);
+    expect(cornishFisher.valueAtRisk).toBeCloseTo(parametric.valueAtRisk, 1);
+    expect(cornishFisher.expectedShortfall).toBeCloseTo(parametric.expectedShortfall, 1);
+
+    // A few crashes fatten the left tail: Cornish-Fisher reaches further than the normal at 99%
+    const crashes = [...normalReturns.slice(0, 995), -12, -10, -9, -11, -13];
+    const summary = summarizeReturns(crashes)!;
+    expect(summary.skewness).toBeLessThan(0);
+    expect(summary.excessKurtosis).toBeGreaterThan(1);
+    expect(summary.jarqueBera!.pValue).toBeLessThan(0.001);
+    expect(summary.risk).toHaveLength(6);
+    expect(getRiskEstimate(summary, 'cornishFisher', 0.99)!.valueAtRisk)
+      .toBeLessThan(getRiskEstimate(summary, 'parametric', 0.99)!.valueAtRisk);
+
+    expect(summarizeReturns([1])).toBeNull();
+  });
+
+  test('splits returns into weekday buckets from Monday', () => {
+    // Fridays swing hard, other days barely move
+    const returns = Array.from({ length: 70 }, (_, i) => (i % 7 === 4 ? (i % 14 === 4 ? 5 : -5) : (i % 2 ? 0.1 : -0.1)));
+    const buckets = buildDistributionBuckets(toCandles(returns), 'weekday');
+    expect(buckets.map(bucket => bucket.label)).toEqual(['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday']);
+    expect(buckets[4].returns).toHaveLength(10);
+    expect(getRiskEstimate(buckets[4].summary!, 'historical', 0.95)!.valueAtRisk).toBe(-5);
+    expect(buckets[0].summary!.stdDev).toBeLessThan(0.2);
+  });
+});
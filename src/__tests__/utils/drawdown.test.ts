@@ -0,0 +1,83 @@
+import { ProcessedDayData } from '../../types';
+import {
+  findDrawdowns,
+  getDrawdownForDate,
+  getMaxDrawdown,
+  getRecoveryStats,
+  getUnderwaterSeries,
+  rankDrawdowns,
+} from '../../utils/drawdown';
+
+// Daily candles from Jan 1 2024 with the given closes
+const toCandles = (closes: number[]): ProcessedDayData[] =>
+  closes.map((close, i) => {
+    const date = new Date(2024, 0, 1 + i);
+    return {
+      date,
+      open: close,
+      high: close,
+      low: close,
+      close,
+      volume: 1000,
+      volatility: 1,
+      performance: 0,
+      liquidity: 0.5,
+      dayOfWeek: date.getDay(),
+      weekOfYear: 1,
+      monthOfYear: 1,
+      hourOfDay: 0,
+      session: 'asia',
+    };
+  });
+
+// Two drawdowns: -20% from Jan 2 recovering on Jan 5, then -25% from Jan 6 still underwater
+const data = toCandles([90, 100, 80, 95, 100, 120, 90, 100]);
+
+describe('drawdown', () => {
+  test('measures each close against its running peak', () => {
+    expect(getUnderwaterSeries(data).map(point => point.drawdown)).toEqual([0, 0, expect.closeTo(-20), expect.closeTo(-5), 0, 0, -25, expect.closeTo(-16.667, 3)]);
+    expect(getMaxDrawdown(data)).toBe(-25);
+    expect(getMaxDrawdown([])).toBe(0);
+  });
+
+  test('splits the data into peak, trough and recovery episodes', () => {
+    const episodes = findDrawdowns(data);
+    expect(episodes).toHaveLength(2);
+    expect(episodes[0]).toMatchObject({
+      peak: new Date(2024, 0, 2),
+      trough: new Date(2024, 0, 3),
+      recovery: new Date(2024, 0, 5),
+      depth: expect.closeTo(-20),
+      duration: 3,
+      recoveryDays: 2,
+    });
+    expect(episodes[1]).toMatchObject({
+      peak: new Date(2024, 0, 6),
+      trough: new Date(2024, 0, 7),
+      recovery: null,
+      end: new Date(2024, 0, 8),
+      depth: -25,
+      duration: 2,
+      recoveryDays: null,
+    });
+    expect(findDrawdowns(toCandles([1, 2, 3]))).toEqual([]);
+  });
+
+  test('ranks episodes by depth and summarises recoveries', () => {
+    const episodes = findDrawdowns(data);
+    expect(rankDrawdowns(episodes, 1).map(episode => episode.depth)).toEqual([-25]);
+
+    const stats = getRecoveryStats(data, episodes);
+    expect(stats).toMatchObject({
+      episodes: 2,
+      recovered: 1,
+      averageRecoveryDays: 2,
+      longestRecoveryDays: 2,
+      longestUnderwaterDays: 3,
+    });
+    expect(stats.currentDrawdown).toBeCloseTo(-16.667, 3);
+
+    expect(getDrawdownForDate(new Date(2024, 0, 4), episodes)).toBe(episodes[0]);
+    expect(getDrawdownForDate(new Date(2024, 0, 1), episodes)).toBeUndefined();
+  });
+});
@@ -0,0 +1,87 @@
+import { IndicatorSettings } from '../../types';
+import {
+  calculateIndicators,
+  createIndicatorStream,
+  DEFAULT_INDICATOR_SETTINGS,
+  getIndicatorLabels,
+} from '../../utils/indicators';
+
+const candle = (close: number, high = close + 1, low = close - 1, volume = 100) => ({ high, low, close, volume });
+
+const settings = (overrides: Partial<IndicatorSettings>): IndicatorSettings => ({ ...DEFAULT_INDICATOR_SETTINGS, ...overrides });
+
+describe('indicators', () => {
+  test('seeds the EMA with an SMA, then smooths exponentially', () => {
+    const result = calculateIndicators([1, 2, 3, 4].map(close => candle(close)), settings({ emaPeriod: 3 }));
+    expect(result[1].ema).toBeUndefined();
+    expect(result[2].ema).toBe(2);
+    expect(result[3].ema).toBe(3);  // 2 + 2/(3+1) * (4 - 2)
+  });
+
+  test('smooths RSI gains and losses with Wilder averages', () => {
+    const closes = [10, 11, 10, 12, 12];
+    const result = calculateIndicators(closes.map(close => candle(close)), settings({ rsiPeriod: 2 }));
+    // Seed: gains (1, 0), losses (0, 1) average to 0.5 each
+    expect(result[2].rsi).toBe(50);
+    // Next change +2: gain (0.5 + 2) / 2 = 1.25, loss 0.5 / 2 = 0.25
+    expect(result[3].rsi).toBeCloseTo(100 - 100 / (1 + 1.25 / 0.25));
+    expect(calculateIndicators([1, 2, 3].map(close => candle(close)), settings({ rsiPeriod: 2 }))[2].rsi).toBe(100);
+  });
+
+  test('builds MACD, signal and histogram once the slow EMA is seeded', () => {
+    const closes = Array.from({ length: 12 }, (_, i) => 100 + i * i);
+    const result = calculateIndicators(closes.map(close => candle(close)), settings({ macd: { fast: 2, slow: 4, signal: 3 } }));
+
+    expect(result[4].macd).toBeUndefined();
+    const { macd, signal, histogram } = result[11].macd!;
+    expect(macd).toBeGreaterThan(0);
+    expect(histogram).toBeCloseTo(macd - signal);
+  });
+
+  test('measures bands, true range, stochastic, OBV and VWAP over their windows', () => {
+    const candles = [
+      candle(10, 11, 9, 100),
+      candle(10, 11, 9, 300),
+      candle(14, 14, 12, 200),  // Gaps up: true range reaches back to the previous close
+      candle(13, 15, 12, 100),
+    ];
+    const result = calculateIndicators(candles, settings({
+      bollinger: { period: 2, stdDev: 2 },
+      atrPeriod: 1,
+      stochastic: { period: 3, smoothing: 1 },
+      vwapPeriod: 2,
+    }));
+
+    expect(result[1].bollinger).toEqual({ upper: 10, middle: 10, lower: 10 });
+    expect(result[2].bollinger!.upper).toBeCloseTo(12 + 2 * 2);
+    expect(result[2].atr).toBe(4);
+    expect(result[2].stochastic).toEqual({ k: 100, d: 100 });
+    expect(result[3].stochastic!.k).toBeCloseTo(((13 - 9) / (15 - 9)) * 100);
+    expect(result.map(r => r.obv)).toEqual([0, 0, 200, 100]);
+    expect(result[1].vwap).toBeCloseTo(10);
+    expect(result[2].vwap).toBeCloseTo(((10 * 300) + (40 / 3) * 200) / 500);
+  });
+
+  test('streams the same values as a batch and forks without side effects', () => {
+    const candles = Array.from({ length: 80 }, (_, i) => candle(100 + Math.sin(i / 3) * 10 + i / 4, 112 + i / 4, 88 + i / 4, 100 + i));
+    const batch = calculateIndicators(candles);
+
+    const stream = createIndicatorStream();
+    candles.slice(0, 79).forEach(c => stream.next(c));
+    const preview = stream.fork().next(candle(150));
+    expect(preview.sma20).not.toBeCloseTo(batch[79].sma20!);
+
+    expect(stream.next(candles[79])).toEqual(batch[79]);
+    expect(batch[79]).toEqual(expect.objectContaining({
+      sma20: expect.any(Number), sma50: expect.any(Number), ema: expect.any(Number), rsi: expect.any(Number),
+      macd: expect.any(Object), bollinger: expect.any(Object), atr: expect.any(Number),
+      stochastic: expect.any(Object), obv: expect.any(Number), vwap: expect.any(Number),
+    }));
+  });
+
+  test('labels indicators with their periods', () => {
+    const labels = getIndicatorLabels(DEFAULT_INDICATOR_SETTINGS);
+    expect(labels.macd).toBe('MACD 12/26/9');
+    expect(labels.bollinger).toBe('Bollinger 20, 2σ');
+  });
+});
@@ -0,0 +1,111 @@
+import {
+  aggregateToDays,
+  buildHourWeekdayHeatmap,
+  getHistoryDays,
+  getTradingSession,
+  isIntradayInterval,
+  summarizeSessions,
+} from '../../utils/intraday';
+import { ProcessedDayData } from '../../types';
+
+const candle = (iso: string, overrides: Partial<ProcessedDayData> = {}): ProcessedDayData => {
+  const date = new Date(iso);
+  return {
+    date,
+    open: 100,
+    high: 110,
+    low: 90,
+    close: 105,
+    volume: 1000,
+    volatility: 20,
+    performance: 5,
+    liquidity: 0.001,
+    dayOfWeek: date.getUTCDay(),
+    weekOfYear: 1,
+    monthOfYear: date.getUTCMonth() + 1,
+    hourOfDay: date.getUTCHours(),
+    session: getTradingSession(date),
+    ...overrides,
+  };
+};
+
+describe('intraday', () => {
+  test('recognises intraday intervals', () => {
+    expect(isIntradayInterval('1m')).toBe(true);
+    expect(isIntradayInterval('12h')).toBe(true);
+    expect(isIntradayInterval('1d')).toBe(false);
+    expect(isIntradayInterval('1M')).toBe(false);
+  });
+
+  test('caps the history of fine intervals', () => {
+    expect(getHistoryDays('1m', 5)).toBe(7);
+    expect(getHistoryDays('1h', 1)).toBe(365);
+    expect(getHistoryDays('1d', 8)).toBe(8 * 365);
+  });
+
+  test('assigns sessions by UTC hour', () => {
+    expect(getTradingSession(new Date('2024-01-02T03:00:00Z'))).toBe('asia');
+    expect(getTradingSession(new Date('2024-01-02T08:00:00Z'))).toBe('europe');
+    expect(getTradingSession(new Date('2024-01-02T14:30:00Z'))).toBe('us');
+    expect(getTradingSession(new Date('2024-01-02T22:00:00Z'))).toBe('off-hours');
+  });
+
+  test('averages candles into hour x weekday cells', () => {
+    const data = [
+      candle('2024-01-01T09:00:00Z', { performance: 2, volume: 100 }),
+      candle('2024-01-08T09:00:00Z', { performance: -1, volume: 300 }),
+      candle('2024-01-02T15:00:00Z', { performance: 4 }),
+    ];
+
+    const cells = buildHourWeekdayHeatmap(data);
+    const mondayNine = cells[1 * 24 + 9];
+
+    expect(cells).toHaveLength(7 * 24);
+    expect(mondayNine.count).toBe(2);
+    expect(mondayNine.avgReturn).toBeCloseTo(0.5);
+    expect(mondayNine.avgVolume).toBe(200);
+    expect(cells[2 * 24 + 15].avgReturn).toBe(4);
+    expect(cells[0].count).toBe(0);
+  });
+
+  test('summarises each trading session', () => {
+    const data = [
+      candle('2024-01-02T01:00:00Z', { performance: 1 }),
+      candle('2024-01-02T02:00:00Z', { performance: 3 }),
+      candle('2024-01-02T15:00:00Z', { performance: -2 }),
+    ];
+
+    const [asia, europe, us] = summarizeSessions(data);
+
+    expect(asia).toEqual(expect.objectContaining({ session: 'asia', avgReturn: 2, count: 2 }));
+    expect(europe.count).toBe(0);
+    expect(us.avgReturn).toBe(-2);
+  });
+
+  test('combines intraday candles into daily candles in a timezone', () => {
+    const data = [
+      candle('2024-01-01T23:00:00Z', { open: 100, high: 104, low: 99, close: 102, volume: 10 }),
+      candle('2024-01-02T01:00:00Z', { open: 102, high: 110, low: 101, close: 108, volume: 20 }),
+    ];
+
+    expect(aggregateToDays(data, { timeZone: 'UTC', dayStartHour: 0 })).toHaveLength(2);
+
+    // Both candles fall on 2 January in Tokyo (UTC+9)
+    const days = aggregateToDays(data, { timeZone: 'Asia/Tokyo', dayStartHour: 0 });
+    expect(days).toHaveLength(1);
+    expect(days[0].date).toEqual(new Date(2024, 0, 2));
+    expect(days[0]).toEqual(expect.objectContaining({ open: 100, high: 110, low: 99, close: 108, volume: 30, dayOfWeek: 2 }));
+    expect(days[0].performance).toBeCloseTo(8);
+  });
+
+  test('starts trading days at the configured hour', () => {
+    const data = [
+      candle('2024-01-02T03:00:00Z', { volume: 10 }),
+      candle('2024-01-02T05:00:00Z', { volume: 20 }),
+    ];
+
+    // With days starting at 04:00 UTC, the 03:00 candle still belongs to 1 January
+    const days = aggregateToDays(data, { timeZone: 'UTC', dayStartHour: 4 });
+    expect(days.map(day => day.date)).toEqual([new Date(2024, 0, 1), new Date(2024, 0, 2)]);
+  });
+});
@@ -0,0 +1,64 @@
+import { ProcessedDayData } from '../../types';
+import { applyLiquidityMeasure, formatLiquidityValue, getLiquidityValue, toPercentileRanks } from '../../utils/liquidity';
+
+const candle = (day: number, overrides: Partial<ProcessedDayData> = {}): ProcessedDayData => ({
+  date: new Date(2024, 0, day),
+  open: 100,
+  high: 104,
+  low: 98,
+  close: 102,
+  volume: 1000,
+  volatility: 6,
+  performance: 2,
+  liquidity: 0,
+  dayOfWeek: 1,
+  weekOfYear: 1,
+  monthOfYear: 1,
+  hourOfDay: 0,
+  session: 'asia',
+  quoteVolume: 100000,
+  trades: 50,
+  takerBuyVolume: 600,
+  takerBuyQuoteVolume: 60000,
+  ...overrides,
+});
+
+describe('liquidity', () => {
+  test('computes raw measures from kline fields', () => {
+    const day = candle(1);
+    // 2% return over 100k of quote volume, per million
+    expect(getLiquidityValue(day, 'amihud')).toBeCloseTo(0.2);
+    expect(getLiquidityValue(day, 'turnover')).toBe(100000);
+    expect(getLiquidityValue(day, 'tradeSize')).toBe(2000);
+    expect(getLiquidityValue(day, 'takerRatio')).toBeCloseTo(1.5);
+    expect(getLiquidityValue(candle(1, { trades: 0 }), 'tradeSize')).toBeNull();
+    // Without a quote volume, turnover falls back to volume x close
+    expect(getLiquidityValue(candle(1, { quoteVolume: undefined }), 'turnover')).toBe(102000);
+  });
+
+  test('ranks values with ties sharing a rank', () => {
+    expect(toPercentileRanks([3, 1, null, 3, 2])).toEqual([5 / 6, 0, null, 5 / 6, 1 / 3]);
+    expect(toPercentileRanks([7])).toEqual([0.5]);
+  });
+
+  test('scores liquidity so that higher is always more liquid', () => {
+    const data = [candle(1, { quoteVolume: 50000 }), candle(2, { quoteVolume: 200000 }), candle(3, { quoteVolume: 100000 })];
+
+    expect(applyLiquidityMeasure(data, 'turnover').map(d => d.liquidity)).toEqual([0, 1, 0.5]);
+    // Equal returns, so Amihud is lowest where turnover is highest
+    expect(applyLiquidityMeasure(data, 'amihud').map(d => d.liquidity)).toEqual([0, 1, 0.5]);
+    expect(applyLiquidityMeasure(data, 'volume').map(d => d.liquidity)).toEqual([0.001, 0.001, 0.001]);
+  });
+
+  test('ranks across peer symbols on the same date', () => {
+    const data = [candle(1, { quoteVolume: 100000 }), candle(2, { quoteVolume: 100000 })];
+    const peer = [candle(1, { quoteVolume: 500000 })];
+
+    const ranked = applyLiquidityMeasure(data, 'rank', [peer]);
+    // Less turnover and more price impact than the peer on day 1
+    expect(ranked[0].liquidity).toBe(0);
+    // No peer on day 2, so it is ranked against its own history
+    expect(ranked[1].liquidity).toBe(0.5);
+    expect(formatLiquidityValue(ranked[1], 'rank')).toBe('50%');
+  });
+});
@@ -0,0 +1,44 @@
+import { calculateLiquidityMetrics, describeLiquidity, getDepthChartData } from '../../utils/orderBookMetrics';
+
+const book = {
+  bids: [[99.9, 10], [99.6, 20], [98, 100]] as [number, number][],
+  asks: [[100.1, 5], [100.4, 10], [100.8, 50]] as [number, number][],
+};
+
+describe('orderBookMetrics', () => {
+  test('measures spread, depth within each band and imbalance', () => {
+    const metrics = calculateLiquidityMetrics(book);
+    expect(metrics).not.toBeNull();
+    if (!metrics) return;
+
+    expect(metrics.midPrice).toBe(100);
+    expect(metrics.spread).toBeCloseTo(0.2);
+    expect(metrics.spreadPercent).toBeCloseTo(0.2);
+
+    const [half, one] = metrics.depth;
+    expect(half).toMatchObject({ band: 0.5, covered: true });
+    expect(half.bid).toBeCloseTo(99.9 * 10 + 99.6 * 20);
+    expect(half.ask).toBeCloseTo(100.1 * 5 + 100.4 * 10);
+    // Asks stop at 100.8, short of the 1% band
+    expect(one.covered).toBe(false);
+    expect(one.ask).toBeCloseTo(100.1 * 5 + 100.4 * 10 + 100.8 * 50);
+    expect(metrics.imbalance).toBeCloseTo((one.bid - one.ask) / (one.bid + one.ask));
+
+    expect(describeLiquidity(metrics)).toMatch(/^Spread 0\.200% · ±1% depth ≥/);
+  });
+
+  test('returns null for a one-sided book', () => {
+    expect(calculateLiquidityMetrics({ bids: book.bids, asks: [] })).toBeNull();
+  });
+
+  test('builds cumulative depth curves sorted by price', () => {
+    const points = getDepthChartData(book, 1);
+    expect(points).toEqual([
+      { price: 99.6, bids: 30 },
+      { price: 99.9, bids: 10 },
+      { price: 100.1, asks: 5 },
+      { price: 100.4, asks: 15 },
+      { price: 100.8, asks: 65 },
+    ]);
+  });
+});
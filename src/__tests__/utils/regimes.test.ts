@@ -0,0 +1,83 @@
+import { ProcessedDayData } from '../../types';
+import {
+  buildRegimeStats,
+  buildRegimeTransitions,
+  detectRegimes,
+  filterByRegime,
+  getRegimeBands,
+  indexRegimes,
+} from '../../utils/regimes';
+
+// Daily candles from Jan 1 2024 with the given volatilities and closes
+const toCandles = (volatility: number[], closes: number[]): ProcessedDayData[] =>
+  volatility.map((value, i) => {
+    const date = new Date(2024, 0, 1 + i);
+    return {
+      date,
+      open: closes[i],
+      high: closes[i],
+      low: closes[i],
+      close: closes[i],
+      volume: 1000,
+      volatility: value,
+      performance: i % 2 === 0 ? 1 : -1,
+      liquidity: 0.5,
+      dayOfWeek: date.getDay(),
+      weekOfYear: 1,
+      monthOfYear: 1,
+      hourOfDay: 0,
+      session: 'asia',
+    };
+  });
+
+// 40 calm candles with a rising close, then 20 wild ones with a falling close
+const volatility = Array.from({ length: 60 }, (_, i) => (i < 40 ? 1 : 8));
+const closes = Array.from({ length: 60 }, (_, i) => (i < 40 ? 100 + i : 140 - (i - 40) * 3));
+const data = toCandles(volatility, closes);
+const settings = { volatilityWindow: 5, lookback: 250, trendWindow: 10 };
+
+describe('regimes', () => {
+  test('ranks volatility against its trailing history and trend against the moving average', () => {
+    const points = detectRegimes(data, settings);
+    expect(points).toHaveLength(60);
+    expect(points.map(point => point.date)).toEqual(data.map(candle => candle.date));
+    expect(points.slice(45).every(point => point.volatility === 'high')).toBe(true);
+    expect(points[30].trend).toBe('bull');
+    expect(points[59].trend).toBe('bear');
+    expect(points.every(point => point.percentile >= 0 && point.percentile <= 1)).toBe(true);
+    expect(detectRegimes([])).toEqual([]);
+  });
+
+  test('filters candles and summarises each regime', () => {
+    const regimes = indexRegimes(detectRegimes(data, settings));
+    const high = filterByRegime(data, regimes, 'high');
+    expect(high.length).toBeGreaterThanOrEqual(15);
+    expect(high.every(candle => candle.date >= data[40].date)).toBe(true);
+    expect(filterByRegime(data, regimes, 'all')).toBe(data);
+
+    const stats = buildRegimeStats(data, regimes, 'volatility');
+    expect(stats.map(stat => stat.regime)).toEqual(['low', 'normal', 'high']);
+    expect(stats.reduce((sum, stat) => sum + stat.count, 0)).toBe(60);
+    expect(stats.reduce((sum, stat) => sum + stat.share, 0)).toBeCloseTo(1);
+    const highStats = stats[2];
+    expect(highStats.avgVolatility).toBeGreaterThan(stats[1].avgVolatility);
+    expect(highStats.averageSpell).toBeCloseTo(highStats.count / highStats.spells);
+  });
+
+  test('counts moves between regimes and bands each candle', () => {
+    const points = [
+      { date: data[0].date, volatility: 'low' as const, trend: 'bull' as const, level: 1, percentile: 0.1 },
+      { date: data[1].date, volatility: 'low' as const, trend: 'bull' as const, level: 1, percentile: 0.1 },
+      { date: data[2].date, volatility: 'high' as const, trend: 'bear' as const, level: 5, percentile: 0.9 },
+      { date: data[3].date, volatility: 'low' as const, trend: 'bear' as const, level: 1, percentile: 0.2 },
+    ];
+    const regimes = indexRegimes(points);
+    const transitions = buildRegimeTransitions(data.slice(0, 4), regimes, 'volatility');
+    expect(transitions.regimes).toEqual(['low', 'normal', 'high']);
+    expect(transitions.counts).toEqual([[1, 0, 1], [0, 0, 0], [1, 0, 0]]);
+    expect(transitions.probabilities).toEqual([[0.5, 0, 0.5], [null, null, null], [1, 0, 0]]);
+
+    expect(getRegimeBands(data[2].date, regimes, 'trend')).toEqual({ 'regime-bull': 0, 'regime-bear': 1 });
+    expect(getRegimeBands(data[10].date, regimes, 'trend')).toEqual({});
+  });
+});
@@ -0,0 +1,48 @@
+import { getBackoffDelay, withRetry } from '../../utils/retry';
+import { RetryPolicy } from '../../types';
+
+const policy: RetryPolicy = { maxRetries: 2, baseDelayMs: 0, maxDelayMs: 1000, jitter: 0 };
+
+describe('retry', () => {
+  describe('getBackoffDelay', () => {
+    const backoff: RetryPolicy = { maxRetries: 5, baseDelayMs: 100, maxDelayMs: 1000, jitter: 0.5 };
+
+    test('doubles the delay for every attempt up to the cap', () => {
+      const noJitter = { ...backoff, jitter: 0 };
+
+      expect([1, 2, 3, 4, 5].map(attempt => getBackoffDelay(attempt, noJitter))).toEqual([100, 200, 400, 800, 1000]);
+    });
+
+    test('spreads the delay over the jitter range', () => {
+      expect(getBackoffDelay(2, backoff, () => 0)).toBe(100);
+      expect(getBackoffDelay(2, backoff, () => 0.999)).toBe(200);
+    });
+  });
+
+  describe('withRetry', () => {
+    test('retries retryable failures until the operation succeeds', async () => {
+      const operation = jest.fn()
+        .mockRejectedValueOnce(new Error('flaky'))
+        .mockResolvedValueOnce('ok');
+      const onRetry = jest.fn();
+
+      await expect(withRetry(operation, policy, { isRetryable: () => true, onRetry })).resolves.toBe('ok');
+      expect(operation).toHaveBeenCalledTimes(2);
+      expect(onRetry).toHaveBeenCalledWith(expect.any(Error), 1, 0);
+    });
+
+    test('gives up after the configured number of retries', async () => {
+      const operation = jest.fn().mockRejectedValue(new Error('down'));
+
+      await expect(withRetry(operation, policy, { isRetryable: () => true })).rejects.toThrow('down');
+      expect(operation).toHaveBeenCalledTimes(3);
+    });
+
+    test('does not retry errors classified as permanent', async () => {
+      const operation = jest.fn().mockRejectedValue(new Error('bad request'));
+
+      await expect(withRetry(operation, policy, { isRetryable: () => false })).rejects.toThrow('bad request');
+      expect(operation).toHaveBeenCalledTimes(1);
+    });
+  });
+});
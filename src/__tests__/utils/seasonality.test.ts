@@ -0,0 +1,151 @@
+import { ProcessedDayData } from '../../types';
+import {
+  buildSeasonalityGrid,
+  buildSeasonalityReport,
+  buildYearOverYear,
+  getSeasonalityGridPosition,
+  getSeasonalityLabel,
+  getTurnOfMonthKey,
+  getYearOverYearLabel,
+  getYearOverYearYear,
+} from '../../utils/seasonality';
+
+// 40 weeks of days; Mondays gain about 2%, other days wobble around zero
+const days: ProcessedDayData[] = Array.from({ length: 280 }, (_, i) => {
+  const date = new Date(2024, 0, 1 + i);
+  const dayOfWeek = date.getDay();
+  return {
+    date,
+    open: 100,
+    high: 103,
+    low: 97,
+    close: 100,
+    volume: 1000000,
+    volatility: 6,
+    performance: dayOfWeek === 1 ? 2 + ((i % 3) - 1) * 0.3 : ((i * 7) % 5) - 2,
+    liquidity: 0.5,
+    dayOfWeek,
+    weekOfYear: 1 + Math.floor(i / 7),
+    monthOfYear: date.getMonth() + 1,
+    hourOfDay: 0,
+    session: 'asia',
+  };
+});
+
+describe('seasonality', () => {
+  test('finds the weekday whose returns differ after correction', () => {
+    const report = buildSeasonalityReport(days, 'weekday', { resamples: 200 });
+    expect(report.sampleSize).toBe(280);
+    expect(report.buckets.map(bucket => bucket.label)).toEqual([
+      'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday',
+    ]);
+
+    const [monday, ...rest] = report.buckets;
+    expect(monday).toMatchObject({ count: 40, hitRate: 1, significant: true });
+    expect(monday.meanReturn).toBeCloseTo(2, 1);
+    expect(monday.effectSize).toBeGreaterThan(1);
+    expect(monday.adjustedPValue).toBeLessThan(0.001);
+    expect(monday.confidenceInterval![0]).toBeGreaterThan(1.8);
+    rest.forEach(bucket => expect(bucket.adjustedPValue).toBeGreaterThanOrEqual(bucket.pValue!));
+  });
+
+  test('gives the same report on every run', () => {
+    expect(buildSeasonalityReport(days, 'month', { resamples: 100 }))
+      .toEqual(buildSeasonalityReport(days, 'month', { resamples: 100 }));
+  });
+
+  test('buckets the days around the turn of the month', () => {
+    expect(getTurnOfMonthKey(new Date(2024, 1, 29))).toBe(-1);
+    expect(getTurnOfMonthKey(new Date(2024, 1, 27))).toBe(-3);
+    expect(getTurnOfMonthKey(new Date(2024, 2, 2))).toBe(2);
+    expect(getTurnOfMonthKey(new Date(2024, 2, 15))).toBe(0);
+    expect(getSeasonalityLabel(-2, 'turnOfMonth')).toBe('2nd last day');
+    expect(getSeasonalityLabel(1, 'turnOfMonth')).toBe('1st day');
+
+    const report = buildSeasonalityReport(days, 'turnOfMonth', { resamples: 50 });
+    expect(report.buckets.map(bucket => bucket.key)).toEqual([-3, -2, -1, 1, 2, 3, 0]);
+  });
+
+  test('lays candles out by year and month with row and column summaries', () => {
+    const candle = (year: number, month: number, day: number, open: number, close: number): ProcessedDayData => ({
+      ...days[0],
+      date: new Date(year, month - 1, day),
+      open,
+      close,
+      volatility: open / 50,
+      volume: 10,
+    });
+    const data = [
+      candle(2022, 9, 1, 100, 95), candle(2022, 9, 30, 95, 90),
+      candle(2023, 9, 1, 100, 104), candle(2023, 9, 30, 104, 110),
+      candle(2023, 10, 1, 110, 121),
+    ];
+
+    const grid = buildSeasonalityGrid(data, 'month');
+    expect(grid.years).toEqual([2022, 2023]);
+    expect(grid.periods).toHaveLength(12);
+    expect(grid.cells.map(cell => [cell.year, cell.period, cell.count])).toEqual([[2022, 9, 2], [2023, 9, 2], [2023, 10, 1]]);
+    expect(grid.cells[0].cumulativeReturn).toBeCloseTo(-10);
+    expect(grid.cells[0]).toMatchObject({ start: data[0].date, end: data[1].date, volume: 20 });
+
+    const september = grid.columns.find(column => column.key === 9)!;
+    expect(september).toMatchObject({ count: 2, positiveShare: 0.5 });
+    expect(september.meanReturn).toBeCloseTo(0);
+    expect(grid.rows[1].compoundedReturn).toBeCloseTo(21);
+  });
+
+  test('uses the ISO week-numbering year for week columns', () => {
+    expect(getSeasonalityGridPosition(new Date(2024, 11, 30), 'week')).toEqual({ year: 2025, period: 1 });
+    expect(getSeasonalityGridPosition(new Date(2024, 11, 30), 'month')).toEqual({ year: 2024, period: 12 });
+    expect(buildSeasonalityGrid(days, 'week').periods).toHaveLength(52);
+  });
+
+  test('overlays each year rebased on its first open with an average band', () => {
+    const candle = (year: number, month: number, day: number, open: number, close: number): ProcessedDayData => ({
+      ...days[0],
+      date: new Date(year, month - 1, day),
+      open,
+      close,
+    });
+    const data = [
+      candle(2022, 1, 1, 100, 110), candle(2022, 1, 3, 110, 120),
+      candle(2023, 1, 2, 50, 45), candle(2023, 1, 3, 45, 40), candle(2023, 1, 5, 40, 60),
+      candle(2024, 3, 1, 10, 20),
+    ];
+
+    const byDay = buildYearOverYear(data, 'dayOfYear');
+    expect(byDay.series.map(line => [line.year, line.partial])).toEqual([[2022, false], [2023, false], [2024, true]]);
+    expect(byDay.series[1].points.map(point => point.position)).toEqual([1, 2, 4]);
+    expect(byDay.series[1].points[2].cumulativeReturn).toBeCloseTo(20);
+    expect(byDay.rows.map(row => row.position)).toEqual([0, 1, 2, 4, 60]);
+
+    // 2022 is carried forward over day 1 and ends on day 2; the partial 2024 is never averaged
+    const [, second, third, fifth, last] = byDay.rows;
+    expect(second.count).toBe(2);
+    expect(Object.keys(second.returns)).toEqual(['2023']);
+    expect(second.average).toBeCloseTo(0);
+    expect(second.min).toBeCloseTo(-10);
+    expect(third.average).toBeCloseTo(0);
+    expect(fifth).toMatchObject({ count: 1 });
+    expect(fifth.average).toBeCloseTo(20);
+    expect(last).toMatchObject({ average: null, count: 0, returns: { 2024: 100 } });
+
+    const byCandle = buildYearOverYear(data, 'tradingDay');
+    expect(byCandle.series[1].points.map(point => point.position)).toEqual([0, 1, 2]);
+    expect(byCandle.rows[1].average).toBeCloseTo(0);
+  });
+
+  test('starts each year on the anchor date', () => {
+    const anchor = { month: 4, day: 1 };
+    expect(getYearOverYearYear({ year: 2024, month: 3, day: 31 }, anchor)).toBe(2023);
+    expect(getYearOverYearYear({ year: 2024, month: 4, day: 1 }, anchor)).toBe(2024);
+    expect(getYearOverYearYear({ year: 2023, month: 2, day: 28 }, { month: 2, day: 30 })).toBe(2023);
+    expect(getYearOverYearLabel(0, 'dayOfYear', anchor)).toBe('Apr 01');
+    expect(getYearOverYearLabel(30, 'dayOfYear', anchor)).toBe('May 01');
+    expect(getYearOverYearLabel(9, 'tradingDay', anchor)).toBe('Day 10');
+
+    const overlay = buildYearOverYear(days, 'dayOfYear', anchor);
+    expect(overlay.series.map(line => line.year)).toEqual([2023, 2024]);
+    expect(overlay.series[1].start).toEqual(new Date(2024, 3, 1));
+  });
+});
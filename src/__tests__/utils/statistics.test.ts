@@ -0,0 +1,100 @@
+import {
+  adjustPValues,
+  bootstrapMeanInterval,
+  chiSquarePValue,
+  cohensD,
+  createRandom,
+  excessKurtosis,
+  jarqueBera,
+  median,
+  normalQuantile,
+  pearsonCorrelation,
+  rankValues,
+  skewness,
+  spearmanCorrelation,
+  studentTwoSidedPValue,
+  welchTTest,
+} from '../../utils/statistics';
+
+describe('statistics', () => {
+  test('matches Student t tables', () => {
+    expect(studentTwoSidedPValue(2.228, 10)).toBeCloseTo(0.05, 3);
+    expect(studentTwoSidedPValue(2, 10)).toBeCloseTo(0.0734, 4);
+    expect(studentTwoSidedPValue(-1.96, 1e6)).toBeCloseTo(0.05, 3);
+    expect(studentTwoSidedPValue(0, 5)).toBeCloseTo(1);
+  });
+
+  test('runs Welch t-tests and Cohen\'s d', () => {
+    const a = [1, 2, 3, 4, 5];
+    const b = [3, 4, 5, 6, 7, 8];
+    const result = welchTTest(a, b);
+    expect(result).not.toBeNull();
+    if (!result) return;
+    expect(result.t).toBeCloseTo(-2.5 / Math.sqrt(2.5 / 5 + 3.5 / 6));
+    expect(result.pValue).toBeGreaterThan(0.01);
+    expect(result.pValue).toBeLessThan(0.05);
+    expect(cohensD(a, b)).toBeCloseTo(-2.5 / Math.sqrt((4 * 2.5 + 5 * 3.5) / 9));
+
+    expect(welchTTest([1], b)).toBeNull();
+    expect(welchTTest([2, 2], [2, 2])).toBeNull();
+  });
+
+  test('adjusts p-values for multiple comparisons', () => {
+    const pValues = [0.01, 0.04, 0.03, 0.005, null];
+    const expectClose = (actual: (number | null)[], expected: (number | null)[]) =>
+      actual.forEach((value, i) => expected[i] === null ? expect(value).toBeNull() : expect(value).toBeCloseTo(expected[i]!));
+
+    expectClose(adjustPValues(pValues, 'none'), pValues);
+    expectClose(adjustPValues(pValues, 'bonferroni'), [0.04, 0.16, 0.12, 0.02, null]);
+    expectClose(adjustPValues(pValues, 'holm'), [0.03, 0.06, 0.06, 0.02, null]);
+    expectClose(adjustPValues(pValues, 'benjaminiHochberg'), [0.02, 0.04, 0.04, 0.02, null]);
+  });
+
+  test('bootstraps a reproducible interval around the mean', () => {
+    const values = [0.5, -1.2, 2.1, 0.3, 1.4, -0.6, 0.9, 1.8, -0.2, 0.7];
+    const interval = bootstrapMeanInterval(values, { random: createRandom(7) });
+    expect(interval).not.toBeNull();
+    if (!interval) return;
+    expect(interval[0]).toBeLessThan(0.57);
+    expect(interval[1]).toBeGreaterThan(0.57);
+    expect(bootstrapMeanInterval(values, { random: createRandom(7) })).toEqual(interval);
+    expect(bootstrapMeanInterval([])).toBeNull();
+    expect(median([3, 1, 2, 10])).toBe(2.5);
+  });
+
+  test('correlates by value and by rank', () => {
+    const x = [1, 2, 3, 4, 5];
+    expect(pearsonCorrelation(x, [2, 4, 6, 8, 10])).toBeCloseTo(1);
+    expect(pearsonCorrelation(x, [5, 4, 3, 2, 1])).toBeCloseTo(-1);
+    expect(pearsonCorrelation(x, [1, 3, 2, 5, 4])).toBeCloseTo(0.8);
+    expect(pearsonCorrelation(x, [1, 1, 1, 1, 1])).toBeNull();
+
+    // Monotone but not linear: ranks agree perfectly
+    expect(spearmanCorrelation(x, [1, 8, 27, 64, 1000])).toBeCloseTo(1);
+    expect(pearsonCorrelation(x, [1, 8, 27, 64, 1000])).toBeLessThan(0.9);
+    expect(rankValues([10, 20, 10, 30])).toEqual([1.5, 3, 1.5, 4]);
+  });
+
+  test('matches chi-square tables', () => {
+    expect(chiSquarePValue(3.841, 1)).toBeCloseTo(0.05, 3);
+    expect(chiSquarePValue(19.675, 11)).toBeCloseTo(0.05, 3);
+    expect(chiSquarePValue(2, 6)).toBeCloseTo(0.9197, 3);
+    expect(chiSquarePValue(0, 3)).toBe(1);
+  });
+
+  test('measures skew, fat tails and normality', () => {
+    expect(normalQuantile(0.975)).toBeCloseTo(1.959964, 5);
+    expect(normalQuantile(0.01)).toBeCloseTo(-2.326348, 5);
+    expect(normalQuantile(0.5)).toBeCloseTo(0);
+
+    expect(skewness([1, 2, 3, 4, 5])).toBeCloseTo(0);
+    expect(skewness([1, 1, 1, 1, 10])).toBeGreaterThan(1);
+    expect(excessKurtosis([1, 2, 3, 4, 5])).toBeCloseTo(-1.3);
+
+    // Evenly spread normal quantiles pass, one huge outlier fails
+    const normal = Array.from({ length: 200 }, (_, i) => normalQuantile((i + 0.5) / 200));
+    expect(jarqueBera(normal)!.pValue).toBeGreaterThan(0.5);
+    expect(jarqueBera([...normal, 15])!.pValue).toBeLessThan(0.001);
+    expect(jarqueBera([1, 2])).toBeNull();
+  });
+});
@@ -0,0 +1,69 @@
+import {
+  applyTimeSettings,
+  formatTradingDay,
+  formatZonedDateTime,
+  getTimeSettingsLabel,
+  getTimeZoneFileTag,
+  getTimeZoneLabel,
+  getTradingDayParts,
+  getZonedDateParts,
+  toTradingDates,
+} from '../../utils/timezone';
+import { ProcessedDayData } from '../../types';
+
+describe('timezone', () => {
+  test('reads calendar fields in the requested timezone', () => {
+    const date = new Date('2024-03-01T23:30:00Z');
+
+    expect(getZonedDateParts(date, 'UTC')).toEqual({ year: 2024, month: 3, day: 1, hour: 23, minute: 30, dayOfWeek: 5 });
+    expect(getZonedDateParts(date, 'Asia/Tokyo')).toEqual({ year: 2024, month: 3, day: 2, hour: 8, minute: 30, dayOfWeek: 6 });
+    expect(getZonedDateParts(date, 'America/New_York')).toEqual(expect.objectContaining({ day: 1, hour: 18 }));
+  });
+
+  test('regroups processed candles without touching prices', () => {
+    const candle = {
+      date: new Date('2024-12-31T20:00:00Z'),
+      close: 105,
+      dayOfWeek: 2,
+      weekOfYear: 53,
+      monthOfYear: 12,
+      hourOfDay: 20,
+    } as ProcessedDayData;
+
+    const [zoned] = applyTimeSettings([candle], { timeZone: 'Asia/Singapore', dayStartHour: 0 });
+
+    expect(zoned).toEqual(expect.objectContaining({ close: 105, dayOfWeek: 3, monthOfYear: 1, weekOfYear: 1, hourOfDay: 4 }));
+  });
+
+  test('moves the day boundary to the configured start hour', () => {
+    const settings = { timeZone: 'America/New_York', dayStartHour: 9 };
+
+    // 08:00 on Monday 1 April in New York still belongs to Sunday's trading day
+    expect(getTradingDayParts(new Date('2024-04-01T12:00:00Z'), settings)).toEqual(expect.objectContaining({ day: 31, dayOfWeek: 0 }));
+    expect(formatTradingDay(new Date('2024-04-01T12:00:00Z'), settings)).toBe('2024-03-31');
+    expect(formatTradingDay(new Date('2024-04-01T14:00:00Z'), settings)).toBe('2024-04-01');
+
+    // The hour of day stays on the wall clock
+    const [candle] = applyTimeSettings([{ date: new Date('2024-04-01T12:00:00Z') } as ProcessedDayData], settings);
+    expect(candle).toEqual(expect.objectContaining({ dayOfWeek: 0, monthOfYear: 3, hourOfDay: 8 }));
+  });
+
+  test('dates daily candles by their trading day', () => {
+    const daily = { date: new Date('2024-06-30T00:00:00Z'), close: 1 } as ProcessedDayData;
+
+    expect(toTradingDates([daily], { timeZone: 'UTC', dayStartHour: 0 })[0].date).toEqual(new Date(2024, 5, 30));
+    expect(toTradingDates([daily], { timeZone: 'America/Chicago', dayStartHour: 0 })[0].date).toEqual(new Date(2024, 5, 29));
+  });
+
+  test('formats wall-clock times and export tags', () => {
+    expect(formatZonedDateTime(new Date('2024-01-05T03:07:00Z'), 'Asia/Kolkata')).toBe('2024-01-05 08:37');
+    expect(getTimeZoneFileTag('America/New_York')).toBe('America-New_York');
+    expect(getTimeSettingsLabel({ timeZone: 'UTC', dayStartHour: 0 })).toBe('UTC');
+    expect(getTimeSettingsLabel({ timeZone: 'America/New_York', dayStartHour: 17 })).toBe('New York, day starts 17:00');
+  });
+
+  test('labels known timezones', () => {
+    expect(getTimeZoneLabel('Europe/London')).toBe('London');
+    expect(getTimeZoneLabel('Pacific/Auckland')).toBe('Pacific/Auckland');
+  });
+});
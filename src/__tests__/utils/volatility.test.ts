@@ -0,0 +1,81 @@
+import { ProcessedDayData, VolatilitySettings } from '../../types';
+import {
+  applyVolatilityEstimator,
+  calculateVolatilitySeries,
+  classifyVolatility,
+  DEFAULT_VOLATILITY_SETTINGS,
+  describeVolatilitySettings,
+  getLatestVolatility,
+  getVolatilityThresholds,
+} from '../../utils/volatility';
+
+const ohlc = (open: number, high: number, low: number, close: number) => ({ open, high, low, close });
+
+const settings = (overrides: Partial<VolatilitySettings>): VolatilitySettings => ({ ...DEFAULT_VOLATILITY_SETTINGS, ...overrides });
+
+describe('volatility', () => {
+  test('keeps the candle range for the default settings', () => {
+    const data = [{ ...ohlc(100, 110, 90, 105), volatility: 20 }] as ProcessedDayData[];
+    expect(applyVolatilityEstimator(data, DEFAULT_VOLATILITY_SETTINGS, '1d')).toBe(data);
+    expect(calculateVolatilitySeries(data, settings({ window: 2 }), '1d')).toEqual([20]);
+  });
+
+  test('estimates single-candle Parkinson volatility from the high-low range', () => {
+    const [value] = calculateVolatilitySeries([ohlc(100, 110, 90, 105)], settings({ estimator: 'parkinson' }), '1d');
+    expect(value).toBeCloseTo((Math.log(110 / 90) / (2 * Math.sqrt(Math.LN2))) * 100);
+  });
+
+  test('measures close-to-close realised volatility over the window', () => {
+    const candles = [ohlc(100, 112, 99, 110), ohlc(110, 111, 98, 99)];
+    const series = calculateVolatilitySeries(candles, settings({ estimator: 'closeToClose', window: 2 }), '1d');
+    const returns = [Math.log(110 / 100), Math.log(99 / 110)];
+    expect(series[1]).toBeCloseTo(Math.sqrt((returns[0] ** 2 + returns[1] ** 2) / 2) * 100);
+  });
+
+  test('Rogers-Satchell ignores drift that Parkinson counts as volatility', () => {
+    // Opens at the low and closes at the high: a pure trend
+    const trend = [ohlc(100, 105, 100, 105)];
+    expect(calculateVolatilitySeries(trend, settings({ estimator: 'rogersSatchell' }), '1d')[0]).toBeCloseTo(0);
+    expect(calculateVolatilitySeries(trend, settings({ estimator: 'parkinson' }), '1d')[0]).toBeGreaterThan(0);
+  });
+
+  test('Yang-Zhang adds opening jumps to the Rogers-Satchell variance', () => {
+    const continuous = [ohlc(100, 104, 98, 102), ohlc(102, 105, 99, 101), ohlc(101, 103, 97, 100)];
+    const gapped = [ohlc(100, 104, 98, 102), ohlc(106, 109, 103, 105), ohlc(99, 101, 95, 98)];
+    const yangZhang = settings({ estimator: 'yangZhang', window: 3 });
+
+    expect(calculateVolatilitySeries(gapped, yangZhang, '1d')[2])
+      .toBeGreaterThan(calculateVolatilitySeries(continuous, yangZhang, '1d')[2]);
+    // A single candle with no jump is plain Rogers-Satchell
+    expect(calculateVolatilitySeries(continuous.slice(0, 1), settings({ estimator: 'yangZhang' }), '1d'))
+      .toEqual(calculateVolatilitySeries(continuous.slice(0, 1), settings({ estimator: 'rogersSatchell' }), '1d'));
+  });
+
+  test('annualises by the square root of candles per year', () => {
+    const candle = [ohlc(100, 102, 99, 101)];
+    const daily = calculateVolatilitySeries(candle, settings({ estimator: 'garmanKlass' }), '1d')[0];
+    const annual = calculateVolatilitySeries(candle, settings({ estimator: 'garmanKlass', annualize: true }), '1d')[0];
+    expect(annual).toBeCloseTo(daily * Math.sqrt(365));
+  });
+
+  test('estimates the latest candle from the window alone', () => {
+    const candles = [ohlc(100, 120, 80, 100), ohlc(100, 101, 99, 100), ohlc(100, 102, 99, 101), ohlc(101, 103, 100, 102)];
+    const parkinson = settings({ estimator: 'parkinson', window: 2 });
+    expect(getLatestVolatility(candles, parkinson, '1d')).toBeCloseTo(calculateVolatilitySeries(candles, parkinson, '1d')[3]);
+    expect(getLatestVolatility([], parkinson, '1d')).toBeNull();
+  });
+
+  test('scales the colour boundaries to the estimator', () => {
+    expect(getVolatilityThresholds(DEFAULT_VOLATILITY_SETTINGS, '1d')).toEqual([0.5, 1.5]);
+
+    const [low, high] = getVolatilityThresholds(settings({ estimator: 'parkinson', annualize: true }), '1d');
+    expect(low).toBeCloseTo(0.5 * Math.sqrt(Math.PI / 8) * Math.sqrt(365));
+    expect(high / low).toBeCloseTo(3);
+    expect(classifyVolatility(low - 0.01, [low, high])).toBe('low');
+    expect(classifyVolatility(low, [low, high])).toBe('medium');
+    expect(classifyVolatility(high, [low, high])).toBe('high');
+
+    expect(describeVolatilitySettings(settings({ estimator: 'yangZhang', window: 20, annualize: true })))
+      .toBe('Yang-Zhang · 20 candles · annualised');
+  });
+});
@@ -2,7 +2,7 @@
 
 import React, { useState } from 'react';
 import { Alert, AlertSettings } from '@/types';
-import { Bell, Plus, X, Settings, Volume2, VolumeX, Mail, Globe } from 'lucide-react';
+import { Bell, Plus, X, Settings, Volume2, VolumeX, Mail, Globe, FlaskConical } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 
 interface AlertSystemProps {
@@ -12,6 +12,8 @@ interface AlertSystemProps {
   onAlertDelete: (alertId: string) => void;
   onAlertToggle: (alertId: string) => void;
   onSettingsChange: (settings: AlertSettings) => void;
+  paused?: boolean;
+  volatilityLabel?: string;  // Estimator volatility alerts are measured with
 }
 
 const AlertSystem: React.FC<AlertSystemProps> = ({
@@ -20,7 +22,9 @@ const AlertSystem: React.FC<AlertSystemProps> = ({
   onAlertCreate,
   onAlertDelete,
   onAlertToggle,
-  onSettingsChange
+  onSettingsChange,
+  paused = false,
+  volatilityLabel = 'Candle range'
 }) => {
   const [showCreateForm, setShowCreateForm] = useState(false);
   const [showSettings, setShowSettings] = useState(false);
@@ -103,6 +107,14 @@ const AlertSystem: React.FC<AlertSystemProps> = ({
         </div>
       </div>
 
+      {/* Paused while synthetic data is shown */}
+      {paused && (
+        <div className="mb-6 flex items-center space-x-2 p-3 bg-purple-50 dark:bg-purple-900/20 border border-purple-200 dark:border-purple-800 rounded-lg text-sm text-purple-800 dark:text-purple-200">
+          <FlaskConical className="h-4 w-4 flex-shrink-0" />
+          <span>Alerts are paused while synthetic data is active. Switch back to market data to resume them.</span>
+        </div>
+      )}
+
       {/* Settings Panel */}
       <AnimatePresence>
         {showSettings && (
@@ -201,7 +213,9 @@ const AlertSystem: React.FC<AlertSystemProps> = ({
                 </select>
               </div>
               <div>
-                <label className="block text-xs text-gray-600 dark:text-gray-400 mb-1">Threshold</label>
+                <label className="block text-xs text-gray-600 dark:text-gray-400 mb-1">
+                  Threshold{newAlert.type === 'volatility' && ` (% ${volatilityLabel})`}
+                </label>
                 <input
                   type="number"
                   step="0.01"
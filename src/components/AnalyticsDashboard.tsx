@@ -1,7 +1,7 @@
 'use client';
 
 import React, { useState, useMemo, useEffect } from 'react';
-import { ProcessedDayData, Timeframe, ColorScheme, DateRange } from '@/types';
+import { ProcessedDayData, Timeframe, ColorScheme, DateRange, AnalysisTimeSettings, IndicatorSettings, RegimeDimension, RegimePoint, VolatilitySettings } from '@/types';
 import { 
   LineChart, Line, AreaChart, Area, BarChart, Bar, 
   XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer,
@@ -12,6 +12,16 @@ import {
   Activity, Target, Zap, AlertTriangle, Info, Award
 } from 'lucide-react';
 import { format, startOfWeek, startOfMonth, addWeeks, addMonths } from 'date-fns';
+import SyntheticWatermark from './SyntheticWatermark';
+import IndicatorChart from './IndicatorChart';
+import CandlestickChart from './CandlestickChart';
+import ReturnDistribution from './ReturnDistribution';
+import RegimeAnalysis from './RegimeAnalysis';
+import { getTimeSettingsLabel } from '@/utils/timezone';
+import { getISOWeekKey, toCalendarDate } from '@/utils/calendarMath';
+import { DEFAULT_INDICATOR_SETTINGS } from '@/utils/indicators';
+import { DEFAULT_VOLATILITY_SETTINGS, classifyVolatility, describeVolatilitySettings, formatVolatilityThreshold } from '@/utils/volatility';
+import { REGIME_DIMENSIONS, getRegimeBands, getRegimeColor, getRegimeKeys, getRegimeLabel, indexRegimes } from '@/utils/regimes';
 
 /**
  * Props interface for the AnalyticsDashboard component
@@ -25,6 +35,14 @@ interface AnalyticsDashboardProps {
   selectedMetrics: string[];                   // Metrics to display in charts
   selectedRange?: DateRange | null;            // Optional date range filter
   onDateRangeSelect?: (range: DateRange) => void; // Callback for date range changes
+  providerName?: string;                       // Market data provider the data came from
+  synthetic?: boolean;                         // Data is generated; charts are watermarked
+  timeSettings?: AnalysisTimeSettings;         // Timezone and day start the data is bucketed in
+  volatility?: VolatilitySettings;             // Estimator the volatility values were computed with
+  volatilityThresholds?: [number, number];     // Low/medium and medium/high boundaries for that estimator
+  indicatorSettings?: IndicatorSettings;       // Periods the candles' indicators were calculated with
+  onIndicatorSettingsChange?: (settings: IndicatorSettings) => void; // Recalculate indicators with new periods
+  regimes?: RegimePoint[];                     // Volatility and trend regime of every candle in data
 }
 
 /**
@@ -32,6 +50,7 @@ interface AnalyticsDashboardProps {
  */
 interface StatCard {
   title: string;                               // Card title
+  detail?: string;                             // Qualifier shown under the title
   value: string;                               // Current value
   change: string;                              // Change from previous period
   trend: 'up' | 'down' | 'neutral';           // Trend direction
@@ -39,6 +58,9 @@ interface StatCard {
   metric: string;                              // Metric name for calculations
 }
 
+// Charts on the dashboard share a crosshair, matched by their date labels
+const CHART_SYNC_ID = 'analytics';
+
 /**
  * Custom hook for responsive chart margins
  * Adjusts margins based on screen size for better mobile experience
@@ -67,27 +89,28 @@ const useResponsiveMargin = () => {
 
 /**
  * Aggregate daily data into weekly data for analysis
- * Groups data by weeks and calculates averages and totals
+ * Groups data by ISO week (Monday to Sunday) and calculates averages and totals
  * @param data - Array of daily market data
  * @returns Array of weekly aggregated data
  */
 const aggregateByWeek = (data: ProcessedDayData[]) => {
   if (data.length === 0) return [];
   
-  const weeks: ProcessedDayData[][] = [];
-  let currentWeek: ProcessedDayData[] = [];
+  const weekGroups = new Map<string, ProcessedDayData[]>();
   
-  // Group data into weeks
-  data.forEach((d, index) => {
-    currentWeek.push(d);
-    if (currentWeek.length === 7 || index === data.length - 1) {
-      weeks.push([...currentWeek]);
-      currentWeek = [];
+  // Group data by ISO week; days are dated at local midnight of their trading day
+  data.forEach(d => {
+    const weekKey = getISOWeekKey(toCalendarDate(d.date));
+    const week = weekGroups.get(weekKey);
+    if (week) {
+      week.push(d);
+    } else {
+      weekGroups.set(weekKey, [d]);
     }
   });
 
   // Calculate weekly aggregates
-  return weeks.map(weekData => {
+  return Array.from(weekGroups.values()).map(weekData => {
     if (weekData.length === 0) return null;
 
     return {
@@ -102,7 +125,7 @@ const aggregateByWeek = (data: ProcessedDayData[]) => {
       liquidity: weekData.reduce((sum, d) => sum + d.liquidity, 0) / weekData.length,    // Average liquidity
       dayCount: weekData.length
     };
-  }).filter(Boolean);
+  }).filter((bar): bar is NonNullable<typeof bar> => bar !== null);
 };
 
 /**
@@ -141,7 +164,7 @@ const aggregateByMonth = (data: ProcessedDayData[]) => {
       liquidity: monthData.reduce((sum, d) => sum + d.liquidity, 0) / monthData.length,    // Average liquidity
       dayCount: monthData.length
     };
-  }).filter(Boolean);
+  }).filter((bar): bar is NonNullable<typeof bar> => bar !== null);
 };
 
 /**
@@ -157,18 +180,31 @@ const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({
   symbol,
   selectedMetrics,
   selectedRange,
-  onDateRangeSelect
+  onDateRangeSelect,
+  providerName,
+  synthetic = false,
+  timeSettings,
+  volatility = DEFAULT_VOLATILITY_SETTINGS,
+  volatilityThresholds = [0.5, 1.5],
+  indicatorSettings = DEFAULT_INDICATOR_SETTINGS,
+  onIndicatorSettingsChange,
+  regimes = []
 }) => {
   // State for date range selection
   const [fromDate, setFromDate] = useState<string>('');
   const [toDate, setToDate] = useState<string>('');
   
   // State for chart type selection
-  const [activeChart, setActiveChart] = useState<'volatility' | 'performance' | 'volume' | 'patterns'>('volatility');
+  const [activeChart, setActiveChart] = useState<'volatility' | 'performance' | 'volume' | 'indicators' | 'patterns'>('volatility');
+  
+  // Regime shaded behind the volatility, performance and volume charts
+  const [regimeShading, setRegimeShading] = useState<RegimeDimension | 'none'>('none');
   
   // Responsive margin hook for charts
   const chartMargin = useResponsiveMargin();
 
+  const regimeIndex = useMemo(() => indexRegimes(regimes), [regimes]);
+
   // Filter data based on selected date range
   const filteredData = useMemo(() => {
     if (!selectedRange) return data;
@@ -214,6 +250,7 @@ const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({
     if (selectedMetrics.includes('volatility')) {
       statCards.push({
         title: 'Average Volatility',
+        detail: describeVolatilitySettings(volatility),
         value: `${latest.volatility.toFixed(2)}%`,
         change: previous ? calculateChange(latest.volatility, previous.volatility) : '0%',
         trend: getTrend(latest.volatility, previous?.volatility || 0),
@@ -258,7 +295,7 @@ const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({
     });
 
     return statCards;
-  }, [aggregatedData, selectedMetrics]);
+  }, [aggregatedData, selectedMetrics, volatility]);
 
   /**
    * Render different chart types based on selected chart and metrics
@@ -277,8 +314,10 @@ const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({
     }
 
     // Prepare chart data with proper formatting
+    // Regime bands only line up with the loaded candles, so weekly and monthly bars stay unshaded
     const chartData = aggregatedData.map(d => ({
       ...d,
+      ...(regimeShading === 'none' ? {} : getRegimeBands(d.date, regimeIndex, regimeShading)),
       date: format(d.date, 'MMM dd'),
       formattedVolatility: `${d.volatility.toFixed(2)}%`,
       formattedPerformance: `${d.performance.toFixed(2)}%`,
@@ -288,10 +327,13 @@ const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({
     }));
 
     // Distribution data for pie charts
+    const [lowBoundary, highBoundary] = volatilityThresholds.map(formatVolatilityThreshold);
+    const countLevel = (level: 'low' | 'medium' | 'high') =>
+      aggregatedData.filter(d => classifyVolatility(d.volatility, volatilityThresholds) === level).length;
     const volatilityDistribution = [
-      { name: 'Low (<0.5%)', value: aggregatedData.filter(d => d.volatility < 0.5).length, color: colorScheme.volatility.low },
-      { name: 'Medium (0.5-1.5%)', value: aggregatedData.filter(d => d.volatility >= 0.5 && d.volatility < 1.5).length, color: colorScheme.volatility.medium },
-      { name: 'High (>1.5%)', value: aggregatedData.filter(d => d.volatility >= 1.5).length, color: colorScheme.volatility.high }
+      { name: `Low (<${lowBoundary})`, value: countLevel('low'), color: colorScheme.volatility.low },
+      { name: `Medium (${lowBoundary}-${highBoundary})`, value: countLevel('medium'), color: colorScheme.volatility.medium },
+      { name: `High (>${highBoundary})`, value: countLevel('high'), color: colorScheme.volatility.high }
     ];
 
     const performanceDistribution = [
@@ -300,13 +342,34 @@ const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({
       { name: 'Neutral', value: aggregatedData.filter(d => d.performance === 0).length, color: colorScheme.performance.neutral }
     ];
 
+    // Step areas on a hidden 0-1 axis, drawn before the series so they sit behind them
+    const regimeShades = regimeShading === 'none' ? [] : [
+      <YAxis key="regime-axis" yAxisId="regime" domain={[0, 1]} hide />,
+      ...getRegimeKeys(regimeShading).map(regime => (
+        <Area
+          key={regime}
+          yAxisId="regime"
+          type="step"
+          dataKey={`regime-${regime}`}
+          name={getRegimeLabel(regime)}
+          stroke="none"
+          fill={getRegimeColor(regime, colorScheme)}
+          fillOpacity={0.15}
+          tooltipType="none"
+          legendType="none"
+          isAnimationActive={false}
+        />
+      )),
+    ];
+
     switch (activeChart) {
       case 'volatility':
         return (
           <div className="w-full h-96">
             <ResponsiveContainer width="100%" height={400}>
-              <AreaChart data={chartData} margin={chartMargin}>
+              <AreaChart data={chartData} syncId={CHART_SYNC_ID} syncMethod="value" margin={chartMargin}>
                 <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+                {regimeShades}
                 <XAxis dataKey="date" stroke="#6b7280" fontSize={12} />
                 <YAxis 
                   stroke="#6b7280" 
@@ -320,7 +383,7 @@ const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({
                     borderRadius: '8px',
                     color: '#f9fafb'
                   }}
-                  formatter={(value: any) => [`${value}%`, 'Volatility']}
+                  formatter={(value: any) => [`${Number(value).toFixed(2)}%`, `Volatility (${describeVolatilitySettings(volatility)})`]}
                 />
                 <Area 
                   type="monotone" 
@@ -339,8 +402,9 @@ const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({
         return (
           <div className="w-full h-96">
             <ResponsiveContainer width="100%" height={400}>
-              <LineChart data={chartData} margin={chartMargin}>
+              <LineChart data={chartData} syncId={CHART_SYNC_ID} syncMethod="value" margin={chartMargin}>
                 <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+                {regimeShades}
                 <XAxis 
                   dataKey="date" 
                   stroke="#6b7280"
@@ -377,8 +441,9 @@ const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({
         return (
           <div className="w-full h-96">
             <ResponsiveContainer width="100%" height={400}>
-              <BarChart data={chartData} margin={chartMargin}>
+              <BarChart data={chartData} syncId={CHART_SYNC_ID} syncMethod="value" margin={chartMargin}>
                 <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+                {regimeShades}
                 <XAxis dataKey="date" stroke="#6b7280" fontSize={12} />
                 <YAxis 
                   stroke="#6b7280" 
@@ -404,6 +469,18 @@ const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({
           </div>
         );
 
+      case 'indicators':
+        // Indicators belong to the loaded candles, so they are not re-aggregated by week or month
+        return (
+          <IndicatorChart
+            data={filteredData}
+            colorScheme={colorScheme}
+            settings={indicatorSettings}
+            onSettingsChange={onIndicatorSettingsChange}
+            syncId={CHART_SYNC_ID}
+          />
+        );
+
       case 'patterns':
         return (
           <div className="space-y-6">
@@ -479,6 +556,11 @@ const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({
                 <div className="text-sm text-blue-600">Positive Days</div>
               </div>
             </div>
+
+            {/* Candle returns of the range, not the weekly or monthly aggregates, so weekday buckets stay meaningful */}
+            <div className="border-t border-gray-200 dark:border-gray-700 pt-6">
+              <ReturnDistribution data={filteredData} colorScheme={colorScheme} />
+            </div>
           </div>
         );
 
@@ -536,6 +618,9 @@ const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({
                 <p className="text-sm font-medium text-gray-600 dark:text-gray-400">
                   {stat.title}
                 </p>
+                {stat.detail && (
+                  <p className="text-xs text-gray-500 dark:text-gray-400">{stat.detail}</p>
+                )}
                 <p className="text-2xl font-bold text-gray-900 dark:text-white">
                   {stat.value}
                 </p>
@@ -606,8 +691,26 @@ const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({
         </div>
       )}
 
+      {/* Price Chart */}
+      {filteredData.length > 0 && (
+        <div className="relative bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6 border border-gray-200 dark:border-gray-700">
+          {synthetic && <SyntheticWatermark />}
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
+            {symbol} Price
+          </h3>
+          <CandlestickChart
+            data={filteredData}
+            colorScheme={colorScheme}
+            indicatorSettings={indicatorSettings}
+            onDateRangeSelect={onDateRangeSelect}
+            syncId={CHART_SYNC_ID}
+          />
+        </div>
+      )}
+
       {/* Chart Controls */}
-      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6 border border-gray-200 dark:border-gray-700">
+      <div className="relative bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6 border border-gray-200 dark:border-gray-700">
+        {synthetic && <SyntheticWatermark />}
         <div className="flex items-center justify-between mb-6">
           <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
             {symbol} Analytics - {timeframe.label} View
@@ -617,6 +720,8 @@ const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({
             <span>
               {aggregatedData.length} data points
             </span>
+            {providerName && <span>· Source: {providerName}</span>}
+            {timeSettings && <span>· Days in {getTimeSettingsLabel(timeSettings)}</span>}
           </div>
         </div>
 
@@ -626,13 +731,14 @@ const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({
             { key: 'volatility', label: 'Volatility Trend', icon: Activity, metric: 'volatility' },
             { key: 'performance', label: 'Performance', icon: TrendingUp, metric: 'performance' },
             { key: 'volume', label: 'Volume Analysis', icon: BarChart3, metric: 'liquidity' },
+            { key: 'indicators', label: 'Indicators', icon: Zap, metric: 'all' },
             { key: 'patterns', label: 'Distribution', icon: PieIcon, metric: 'all' }
           ]
           .filter(({ metric }) => metric === 'all' || selectedMetrics?.includes(metric))
           .map(({ key, label, icon: Icon }) => (
             <button
               key={key}
-              onClick={() => setActiveChart(key as 'volatility' | 'performance' | 'volume' | 'patterns')}
+              onClick={() => setActiveChart(key as 'volatility' | 'performance' | 'volume' | 'indicators' | 'patterns')}
               className={`flex items-center space-x-1 sm:space-x-2 px-2 sm:px-4 py-1.5 sm:py-2 rounded-lg transition-colors ${
                 activeChart === key
                   ? 'bg-blue-600 text-white'
@@ -645,8 +751,47 @@ const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({
           ))}
         </div>
         
+        {regimes.length > 0 && ['volatility', 'performance', 'volume'].includes(activeChart) && (
+          <div className="flex flex-wrap items-center gap-2 mb-4 text-sm text-gray-600 dark:text-gray-400">
+            <span>Shade by regime</span>
+            <div className="flex rounded-lg border border-gray-300 dark:border-gray-600 overflow-hidden" role="group" aria-label="Shade by regime">
+              {(['none', ...Object.keys(REGIME_DIMENSIONS)] as (RegimeDimension | 'none')[]).map(key => (
+                <button
+                  key={key}
+                  onClick={() => setRegimeShading(key)}
+                  aria-pressed={regimeShading === key}
+                  className={`px-3 py-1 text-sm font-medium transition-colors ${
+                    regimeShading === key
+                      ? 'bg-blue-600 text-white'
+                      : 'bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-600'
+                  }`}
+                >
+                  {key === 'none' ? 'None' : REGIME_DIMENSIONS[key].label}
+                </button>
+              ))}
+            </div>
+            {regimeShading !== 'none' && getRegimeKeys(regimeShading).map(regime => (
+              <span key={regime} className="inline-flex items-center space-x-1 text-xs">
+                <span className="h-3 w-3 rounded-sm opacity-40" style={{ backgroundColor: getRegimeColor(regime, colorScheme) }} />
+                <span>{getRegimeLabel(regime)}</span>
+              </span>
+            ))}
+          </div>
+        )}
+        
         {renderChart()}
       </div>
+
+      {/* Regimes of the range */}
+      {regimes.length > 0 && filteredData.length > 0 && (
+        <div className="relative bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6 border border-gray-200 dark:border-gray-700">
+          {synthetic && <SyntheticWatermark />}
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
+            {symbol} Regimes
+          </h3>
+          <RegimeAnalysis data={filteredData} regimes={regimes} colorScheme={colorScheme} />
+        </div>
+      )}
     </div>
   );
 };
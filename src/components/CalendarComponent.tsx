@@ -1,9 +1,19 @@
 'use client';
 
-import React, { useState, useEffect, useRef } from 'react';
-import { ProcessedDayData, Timeframe, ColorScheme, DateRange } from '@/types';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { ProcessedDayData, Timeframe, ColorScheme, DateRange, DrawdownEpisode, RegimeDimension, RegimePoint, AnalysisTimeSettings, LiquidityMeasure, LiquidityMetrics, VolatilitySettings } from '@/types';
 import { startOfMonth, endOfMonth, format, addMonths, subMonths, addYears, subYears, addDays, subDays, isSameMonth } from 'date-fns';
 import { ChevronLeft, ChevronRight, Calendar, TrendingUp, TrendingDown } from 'lucide-react';
+import SyntheticWatermark from './SyntheticWatermark';
+import { getTimeSettingsLabel, getTradingDate } from '@/utils/timezone';
+import { describeLiquidity } from '@/utils/orderBookMetrics';
+import { LIQUIDITY_MEASURES, formatLiquidityValue } from '@/utils/liquidity';
+import { DEFAULT_VOLATILITY_SETTINGS, classifyVolatility, describeVolatilitySettings, formatVolatilityThreshold } from '@/utils/volatility';
+import { getDrawdownForDate } from '@/utils/drawdown';
+import { REGIME_DIMENSIONS, getRegimeColor, getRegimeKeys, getRegimeLabel, indexRegimes } from '@/utils/regimes';
+
+// Hatching laid over days inside a drawdown, on top of the volatility colour
+const DRAWDOWN_SHADE = 'repeating-linear-gradient(45deg, rgba(0, 0, 0, 0.18) 0 3px, transparent 3px 8px)';
 
 /**
  * Props interface for the CalendarComponent
@@ -19,6 +29,16 @@ interface CalendarProps {
   selectedRange: DateRange | null;             // Currently selected date range
   selectedMetrics: string[];                   // Metrics to display (volatility, performance, etc.)
   onDashboardClose?: () => void;               // Optional callback when dashboard is closed
+  providerName?: string;                       // Market data provider the data came from
+  synthetic?: boolean;                         // Data is generated; the calendar is watermarked
+  timeSettings?: AnalysisTimeSettings;         // Timezone and day start the data is bucketed in
+  live?: boolean;                              // Today's candle is updating from the live stream
+  liveLiquidity?: LiquidityMetrics | null;     // Order book liquidity, shown for today in place of the volume score
+  liquidityMeasure?: LiquidityMeasure;         // Definition the liquidity score was computed with
+  volatility?: VolatilitySettings;             // Estimator the volatility values were computed with
+  volatilityThresholds?: [number, number];     // Low/medium and medium/high boundaries for that estimator
+  drawdowns?: DrawdownEpisode[];               // Drawdown episodes shaded from peak to recovery, deepest first
+  regimes?: RegimePoint[];                     // Volatility and trend regime of each day, for the regime overlay
 }
 
 /**
@@ -38,12 +58,24 @@ const CalendarComponent: React.FC<CalendarProps> = ({
   selectedRange,
   selectedMetrics,
   onDashboardClose,
+  providerName,
+  synthetic = false,
+  timeSettings,
+  live = false,
+  liveLiquidity = null,
+  liquidityMeasure = 'volume',
+  volatility = DEFAULT_VOLATILITY_SETTINGS,
+  volatilityThresholds = [0.5, 1.5],
+  drawdowns = [],
+  regimes = [],
 }) => {
   const [displayedDate, setDisplayedDate] = useState<Date | null>(null);
   const [focusedDate, setFocusedDate] = useState<Date | null>(null);
   const [hoveredDate, setHoveredDate] = useState<Date | null>(null);
   const [tooltipPosition, setTooltipPosition] = useState({ x: 0, y: 0 });
   const [showTooltip, setShowTooltip] = useState(false);
+  const [regimeOverlay, setRegimeOverlay] = useState<RegimeDimension | 'none'>('none');
+  const regimeIndex = useMemo(() => indexRegimes(regimes), [regimes]);
   
   // Date range input state
   const [fromDate, setFromDate] = useState<string>('');  // Start date for range selection
@@ -51,6 +83,9 @@ const CalendarComponent: React.FC<CalendarProps> = ({
   
   // DOM reference for accessibility
   const containerRef = useRef<HTMLDivElement>(null);
+
+  // Today is the current trading day, so it lines up with the data's day buckets
+  const getToday = () => (timeSettings ? getTradingDate(new Date(), timeSettings) : new Date());
   
   // Initialize calendar with current date
   useEffect(() => {
@@ -82,14 +117,23 @@ const CalendarComponent: React.FC<CalendarProps> = ({
 
   /**
    * Get color for volatility level
-   * @param volatility - Volatility value (0-100)
+   * @param volatility - Volatility value in percent, from the selected estimator
    * @returns CSS color string based on volatility level and color scheme
    */
   const getColorFromVolatility = (volatility: number) => {
     if (typeof volatility !== 'number' || isNaN(volatility)) return '#e5e7eb'; // fallback gray
-    if (volatility < 0.5) return colorScheme.volatility.low;      // Low volatility - green
-    if (volatility < 1.5) return colorScheme.volatility.medium;   // Medium volatility - orange
-    return colorScheme.volatility.high;                            // High volatility - red
+    return colorScheme.volatility[classifyVolatility(volatility, volatilityThresholds)];
+  };
+
+  /**
+   * Get the liquidity color for a 0-1 liquidity score
+   * @param score - Liquidity score, higher = more liquid
+   * @returns Color from the scheme's liquidity palette
+   */
+  const getColorFromLiquidity = (score: number) => {
+    if (score < 1 / 3) return colorScheme.liquidity.low;
+    if (score < 2 / 3) return colorScheme.liquidity.medium;
+    return colorScheme.liquidity.high;
   };
 
   /**
@@ -98,16 +142,17 @@ const CalendarComponent: React.FC<CalendarProps> = ({
    * @returns CSS text color class
    */
   const getTextColorForVolatility = (volatility: number) => {
-    if (volatility >= 1.5) return 'text-black dark:text-black';      // Black text on high volatility (red)
-    if (volatility >= 0.5) return 'text-gray-900 dark:text-gray-900'; // Dark text on medium volatility (orange)
-    return 'text-white dark:text-white';                              // White text on low volatility (green)
+    const level = classifyVolatility(volatility, volatilityThresholds);
+    if (level === 'high') return 'text-black dark:text-black';         // Black text on high volatility (red)
+    if (level === 'medium') return 'text-gray-900 dark:text-gray-900'; // Dark text on medium volatility (orange)
+    return 'text-white dark:text-white';                                // White text on low volatility (green)
   };
 
   /**
    * Navigate to today's date
    */
   const handleTodayClick = () => {
-    const today = new Date();
+    const today = getToday();
     setDisplayedDate(today);
     setFocusedDate(today);
   };
@@ -211,7 +256,7 @@ const CalendarComponent: React.FC<CalendarProps> = ({
    * @returns true if the date is today
    */
   const isTodayDate = (day: Date) => {
-    const today = new Date();
+    const today = getToday();
     return isSameMonth(day, today) && day.getDate() === today.getDate();
   };
 
@@ -243,9 +288,11 @@ const CalendarComponent: React.FC<CalendarProps> = ({
    */
   const getTooltipContent = (dayData: ProcessedDayData) => {
     const dateStr = format(dayData.date, 'MMM dd, yyyy');
-    const volatilityStr = `Volatility: ${dayData.volatility.toFixed(2)}%`;
+    const volatilityStr = `Volatility: ${dayData.volatility.toFixed(2)}% (${describeVolatilitySettings(volatility)})`;
     const performanceStr = `Performance: ${dayData.performance.toFixed(2)}%`;
-    const liquidityStr = `Liquidity: ${dayData.liquidity.toFixed(2)}`;
+    const liquidityStr = liveLiquidity && isTodayDate(dayData.date)
+      ? `Liquidity: ${describeLiquidity(liveLiquidity)}`
+      : `Liquidity: ${dayData.liquidity.toFixed(2)} (${LIQUIDITY_MEASURES[liquidityMeasure].label} ${formatLiquidityValue(dayData, liquidityMeasure)})`;
     
     return `${dateStr}\n${volatilityStr}\n${performanceStr}\n${liquidityStr}`;
   };
@@ -264,12 +311,13 @@ const CalendarComponent: React.FC<CalendarProps> = ({
   return (
     <div 
       ref={containerRef}
-      className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6"
+      className="relative bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6"
       onKeyDown={handleKeyDown}
       tabIndex={0}
       role="grid"
       aria-label="Calendar"
     >
+      {synthetic && <SyntheticWatermark />}
       {/* Calendar Header */}
       <div className="flex items-center justify-between mb-6">
         <div className="flex items-center space-x-4">
@@ -308,12 +356,20 @@ const CalendarComponent: React.FC<CalendarProps> = ({
           </button>
         </div>
         
-        <button
-          onClick={handleTodayClick}
-          className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm"
-        >
-          Today
-        </button>
+        <div className="flex items-center space-x-3">
+          {providerName && (
+            <span className="text-xs text-gray-500 dark:text-gray-400">Source: {providerName}</span>
+          )}
+          {timeSettings && (
+            <span className="text-xs text-gray-500 dark:text-gray-400">Days in {getTimeSettingsLabel(timeSettings)}</span>
+          )}
+          <button
+            onClick={handleTodayClick}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm"
+          >
+            Today
+          </button>
+        </div>
       </div>
 
       {/* Date Range Selection */}
@@ -414,6 +470,11 @@ const CalendarComponent: React.FC<CalendarProps> = ({
             day.getMonth() === focusedDate.getMonth() && 
             day.getFullYear() === focusedDate.getFullYear();
           
+          const drawdown = getDrawdownForDate(day, drawdowns);
+          const regimePoint = dayData && regimeOverlay !== 'none' ? regimeIndex.get(dayData.date.getTime()) : undefined;
+          const regime = regimePoint && regimeOverlay !== 'none' ? regimePoint[regimeOverlay] : null;
+          const drawdownRank = drawdown ? drawdowns.indexOf(drawdown) + 1 : 0;
+
           const isToday = isTodayDate(day);
           const isHovered = hoveredDate && 
             day.getDate() === hoveredDate.getDate() && 
@@ -472,6 +533,44 @@ const CalendarComponent: React.FC<CalendarProps> = ({
                 </div>
               )}
               
+              {/* Liquidity score bar */}
+              {dayData && selectedMetrics.includes('liquidity') && (
+                <span
+                  className="absolute bottom-0 left-1 right-1 h-1 rounded-full"
+                  style={{ backgroundColor: getColorFromLiquidity(dayData.liquidity) }}
+                  data-testid="liquidity-bar"
+                />
+              )}
+
+              {/* Drawdown shading from peak to recovery */}
+              {drawdown && (
+                <span
+                  className="absolute inset-0 rounded-md pointer-events-none"
+                  style={{ backgroundImage: DRAWDOWN_SHADE }}
+                  title={`Drawdown #${drawdownRank}: ${drawdown.depth.toFixed(1)}% from the ${format(drawdown.peak, 'MMM dd, yyyy')} peak`}
+                  data-testid="drawdown-shade"
+                />
+              )}
+
+              {/* Regime stripe down the left edge */}
+              {regime && (
+                <span
+                  className="absolute left-0 top-0 bottom-0 w-1.5 rounded-l-md pointer-events-none"
+                  style={{ backgroundColor: getRegimeColor(regime, colorScheme) }}
+                  title={`${getRegimeLabel(regime)} regime`}
+                  data-testid="regime-marker"
+                />
+              )}
+
+              {/* Live marker on the forming candle */}
+              {dayData && isToday && live && (
+                <span
+                  className="absolute bottom-1 right-1 h-2 w-2 rounded-full bg-green-500 animate-pulse"
+                  aria-label="Updating live"
+                  title="Updating live"
+                />
+              )}
+
               {/* Market data content */}
               {dayData && (
                 <div className="mt-4 space-y-0.5 text-xs">
@@ -482,10 +581,12 @@ const CalendarComponent: React.FC<CalendarProps> = ({
                     </div>
                   )}
                   
-                  {/* Volume line */}
+                  {/* Liquidity line: volume, or the raw value of the chosen measure */}
                   {selectedMetrics.includes('liquidity') && (
                     <div className={`${getTextColorForVolatility(dayData.volatility)}`}>
-                      {dayData.volume > 1000000 
+                      {liquidityMeasure !== 'volume'
+                        ? formatLiquidityValue(dayData, liquidityMeasure)
+                        : dayData.volume > 1000000 
                         ? `${(dayData.volume / 1000000).toFixed(1)}M`
                         : `${(dayData.volume / 1000).toFixed(0)}K`
                       }
@@ -527,30 +628,82 @@ const CalendarComponent: React.FC<CalendarProps> = ({
 
       {/* Legend */}
       <div className="mt-6 p-4 bg-gray-50 dark:bg-gray-700 rounded-lg">
-        <h3 className="text-sm font-medium text-gray-900 dark:text-white mb-3">Volatility Legend</h3>
+        <h3 className="text-sm font-medium text-gray-900 dark:text-white mb-3">
+          Volatility Legend <span className="font-normal text-gray-500 dark:text-gray-400">({describeVolatilitySettings(volatility)})</span>
+        </h3>
         <div className="flex flex-wrap gap-4 text-xs">
           <div className="flex items-center space-x-2">
             <div 
               className="w-4 h-4 rounded border-2"
               style={{ backgroundColor: colorScheme.volatility.low, borderColor: colorScheme.volatility.low }}
             />
-            <span className="text-gray-600 dark:text-gray-400">Low (&lt;0.5%)</span>
+            <span className="text-gray-600 dark:text-gray-400">Low (&lt;{formatVolatilityThreshold(volatilityThresholds[0])})</span>
           </div>
           <div className="flex items-center space-x-2">
             <div 
               className="w-4 h-4 rounded border-2"
               style={{ backgroundColor: colorScheme.volatility.medium, borderColor: colorScheme.volatility.medium }}
             />
-            <span className="text-gray-600 dark:text-gray-400">Medium (0.5-1.5%)</span>
+            <span className="text-gray-600 dark:text-gray-400">Medium ({formatVolatilityThreshold(volatilityThresholds[0])}-{formatVolatilityThreshold(volatilityThresholds[1])})</span>
           </div>
           <div className="flex items-center space-x-2">
             <div 
               className="w-4 h-4 rounded border-2"
               style={{ backgroundColor: colorScheme.volatility.high, borderColor: colorScheme.volatility.high }}
             />
-            <span className="text-gray-600 dark:text-gray-400">High (&gt;1.5%)</span>
+            <span className="text-gray-600 dark:text-gray-400">High (&gt;{formatVolatilityThreshold(volatilityThresholds[1])})</span>
           </div>
+          {regimeOverlay !== 'none' && getRegimeKeys(regimeOverlay).map(key => (
+            <div key={key} className="flex items-center space-x-2">
+              <div className="w-1.5 h-4 rounded-sm" style={{ backgroundColor: getRegimeColor(key, colorScheme) }} />
+              <span className="text-gray-600 dark:text-gray-400">{getRegimeLabel(key)}</span>
+            </div>
+          ))}
+          {drawdowns.length > 0 && (
+            <div className="flex items-center space-x-2">
+              <div
+                className="w-4 h-4 rounded border border-gray-300 dark:border-gray-600"
+                style={{ backgroundImage: DRAWDOWN_SHADE }}
+              />
+              <span className="text-gray-600 dark:text-gray-400">
+                {drawdowns.length} largest drawdown{drawdowns.length === 1 ? '' : 's'}, peak to recovery
+              </span>
+            </div>
+          )}
+          {selectedMetrics.includes('liquidity') && (
+            <div className="flex items-center space-x-2">
+              <div className="flex h-1 w-8 rounded-full overflow-hidden">
+                <span className="flex-1" style={{ backgroundColor: colorScheme.liquidity.low }} />
+                <span className="flex-1" style={{ backgroundColor: colorScheme.liquidity.medium }} />
+                <span className="flex-1" style={{ backgroundColor: colorScheme.liquidity.high }} />
+              </div>
+              <span className="text-gray-600 dark:text-gray-400">
+                Liquidity: {LIQUIDITY_MEASURES[liquidityMeasure].label}, low to high
+              </span>
+            </div>
+          )}
         </div>
+        {regimes.length > 0 && (
+          <div className="mt-3 flex flex-wrap items-center gap-2 text-xs text-gray-600 dark:text-gray-400">
+            <span>Regime overlay</span>
+            <div className="flex rounded-md border border-gray-300 dark:border-gray-600 overflow-hidden" role="group" aria-label="Regime overlay">
+              {(['none', ...Object.keys(REGIME_DIMENSIONS)] as (RegimeDimension | 'none')[]).map(key => (
+                <button
+                  key={key}
+                  onClick={() => setRegimeOverlay(key)}
+                  aria-pressed={regimeOverlay === key}
+                  className={`px-2 py-1 font-medium transition-colors ${
+                    regimeOverlay === key
+                      ? 'bg-blue-600 text-white'
+                      : 'bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-600'
+                  }`}
+                >
+                  {key === 'none' ? 'Off' : REGIME_DIMENSIONS[key].label}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,261 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { ColorScheme, DateRange, IndicatorSettings, ProcessedDayData } from '@/types';
+import { ComposedChart, BarChart, Bar, Line, Cell, XAxis, YAxis, CartesianGrid, Tooltip, Brush, ResponsiveContainer } from 'recharts';
+import { ZoomIn, ZoomOut, ChevronLeft, ChevronRight, RotateCcw } from 'lucide-react';
+import { format } from 'date-fns';
+import { DEFAULT_INDICATOR_SETTINGS, getIndicatorLabels } from '@/utils/indicators';
+import { ChartViewport, clampViewport, getFullViewport, panViewport, zoomViewport } from '@/utils/chartViewport';
+
+interface CandlestickChartProps {
+  data: ProcessedDayData[];
+  colorScheme: ColorScheme;
+  indicatorSettings?: IndicatorSettings;             // Periods the candles' indicators were calculated with
+  onDateRangeSelect?: (range: DateRange) => void;    // Called with the brushed range when the brush is released
+  syncId?: string;                                   // Charts sharing this id show the crosshair on the same date
+}
+
+type Overlay = 'sma' | 'ema' | 'bollinger' | 'vwap';
+
+interface CandleDatum {
+  date: string;
+  time: Date;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+  range: [number, number];
+  rising: boolean;
+  sma20?: number;
+  sma50?: number;
+  ema?: number;
+  bollingerUpper?: number;
+  bollingerLower?: number;
+  vwap?: number;
+}
+
+// Props recharts passes to a bar shape; `payload` is the candle behind the bar
+interface CandleShapeProps {
+  x?: number;
+  y?: number;
+  width?: number;
+  height?: number;
+  payload?: CandleDatum;
+}
+
+const tooltipStyle = { backgroundColor: '#1f2937', border: 'none', borderRadius: '8px', color: '#f9fafb' };
+
+const formatPrice = (value: number) => value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+const formatVolume = (value: number) => `${(value / 1000000).toFixed(2)}M`;
+
+/**
+ * Draw one candle inside the bar recharts lays out for its high-low range
+ * @param props - Bar geometry and the candle
+ * @param colors - Rising and falling colours
+ * @returns JSX.Element - Wick line and body rectangle
+ */
+const renderCandle = (props: CandleShapeProps, colors: { rising: string; falling: string }) => {
+  const { x = 0, y = 0, width = 0, height = 0, payload } = props;
+  if (!payload) return <g />;
+
+  // The bar spans high to low, so prices map linearly onto its height
+  const top = Math.min(y, y + height);
+  const span = Math.abs(height);
+  const { open, high, low, close, rising } = payload;
+  const priceToY = (price: number) => (high === low ? top : top + ((high - price) / (high - low)) * span);
+
+  const color = rising ? colors.rising : colors.falling;
+  const centre = x + width / 2;
+  const bodyWidth = Math.max(1, width * 0.7);
+  const bodyTop = priceToY(Math.max(open, close));
+  const bodyHeight = Math.max(1, priceToY(Math.min(open, close)) - bodyTop);
+
+  return (
+    <g>
+      <line x1={centre} x2={centre} y1={top} y2={top + span} stroke={color} strokeWidth={1} />
+      <rect x={centre - bodyWidth / 2} y={bodyTop} width={bodyWidth} height={bodyHeight} fill={color} stroke={color} />
+    </g>
+  );
+};
+
+interface CandleTooltipProps {
+  active?: boolean;
+  payload?: { payload: CandleDatum }[];
+}
+
+const CandleTooltip: React.FC<CandleTooltipProps> = ({ active, payload }) => {
+  if (!active || !payload || payload.length === 0) return null;
+  const candle = payload[0].payload;
+  return (
+    <div style={tooltipStyle} className="p-2 text-xs space-y-0.5">
+      <div className="font-medium">{candle.date}</div>
+      <div>O {formatPrice(candle.open)} · H {formatPrice(candle.high)}</div>
+      <div>L {formatPrice(candle.low)} · C {formatPrice(candle.close)}</div>
+      <div>Vol {formatVolume(candle.volume)}</div>
+    </div>
+  );
+};
+
+/**
+ * Candlestick Chart
+ *
+ * OHLC candles with optional SMA, EMA, Bollinger Band and VWAP overlays and a
+ * volume pane underneath. The buttons zoom and pan the visible candles; the
+ * brush does the same by dragging, and reports the brushed dates through
+ * onDateRangeSelect once it is released.
+ */
+const CandlestickChart: React.FC<CandlestickChartProps> = ({
+  data,
+  colorScheme,
+  indicatorSettings = DEFAULT_INDICATOR_SETTINGS,
+  onDateRangeSelect,
+  syncId
+}) => {
+  const [overlays, setOverlays] = useState<Overlay[]>([]);
+  const [viewport, setViewport] = useState<ChartViewport | null>(null); // null shows every candle
+  const labels = getIndicatorLabels(indicatorSettings);
+
+  const chartData: CandleDatum[] = useMemo(() => data.map(d => ({
+    date: format(d.date, 'MMM dd'),
+    time: d.date,
+    open: d.open,
+    high: d.high,
+    low: d.low,
+    close: d.close,
+    volume: d.volume,
+    range: [d.low, d.high],
+    rising: d.close >= d.open,
+    sma20: d.sma20,
+    sma50: d.sma50,
+    ema: d.ema,
+    bollingerUpper: d.bollinger?.upper,
+    bollingerLower: d.bollinger?.lower,
+    vwap: d.vwap,
+  })), [data]);
+
+  // A new range (rather than a live candle being added) starts fully zoomed out
+  const firstTime = data.length > 0 ? data[0].date.getTime() : null;
+  useEffect(() => {
+    setViewport(null);
+  }, [firstTime]);
+
+  const visible = viewport ? clampViewport(viewport, chartData.length) : getFullViewport(chartData.length);
+  const visibleData = chartData.slice(visible.start, visible.end + 1);
+  const panStep = Math.max(1, Math.round((visible.end - visible.start + 1) / 4));
+  const colors = { rising: colorScheme.performance.positive, falling: colorScheme.performance.negative };
+
+  const overlayOptions: { key: Overlay; label: string }[] = [
+    { key: 'sma', label: `${labels.sma20} / ${labels.sma50}` },
+    { key: 'ema', label: labels.ema },
+    { key: 'bollinger', label: labels.bollinger },
+    { key: 'vwap', label: labels.vwap },
+  ];
+
+  const toggleOverlay = (overlay: Overlay) => {
+    setOverlays(prev => prev.includes(overlay) ? prev.filter(o => o !== overlay) : [...prev, overlay]);
+  };
+
+  const handleBrushRelease = ({ startIndex, endIndex }: { startIndex: number; endIndex: number }) => {
+    const { start, end } = clampViewport({ start: startIndex, end: endIndex }, chartData.length);
+    setViewport({ start, end });
+    if (onDateRangeSelect && chartData.length > 0) {
+      onDateRangeSelect({ start: chartData[start].time, end: chartData[end].time });
+    }
+  };
+
+  const viewportControls = [
+    { label: 'Zoom in', icon: ZoomIn, onClick: () => setViewport(zoomViewport(visible, chartData.length, 0.5)) },
+    { label: 'Zoom out', icon: ZoomOut, onClick: () => setViewport(zoomViewport(visible, chartData.length, 2)) },
+    { label: 'Pan left', icon: ChevronLeft, onClick: () => setViewport(panViewport(visible, chartData.length, -panStep)) },
+    { label: 'Pan right', icon: ChevronRight, onClick: () => setViewport(panViewport(visible, chartData.length, panStep)) },
+    { label: 'Reset zoom', icon: RotateCcw, onClick: () => setViewport(null) },
+  ];
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex flex-wrap gap-2">
+          {overlayOptions.map(({ key, label }) => (
+            <button
+              key={key}
+              onClick={() => toggleOverlay(key)}
+              aria-pressed={overlays.includes(key)}
+              className={`px-2 py-1 rounded-md text-xs font-medium transition-colors ${
+                overlays.includes(key)
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center gap-1">
+          <span className="text-xs text-gray-500 dark:text-gray-400 mr-1">
+            {visibleData.length} of {chartData.length} candles
+          </span>
+          {viewportControls.map(({ label, icon: Icon, onClick }) => (
+            <button
+              key={label}
+              onClick={onClick}
+              aria-label={label}
+              title={label}
+              className="p-1.5 rounded-md bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors"
+            >
+              <Icon className="h-4 w-4" />
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <ResponsiveContainer width="100%" height={360}>
+        <ComposedChart data={chartData} syncId={syncId} syncMethod="value" margin={{ top: 5, right: 10, left: 10, bottom: 5 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+          <XAxis dataKey="date" stroke="#6b7280" fontSize={12} />
+          <YAxis stroke="#6b7280" fontSize={12} domain={['auto', 'auto']} tickFormatter={formatPrice} />
+          <Tooltip content={<CandleTooltip />} cursor={{ stroke: '#9ca3af', strokeDasharray: '3 3' }} />
+          <Bar
+            dataKey="range"
+            name="Price"
+            isAnimationActive={false}
+            shape={(props: unknown) => renderCandle(props as CandleShapeProps, colors)}
+          />
+          {overlays.includes('sma') && <Line type="monotone" dataKey="sma20" name={labels.sma20} stroke={colorScheme.liquidity.high} dot={false} />}
+          {overlays.includes('sma') && <Line type="monotone" dataKey="sma50" name={labels.sma50} stroke={colorScheme.liquidity.low} dot={false} />}
+          {overlays.includes('ema') && <Line type="monotone" dataKey="ema" name={labels.ema} stroke={colorScheme.volatility.medium} dot={false} />}
+          {overlays.includes('bollinger') && <Line type="monotone" dataKey="bollingerUpper" name="Upper band" stroke={colorScheme.volatility.high} strokeDasharray="4 4" dot={false} />}
+          {overlays.includes('bollinger') && <Line type="monotone" dataKey="bollingerLower" name="Lower band" stroke={colorScheme.volatility.low} strokeDasharray="4 4" dot={false} />}
+          {overlays.includes('vwap') && <Line type="monotone" dataKey="vwap" name={labels.vwap} stroke={colorScheme.performance.neutral} dot={false} />}
+          <Brush
+            dataKey="date"
+            height={24}
+            stroke="#6b7280"
+            startIndex={visible.start}
+            endIndex={visible.end}
+            onChange={({ startIndex, endIndex }) => setViewport({ start: startIndex, end: endIndex })}
+            onDragEnd={handleBrushRelease}
+          />
+        </ComposedChart>
+      </ResponsiveContainer>
+
+      {/* Volume pane: the visible candles only, lined up with the price pane above */}
+      <ResponsiveContainer width="100%" height={100}>
+        <BarChart data={visibleData} syncId={syncId} syncMethod="value" margin={{ top: 5, right: 10, left: 10, bottom: 5 }}>
+          <XAxis dataKey="date" hide />
+          <YAxis stroke="#6b7280" fontSize={12} tickFormatter={(value: number) => `${(value / 1000000).toFixed(1)}M`} />
+          <Tooltip contentStyle={tooltipStyle} formatter={(value: number) => [formatVolume(value), 'Volume']} />
+          <Bar dataKey="volume" isAnimationActive={false}>
+            {visibleData.map((candle, index) => (
+              <Cell key={`volume-${index}`} fill={candle.rising ? colors.rising : colors.falling} fillOpacity={0.6} />
+            ))}
+          </Bar>
+        </BarChart>
+      </ResponsiveContainer>
+    </div>
+  );
+};
+
+export default CandlestickChart;
@@ -0,0 +1,221 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { ComparisonDisplayMode, ProcessedDayData } from '@/types';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { format } from 'date-fns';
+import {
+  COMPARISON_DISPLAY_MODES, buildComparisonRows, computePerformanceStats, getCommonStart, getCommonWindow,
+} from '@/utils/comparison';
+
+export interface ComparisonChartDataset {
+  key: string;
+  label: string;             // e.g. "BTCUSDT (1d)"
+  color: string;
+  timeframe: string;         // Candle interval, used to annualise the stats
+  data: ProcessedDayData[];
+}
+
+interface ComparisonChartProps {
+  datasets: ComparisonChartDataset[];
+}
+
+const PAIR_COLOR = '#6366f1';
+
+const formatPercent = (value: number) => `${value >= 0 ? '+' : ''}${value.toFixed(2)}%`;
+
+const formatValue = (value: number, mode: ComparisonDisplayMode): string => {
+  switch (mode) {
+    case 'rebased':
+    case 'spread':
+      return value.toFixed(1);
+    case 'ratio':
+      return value.toPrecision(4);
+    case 'volatility':
+      return `${value.toFixed(2)}%`;
+    default:
+      return value.toLocaleString(undefined, { maximumFractionDigits: 4 });
+  }
+};
+
+/**
+ * Comparison Chart
+ *
+ * Plots the datasets of one comparison on a shared time axis, as raw closes,
+ * rebased to 100, on a log scale, as the ratio or spread of two datasets, or
+ * as volatility. The table below gives each dataset's return, CAGR, max
+ * drawdown, volatility and Sharpe over the window every dataset covers.
+ */
+const ComparisonChart: React.FC<ComparisonChartProps> = ({ datasets }) => {
+  const [mode, setMode] = useState<ComparisonDisplayMode>('rebased');
+  const [pair, setPair] = useState<[string, string]>([datasets[0]?.key ?? '', datasets[1]?.key ?? '']);
+
+  const rows = useMemo(() => buildComparisonRows(datasets, mode, pair), [datasets, mode, pair]);
+  const chartData = useMemo(() => rows.map(({ time, values }) => ({ time, ...values })), [rows]);
+
+  const commonStart = useMemo(() => getCommonStart(datasets), [datasets]);
+  const stats = useMemo(() => {
+    const windowed = getCommonWindow(datasets);
+    return datasets.map((dataset, index) => computePerformanceStats(windowed[index].data, dataset.timeframe));
+  }, [datasets]);
+
+  const pairwise = COMPARISON_DISPLAY_MODES[mode].pairwise;
+  const labelFor = (key: string) => datasets.find(dataset => dataset.key === key)?.label ?? key;
+  const selectClass = 'px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white';
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex rounded-lg border border-gray-300 dark:border-gray-600 overflow-hidden" role="group" aria-label="Display mode">
+          {(Object.keys(COMPARISON_DISPLAY_MODES) as ComparisonDisplayMode[]).map(key => (
+            <button
+              key={key}
+              onClick={() => setMode(key)}
+              aria-pressed={mode === key}
+              disabled={COMPARISON_DISPLAY_MODES[key].pairwise && datasets.length < 2}
+              title={COMPARISON_DISPLAY_MODES[key].description}
+              className={`px-3 py-1 text-sm font-medium transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${
+                mode === key
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-600'
+              }`}
+            >
+              {COMPARISON_DISPLAY_MODES[key].label}
+            </button>
+          ))}
+        </div>
+
+        {pairwise && (
+          <div className="flex items-center space-x-2 text-sm text-gray-600 dark:text-gray-400">
+            <select
+              value={pair[0]}
+              onChange={(e) => setPair([e.target.value, pair[1]])}
+              aria-label="First dataset"
+              className={selectClass}
+            >
+              {datasets.map(dataset => (
+                <option key={dataset.key} value={dataset.key}>{dataset.label}</option>
+              ))}
+            </select>
+            <span>{mode === 'ratio' ? '÷' : '−'}</span>
+            <select
+              value={pair[1]}
+              onChange={(e) => setPair([pair[0], e.target.value])}
+              aria-label="Second dataset"
+              className={selectClass}
+            >
+              {datasets.map(dataset => (
+                <option key={dataset.key} value={dataset.key}>{dataset.label}</option>
+              ))}
+            </select>
+          </div>
+        )}
+      </div>
+
+      <div className="h-80">
+        {rows.length === 0 ? (
+          <p className="text-center py-8 text-gray-500 dark:text-gray-400">
+            {pairwise ? 'Pick two different datasets with overlapping dates' : 'No data in the selected ranges'}
+          </p>
+        ) : (
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={chartData} margin={{ top: 16, right: 16, left: 0, bottom: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis
+                dataKey="time"
+                type="number"
+                scale="time"
+                domain={['dataMin', 'dataMax']}
+                tickFormatter={(time: number) => format(new Date(time), 'MMM dd, yyyy')}
+              />
+              <YAxis
+                scale={mode === 'log' ? 'log' : 'auto'}
+                domain={['auto', 'auto']}
+                allowDataOverflow={mode === 'log'}
+                tickFormatter={(value: number) => formatValue(value, mode)}
+              />
+              <Tooltip
+                labelFormatter={(time: number) => format(new Date(time), 'MMM dd, yyyy')}
+                formatter={(value: number, name: string) => [formatValue(value, mode), name]}
+              />
+              <Legend />
+              {pairwise ? (
+                <Line
+                  type="monotone"
+                  dataKey={mode}
+                  name={`${labelFor(pair[0])} ${mode === 'ratio' ? '÷' : '−'} ${labelFor(pair[1])}`}
+                  stroke={PAIR_COLOR}
+                  strokeWidth={2}
+                  dot={false}
+                  isAnimationActive={false}
+                />
+              ) : (
+                datasets.map(dataset => (
+                  <Line
+                    key={dataset.key}
+                    type="monotone"
+                    dataKey={dataset.key}
+                    name={dataset.label}
+                    stroke={dataset.color}
+                    strokeWidth={2}
+                    dot={false}
+                    connectNulls
+                    isAnimationActive={false}
+                  />
+                ))
+              )}
+            </LineChart>
+          </ResponsiveContainer>
+        )}
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-sm">
+          <caption className="text-left text-xs text-gray-500 dark:text-gray-400 pb-2">
+            {commonStart === null
+              ? 'No data in the selected ranges'
+              : `Since ${format(new Date(commonStart), 'MMM dd, yyyy')}, the first date every dataset covers`}
+          </caption>
+          <thead>
+            <tr className="text-left text-xs uppercase tracking-wide text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-600">
+              <th className="py-2 pr-3">Dataset</th>
+              <th className="py-2 pr-3 text-right">Total return</th>
+              <th className="py-2 pr-3 text-right">CAGR</th>
+              <th className="py-2 pr-3 text-right">Max drawdown</th>
+              <th className="py-2 pr-3 text-right">Volatility</th>
+              <th className="py-2 text-right">Sharpe</th>
+            </tr>
+          </thead>
+          <tbody>
+            {datasets.map((dataset, index) => {
+              const stat = stats[index];
+              return (
+                <tr key={dataset.key} className="border-b border-gray-100 dark:border-gray-700 text-gray-900 dark:text-white">
+                  <td className="py-1.5 pr-3">
+                    <span className="inline-block w-2 h-2 rounded-full mr-2" style={{ backgroundColor: dataset.color }} />
+                    {dataset.label}
+                  </td>
+                  {stat ? (
+                    <>
+                      <td className={`py-1.5 pr-3 text-right ${stat.totalReturn >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                        {formatPercent(stat.totalReturn)}
+                      </td>
+                      <td className="py-1.5 pr-3 text-right">{stat.cagr === null ? '–' : formatPercent(stat.cagr)}</td>
+                      <td className="py-1.5 pr-3 text-right">{stat.maxDrawdown.toFixed(2)}%</td>
+                      <td className="py-1.5 pr-3 text-right">{stat.volatility.toFixed(2)}%</td>
+                      <td className="py-1.5 text-right">{stat.sharpe === null ? '–' : stat.sharpe.toFixed(2)}</td>
+                    </>
+                  ) : (
+                    <td colSpan={5} className="py-1.5 text-right text-gray-500 dark:text-gray-400">No data</td>
+                  )}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default ComparisonChart;
@@ -0,0 +1,324 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { ColorScheme, CorrelationBreakdownDimension, CorrelationMethod, ProcessedDayData } from '@/types';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { Network, X } from 'lucide-react';
+import { format } from 'date-fns';
+import SyntheticWatermark from './SyntheticWatermark';
+import {
+  CORRELATION_METHODS, ROLLING_CORRELATION_WINDOWS, buildCorrelationBreakdown, buildCorrelationMatrix,
+  buildRollingCorrelation,
+} from '@/utils/correlation';
+import { formatPValue } from '@/utils/seasonality';
+
+interface CorrelationAnalysisProps {
+  symbol: string;                                     // Loaded symbol; its candles are marketData
+  marketData: ProcessedDayData[];
+  symbols: string[];                                  // Symbols the provider lists
+  correlationData: Map<string, ProcessedDayData[]>;   // Candles of the other selected symbols, by symbol
+  loadingSymbols?: string[];                          // Symbols still being fetched
+  onSymbolsLoad: (symbols: string[]) => void;         // Called with selected symbols that have no candles yet
+  colorScheme: ColorScheme;
+  providerName?: string;
+  synthetic?: boolean;
+}
+
+const DEFAULT_BENCHMARK = 'BTCUSDT';
+
+const DIMENSIONS: { key: CorrelationBreakdownDimension; label: string }[] = [
+  { key: 'month', label: 'By month' },
+  { key: 'weekday', label: 'By weekday' },
+];
+
+const formatCoefficient = (value: number | null) => (value === null ? '–' : value.toFixed(2));
+
+// Colour a coefficient by sign, stronger the closer it is to ±1
+const shade = (value: number, colorScheme: ColorScheme): string => {
+  const color = value >= 0 ? colorScheme.performance.positive : colorScheme.performance.negative;
+  return `${color}${Math.round((0.1 + Math.abs(value) * 0.9) * 255).toString(16).padStart(2, '0')}`;
+};
+
+/**
+ * Correlation Analysis
+ *
+ * How the selected symbols move together: a Pearson or Spearman matrix of
+ * candle returns, rolling correlation and beta of one symbol against a
+ * benchmark, and a check of whether that correlation shifts by month or
+ * weekday. Symbols other than the loaded one are fetched when selected.
+ */
+const CorrelationAnalysis: React.FC<CorrelationAnalysisProps> = ({
+  symbol,
+  marketData,
+  symbols,
+  correlationData,
+  loadingSymbols = [],
+  onSymbolsLoad,
+  colorScheme,
+  providerName,
+  synthetic = false
+}) => {
+  const [selected, setSelected] = useState<string[]>(() =>
+    Array.from(new Set([symbol, DEFAULT_BENCHMARK, 'ETHUSDT'])));
+  const [method, setMethod] = useState<CorrelationMethod>('pearson');
+  const [benchmark, setBenchmark] = useState(symbol === DEFAULT_BENCHMARK ? 'ETHUSDT' : DEFAULT_BENCHMARK);
+  const [asset, setAsset] = useState(symbol);
+  const [windowSize, setWindowSize] = useState(90);
+  const [dimension, setDimension] = useState<CorrelationBreakdownDimension>('month');
+
+  const selectedSymbols = useMemo(() => (selected.includes(symbol) ? selected : [symbol, ...selected]), [selected, symbol]);
+
+  // Follow the loaded symbol when it changes
+  useEffect(() => {
+    setAsset(symbol);
+  }, [symbol]);
+
+  // Fetch the candles of newly selected symbols
+  const missing = selectedSymbols.filter(s => s !== symbol && !correlationData.has(s) && !loadingSymbols.includes(s));
+  const missingKey = missing.join(',');
+  useEffect(() => {
+    if (missingKey) onSymbolsLoad(missingKey.split(','));
+  }, [missingKey, onSymbolsLoad]);
+
+  const getData = (key: string): ProcessedDayData[] => (key === symbol ? marketData : correlationData.get(key) ?? []);
+
+  const matrix = useMemo(
+    () => buildCorrelationMatrix(
+      selectedSymbols.map(key => ({ key, data: key === symbol ? marketData : correlationData.get(key) ?? [] })),
+      method
+    ),
+    [selectedSymbols, symbol, marketData, correlationData, method]
+  );
+
+  const assetData = getData(asset);
+  const benchmarkData = getData(benchmark);
+  const rolling = useMemo(
+    () => buildRollingCorrelation(assetData, benchmarkData, windowSize, method),
+    [assetData, benchmarkData, windowSize, method]
+  );
+  const breakdown = useMemo(
+    () => buildCorrelationBreakdown(assetData, benchmarkData, dimension, method),
+    [assetData, benchmarkData, dimension, method]
+  );
+
+  const addSymbol = (key: string) => {
+    if (key && !selected.includes(key)) setSelected([...selected, key]);
+  };
+
+  const removeSymbol = (key: string) => {
+    setSelected(selected.filter(s => s !== key));
+    if (asset === key) setAsset(symbol);
+    if (benchmark === key) setBenchmark(symbol);
+  };
+
+  const selectClass = 'px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white';
+  const toggleClass = (active: boolean) => `px-3 py-1 text-sm font-medium transition-colors ${
+    active
+      ? 'bg-blue-600 text-white'
+      : 'bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-600'
+  }`;
+
+  return (
+    <div className="relative bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6 border border-gray-200 dark:border-gray-700 space-y-8">
+      {synthetic && <SyntheticWatermark />}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+        <div>
+          <h3 className="flex items-center space-x-2 text-lg font-semibold text-gray-900 dark:text-white">
+            <Network className="h-5 w-5" />
+            <span>Correlation</span>
+          </h3>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Candle-to-candle close returns on shared timestamps
+            {providerName && ` • Source: ${providerName}`}
+          </p>
+        </div>
+        <div className="flex rounded-lg border border-gray-300 dark:border-gray-600 overflow-hidden" role="group" aria-label="Correlation method">
+          {(Object.keys(CORRELATION_METHODS) as CorrelationMethod[]).map(key => (
+            <button
+              key={key}
+              onClick={() => setMethod(key)}
+              aria-pressed={method === key}
+              title={CORRELATION_METHODS[key].description}
+              className={toggleClass(method === key)}
+            >
+              {CORRELATION_METHODS[key].label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Symbol selection */}
+      <div className="flex flex-wrap items-center gap-2">
+        {selectedSymbols.map(key => (
+          <span
+            key={key}
+            className="flex items-center space-x-1 px-3 py-1 rounded-full text-sm bg-gray-100 dark:bg-gray-700 text-gray-800 dark:text-gray-200"
+          >
+            <span>{key}</span>
+            {loadingSymbols.includes(key) && <span className="text-xs text-gray-500">loading…</span>}
+            {key !== symbol && (
+              <button onClick={() => removeSymbol(key)} aria-label={`Remove ${key}`} className="text-gray-400 hover:text-red-600">
+                <X className="h-3 w-3" />
+              </button>
+            )}
+          </span>
+        ))}
+        <select
+          value=""
+          onChange={(e) => addSymbol(e.target.value)}
+          aria-label="Add symbol"
+          className={selectClass}
+        >
+          <option value="">Add symbol…</option>
+          {symbols.filter(s => !selectedSymbols.includes(s)).map(s => (
+            <option key={s} value={s}>{s}</option>
+          ))}
+        </select>
+      </div>
+
+      {/* Correlation matrix */}
+      <div className="overflow-x-auto">
+        <table className="border-separate" style={{ borderSpacing: 2 }} role="grid" aria-label="Correlation matrix">
+          <thead>
+            <tr>
+              <th />
+              {matrix.keys.map(key => (
+                <th key={key} scope="col" className="px-1 text-xs font-medium text-gray-600 dark:text-gray-300">{key}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {matrix.keys.map((row, i) => (
+              <tr key={row}>
+                <th scope="row" className="pr-2 text-left text-xs font-medium text-gray-600 dark:text-gray-300">{row}</th>
+                {matrix.keys.map((column, j) => {
+                  const value = matrix.values[i][j];
+                  const label = `${row} vs ${column}: ${formatCoefficient(value)} (${matrix.counts[i][j]} returns)`;
+                  return (
+                    <td
+                      key={column}
+                      role="gridcell"
+                      aria-label={label}
+                      title={label}
+                      className="h-10 min-w-[4.5rem] rounded-sm text-center text-xs text-gray-900 dark:text-white bg-gray-100 dark:bg-gray-900"
+                      style={value === null ? undefined : { backgroundColor: shade(value, colorScheme) }}
+                    >
+                      {formatCoefficient(value)}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Rolling correlation and beta against a benchmark */}
+      <div className="space-y-3">
+        <div className="flex flex-wrap items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+          <select value={asset} onChange={(e) => setAsset(e.target.value)} aria-label="Asset" className={selectClass}>
+            {selectedSymbols.map(key => <option key={key} value={key}>{key}</option>)}
+          </select>
+          <span>against</span>
+          <select value={benchmark} onChange={(e) => setBenchmark(e.target.value)} aria-label="Benchmark" className={selectClass}>
+            {selectedSymbols.map(key => <option key={key} value={key}>{key}</option>)}
+          </select>
+          <span>over</span>
+          <select value={windowSize} onChange={(e) => setWindowSize(Number(e.target.value))} aria-label="Rolling window" className={selectClass}>
+            {ROLLING_CORRELATION_WINDOWS.map(size => <option key={size} value={size}>{size} candles</option>)}
+          </select>
+        </div>
+
+        <div className="h-72">
+          {rolling.length === 0 ? (
+            <p className="text-center py-8 text-gray-500 dark:text-gray-400">
+              {asset === benchmark
+                ? 'Pick a benchmark other than the asset'
+                : `Needs more than ${windowSize} shared candles`}
+            </p>
+          ) : (
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={rolling} margin={{ top: 16, right: 16, left: 0, bottom: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis
+                  dataKey="time"
+                  type="number"
+                  scale="time"
+                  domain={['dataMin', 'dataMax']}
+                  tickFormatter={(time: number) => format(new Date(time), 'MMM dd, yyyy')}
+                />
+                <YAxis yAxisId="correlation" domain={[-1, 1]} />
+                <YAxis yAxisId="beta" orientation="right" domain={['auto', 'auto']} />
+                <Tooltip
+                  labelFormatter={(time: number) => format(new Date(time), 'MMM dd, yyyy')}
+                  formatter={(value: number, name: string) => [value.toFixed(2), name]}
+                />
+                <Legend />
+                <Line yAxisId="correlation" type="monotone" dataKey="correlation" name="Correlation" stroke={colorScheme.liquidity.high} dot={false} isAnimationActive={false} />
+                <Line yAxisId="beta" type="monotone" dataKey="beta" name="Beta" stroke={colorScheme.volatility.medium} dot={false} isAnimationActive={false} />
+              </LineChart>
+            </ResponsiveContainer>
+          )}
+        </div>
+      </div>
+
+      {/* Does the dependency change through the calendar? */}
+      <div className="space-y-3">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300">
+            {asset} vs {benchmark} by calendar
+          </h4>
+          <div className="flex rounded-lg border border-gray-300 dark:border-gray-600 overflow-hidden" role="group" aria-label="Breakdown">
+            {DIMENSIONS.map(({ key, label }) => (
+              <button key={key} onClick={() => setDimension(key)} aria-pressed={dimension === key} className={toggleClass(dimension === key)}>
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          Overall {formatCoefficient(breakdown.overall)}
+          {breakdown.homogeneity
+            ? ` · χ² = ${breakdown.homogeneity.statistic.toFixed(2)} on ${breakdown.homogeneity.degreesOfFreedom} df, p ${formatPValue(breakdown.homogeneity.pValue)}: ${
+              breakdown.homogeneity.pValue < 0.05
+                ? `correlation changes by ${dimension}`
+                : `no evidence that correlation changes by ${dimension}`
+            }`
+            : ' · not enough shared candles to test'}
+        </p>
+
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs uppercase tracking-wide text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-600">
+                <th className="py-2 pr-3">{dimension === 'month' ? 'Month' : 'Weekday'}</th>
+                <th className="py-2 pr-3 text-right">N</th>
+                <th className="py-2 pr-3 text-right">Correlation</th>
+                <th className="py-2 pr-3 text-right">95% CI</th>
+                <th className="py-2 text-right">Beta</th>
+              </tr>
+            </thead>
+            <tbody>
+              {breakdown.buckets.map(bucket => (
+                <tr key={bucket.key} className="border-b border-gray-100 dark:border-gray-700 text-gray-900 dark:text-white">
+                  <td className="py-1.5 pr-3">{bucket.label}</td>
+                  <td className="py-1.5 pr-3 text-right">{bucket.count}</td>
+                  <td className="py-1.5 pr-3 text-right">{formatCoefficient(bucket.correlation)}</td>
+                  <td className="py-1.5 pr-3 text-right whitespace-nowrap">
+                    {bucket.confidenceInterval
+                      ? `${bucket.confidenceInterval[0].toFixed(2)} to ${bucket.confidenceInterval[1].toFixed(2)}`
+                      : '–'}
+                  </td>
+                  <td className="py-1.5 text-right">{formatCoefficient(bucket.beta)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CorrelationAnalysis;
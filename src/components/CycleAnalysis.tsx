@@ -0,0 +1,145 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { Bar, CartesianGrid, ComposedChart, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { CorrelogramPoint, CycleSeries, ProcessedDayData } from '@/types';
+import { CYCLE_SERIES, MIN_CYCLE_OBSERVATIONS, buildCycleReport } from '@/utils/cycles';
+import { formatPValue } from '@/utils/seasonality';
+
+interface CycleAnalysisProps {
+  data: ProcessedDayData[];  // Candles sorted oldest first
+}
+
+// Band lines either side of zero for a correlogram chart
+const withBands = (points: CorrelogramPoint[], key: 'acfBand' | 'pacfBand') =>
+  points.map(point => ({ ...point, upper: point[key], lower: -point[key] }));
+
+const formatPeriod = (frequency: number) => (1 / frequency).toFixed(1);
+
+/**
+ * Cycle Analysis
+ *
+ * Autocorrelation, partial autocorrelation and periodogram of returns,
+ * volatility or volume, with the periods that stand out from red noise.
+ */
+const CycleAnalysis: React.FC<CycleAnalysisProps> = ({ data }) => {
+  const [series, setSeries] = useState<CycleSeries>('returns');
+
+  const report = useMemo(() => buildCycleReport(data, series), [data, series]);
+
+  const toggleClass = (active: boolean) => `px-3 py-1 text-sm font-medium transition-colors ${
+    active
+      ? 'bg-blue-600 text-white'
+      : 'bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-600'
+  }`;
+
+  const renderCorrelogram = (title: string, dataKey: 'acf' | 'pacf', band: 'acfBand' | 'pacfBand') => (
+    <div>
+      <h4 className="text-sm font-medium text-gray-900 dark:text-white mb-2">{title}</h4>
+      <ResponsiveContainer width="100%" height={220}>
+        <ComposedChart data={withBands(report.correlogram, band)}>
+          <CartesianGrid strokeDasharray="3 3" />
+          <XAxis dataKey="lag" />
+          <YAxis domain={[-1, 1]} />
+          <Tooltip formatter={(value: number) => value.toFixed(3)} labelFormatter={(lag) => `Lag ${lag}`} />
+          <Bar dataKey={dataKey} fill="#3b82f6" name={title} />
+          <Line type="step" dataKey="upper" stroke="#9ca3af" strokeDasharray="4 4" dot={false} name="95% band" />
+          <Line type="step" dataKey="lower" stroke="#9ca3af" strokeDasharray="4 4" dot={false} legendType="none" tooltipType="none" />
+        </ComposedChart>
+      </ResponsiveContainer>
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-xs text-gray-500 dark:text-gray-400">{CYCLE_SERIES[series].description}</p>
+        <div className="flex rounded-lg border border-gray-300 dark:border-gray-600 overflow-hidden" role="group" aria-label="Cycle series">
+          {(Object.keys(CYCLE_SERIES) as CycleSeries[]).map(key => (
+            <button key={key} onClick={() => setSeries(key)} aria-pressed={series === key} className={toggleClass(series === key)}>
+              {CYCLE_SERIES[key].label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {report.spectrum.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          At least {MIN_CYCLE_OBSERVATIONS} candles are needed to search for cycles ({report.count} loaded).
+        </p>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            {renderCorrelogram('ACF', 'acf', 'acfBand')}
+            {renderCorrelogram('PACF', 'pacf', 'pacfBand')}
+          </div>
+
+          <div>
+            <h4 className="text-sm font-medium text-gray-900 dark:text-white mb-2">Periodogram</h4>
+            <ResponsiveContainer width="100%" height={260}>
+              <LineChart data={report.spectrum}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis
+                  dataKey="frequency"
+                  type="number"
+                  domain={[0, 0.5]}
+                  tickFormatter={(frequency: number) => (frequency > 0 ? formatPeriod(frequency) : '∞')}
+                  label={{ value: 'Period (candles)', position: 'insideBottom', offset: -2 }}
+                />
+                <YAxis />
+                <Tooltip
+                  formatter={(value: number) => value.toFixed(4)}
+                  labelFormatter={(frequency) => `Period ${formatPeriod(Number(frequency))} candles`}
+                />
+                <Legend />
+                <Line type="linear" dataKey="power" stroke="#3b82f6" dot={false} name="Power" />
+                <Line type="monotone" dataKey="background" stroke="#9ca3af" dot={false} name="Red-noise background" />
+                <Line type="monotone" dataKey="threshold" stroke="#ef4444" strokeDasharray="4 4" dot={false} name="95% level" />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm" aria-label="Dominant periods">
+              <thead>
+                <tr className="text-left text-xs uppercase tracking-wide text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-600">
+                  <th className="py-2 pr-3">Period</th>
+                  <th className="py-2 pr-3 text-right">Power / background</th>
+                  <th className="py-2 pr-3 text-right">Variance share</th>
+                  <th className="py-2 pr-3 text-right">ACF at period</th>
+                  <th className="py-2 text-right">Adjusted p</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.peaks.length === 0 ? (
+                  <tr>
+                    <td colSpan={5} className="py-3 text-center text-gray-500 dark:text-gray-400">
+                      No period stands out from red noise after correction
+                    </td>
+                  </tr>
+                ) : (
+                  report.peaks.map(peak => (
+                    <tr key={peak.frequency} className="border-b border-gray-100 dark:border-gray-700 text-gray-900 dark:text-white">
+                      <td className="py-1.5 pr-3">{peak.period.toFixed(1)} candles</td>
+                      <td className="py-1.5 pr-3 text-right">{peak.ratio.toFixed(1)}x</td>
+                      <td className="py-1.5 pr-3 text-right">{(peak.share * 100).toFixed(1)}%</td>
+                      <td className="py-1.5 pr-3 text-right">{peak.autocorrelation === null ? '–' : peak.autocorrelation.toFixed(2)}</td>
+                      <td className="py-1.5 text-right">{formatPValue(peak.adjustedPValue)}</td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            {report.count} candles, detrended. Bars outside the dashed bands are significant at 5%; the periodogram is tested
+            against an AR(1) background and peaks are kept after Benjamini-Hochberg correction.
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default CycleAnalysis;
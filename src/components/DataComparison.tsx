@@ -2,15 +2,27 @@
 
 import React, { useState, useEffect } from 'react';
 import type { DataComparison, ProcessedDayData, DateRange } from '@/types';
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
 import { Plus, X, BarChart3 } from 'lucide-react';
 import { format } from 'date-fns';
+import ComparisonChart, { ComparisonChartDataset } from './ComparisonChart';
+import YearOverYearChart, { YearOverYearSource } from './YearOverYearChart';
+import SyntheticWatermark from './SyntheticWatermark';
+
+type ComparisonMode = 'datasets' | 'yearOverYear';
+
+const MODES: { key: ComparisonMode; label: string }[] = [
+  { key: 'datasets', label: 'Datasets' },
+  { key: 'yearOverYear', label: 'Year over year' },
+];
 
 interface DataComparisonProps {
   comparisons: DataComparison[];
   marketData: ProcessedDayData[];
   comparisonData: Map<string, ProcessedDayData[]>;
   symbols: string[];
+  symbol?: string;  // Symbol of marketData, offered first in the year-over-year mode
+  providerName?: string;  // Provider marketData was loaded from
+  synthetic?: boolean;    // marketData is generated; charts plotting it are watermarked
   onComparisonCreate: (comparison: Omit<DataComparison, 'id' | 'createdAt'>) => void;
   onComparisonDelete: (comparisonId: string) => void;
 }
@@ -20,9 +32,13 @@ const DataComparison: React.FC<DataComparisonProps> = ({
   marketData,
   comparisonData,
   symbols,
+  symbol,
+  providerName,
+  synthetic = false,
   onComparisonCreate,
   onComparisonDelete
 }) => {
+  const [mode, setMode] = useState<ComparisonMode>('datasets');
   const [showCreateForm, setShowCreateForm] = useState(false);
   const [newComparison, setNewComparison] = useState({
     name: '',
@@ -123,143 +139,32 @@ const DataComparison: React.FC<DataComparisonProps> = ({
     }
   };
 
-  const getComparisonData = (comparison: DataComparison) => {
-    const chartData: Record<string, string | number>[] = [];
-    
-
-    const datasetDataMap = new Map<string, ProcessedDayData[]>();
-    
-    comparison.datasets.forEach((dataset) => {
-      const datasetKey = `${dataset.symbol}_${dataset.timeframe}`;
-      
-
-      let datasetData = comparisonData.get(datasetKey);
-      
-      if (!datasetData) {
-
-        datasetData = marketData.filter(d => 
-          d.date >= dataset.dateRange.start && 
-          d.date <= dataset.dateRange.end
-        );
-      } else {
-
-        datasetData = datasetData.filter(d => 
-          d.date >= dataset.dateRange.start && 
-          d.date <= dataset.dateRange.end
-        );
-      }
-      
-      datasetDataMap.set(datasetKey, datasetData);
-    });
-
-
-    const allDates = new Set<string>();
-    datasetDataMap.forEach((data) => {
-      data.forEach(item => {
-        allDates.add(format(item.date, 'MMM dd'));
-      });
-    });
-
-
-    const sortedDates = Array.from(allDates).sort((a, b) => 
-      new Date(a).getTime() - new Date(b).getTime()
-    );
-
-
-    sortedDates.forEach(dateStr => {
-      const chartDataPoint: Record<string, string | number> = { date: dateStr };
-      
-      comparison.datasets.forEach((dataset) => {
-        const datasetKey = `${dataset.symbol}_${dataset.timeframe}`;
-        const datasetData = datasetDataMap.get(datasetKey) || [];
-        
-
-        const dateData = datasetData.find(d => format(d.date, 'MMM dd') === dateStr);
-        
-        if (dateData) {
-          chartDataPoint[`${dataset.symbol}_volatility`] = dateData.volatility;
-          chartDataPoint[`${dataset.symbol}_performance`] = dateData.performance;
-          chartDataPoint[`${dataset.symbol}_volume`] = dateData.volume >= 1000000 
-            ? (dateData.volume / 1000000)
-            : dateData.volume >= 1000
-            ? (dateData.volume / 1000)
-            : dateData.volume;
-        } else {
+  const getDatasetData = (dataset: DataComparison['datasets'][number]): ProcessedDayData[] => {
+    // Fetched data for the symbol and timeframe, or the loaded market data when nothing was fetched
+    const source = comparisonData.get(`${dataset.symbol}_${dataset.timeframe}`) ?? marketData;
+    return source.filter(d => d.date >= dataset.dateRange.start && d.date <= dataset.dateRange.end);
+  };
 
-          chartDataPoint[`${dataset.symbol}_volatility`] = 0;
-          chartDataPoint[`${dataset.symbol}_performance`] = 0;
-          chartDataPoint[`${dataset.symbol}_volume`] = 0;
-        }
-      });
-      
-      chartData.push(chartDataPoint);
-    });
+  const plotsMarketData = (comparison: DataComparison) =>
+    comparison.datasets.some(dataset => !comparisonData.has(`${dataset.symbol}_${dataset.timeframe}`));
 
-    return chartData;
-  };
+  const getChartDatasets = (comparison: DataComparison): ComparisonChartDataset[] =>
+    comparison.datasets.map((dataset, index) => ({
+      key: `dataset${index}`,
+      label: `${dataset.symbol} (${dataset.timeframe})`,
+      color: dataset.color,
+      timeframe: dataset.timeframe,
+      data: getDatasetData(dataset),
+    }));
 
-  const renderComparisonChart = (comparison: DataComparison) => {
-    const data = getComparisonData(comparison);
-    // Custom legend with liquidity pattern
-    const renderCustomLegend = () => (
-      <div style={{ display: 'flex', alignItems: 'center', gap: 16, marginBottom: 8 }}>
-        {comparison.datasets.map((dataset, index) => (
-          <div key={index} style={{ display: 'flex', alignItems: 'center', gap: 4 }}>
-            <svg width="18" height="10">
-              <rect x="0" y="2" width="18" height="6" fill={dataset.color} />
-              {/* Liquidity pattern overlay: SVG dots */}
-              <g>
-                {[...Array(6)].map((_, i) => (
-                  <circle key={i} cx={3 + i * 3} cy={5} r={1} fill="#fff" opacity={0.7} />
-                ))}
-              </g>
-            </svg>
-            <span style={{ color: dataset.color }}>{dataset.symbol} (liquidity)</span>
-          </div>
-        ))}
-      </div>
-    );
-    return (
-      <ResponsiveContainer width="100%" height={400}>
-        <LineChart data={data} margin={{ top: 32, right: 16, left: 0, bottom: 0 }}>
-          <CartesianGrid strokeDasharray="3 3" />
-          <XAxis dataKey="date" />
-          <YAxis />
-          <Tooltip />
-          <Legend content={renderCustomLegend} />
-          {comparison.datasets.map((dataset, index) => (
-            <Line
-              key={`${dataset.symbol}_${dataset.timeframe}_${index}_liquidity`}
-              type="monotone"
-              dataKey={`${dataset.symbol}_liquidity`}
-              stroke={dataset.color}
-              strokeWidth={2}
-              name={`${dataset.symbol} Liquidity`}
-              dot={{
-                r: 5,
-                stroke: dataset.color,
-                strokeWidth: 2,
-                fill: '#fff',
-                // SVG dots overlay for marker
-                // Not natively supported, but you can use a custom dot renderer if needed
-              }}
-            />
-          ))}
-          {comparison.datasets.map((dataset, index) => (
-            <Line
-              key={`${dataset.symbol}_${dataset.timeframe}_${index}_volatility`}
-              type="monotone"
-              dataKey={`${dataset.symbol}_volatility`}
-              stroke={dataset.color}
-              strokeWidth={2}
-              name={`${dataset.symbol} Volatility`}
-              dot={false}
-            />
-          ))}
-        </LineChart>
-      </ResponsiveContainer>
-    );
-  };
+  // The loaded symbol first, then every dataset fetched for a comparison
+  const yearOverYearSources: YearOverYearSource[] = [
+    { key: 'market', label: symbol ?? 'Current symbol', data: marketData, synthetic },
+    ...Array.from(comparisonData.entries()).map(([key, data]) => {
+      const separator = key.lastIndexOf('_');
+      return { key, label: `${key.slice(0, separator)} (${key.slice(separator + 1)})`, data };
+    }),
+  ];
 
   return (
     <div className="bg-white dark:bg-gray-800 rounded-xl shadow-xl p-6">
@@ -270,21 +175,44 @@ const DataComparison: React.FC<DataComparisonProps> = ({
           <div>
             <h2 className="text-xl font-bold text-gray-900 dark:text-white">Data Comparison</h2>
             <p className="text-sm text-gray-600 dark:text-gray-400">
-              Compare multiple datasets side by side
+              {mode === 'datasets' ? 'Compare multiple datasets side by side' : 'Compare each year of one symbol'}
+              {providerName && ` • Source: ${providerName}`}
             </p>
           </div>
         </div>
-        <button
-          onClick={() => setShowCreateForm(!showCreateForm)}
-          className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
-        >
-          <Plus className="h-4 w-4" />
-          <span>New Comparison</span>
-        </button>
+        <div className="flex items-center space-x-3">
+          <div className="flex rounded-lg border border-gray-300 dark:border-gray-600 overflow-hidden" role="group" aria-label="Comparison mode">
+            {MODES.map(({ key, label }) => (
+              <button
+                key={key}
+                onClick={() => setMode(key)}
+                aria-pressed={mode === key}
+                className={`px-3 py-2 text-sm font-medium transition-colors ${
+                  mode === key
+                    ? 'bg-blue-600 text-white'
+                    : 'bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-600'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          {mode === 'datasets' && (
+            <button
+              onClick={() => setShowCreateForm(!showCreateForm)}
+              className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              <Plus className="h-4 w-4" />
+              <span>New Comparison</span>
+            </button>
+          )}
+        </div>
       </div>
 
+      {mode === 'yearOverYear' && <YearOverYearChart sources={yearOverYearSources} providerName={providerName} />}
+
       {/* Create Comparison Form */}
-      {showCreateForm && (
+      {mode === 'datasets' && showCreateForm && (
         <div className="mb-6 p-4 bg-gray-50 dark:bg-gray-700 rounded-lg">
           <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">Create New Comparison</h3>
           
@@ -444,60 +372,64 @@ const DataComparison: React.FC<DataComparisonProps> = ({
       )}
 
       {/* Comparisons List */}
-      <div className="space-y-6">
-        {comparisons.length === 0 ? (
-          <div className="text-center py-8 text-gray-500 dark:text-gray-400">
-            <BarChart3 className="h-12 w-12 mx-auto mb-4 opacity-50" />
-            <p>No comparisons created</p>
-            <p className="text-sm">Create your first comparison to get started</p>
-          </div>
-        ) : (
-          comparisons.map((comparison) => (
-            <div key={comparison.id} className="border border-gray-200 dark:border-gray-600 rounded-lg p-4">
-              <div className="flex items-center justify-between mb-4">
-                <div>
-                  <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
-                    {comparison.name}
-                  </h3>
-                  <p className="text-sm text-gray-600 dark:text-gray-400">
-                    {comparison.datasets.length} datasets • Created {comparison.createdAt.toLocaleDateString()}
-                  </p>
+      {mode === 'datasets' && (
+        <div className="space-y-6">
+          {comparisons.length === 0 ? (
+            <div className="text-center py-8 text-gray-500 dark:text-gray-400">
+              <BarChart3 className="h-12 w-12 mx-auto mb-4 opacity-50" />
+              <p>No comparisons created</p>
+              <p className="text-sm">Create your first comparison to get started</p>
+            </div>
+          ) : (
+            comparisons.map((comparison) => (
+              <div key={comparison.id} className="border border-gray-200 dark:border-gray-600 rounded-lg p-4">
+                <div className="flex items-center justify-between mb-4">
+                  <div>
+                    <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+                      {comparison.name}
+                    </h3>
+                    <p className="text-sm text-gray-600 dark:text-gray-400">
+                      {comparison.datasets.length} datasets • Created {comparison.createdAt.toLocaleDateString()}
+                      {comparison.providerName && ` • Source: ${comparison.providerName}`}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => onComparisonDelete(comparison.id)}
+                    className="p-2 text-gray-400 hover:text-red-600 dark:hover:text-red-400 transition-colors"
+                  >
+                    <X className="h-5 w-5" />
+                  </button>
                 </div>
-                <button
-                  onClick={() => onComparisonDelete(comparison.id)}
-                  className="p-2 text-gray-400 hover:text-red-600 dark:hover:text-red-400 transition-colors"
-                >
-                  <X className="h-5 w-5" />
-                </button>
-              </div>
 
-              <div className="mb-4">
-                <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Datasets</h4>
-                <div className="flex flex-wrap gap-2">
-                  {comparison.datasets.map((dataset, index) => (
-                    <div
-                      key={index}
-                      className="flex items-center space-x-2 px-3 py-1 rounded-full text-sm"
-                      style={{ backgroundColor: dataset.color + '20', color: dataset.color }}
-                    >
+                <div className="mb-4">
+                  <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Datasets</h4>
+                  <div className="flex flex-wrap gap-2">
+                    {comparison.datasets.map((dataset, index) => (
                       <div
-                        className="w-3 h-3 rounded-full"
-                        style={{ backgroundColor: dataset.color }}
-                      />
-                      <span>{dataset.symbol}</span>
-                      <span className="text-xs opacity-75">({dataset.timeframe})</span>
-                    </div>
-                  ))}
+                        key={index}
+                        className="flex items-center space-x-2 px-3 py-1 rounded-full text-sm"
+                        style={{ backgroundColor: dataset.color + '20', color: dataset.color }}
+                      >
+                        <div
+                          className="w-3 h-3 rounded-full"
+                          style={{ backgroundColor: dataset.color }}
+                        />
+                        <span>{dataset.symbol}</span>
+                        <span className="text-xs opacity-75">({dataset.timeframe})</span>
+                      </div>
+                    ))}
+                  </div>
                 </div>
-              </div>
 
-              <div className="h-80">
-                {renderComparisonChart(comparison)}
+                <div className="relative">
+                  {synthetic && plotsMarketData(comparison) && <SyntheticWatermark />}
+                  <ComparisonChart datasets={getChartDatasets(comparison)} />
+                </div>
               </div>
-            </div>
-          ))
-        )}
-      </div>
+            ))
+          )}
+        </div>
+      )}
     </div>
   );
 };
@@ -1,10 +1,18 @@
 'use client';
 
 import React, { useState, useEffect } from 'react';
-import { ProcessedDayData, DateRange } from '@/types';
-import { LineChart, Line, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
-import { X, TrendingUp, TrendingDown, Activity, Volume2, Download } from 'lucide-react';
+import { ProcessedDayData, DateRange, AnalysisTimeSettings, LiquidityMeasure, IndicatorSettings, LiquidityMetrics, VolatilitySettings } from '@/types';
+import { LineChart, Line, BarChart, Bar, AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { X, TrendingUp, TrendingDown, Activity, Volume2, Download, Layers } from 'lucide-react';
 import { format } from 'date-fns';
+import { SYNTHETIC_WATERMARK } from '@/utils/dataSource';
+import SyntheticWatermark from './SyntheticWatermark';
+import { getTimeSettingsLabel, getTimeZoneFileTag } from '@/utils/timezone';
+import { formatQuoteAmount } from '@/utils/orderBookMetrics';
+import { LIQUIDITY_MEASURES, formatLiquidityValue, getLiquidityValue } from '@/utils/liquidity';
+import { DEFAULT_VOLATILITY_SETTINGS, describeVolatilitySettings } from '@/utils/volatility';
+import { DEFAULT_INDICATOR_SETTINGS, getIndicatorLabels } from '@/utils/indicators';
+import { DRAWDOWN_TABLE_SIZES, findDrawdowns, getMaxDrawdown, getRecoveryStats, getUnderwaterSeries, rankDrawdowns } from '@/utils/drawdown';
 
 const useResponsiveMargin = () => {
   const [isMobile, setIsMobile] = useState(false);
@@ -30,6 +38,13 @@ interface DataDashboardProps {
   selectedDate: Date | null;
   selectedRange: DateRange | null;
   symbol: string;
+  providerName?: string;
+  synthetic?: boolean;
+  timeSettings?: AnalysisTimeSettings;
+  liveLiquidity?: LiquidityMetrics | null;  // Order book liquidity for the current (last) candle
+  liquidityMeasure?: LiquidityMeasure;      // Definition the liquidity score was computed with
+  volatility?: VolatilitySettings;          // Estimator the volatility values were computed with
+  indicatorSettings?: IndicatorSettings;    // Periods the candles' indicators were calculated with
   onClose: () => void;
 }
 
@@ -38,9 +53,17 @@ const DataDashboard: React.FC<DataDashboardProps> = ({
   selectedDate,
   selectedRange,
   symbol,
+  providerName,
+  synthetic = false,
+  timeSettings,
+  liveLiquidity = null,
+  liquidityMeasure = 'volume',
+  volatility = DEFAULT_VOLATILITY_SETTINGS,
+  indicatorSettings = DEFAULT_INDICATOR_SETTINGS,
   onClose,
 }) => {
   const responsiveMargin = useResponsiveMargin();
+  const [drawdownCount, setDrawdownCount] = useState(DRAWDOWN_TABLE_SIZES[0]);
 
   const getFilteredData = () => {
     if (selectedDate) {
@@ -61,6 +84,36 @@ const DataDashboard: React.FC<DataDashboardProps> = ({
   const filteredData = getFilteredData();
   const currentData = filteredData[0] || data[data.length - 1];
 
+  // Indicators of the selected day, or of the last day of the range
+  const indicatorDay = selectedRange ? filteredData[filteredData.length - 1] : currentData;
+  const indicatorLabels = getIndicatorLabels(indicatorSettings);
+  const formatIndicator = (value: number) => value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+  const indicatorRows = indicatorDay
+    ? [
+        { label: indicatorLabels.sma20, value: indicatorDay.sma20 },
+        { label: indicatorLabels.sma50, value: indicatorDay.sma50 },
+        { label: indicatorLabels.ema, value: indicatorDay.ema },
+        { label: indicatorLabels.vwap, value: indicatorDay.vwap },
+        { label: indicatorLabels.rsi, value: indicatorDay.rsi },
+        { label: indicatorLabels.atr, value: indicatorDay.atr },
+        { label: indicatorLabels.obv, value: indicatorDay.obv },
+      ]
+        .filter((row): row is { label: string; value: number } => row.value !== undefined)
+        .map(({ label, value }) => ({ label, text: formatIndicator(value) }))
+        .concat(indicatorDay.macd ? [{
+          label: indicatorLabels.macd,
+          text: `${formatIndicator(indicatorDay.macd.macd)} / ${formatIndicator(indicatorDay.macd.signal)} (hist ${formatIndicator(indicatorDay.macd.histogram)})`,
+        }] : [])
+        .concat(indicatorDay.bollinger ? [{
+          label: indicatorLabels.bollinger,
+          text: `${formatIndicator(indicatorDay.bollinger.lower)} – ${formatIndicator(indicatorDay.bollinger.upper)}`,
+        }] : [])
+        .concat(indicatorDay.stochastic ? [{
+          label: indicatorLabels.stochastic,
+          text: `%K ${formatIndicator(indicatorDay.stochastic.k)} / %D ${formatIndicator(indicatorDay.stochastic.d)}`,
+        }] : [])
+    : [];
+
 
   const getAggregatedMetrics = () => {
     if (!selectedRange || filteredData.length === 0) return null;
@@ -78,6 +131,7 @@ const DataDashboard: React.FC<DataDashboardProps> = ({
     const positiveDays = filteredData.filter(d => (d.performance || 0) > 0).length;
     const negativeDays = filteredData.filter(d => (d.performance || 0) < 0).length;
     const winRate = (positiveDays / totalDays) * 100;
+    const maxDrawdown = getMaxDrawdown(filteredData);
 
     return {
       avgVolatility,
@@ -90,12 +144,25 @@ const DataDashboard: React.FC<DataDashboardProps> = ({
       totalDays,
       positiveDays,
       negativeDays,
-      winRate
+      winRate,
+      maxDrawdown
     };
   };
 
   const aggregatedMetrics = getAggregatedMetrics();
 
+  // Drawdowns are measured from the highs inside the shown days, not the whole history
+  const underwater = getUnderwaterSeries(filteredData);
+  const drawdowns = findDrawdowns(filteredData);
+  const topDrawdowns = rankDrawdowns(drawdowns, drawdownCount);
+  const recoveryStats = getRecoveryStats(filteredData, drawdowns);
+  const formatDays = (days: number | null) => (days === null ? '–' : `${Math.round(days)}d`);
+
+  // The order book describes the market now, so it only applies when the current candle is shown
+  const bookLiquidity = liveLiquidity && data.length > 0 && filteredData.includes(data[data.length - 1])
+    ? liveLiquidity
+    : null;
+
   const formatCurrency = (value: number) => 
     new Intl.NumberFormat('en-US', { 
       style: 'currency', 
@@ -125,15 +192,20 @@ const DataDashboard: React.FC<DataDashboardProps> = ({
       'Low',
       'Close',
       'Volume',
-      'Volatility',
-      'Liquidity',
-      'Performance'
+      `Volatility (${describeVolatilitySettings(volatility)})`,
+      `Liquidity Score (${LIQUIDITY_MEASURES[liquidityMeasure].label})`,
+      LIQUIDITY_MEASURES[liquidityMeasure].label,
+      'Performance',
+      'Drawdown',
+      'Source'
     ];
 
     const csvContent = [
+      ...(synthetic ? [`# ${SYNTHETIC_WATERMARK}`] : []),
       headers.join(','),
-      ...filteredData.map(item => [
-        item.date.toISOString().split('T')[0],
+      // Days are dated at local midnight of their trading day, so format locally
+      ...filteredData.map((item, index) => [
+        format(item.date, 'yyyy-MM-dd'),
         item.open.toFixed(8),
         item.high.toFixed(8),
         item.low.toFixed(8),
@@ -141,7 +213,10 @@ const DataDashboard: React.FC<DataDashboardProps> = ({
         item.volume.toFixed(2),
         item.volatility.toFixed(2),
         item.liquidity.toFixed(2),
-        item.performance.toFixed(2)
+        liquidityMeasure === 'rank' ? item.liquidity.toFixed(4) : getLiquidityValue(item, liquidityMeasure) ?? '',
+        item.performance.toFixed(2),
+        underwater[index].drawdown.toFixed(2),
+        providerName ?? ''
       ].join(','))
     ].join('\n');
 
@@ -155,7 +230,8 @@ const DataDashboard: React.FC<DataDashboardProps> = ({
     const link = document.createElement('a');
     const url = URL.createObjectURL(blob);
     link.setAttribute('href', url);
-    link.setAttribute('download', `${symbol}_${rangeName}.csv`);
+    const zoneTag = timeSettings ? `_${getTimeZoneFileTag(timeSettings.timeZone)}` : '';
+    link.setAttribute('download', `${symbol}_${rangeName}${zoneTag}.csv`);
     link.style.visibility = 'hidden';
     document.body.appendChild(link);
     link.click();
@@ -163,7 +239,8 @@ const DataDashboard: React.FC<DataDashboardProps> = ({
   };
 
   return (
-    <div className="p-3 sm:p-6">
+    <div className="relative p-3 sm:p-6">
+      {synthetic && <SyntheticWatermark />}
       {/* Header */}
       <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center mb-4 sm:mb-6 space-y-2 sm:space-y-0">
         <div className="flex-1">
@@ -177,6 +254,8 @@ const DataDashboard: React.FC<DataDashboardProps> = ({
                 ? `Data from ${format(selectedRange.start, 'MMM dd')} to ${format(selectedRange.end, 'MMM dd, yyyy')} (${filteredData.length} days)`
                 : 'Last 30 days'
             }
+            {providerName && ` · Source: ${providerName}`}
+            {timeSettings && ` · Days in ${getTimeSettingsLabel(timeSettings)}`}
           </p>
         </div>
         <div className="flex items-center space-x-2">
@@ -244,6 +323,7 @@ const DataDashboard: React.FC<DataDashboardProps> = ({
               <p className="text-sm text-gray-600 dark:text-gray-400">
                 {selectedRange ? 'Avg Volatility' : 'Volatility'}
               </p>
+              <p className="text-xs text-gray-500 dark:text-gray-400">{describeVolatilitySettings(volatility)}</p>
               <p className="text-2xl font-bold text-gray-900 dark:text-white">
                 {(selectedRange ? (aggregatedMetrics?.avgVolatility || 0) : (currentData?.volatility || 0)).toFixed(2)}%
               </p>
@@ -267,9 +347,56 @@ const DataDashboard: React.FC<DataDashboardProps> = ({
         </div>
       </div>
 
+      {/* Order book liquidity */}
+      {bookLiquidity && (
+        <div className="bg-blue-50 dark:bg-blue-900/20 rounded-lg p-4 mb-6">
+          <h3 className="flex items-center space-x-2 text-sm font-semibold text-blue-700 dark:text-blue-300 mb-3">
+            <Layers className="h-4 w-4" />
+            <span>Order Book Liquidity (now)</span>
+          </h3>
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-4 text-sm">
+            <div>
+              <p className="text-gray-600 dark:text-gray-400">Spread</p>
+              <p className="text-lg font-bold text-gray-900 dark:text-white">{bookLiquidity.spreadPercent.toFixed(3)}%</p>
+            </div>
+            {bookLiquidity.depth.map(({ band, bid, ask, covered }) => (
+              <div key={band}>
+                <p className="text-gray-600 dark:text-gray-400">Depth ±{band}%</p>
+                <p className="text-lg font-bold text-gray-900 dark:text-white">
+                  {covered ? '' : '≥'}{formatQuoteAmount(bid + ask)}
+                </p>
+              </div>
+            ))}
+            <div>
+              <p className="text-gray-600 dark:text-gray-400">Imbalance</p>
+              <p className={`text-lg font-bold ${bookLiquidity.imbalance >= 0 ? 'text-green-500' : 'text-red-500'}`}>
+                {bookLiquidity.imbalance >= 0 ? '+' : ''}{(bookLiquidity.imbalance * 100).toFixed(1)}%
+              </p>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Technical indicators */}
+      {indicatorRows.length > 0 && (
+        <div className="bg-gray-50 dark:bg-gray-700 rounded-lg p-4 mb-6">
+          <h3 className="text-sm font-semibold text-gray-900 dark:text-white mb-3">
+            Technical Indicators{indicatorDay && selectedRange && ` (${format(indicatorDay.date, 'MMM dd, yyyy')})`}
+          </h3>
+          <dl className="grid grid-cols-2 lg:grid-cols-4 gap-4 text-sm">
+            {indicatorRows.map(({ label, text }) => (
+              <div key={label}>
+                <dt className="text-gray-600 dark:text-gray-400">{label}</dt>
+                <dd className="font-semibold text-gray-900 dark:text-white">{text}</dd>
+              </div>
+            ))}
+          </dl>
+        </div>
+      )}
+
       {/* Range-specific metrics */}
       {selectedRange && aggregatedMetrics && (
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4 mb-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
           <div className="bg-blue-50 dark:bg-blue-900/20 rounded-lg p-4">
             <div className="flex items-center justify-between">
               <div>
@@ -310,6 +437,20 @@ const DataDashboard: React.FC<DataDashboardProps> = ({
               </div>
             </div>
           </div>
+
+          <div className="bg-red-50 dark:bg-red-900/20 rounded-lg p-4">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm text-red-600 dark:text-red-400">Max Drawdown</p>
+                <p className="text-xl font-bold text-red-500">
+                  {aggregatedMetrics.maxDrawdown.toFixed(2)}%
+                </p>
+                <p className="text-xs text-red-600 dark:text-red-400">
+                  {recoveryStats.recovered}/{recoveryStats.episodes} drawdowns recovered
+                </p>
+              </div>
+            </div>
+          </div>
         </div>
       )}
 
@@ -367,6 +508,104 @@ const DataDashboard: React.FC<DataDashboardProps> = ({
         </div>
       )}
 
+      {/* Drawdowns */}
+      {filteredData.length > 1 && (
+        <div className="bg-white dark:bg-gray-800 rounded-lg p-4 mb-6">
+          <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+              Drawdowns
+            </h3>
+            <label className="flex items-center space-x-2 text-sm text-gray-600 dark:text-gray-400">
+              <span>Show top</span>
+              <select
+                value={drawdownCount}
+                onChange={(e) => setDrawdownCount(Number(e.target.value))}
+                className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                aria-label="Drawdowns shown"
+              >
+                {DRAWDOWN_TABLE_SIZES.map(size => (
+                  <option key={size} value={size}>{size}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          <dl className="grid grid-cols-2 lg:grid-cols-4 gap-4 text-sm mb-4">
+            <div>
+              <dt className="text-gray-600 dark:text-gray-400">Current drawdown</dt>
+              <dd className="font-semibold text-gray-900 dark:text-white">{recoveryStats.currentDrawdown.toFixed(2)}%</dd>
+            </div>
+            <div>
+              <dt className="text-gray-600 dark:text-gray-400">Avg / median recovery</dt>
+              <dd className="font-semibold text-gray-900 dark:text-white">
+                {formatDays(recoveryStats.averageRecoveryDays)} / {formatDays(recoveryStats.medianRecoveryDays)}
+              </dd>
+            </div>
+            <div>
+              <dt className="text-gray-600 dark:text-gray-400">Longest recovery</dt>
+              <dd className="font-semibold text-gray-900 dark:text-white">{formatDays(recoveryStats.longestRecoveryDays)}</dd>
+            </div>
+            <div>
+              <dt className="text-gray-600 dark:text-gray-400">Longest underwater</dt>
+              <dd className="font-semibold text-gray-900 dark:text-white">{formatDays(recoveryStats.longestUnderwaterDays)}</dd>
+            </div>
+          </dl>
+
+          <ResponsiveContainer width="100%" height={200}>
+            <AreaChart data={underwater} margin={responsiveMargin}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis 
+                dataKey="date" 
+                tickFormatter={(date) => format(new Date(date), 'MM/dd')}
+              />
+              <YAxis tickFormatter={(value: number) => `${value.toFixed(0)}%`} />
+              <Tooltip 
+                labelFormatter={(date) => format(new Date(date), 'MMM dd, yyyy')}
+                formatter={(value: number) => [`${value.toFixed(2)}%`, 'Below peak']}
+              />
+              <Area type="monotone" dataKey="drawdown" stroke="#ef4444" fill="#ef4444" fillOpacity={0.3} />
+            </AreaChart>
+          </ResponsiveContainer>
+
+          {topDrawdowns.length > 0 ? (
+            <div className="overflow-x-auto mt-4">
+              <table className="w-full text-sm" aria-label="Largest drawdowns">
+                <thead>
+                  <tr className="border-b border-gray-200 dark:border-gray-700">
+                    <th className="text-left py-2 text-gray-600 dark:text-gray-400">#</th>
+                    <th className="text-left py-2 text-gray-600 dark:text-gray-400">Peak</th>
+                    <th className="text-left py-2 text-gray-600 dark:text-gray-400">Trough</th>
+                    <th className="text-left py-2 text-gray-600 dark:text-gray-400">Recovery</th>
+                    <th className="text-right py-2 text-gray-600 dark:text-gray-400">Depth</th>
+                    <th className="text-right py-2 text-gray-600 dark:text-gray-400">Duration</th>
+                    <th className="text-right py-2 text-gray-600 dark:text-gray-400">Time to recover</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {topDrawdowns.map((episode, index) => (
+                    <tr key={episode.peak.getTime()} className="border-b border-gray-100 dark:border-gray-700">
+                      <td className="py-2 text-gray-900 dark:text-white">{index + 1}</td>
+                      <td className="py-2 text-gray-900 dark:text-white">{format(episode.peak, 'MMM dd, yyyy')}</td>
+                      <td className="py-2 text-gray-900 dark:text-white">{format(episode.trough, 'MMM dd, yyyy')}</td>
+                      <td className="py-2 text-gray-900 dark:text-white">
+                        {episode.recovery ? format(episode.recovery, 'MMM dd, yyyy') : 'Not recovered'}
+                      </td>
+                      <td className="text-right py-2 font-medium text-red-500">{episode.depth.toFixed(2)}%</td>
+                      <td className="text-right py-2 text-gray-900 dark:text-white">
+                        {formatDays(episode.duration)}{episode.recovery ? '' : '+'}
+                      </td>
+                      <td className="text-right py-2 text-gray-900 dark:text-white">{formatDays(episode.recoveryDays)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <p className="mt-4 text-sm text-gray-600 dark:text-gray-400">No drawdowns: every close was a new high.</p>
+          )}
+        </div>
+      )}
+
       {/* Detailed Data Table */}
       <div className="bg-white dark:bg-gray-800 rounded-lg p-4">
         <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
@@ -383,6 +622,9 @@ const DataDashboard: React.FC<DataDashboardProps> = ({
                 <th className="text-right py-2 text-gray-600 dark:text-gray-400">Close</th>
                 <th className="text-right py-2 text-gray-600 dark:text-gray-400">Volume</th>
                 <th className="text-right py-2 text-gray-600 dark:text-gray-400">Volatility</th>
+                <th className="text-right py-2 text-gray-600 dark:text-gray-400" title={LIQUIDITY_MEASURES[liquidityMeasure].description}>
+                  {LIQUIDITY_MEASURES[liquidityMeasure].label}
+                </th>
                 <th className="text-right py-2 text-gray-600 dark:text-gray-400">Performance</th>
               </tr>
             </thead>
@@ -410,6 +652,9 @@ const DataDashboard: React.FC<DataDashboardProps> = ({
                   <td className="text-right py-2 text-gray-900 dark:text-white">
                     {item.volatility.toFixed(2)}%
                   </td>
+                  <td className="text-right py-2 text-gray-900 dark:text-white">
+                    {formatLiquidityValue(item, liquidityMeasure)}
+                  </td>
                   <td className={`text-right py-2 font-medium ${
                     item.performance >= 0 ? 'text-green-500' : 'text-red-500'
                   }`}>
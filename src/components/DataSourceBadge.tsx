@@ -0,0 +1,62 @@
+'use client';
+
+import React from 'react';
+import { DataSourceStatus, DataSourceState } from '@/types';
+import { DATA_SOURCE_LABELS, MARKET_DATA_ERROR_LABELS } from '@/utils/dataSource';
+import { Wifi, Database, Clock, FlaskConical, AlertTriangle, X } from 'lucide-react';
+
+interface DataSourceBadgeProps {
+  status: DataSourceStatus;
+  providerName: string;
+  onExitSynthetic?: () => void;
+}
+
+const BADGE_STYLES: Record<DataSourceState, { className: string; icon: React.ElementType }> = {
+  live: { className: 'bg-green-100 dark:bg-green-900/40 text-green-800 dark:text-green-200', icon: Wifi },
+  cached: { className: 'bg-blue-100 dark:bg-blue-900/40 text-blue-800 dark:text-blue-200', icon: Database },
+  stale: { className: 'bg-yellow-100 dark:bg-yellow-900/40 text-yellow-800 dark:text-yellow-200', icon: Clock },
+  synthetic: { className: 'bg-purple-100 dark:bg-purple-900/40 text-purple-800 dark:text-purple-200', icon: FlaskConical },
+  error: { className: 'bg-red-100 dark:bg-red-900/40 text-red-800 dark:text-red-200', icon: AlertTriangle },
+};
+
+/**
+ * Data Source Badge
+ *
+ * Header badge stating whether the data on screen is live, cached, stale,
+ * synthetic or unavailable, naming the kind of failure when a request failed.
+ * Hovering shows the provider and detail message.
+ */
+const DataSourceBadge: React.FC<DataSourceBadgeProps> = ({ status, providerName, onExitSynthetic }) => {
+  const { className, icon: Icon } = BADGE_STYLES[status.state];
+  const label = status.state === 'error' && status.errorKind
+    ? MARKET_DATA_ERROR_LABELS[status.errorKind]
+    : DATA_SOURCE_LABELS[status.state];
+  const title = [
+    status.state === 'synthetic' ? 'Generated data, not from any market' : `Source: ${providerName}`,
+    status.detail,
+    `Updated ${status.updatedAt.toLocaleTimeString()}`,
+  ].filter(Boolean).join('\n');
+
+  return (
+    <div
+      role="status"
+      aria-label={`Data source: ${label}`}
+      title={title}
+      className={`flex items-center space-x-1 px-2 py-1 rounded-full text-xs font-medium ${className}`}
+    >
+      <Icon className="h-3 w-3" />
+      <span>{label}</span>
+      {status.state === 'synthetic' && onExitSynthetic && (
+        <button
+          onClick={onExitSynthetic}
+          className="ml-1 hover:opacity-70 transition-opacity"
+          title="Switch back to market data"
+        >
+          <X className="h-3 w-3" />
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default DataSourceBadge;
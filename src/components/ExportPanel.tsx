@@ -1,17 +1,23 @@
 'use client';
 
 import React from 'react';
-import { ProcessedDayData, Timeframe, DateRange } from '@/types';
+import { ProcessedDayData, Timeframe, DateRange, AnalysisTimeSettings } from '@/types';
 import { FileText, Image, FileSpreadsheet, Database, X } from 'lucide-react';
 import html2canvas from 'html2canvas';
 import jsPDF from 'jspdf';
 import { format } from 'date-fns';
+import { SYNTHETIC_WATERMARK, watermarkCanvas } from '@/utils/dataSource';
+import { isIntradayInterval } from '@/utils/intraday';
+import { formatTradingDay, formatZonedDateTime, getTimeSettingsLabel, getTimeZoneFileTag, getTradingDate } from '@/utils/timezone';
 
 interface ExportPanelProps {
   data: ProcessedDayData[];
   symbol: string;
   timeframe: Timeframe;
   selectedRange?: DateRange | null;
+  timeSettings: AnalysisTimeSettings;
+  providerName?: string;
+  synthetic?: boolean;
   onClose: () => void;
 }
 
@@ -20,42 +26,55 @@ const ExportPanel: React.FC<ExportPanelProps> = ({
   symbol,
   timeframe,
   selectedRange,
+  timeSettings,
+  providerName,
+  synthetic = false,
   onClose
 }) => {
+  const intraday = isIntradayInterval(timeframe.interval);
+
+  // The selected range holds calendar days, so compare each candle's trading day
   const getExportData = () => {
     if (selectedRange) {
-      return data.filter(item => 
-        item.date >= selectedRange.start && item.date <= selectedRange.end
-      );
+      return data.filter(item => {
+        const day = getTradingDate(item.date, timeSettings);
+        return day >= selectedRange.start && day <= selectedRange.end;
+      });
     }
     return data;
   };
 
   const exportData = getExportData();
 
+  const getFileName = (extension: string) =>
+    `${symbol}_${timeframe.value}_${getTimeZoneFileTag(timeSettings.timeZone)}_${format(new Date(), 'yyyy-MM-dd_HH-mm')}.${extension}`;
+
   const exportAsCSV = () => {
     const headers = [
-      'Date',
+      `Date (${timeSettings.timeZone})`,
       'Open',
       'High', 
       'Low',
       'Close',
       'Volume',
       'Volatility',
-      'Performance'
+      'Performance',
+      'Source'
     ];
 
     const csvContent = [
+      ...(synthetic ? [`# ${SYNTHETIC_WATERMARK}`] : []),
       headers.join(','),
       ...exportData.map(item => [
-        item.date.toISOString().split('T')[0],
+        intraday ? formatZonedDateTime(item.date, timeSettings.timeZone) : formatTradingDay(item.date, timeSettings),
         item.open,
         item.high,
         item.low,
         item.close,
         item.volume,
         item.volatility,
-        item.performance
+        item.performance,
+        providerName ?? ''
       ].join(','))
     ].join('\n');
 
@@ -63,7 +82,7 @@ const ExportPanel: React.FC<ExportPanelProps> = ({
     const link = document.createElement('a');
     const url = URL.createObjectURL(blob);
     link.setAttribute('href', url);
-    link.setAttribute('download', `${symbol}_${timeframe.value}_${format(new Date(), 'yyyy-MM-dd_HH-mm')}.csv`);
+    link.setAttribute('download', getFileName('csv'));
     link.style.visibility = 'hidden';
     document.body.appendChild(link);
     link.click();
@@ -74,6 +93,10 @@ const ExportPanel: React.FC<ExportPanelProps> = ({
     const jsonData = {
       symbol,
       timeframe: timeframe.value,
+      timeZone: timeSettings.timeZone,
+      dayStartHour: timeSettings.dayStartHour,
+      provider: providerName,
+      ...(synthetic && { synthetic: true, warning: SYNTHETIC_WATERMARK }),
       exportDate: new Date().toISOString(),
       data: exportData
     };
@@ -82,7 +105,7 @@ const ExportPanel: React.FC<ExportPanelProps> = ({
     const link = document.createElement('a');
     const url = URL.createObjectURL(blob);
     link.setAttribute('href', url);
-    link.setAttribute('download', `${symbol}_${timeframe.value}_${format(new Date(), 'yyyy-MM-dd_HH-mm')}.json`);
+    link.setAttribute('download', getFileName('json'));
     link.style.visibility = 'hidden';
     document.body.appendChild(link);
     link.click();
@@ -103,6 +126,7 @@ const ExportPanel: React.FC<ExportPanelProps> = ({
         allowTaint: true,
         backgroundColor: '#ffffff'
       });
+      if (synthetic) watermarkCanvas(canvas);
 
       const imgData = canvas.toDataURL('image/png');
       const pdf = new jsPDF('landscape', 'mm', 'a4');
@@ -114,6 +138,18 @@ const ExportPanel: React.FC<ExportPanelProps> = ({
       let position = 0;
 
       pdf.addImage(imgData, 'PNG', 0, position, imgWidth, imgHeight);
+      pdf.setFontSize(8);
+      pdf.text(
+        `${providerName ? `Source: ${providerName} · ` : ''}Days in ${getTimeSettingsLabel(timeSettings)}`,
+        5,
+        pageHeight - 5
+      );
+      if (synthetic) {
+        pdf.setFontSize(12);
+        pdf.setTextColor(220, 38, 38);
+        pdf.text(SYNTHETIC_WATERMARK, imgWidth / 2, 8, { align: 'center' });
+        pdf.setTextColor(0, 0, 0);
+      }
       heightLeft -= pageHeight;
 
       while (heightLeft >= 0) {
@@ -123,8 +159,7 @@ const ExportPanel: React.FC<ExportPanelProps> = ({
         heightLeft -= pageHeight;
       }
 
-      const filename = `${symbol}_${timeframe.value}_${format(new Date(), 'yyyy-MM-dd_HH-mm')}.pdf`;
-      pdf.save(filename);
+      pdf.save(getFileName('pdf'));
     } catch (error) {
       console.error('Error generating PDF:', error);
       alert('Failed to generate PDF. Please try again.');
@@ -145,9 +180,10 @@ const ExportPanel: React.FC<ExportPanelProps> = ({
         allowTaint: true,
         backgroundColor: '#ffffff'
       });
+      if (synthetic) watermarkCanvas(canvas);
 
       const link = document.createElement('a');
-      link.download = `${symbol}_${timeframe.value}_${format(new Date(), 'yyyy-MM-dd_HH-mm')}.png`;
+      link.download = getFileName('png');
       link.href = canvas.toDataURL();
       link.click();
     } catch (error) {
@@ -223,6 +259,13 @@ const ExportPanel: React.FC<ExportPanelProps> = ({
         <div className="text-sm text-gray-600 dark:text-gray-400 space-y-1">
           <p><span className="font-medium">Symbol:</span> {symbol}</p>
           <p><span className="font-medium">Timeframe:</span> {timeframe.label}</p>
+          {providerName && (
+            <p><span className="font-medium">Source:</span> {providerName}</p>
+          )}
+          {synthetic && (
+            <p className="font-medium text-red-600 dark:text-red-400">{SYNTHETIC_WATERMARK}: every export is watermarked</p>
+          )}
+          <p><span className="font-medium">Timezone:</span> {getTimeSettingsLabel(timeSettings)}</p>
           <p><span className="font-medium">Data Points:</span> {exportData.length}</p>
           {selectedRange && (
             <p><span className="font-medium">Date Range:</span> {format(selectedRange.start, 'MMM dd, yyyy')} - {format(selectedRange.end, 'MMM dd, yyyy')}</p>
@@ -1,33 +1,72 @@
 'use client';
 
 import React from 'react';
-import { Timeframe, FilterOptions } from '@/types';
-import { Search, Clock, TrendingUp } from 'lucide-react';
+import { Timeframe, HistoryRange, FilterOptions, AnalysisTimeSettings, LiquidityMeasure, VolatilityEstimator } from '@/types';
+import { TIMEZONE_OPTIONS } from '@/utils/timezone';
+import { LIQUIDITY_MEASURES } from '@/utils/liquidity';
+import { VOLATILITY_ESTIMATORS, VOLATILITY_WINDOWS } from '@/utils/volatility';
+import { Search, Clock, TrendingUp, History, Server, Globe } from 'lucide-react';
 
 interface FilterControlsProps {
+  providers: { id: string; name: string }[];
+  selectedProvider: string;
+  onProviderChange: (providerId: string) => void;
   symbols: string[];
   selectedSymbol: string;
   onSymbolChange: (symbol: string) => void;
   timeframes: Timeframe[];
   currentTimeframe: Timeframe;
   onTimeframeChange: (timeframe: Timeframe) => void;
+  historyRanges: HistoryRange[];
+  currentHistoryRange: HistoryRange;
+  onHistoryRangeChange: (range: HistoryRange) => void;
+  timeSettings: AnalysisTimeSettings;
+  onTimeSettingsChange: (settings: AnalysisTimeSettings) => void;
   filterOptions: FilterOptions;
   onFilterChange: (options: FilterOptions) => void;
 }
 
 const FilterControls: React.FC<FilterControlsProps> = ({
+  providers,
+  selectedProvider,
+  onProviderChange,
   symbols,
   selectedSymbol,
   onSymbolChange,
   timeframes,
   currentTimeframe,
   onTimeframeChange,
+  historyRanges,
+  currentHistoryRange,
+  onHistoryRangeChange,
+  timeSettings,
+  onTimeSettingsChange,
   filterOptions,
   onFilterChange,
 }) => {
   return (
     <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-3 sm:p-4">
-      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3 sm:gap-4">
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-6 gap-3 sm:gap-4">
+      {/* Data Source Selector */}
+        <div className="space-y-2">
+          <div className="flex items-center space-x-1 sm:space-x-2">
+          <Server className="h-3 w-3 sm:h-4 sm:w-4 text-gray-500" />
+          <h3 className="text-xs sm:text-sm font-semibold text-gray-900 dark:text-white">Data Source</h3>
+        </div>
+        <select
+          value={selectedProvider}
+          onChange={(e) => onProviderChange(e.target.value)}
+            className="w-full p-1.5 sm:p-2 text-xs sm:text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            aria-label="Data source"
+        >
+          {providers.map((provider) => (
+            <option key={provider.id} value={provider.id}>
+              {provider.name}
+            </option>
+          ))}
+        </select>
+      </div>
+
       {/* Symbol Selector */}
         <div className="space-y-2">
           <div className="flex items-center space-x-1 sm:space-x-2">
@@ -53,7 +92,7 @@ const FilterControls: React.FC<FilterControlsProps> = ({
           <Clock className="h-3 w-3 sm:h-4 sm:w-4 text-gray-500" />
           <h3 className="text-xs sm:text-sm font-semibold text-gray-900 dark:text-white">Timeframe</h3>
         </div>
-          <div className="grid grid-cols-3 gap-1 sm:gap-2">
+          <div className="grid grid-cols-4 gap-1 sm:gap-2">
           {timeframes.map((timeframe) => (
             <button
               key={timeframe.value}
@@ -70,6 +109,66 @@ const FilterControls: React.FC<FilterControlsProps> = ({
         </div>
       </div>
 
+      {/* History Range Selector */}
+        <div className="space-y-2">
+          <div className="flex items-center space-x-1 sm:space-x-2">
+          <History className="h-3 w-3 sm:h-4 sm:w-4 text-gray-500" />
+          <h3 className="text-xs sm:text-sm font-semibold text-gray-900 dark:text-white">History</h3>
+        </div>
+          <div className="grid grid-cols-4 gap-1 sm:gap-2">
+          {historyRanges.map((range) => (
+            <button
+              key={range.label}
+              onClick={() => onHistoryRangeChange(range)}
+                className={`w-full text-center px-2 sm:px-3 py-1.5 sm:py-2 rounded-lg text-xs sm:text-sm font-medium transition-all duration-200 ${
+                currentHistoryRange.years === range.years
+                  ? 'bg-blue-100 dark:bg-blue-900 text-blue-900 dark:text-blue-100 shadow-md scale-105'
+                  : 'text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700 hover:scale-102'
+              }`}
+              title={`Load ${range.years} year${range.years > 1 ? 's' : ''} of history`}
+            >
+              {range.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Analysis Time Selector */}
+        <div className="space-y-2">
+          <div className="flex items-center space-x-1 sm:space-x-2">
+          <Globe className="h-3 w-3 sm:h-4 sm:w-4 text-gray-500" />
+          <h3 className="text-xs sm:text-sm font-semibold text-gray-900 dark:text-white">Analysis Time</h3>
+        </div>
+        <select
+          value={timeSettings.timeZone}
+          onChange={(e) => onTimeSettingsChange({ ...timeSettings, timeZone: e.target.value })}
+            className="w-full p-1.5 sm:p-2 text-xs sm:text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            aria-label="Analysis timezone"
+        >
+          {!TIMEZONE_OPTIONS.some(option => option.value === timeSettings.timeZone) && (
+            <option value={timeSettings.timeZone}>{timeSettings.timeZone}</option>
+          )}
+          {TIMEZONE_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <select
+          value={timeSettings.dayStartHour}
+          onChange={(e) => onTimeSettingsChange({ ...timeSettings, dayStartHour: Number(e.target.value) })}
+            className="w-full p-1.5 sm:p-2 text-xs sm:text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            aria-label="Trading day starts at"
+            title="Hour the trading day starts, in the analysis timezone"
+        >
+          {Array.from({ length: 24 }, (_, hour) => (
+            <option key={hour} value={hour}>
+              Day starts {hour.toString().padStart(2, '0')}:00
+            </option>
+          ))}
+        </select>
+      </div>
+
       {/* Metrics Toggle */}
         <div className="space-y-2">
           <div className="flex items-center space-x-1 sm:space-x-2">
@@ -96,6 +195,65 @@ const FilterControls: React.FC<FilterControlsProps> = ({
             </label>
           ))}
           </div>
+          <select
+            value={filterOptions.liquidityMeasure}
+            onChange={(e) => onFilterChange({ ...filterOptions, liquidityMeasure: e.target.value as LiquidityMeasure })}
+            className="w-full p-1.5 sm:p-2 text-xs sm:text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            aria-label="Liquidity measure"
+            title={LIQUIDITY_MEASURES[filterOptions.liquidityMeasure].description}
+          >
+            {(Object.keys(LIQUIDITY_MEASURES) as LiquidityMeasure[]).map((measure) => (
+              <option key={measure} value={measure}>
+                {LIQUIDITY_MEASURES[measure].label}
+              </option>
+            ))}
+          </select>
+          <select
+            value={filterOptions.volatility.estimator}
+            onChange={(e) => onFilterChange({
+              ...filterOptions,
+              volatility: { ...filterOptions.volatility, estimator: e.target.value as VolatilityEstimator },
+            })}
+            className="w-full p-1.5 sm:p-2 text-xs sm:text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            aria-label="Volatility estimator"
+            title={VOLATILITY_ESTIMATORS[filterOptions.volatility.estimator].description}
+          >
+            {(Object.keys(VOLATILITY_ESTIMATORS) as VolatilityEstimator[]).map((estimator) => (
+              <option key={estimator} value={estimator}>
+                {VOLATILITY_ESTIMATORS[estimator].label}
+              </option>
+            ))}
+          </select>
+          <div className="flex items-center space-x-2">
+            <select
+              value={filterOptions.volatility.window}
+              onChange={(e) => onFilterChange({
+                ...filterOptions,
+                volatility: { ...filterOptions.volatility, window: Number(e.target.value) },
+              })}
+              className="flex-1 p-1.5 sm:p-2 text-xs sm:text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              aria-label="Volatility window"
+              title="Candles each volatility estimate covers"
+            >
+              {VOLATILITY_WINDOWS.map((window) => (
+                <option key={window} value={window}>
+                  {window === 1 ? 'Per candle' : `${window} candles`}
+                </option>
+              ))}
+            </select>
+            <label className="flex items-center space-x-1 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={filterOptions.volatility.annualize}
+                onChange={(e) => onFilterChange({
+                  ...filterOptions,
+                  volatility: { ...filterOptions.volatility, annualize: e.target.checked },
+                })}
+                className="h-3 w-3 sm:h-4 sm:w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+              />
+              <span className="text-xs sm:text-sm text-gray-700 dark:text-gray-300">Annualised</span>
+            </label>
+          </div>
         </div>
       </div>
     </div>
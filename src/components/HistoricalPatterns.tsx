@@ -1,21 +1,30 @@
 'use client';
 
 import React, { useState } from 'react';
-import { HistoricalPattern, PatternDetection, ProcessedDayData } from '@/types';
+import { HistoricalPattern, PatternDetection, ProcessedDayData, RegimePoint } from '@/types';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
-import { TrendingUp, AlertTriangle, Calendar, Activity, Target, Zap, Info, Award } from 'lucide-react';
+import { TrendingUp, AlertTriangle, Calendar, Activity, Target, Zap, Info, Award, FlaskConical } from 'lucide-react';
 import { format } from 'date-fns';
+import SeasonalityReportTable from './SeasonalityReportTable';
+import CycleAnalysis from './CycleAnalysis';
+import { formatPValue } from '@/utils/seasonality';
 
 interface HistoricalPatternsProps {
   patterns: PatternDetection;
   marketData: ProcessedDayData[];
   onPatternSelect: (pattern: HistoricalPattern) => void;
+  providerName?: string;
+  synthetic?: boolean;
+  regimes?: RegimePoint[];  // Candle regimes for the seasonality report's regime filter
 }
 
 const HistoricalPatterns: React.FC<HistoricalPatternsProps> = ({
   patterns,
   marketData,
-  onPatternSelect
+  onPatternSelect,
+  providerName,
+  synthetic = false,
+  regimes = []
 }) => {
   const [activeTab, setActiveTab] = useState<'seasonal' | 'cyclical' | 'anomalies' | 'trends'>('seasonal');
   const [selectedPattern, setSelectedPattern] = useState<HistoricalPattern | null>(null);
@@ -114,10 +123,19 @@ const HistoricalPatterns: React.FC<HistoricalPatternsProps> = ({
         <div className="flex items-center space-x-2">
           <span className="text-sm text-gray-500 dark:text-gray-400">
             {activePatterns.length} patterns found
+            {providerName && ` · Source: ${providerName}`}
           </span>
         </div>
       </div>
 
+      {/* Detection is off while synthetic data is shown */}
+      {synthetic && (
+        <div className="mb-6 flex items-center space-x-2 p-3 bg-purple-50 dark:bg-purple-900/20 border border-purple-200 dark:border-purple-800 rounded-lg text-sm text-purple-800 dark:text-purple-200">
+          <FlaskConical className="h-4 w-4 flex-shrink-0" />
+          <span>Pattern detection is turned off while synthetic data is active. Patterns found in generated data would be meaningless.</span>
+        </div>
+      )}
+
       {/* Pattern Type Tabs */}
       <div className="flex space-x-1 mb-6 bg-gray-100 dark:bg-gray-700 rounded-lg p-1">
         {[
@@ -180,8 +198,11 @@ const HistoricalPatterns: React.FC<HistoricalPatternsProps> = ({
                       </div>
                       <div className="flex-1">
                         <h4 className="text-sm font-medium text-gray-900 dark:text-white">
-                          {pattern.description}
+                          {pattern.name}
                         </h4>
+                        <p className="text-xs text-gray-700 dark:text-gray-300 mt-1">
+                          {pattern.description}
+                        </p>
                         <p className="text-xs text-gray-600 dark:text-gray-400 mt-1">
                           {format(pattern.startDate, 'MMM dd')} - {format(pattern.endDate, 'MMM dd, yyyy')}
                         </p>
@@ -191,13 +212,21 @@ const HistoricalPatterns: React.FC<HistoricalPatternsProps> = ({
                       <div className="flex items-center space-x-1">
                         <Award className="h-3 w-3 text-yellow-500" />
                         <span className="text-xs font-medium text-gray-700 dark:text-gray-300">
-                          {pattern.confidence.toFixed(0)}%
+                          {pattern.statistics
+                            ? `p = ${formatPValue(pattern.statistics.adjustedPValue)}`
+                            : pattern.cycle
+                            ? `p = ${formatPValue(pattern.cycle.adjustedPValue)}`
+                            : `${pattern.confidence.toFixed(0)}%`}
                         </span>
                       </div>
                       <div className="flex items-center space-x-1 mt-1">
                         <Zap className="h-3 w-3 text-orange-500" />
                         <span className="text-xs text-gray-600 dark:text-gray-400">
-                          {(pattern.strength * 100).toFixed(0)}% strength
+                          {pattern.statistics
+                            ? `d = ${pattern.statistics.effectSize.toFixed(2)}`
+                            : pattern.cycle
+                            ? `${pattern.cycle.ratio.toFixed(1)}x background`
+                            : `${(pattern.strength * 100).toFixed(0)}% strength`}
                         </span>
                       </div>
                     </div>
@@ -244,35 +273,94 @@ const HistoricalPatterns: React.FC<HistoricalPatternsProps> = ({
           {selectedPattern ? (
             <div className="space-y-4">
               <div className="p-4 bg-gray-50 dark:bg-gray-700 rounded-lg">
-                <h4 className="font-medium text-gray-900 dark:text-white mb-2">
-                  {selectedPattern.description}
+                <h4 className="font-medium text-gray-900 dark:text-white">
+                  {selectedPattern.name}
                 </h4>
-                <div className="grid grid-cols-2 gap-4 text-sm">
-                  <div>
-                    <span className="text-gray-600 dark:text-gray-400">Confidence:</span>
-                    <span className="ml-2 font-medium text-gray-900 dark:text-white">
-                      {selectedPattern.confidence.toFixed(1)}%
-                    </span>
-                  </div>
-                  <div>
-                    <span className="text-gray-600 dark:text-gray-400">Strength:</span>
-                    <span className="ml-2 font-medium text-gray-900 dark:text-white">
-                      {(selectedPattern.strength * 100).toFixed(1)}%
-                    </span>
+                <p className="text-sm text-gray-600 dark:text-gray-400 mb-2">
+                  {selectedPattern.description}
+                </p>
+                {selectedPattern.statistics ? (
+                  <div className="grid grid-cols-2 gap-4 text-sm">
+                    <div>
+                      <span className="text-gray-600 dark:text-gray-400">Adjusted p:</span>
+                      <span className="ml-2 font-medium text-gray-900 dark:text-white">
+                        {formatPValue(selectedPattern.statistics.adjustedPValue)}
+                      </span>
+                    </div>
+                    <div>
+                      <span className="text-gray-600 dark:text-gray-400">Raw p:</span>
+                      <span className="ml-2 font-medium text-gray-900 dark:text-white">
+                        {formatPValue(selectedPattern.statistics.pValue)}
+                      </span>
+                    </div>
+                    <div>
+                      <span className="text-gray-600 dark:text-gray-400">Effect size (d):</span>
+                      <span className="ml-2 font-medium text-gray-900 dark:text-white">
+                        {selectedPattern.statistics.effectSize.toFixed(2)}
+                      </span>
+                    </div>
+                    <div>
+                      <span className="text-gray-600 dark:text-gray-400">Observations:</span>
+                      <span className="ml-2 font-medium text-gray-900 dark:text-white">
+                        {selectedPattern.frequency} candles
+                      </span>
+                    </div>
                   </div>
-                  <div>
-                    <span className="text-gray-600 dark:text-gray-400">Frequency:</span>
-                    <span className="ml-2 font-medium text-gray-900 dark:text-white">
-                      {selectedPattern.frequency} days
-                    </span>
+                ) : selectedPattern.cycle ? (
+                  <div className="grid grid-cols-2 gap-4 text-sm">
+                    <div>
+                      <span className="text-gray-600 dark:text-gray-400">Period:</span>
+                      <span className="ml-2 font-medium text-gray-900 dark:text-white">
+                        {selectedPattern.cycle.period.toFixed(1)} candles
+                      </span>
+                    </div>
+                    <div>
+                      <span className="text-gray-600 dark:text-gray-400">Power / background:</span>
+                      <span className="ml-2 font-medium text-gray-900 dark:text-white">
+                        {selectedPattern.cycle.ratio.toFixed(1)}x
+                      </span>
+                    </div>
+                    <div>
+                      <span className="text-gray-600 dark:text-gray-400">Adjusted p:</span>
+                      <span className="ml-2 font-medium text-gray-900 dark:text-white">
+                        {formatPValue(selectedPattern.cycle.adjustedPValue)}
+                      </span>
+                    </div>
+                    <div>
+                      <span className="text-gray-600 dark:text-gray-400">Variance share:</span>
+                      <span className="ml-2 font-medium text-gray-900 dark:text-white">
+                        {(selectedPattern.strength * 100).toFixed(1)}%
+                      </span>
+                    </div>
                   </div>
-                  <div>
-                    <span className="text-gray-600 dark:text-gray-400">Duration:</span>
-                    <span className="ml-2 font-medium text-gray-900 dark:text-white">
-                      {Math.ceil((selectedPattern.endDate.getTime() - selectedPattern.startDate.getTime()) / (1000 * 60 * 60 * 24))} days
-                    </span>
+                ) : (
+                  <div className="grid grid-cols-2 gap-4 text-sm">
+                    <div>
+                      <span className="text-gray-600 dark:text-gray-400">Confidence:</span>
+                      <span className="ml-2 font-medium text-gray-900 dark:text-white">
+                        {selectedPattern.confidence.toFixed(1)}%
+                      </span>
+                    </div>
+                    <div>
+                      <span className="text-gray-600 dark:text-gray-400">Strength:</span>
+                      <span className="ml-2 font-medium text-gray-900 dark:text-white">
+                        {(selectedPattern.strength * 100).toFixed(1)}%
+                      </span>
+                    </div>
+                    <div>
+                      <span className="text-gray-600 dark:text-gray-400">Frequency:</span>
+                      <span className="ml-2 font-medium text-gray-900 dark:text-white">
+                        {selectedPattern.frequency} days
+                      </span>
+                    </div>
+                    <div>
+                      <span className="text-gray-600 dark:text-gray-400">Duration:</span>
+                      <span className="ml-2 font-medium text-gray-900 dark:text-white">
+                        {Math.ceil((selectedPattern.endDate.getTime() - selectedPattern.startDate.getTime()) / (1000 * 60 * 60 * 24))} days
+                      </span>
+                    </div>
                   </div>
-                </div>
+                )}
               </div>
 
               <div className="h-64">
@@ -287,6 +375,22 @@ const HistoricalPatterns: React.FC<HistoricalPatternsProps> = ({
           )}
         </div>
       </div>
+
+      {/* Seasonality Report */}
+      {activeTab === 'seasonal' && !synthetic && marketData.length > 0 && (
+        <div className="mt-8 pt-6 border-t border-gray-200 dark:border-gray-700">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">Seasonality Report</h3>
+          <SeasonalityReportTable data={marketData} regimes={regimes} />
+        </div>
+      )}
+
+      {/* Cycle Analysis */}
+      {activeTab === 'cyclical' && !synthetic && marketData.length > 0 && (
+        <div className="mt-8 pt-6 border-t border-gray-200 dark:border-gray-700">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">Cycle Analysis</h3>
+          <CycleAnalysis data={marketData} />
+        </div>
+      )}
     </div>
   );
 };
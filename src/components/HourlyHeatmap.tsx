@@ -0,0 +1,250 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { ColorScheme, HourWeekdayCell, ProcessedDayData } from '@/types';
+import { buildHourWeekdayHeatmap, isIntradayInterval, summarizeSessions, TRADING_SESSIONS } from '@/utils/intraday';
+import { TIMEZONE_OPTIONS, getTimeZoneLabel } from '@/utils/timezone';
+import { Clock, Globe, Info } from 'lucide-react';
+import SyntheticWatermark from './SyntheticWatermark';
+
+interface HourlyHeatmapProps {
+  data: ProcessedDayData[];
+  interval: string;
+  timeZone: string;
+  onTimeZoneChange: (timeZone: string) => void;
+  colorScheme: ColorScheme;
+  providerName?: string;
+  synthetic?: boolean;
+}
+
+type HeatmapMetric = 'return' | 'volatility' | 'volume';
+
+const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+const METRICS: { key: HeatmapMetric; label: string }[] = [
+  { key: 'return', label: 'Avg Return' },
+  { key: 'volatility', label: 'Volatility' },
+  { key: 'volume', label: 'Volume' },
+];
+
+const getMetricValue = (cell: HourWeekdayCell, metric: HeatmapMetric): number => {
+  switch (metric) {
+    case 'return': return cell.avgReturn;
+    case 'volatility': return cell.avgVolatility;
+    case 'volume': return cell.avgVolume;
+  }
+};
+
+const formatMetric = (value: number, metric: HeatmapMetric): string => {
+  if (metric === 'volume') return value.toLocaleString(undefined, { maximumFractionDigits: 0 });
+  return `${metric === 'return' && value > 0 ? '+' : ''}${value.toFixed(3)}%`;
+};
+
+/**
+ * Hourly Heatmap Component
+ *
+ * Hour x weekday grid of average candle return, volatility or volume, with a
+ * per-session summary (Asia, Europe, US) below. Expects data whose calendar
+ * fields are already in `timeZone` (see applyTimeSettings); the selector changes it.
+ * Needs an intraday interval; daily and longer candles have no hour to group by.
+ */
+const HourlyHeatmap: React.FC<HourlyHeatmapProps> = ({
+  data,
+  interval,
+  timeZone,
+  onTimeZoneChange,
+  colorScheme,
+  providerName,
+  synthetic = false
+}) => {
+  const [metric, setMetric] = useState<HeatmapMetric>('return');
+
+  const cells = useMemo(() => buildHourWeekdayHeatmap(data), [data]);
+  const sessions = useMemo(() => summarizeSessions(data), [data]);
+
+  // Scale colors to the observed range so quiet markets still show structure
+  const { min, max, maxAbs } = useMemo(() => {
+    const values = cells.filter(cell => cell.count > 0).map(cell => getMetricValue(cell, metric));
+    if (values.length === 0) return { min: 0, max: 0, maxAbs: 0 };
+    return {
+      min: Math.min(...values),
+      max: Math.max(...values),
+      maxAbs: Math.max(...values.map(Math.abs)),
+    };
+  }, [cells, metric]);
+
+  /**
+   * Get the background color of a heatmap cell
+   * Returns are shaded in the performance colors by sign and size; volatility
+   * and volume use the low/medium/high colors by tercile of the observed range.
+   * @param cell - Heatmap cell
+   * @returns string | undefined - CSS color, undefined for empty cells
+   */
+  const getCellColor = (cell: HourWeekdayCell): string | undefined => {
+    if (cell.count === 0) return undefined;
+    const value = getMetricValue(cell, metric);
+
+    if (metric === 'return') {
+      const base = value >= 0 ? colorScheme.performance.positive : colorScheme.performance.negative;
+      const strength = maxAbs > 0 ? Math.abs(value) / maxAbs : 0;
+      const alpha = Math.round((0.15 + strength * 0.85) * 255).toString(16).padStart(2, '0');
+      return `${base}${alpha}`;
+    }
+
+    const position = max > min ? (value - min) / (max - min) : 0;
+    const scale = metric === 'volatility'
+      ? [colorScheme.volatility.low, colorScheme.volatility.medium, colorScheme.volatility.high]
+      : [colorScheme.liquidity.low, colorScheme.liquidity.medium, colorScheme.liquidity.high];
+    return scale[Math.min(2, Math.floor(position * 3))];
+  };
+
+  if (!isIntradayInterval(interval)) {
+    return (
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6 border border-gray-200 dark:border-gray-700">
+        <div className="flex items-center space-x-2 text-gray-600 dark:text-gray-400">
+          <Info className="h-5 w-5" />
+          <p>Hour-of-day analysis needs an intraday timeframe. Choose an interval from 1m to 12h.</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="relative bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6 border border-gray-200 dark:border-gray-700">
+        {synthetic && <SyntheticWatermark />}
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-6">
+          <div>
+            <h3 className="flex items-center space-x-2 text-lg font-semibold text-gray-900 dark:text-white">
+              <Clock className="h-5 w-5" />
+              <span>Hour × Weekday Seasonality</span>
+            </h3>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              {data.length.toLocaleString()} {interval} candles
+              {providerName && ` • Source: ${providerName}`}
+              {` • Hours in ${getTimeZoneLabel(timeZone)}`}
+            </p>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <div className="flex rounded-lg border border-gray-300 dark:border-gray-600 overflow-hidden" role="group" aria-label="Heatmap metric">
+              {METRICS.map(({ key, label }) => (
+                <button
+                  key={key}
+                  onClick={() => setMetric(key)}
+                  aria-pressed={metric === key}
+                  className={`px-3 py-1.5 text-xs sm:text-sm font-medium transition-colors ${
+                    metric === key
+                      ? 'bg-blue-600 text-white'
+                      : 'bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-600'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            <label className="flex items-center space-x-1 text-xs sm:text-sm text-gray-700 dark:text-gray-300">
+              <Globe className="h-4 w-4" />
+              <select
+                value={timeZone}
+                onChange={(e) => onTimeZoneChange(e.target.value)}
+                aria-label="Timezone"
+                className="p-1.5 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+              >
+                {!TIMEZONE_OPTIONS.some(option => option.value === timeZone) && (
+                  <option value={timeZone}>{timeZone}</option>
+                )}
+                {TIMEZONE_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="w-full border-separate" style={{ borderSpacing: 2 }} role="grid" aria-label="Hour by weekday heatmap">
+            <thead>
+              <tr>
+                <th className="w-10" />
+                {HOURS.map(hour => (
+                  <th key={hour} scope="col" className="text-[10px] font-normal text-gray-500 dark:text-gray-400">
+                    {hour.toString().padStart(2, '0')}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {WEEKDAY_LABELS.map((weekday, dayOfWeek) => (
+                <tr key={weekday}>
+                  <th scope="row" className="pr-2 text-left text-xs font-medium text-gray-600 dark:text-gray-300">
+                    {weekday}
+                  </th>
+                  {HOURS.map(hour => {
+                    const cell = cells[dayOfWeek * 24 + hour];
+                    const label = cell.count > 0
+                      ? `${weekday} ${hour.toString().padStart(2, '0')}:00: ${formatMetric(getMetricValue(cell, metric), metric)} (${cell.count} candles)`
+                      : `${weekday} ${hour.toString().padStart(2, '0')}:00: no data`;
+                    return (
+                      <td
+                        key={hour}
+                        role="gridcell"
+                        title={label}
+                        aria-label={label}
+                        className={`h-6 min-w-[1.25rem] rounded-sm ${cell.count === 0 ? 'bg-gray-100 dark:bg-gray-900' : ''}`}
+                        style={{ backgroundColor: getCellColor(cell) }}
+                      />
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Session summary */}
+      <div className="relative bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6 border border-gray-200 dark:border-gray-700">
+        {synthetic && <SyntheticWatermark />}
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">Trading Sessions (UTC)</h3>
+        <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+          {TRADING_SESSIONS.map((session, index) => {
+            const stats = sessions[index];
+            return (
+              <div key={session.id} className="p-3 rounded-lg bg-gray-50 dark:bg-gray-700">
+                <div className="flex items-baseline justify-between">
+                  <span className="font-medium text-gray-900 dark:text-white">{session.label}</span>
+                  <span className="text-xs text-gray-500 dark:text-gray-400">
+                    {session.startHourUtc.toString().padStart(2, '0')}:00–{(session.endHourUtc % 24).toString().padStart(2, '0')}:00
+                  </span>
+                </div>
+                <dl className="mt-2 space-y-1 text-xs text-gray-600 dark:text-gray-300">
+                  <div className="flex justify-between">
+                    <dt>Avg return</dt>
+                    <dd className={stats.avgReturn >= 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}>
+                      {formatMetric(stats.avgReturn, 'return')}
+                    </dd>
+                  </div>
+                  <div className="flex justify-between">
+                    <dt>Volatility</dt>
+                    <dd>{formatMetric(stats.avgVolatility, 'volatility')}</dd>
+                  </div>
+                  <div className="flex justify-between">
+                    <dt>Avg volume</dt>
+                    <dd>{formatMetric(stats.avgVolume, 'volume')}</dd>
+                  </div>
+                  <div className="flex justify-between">
+                    <dt>Candles</dt>
+                    <dd>{stats.count.toLocaleString()}</dd>
+                  </div>
+                </dl>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default HourlyHeatmap;
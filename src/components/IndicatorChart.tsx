@@ -0,0 +1,225 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { ColorScheme, IndicatorSettings, ProcessedDayData } from '@/types';
+import { LineChart, Line, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { format } from 'date-fns';
+import { getIndicatorLabels } from '@/utils/indicators';
+
+interface IndicatorChartProps {
+  data: ProcessedDayData[];
+  colorScheme: ColorScheme;
+  settings: IndicatorSettings;
+  onSettingsChange?: (settings: IndicatorSettings) => void;
+  syncId?: string;
+}
+
+type Overlay = 'sma' | 'ema' | 'bollinger' | 'vwap';
+type Oscillator = 'rsi' | 'macd' | 'stochastic' | 'atr' | 'obv';
+
+const OSCILLATORS: Oscillator[] = ['rsi', 'macd', 'stochastic', 'atr', 'obv'];
+
+const tooltipStyle = { backgroundColor: '#1f2937', border: 'none', borderRadius: '8px', color: '#f9fafb' };
+
+// Period inputs: label, value and how a new value is written back
+const getPeriodFields = (settings: IndicatorSettings) => [
+  { label: 'EMA', value: settings.emaPeriod, set: (v: number) => ({ ...settings, emaPeriod: v }) },
+  { label: 'MACD fast', value: settings.macd.fast, set: (v: number) => ({ ...settings, macd: { ...settings.macd, fast: v } }) },
+  { label: 'MACD slow', value: settings.macd.slow, set: (v: number) => ({ ...settings, macd: { ...settings.macd, slow: v } }) },
+  { label: 'MACD signal', value: settings.macd.signal, set: (v: number) => ({ ...settings, macd: { ...settings.macd, signal: v } }) },
+  { label: 'RSI', value: settings.rsiPeriod, set: (v: number) => ({ ...settings, rsiPeriod: v }) },
+  { label: 'Bollinger', value: settings.bollinger.period, set: (v: number) => ({ ...settings, bollinger: { ...settings.bollinger, period: v } }) },
+  { label: 'ATR', value: settings.atrPeriod, set: (v: number) => ({ ...settings, atrPeriod: v }) },
+  { label: 'Stochastic', value: settings.stochastic.period, set: (v: number) => ({ ...settings, stochastic: { ...settings.stochastic, period: v } }) },
+  { label: 'Stochastic %D', value: settings.stochastic.smoothing, set: (v: number) => ({ ...settings, stochastic: { ...settings.stochastic, smoothing: v } }) },
+  { label: 'VWAP', value: settings.vwapPeriod, set: (v: number) => ({ ...settings, vwapPeriod: v }) },
+];
+
+/**
+ * Indicator Chart
+ *
+ * Close price with SMA, EMA, Bollinger Band and VWAP overlays, and one
+ * oscillator panel (RSI, MACD, Stochastic, ATR or OBV) below it. Indicators
+ * come from the candles themselves (see calculateTechnicalIndicators); the
+ * period inputs ask the parent to recalculate them.
+ */
+const IndicatorChart: React.FC<IndicatorChartProps> = ({ data, colorScheme, settings, onSettingsChange, syncId }) => {
+  const [overlays, setOverlays] = useState<Overlay[]>(['sma', 'bollinger']);
+  const [oscillator, setOscillator] = useState<Oscillator>('rsi');
+  const labels = getIndicatorLabels(settings);
+
+  const chartData = useMemo(() => data.map(d => ({
+    date: format(d.date, 'MMM dd'),
+    close: d.close,
+    sma20: d.sma20,
+    sma50: d.sma50,
+    ema: d.ema,
+    bollingerUpper: d.bollinger?.upper,
+    bollingerMiddle: d.bollinger?.middle,
+    bollingerLower: d.bollinger?.lower,
+    vwap: d.vwap,
+    rsi: d.rsi,
+    macd: d.macd?.macd,
+    macdSignal: d.macd?.signal,
+    macdHistogram: d.macd?.histogram,
+    stochasticK: d.stochastic?.k,
+    stochasticD: d.stochastic?.d,
+    atr: d.atr,
+    obv: d.obv,
+  })), [data]);
+
+  const overlayOptions: { key: Overlay; label: string }[] = [
+    { key: 'sma', label: `${labels.sma20} / ${labels.sma50}` },
+    { key: 'ema', label: labels.ema },
+    { key: 'bollinger', label: labels.bollinger },
+    { key: 'vwap', label: labels.vwap },
+  ];
+
+  const toggleOverlay = (overlay: Overlay) => {
+    setOverlays(prev => prev.includes(overlay) ? prev.filter(o => o !== overlay) : [...prev, overlay]);
+  };
+
+  const renderOscillator = () => {
+    const lines = (() => {
+      switch (oscillator) {
+        case 'rsi':
+          return [{ key: 'rsi', name: labels.rsi, color: colorScheme.volatility.medium }];
+        case 'macd':
+          return [
+            { key: 'macd', name: 'MACD', color: colorScheme.liquidity.high },
+            { key: 'macdSignal', name: 'Signal', color: colorScheme.volatility.medium },
+          ];
+        case 'stochastic':
+          return [
+            { key: 'stochasticK', name: '%K', color: colorScheme.liquidity.high },
+            { key: 'stochasticD', name: '%D', color: colorScheme.volatility.medium },
+          ];
+        case 'atr':
+          return [{ key: 'atr', name: labels.atr, color: colorScheme.volatility.high }];
+        case 'obv':
+          return [{ key: 'obv', name: labels.obv, color: colorScheme.liquidity.medium }];
+      }
+    })();
+    const bounded = oscillator === 'rsi' || oscillator === 'stochastic';
+
+    return (
+      <ResponsiveContainer width="100%" height={180}>
+        <LineChart data={chartData} syncId={syncId} syncMethod="value" margin={{ top: 5, right: 10, left: 10, bottom: 5 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+          <XAxis dataKey="date" stroke="#6b7280" fontSize={12} />
+          <YAxis stroke="#6b7280" fontSize={12} domain={bounded ? [0, 100] : ['auto', 'auto']} />
+          <Tooltip contentStyle={tooltipStyle} formatter={(value: number, name: string) => [value.toLocaleString(undefined, { maximumFractionDigits: 2 }), name]} />
+          {lines.map(({ key, name, color }) => (
+            <Line key={key} type="monotone" dataKey={key} name={name} stroke={color} dot={false} strokeWidth={2} connectNulls={false} />
+          ))}
+        </LineChart>
+      </ResponsiveContainer>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-2">
+        {overlayOptions.map(({ key, label }) => (
+          <button
+            key={key}
+            onClick={() => toggleOverlay(key)}
+            aria-pressed={overlays.includes(key)}
+            className={`px-2 py-1 rounded-md text-xs font-medium transition-colors ${
+              overlays.includes(key)
+                ? 'bg-blue-600 text-white'
+                : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      <ResponsiveContainer width="100%" height={320}>
+        <LineChart data={chartData} syncId={syncId} syncMethod="value" margin={{ top: 5, right: 10, left: 10, bottom: 5 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+          <XAxis dataKey="date" stroke="#6b7280" fontSize={12} />
+          <YAxis stroke="#6b7280" fontSize={12} domain={['auto', 'auto']} />
+          <Tooltip contentStyle={tooltipStyle} formatter={(value: number, name: string) => [value.toLocaleString(undefined, { maximumFractionDigits: 2 }), name]} />
+          <Legend />
+          <Line type="monotone" dataKey="close" name="Close" stroke={colorScheme.performance.neutral} dot={false} strokeWidth={2} />
+          {overlays.includes('sma') && <Line type="monotone" dataKey="sma20" name={labels.sma20} stroke={colorScheme.liquidity.high} dot={false} />}
+          {overlays.includes('sma') && <Line type="monotone" dataKey="sma50" name={labels.sma50} stroke={colorScheme.liquidity.low} dot={false} />}
+          {overlays.includes('ema') && <Line type="monotone" dataKey="ema" name={labels.ema} stroke={colorScheme.volatility.medium} dot={false} />}
+          {overlays.includes('bollinger') && <Line type="monotone" dataKey="bollingerUpper" name="Upper band" stroke={colorScheme.volatility.high} strokeDasharray="4 4" dot={false} />}
+          {overlays.includes('bollinger') && <Line type="monotone" dataKey="bollingerLower" name="Lower band" stroke={colorScheme.volatility.low} strokeDasharray="4 4" dot={false} />}
+          {overlays.includes('vwap') && <Line type="monotone" dataKey="vwap" name={labels.vwap} stroke={colorScheme.performance.positive} dot={false} />}
+        </LineChart>
+      </ResponsiveContainer>
+
+      <div className="flex flex-wrap items-center gap-2">
+        {OSCILLATORS.map(key => (
+          <button
+            key={key}
+            onClick={() => setOscillator(key)}
+            aria-pressed={oscillator === key}
+            className={`px-2 py-1 rounded-md text-xs font-medium transition-colors ${
+              oscillator === key
+                ? 'bg-blue-600 text-white'
+                : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
+            }`}
+          >
+            {labels[key]}
+          </button>
+        ))}
+      </div>
+      {renderOscillator()}
+      {oscillator === 'macd' && (
+        <ResponsiveContainer width="100%" height={100}>
+          <BarChart data={chartData} syncId={syncId} syncMethod="value" margin={{ top: 5, right: 10, left: 10, bottom: 5 }}>
+            <XAxis dataKey="date" hide />
+            <YAxis stroke="#6b7280" fontSize={12} />
+            <Tooltip contentStyle={tooltipStyle} formatter={(value: number) => [value.toFixed(2), 'Histogram']} />
+            <Bar dataKey="macdHistogram" fill={colorScheme.liquidity.medium} />
+          </BarChart>
+        </ResponsiveContainer>
+      )}
+
+      {onSettingsChange && (
+        <details className="text-xs text-gray-600 dark:text-gray-400">
+          <summary className="cursor-pointer font-medium">Indicator periods</summary>
+          <div className="mt-2 grid grid-cols-2 sm:grid-cols-5 gap-2">
+            {getPeriodFields(settings).map(({ label, value, set }) => (
+              <label key={label} className="flex flex-col">
+                <span>{label}</span>
+                <input
+                  type="number"
+                  min={1}
+                  step={1}
+                  value={value}
+                  onChange={(e) => {
+                    const period = Number(e.target.value);
+                    if (Number.isInteger(period) && period >= 1) onSettingsChange(set(period));
+                  }}
+                  className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                />
+              </label>
+            ))}
+            <label className="flex flex-col">
+              <span>Bollinger σ</span>
+              <input
+                type="number"
+                min={0.5}
+                step={0.5}
+                value={settings.bollinger.stdDev}
+                onChange={(e) => {
+                  const stdDev = Number(e.target.value);
+                  if (stdDev > 0) onSettingsChange({ ...settings, bollinger: { ...settings.bollinger, stdDev } });
+                }}
+                className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+              />
+            </label>
+          </div>
+        </details>
+      )}
+    </div>
+  );
+};
+
+export default IndicatorChart;
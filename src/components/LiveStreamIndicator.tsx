@@ -0,0 +1,58 @@
+'use client';
+
+import React from 'react';
+import { StreamConnectionState, StreamHealth } from '@/types';
+import { Radio, Loader2, RefreshCw, Clock, WifiOff } from 'lucide-react';
+
+interface LiveStreamIndicatorProps {
+  enabled: boolean;
+  health: StreamHealth | null;
+  onToggle: () => void;
+}
+
+const STATE_STYLES: Record<StreamConnectionState, { label: string; className: string; icon: React.ElementType }> = {
+  idle: { label: 'Live', className: 'bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300', icon: Radio },
+  connecting: { label: 'Connecting', className: 'bg-blue-100 dark:bg-blue-900/40 text-blue-800 dark:text-blue-200', icon: Loader2 },
+  open: { label: 'Live', className: 'bg-green-100 dark:bg-green-900/40 text-green-800 dark:text-green-200', icon: Radio },
+  stale: { label: 'Stale', className: 'bg-yellow-100 dark:bg-yellow-900/40 text-yellow-800 dark:text-yellow-200', icon: Clock },
+  reconnecting: { label: 'Reconnecting', className: 'bg-orange-100 dark:bg-orange-900/40 text-orange-800 dark:text-orange-200', icon: RefreshCw },
+  failed: { label: 'Offline', className: 'bg-red-100 dark:bg-red-900/40 text-red-800 dark:text-red-200', icon: WifiOff },
+};
+
+/**
+ * Live Stream Indicator
+ *
+ * Header toggle for real-time updates that shows the health of the stream
+ * connection: connecting, live, stale, reconnecting with the attempt count,
+ * or offline once retries are exhausted. Hovering shows the stream count and
+ * the time of the last message.
+ */
+const LiveStreamIndicator: React.FC<LiveStreamIndicatorProps> = ({ enabled, health, onToggle }) => {
+  const state = enabled ? health?.state ?? 'connecting' : 'idle';
+  const { className, icon: Icon } = STATE_STYLES[state];
+  const label = state === 'reconnecting' && health
+    ? `Reconnecting (${health.reconnectAttempts})`
+    : STATE_STYLES[state].label;
+  const title = enabled && health
+    ? [
+        `${health.streams} stream${health.streams === 1 ? '' : 's'}`,
+        health.lastMessageAt && `Last message ${new Date(health.lastMessageAt).toLocaleTimeString()}`,
+        'Click to stop live updates',
+      ].filter(Boolean).join('\n')
+    : 'Click to start live updates';
+
+  return (
+    <button
+      onClick={onToggle}
+      aria-pressed={enabled}
+      aria-label={`Live updates: ${enabled ? label : 'off'}`}
+      title={title}
+      className={`flex items-center space-x-1 px-2 py-1 rounded-full text-xs font-medium transition-opacity hover:opacity-80 ${className}`}
+    >
+      <Icon className={`h-3 w-3 ${state === 'connecting' ? 'animate-spin' : ''}`} />
+      <span>{label}</span>
+    </button>
+  );
+};
+
+export default LiveStreamIndicator;
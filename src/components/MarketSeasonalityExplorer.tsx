@@ -1,6 +1,6 @@
 'use client';
 
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import CalendarComponent from './CalendarComponent';
 import DataDashboard from './DataDashboard';
@@ -11,18 +11,53 @@ import AnalyticsDashboard from './AnalyticsDashboard';
 import AlertSystem from './AlertSystem';
 import DataComparison from './DataComparison';
 import HistoricalPatterns from './HistoricalPatterns';
+import DataSourceBadge from './DataSourceBadge';
+import LiveStreamIndicator from './LiveStreamIndicator';
+import HourlyHeatmap from './HourlyHeatmap';
+import SeasonalityHeatmap from './SeasonalityHeatmap';
+import OrderBookDepthChart from './OrderBookDepthChart';
+import CorrelationAnalysis from './CorrelationAnalysis';
 import binanceApi from '@/services/binanceApi';
+import providerRegistry from '@/services/providerRegistry';
+import { MarketDataProvider } from '@/services/marketDataProvider';
+import { LocalOrderBook } from '@/services/orderBook';
+import { describeMarketDataError, MarketDataError } from '@/services/apiErrors';
 import { generateMockData } from '@/utils/dataScenarios';
-import { ProcessedDayData, Timeframe, ColorScheme, DateRange, FilterOptions, Alert, AlertSettings, DataComparison as DataComparisonType, HistoricalPattern, PatternDetection, RealTimeConfig, WebSocketMessage } from '@/types';
-import { Calendar, TrendingUp, BarChart3, Settings, Download, Bell, Target } from 'lucide-react';
+import { aggregateToDays, getHistoryDays, INTRADAY_INTERVALS, isIntradayInterval } from '@/utils/intraday';
+import { DEFAULT_ANALYSIS_TIME, applyTimeSettings, getTimeSettingsLabel, toTradingDates } from '@/utils/timezone';
+import { calculateLiquidityMetrics } from '@/utils/orderBookMetrics';
+import { applyLiquidityMeasure } from '@/utils/liquidity';
+import { DEFAULT_INDICATOR_SETTINGS } from '@/utils/indicators';
+import { DEFAULT_VOLATILITY_SETTINGS, applyVolatilityEstimator, describeVolatilitySettings, getLatestVolatility, getVolatilityThresholds } from '@/utils/volatility';
+import { describeCacheStatus, describeRequestWeight, describeRetryNotice, getDataSourceStatus, SYNTHETIC_SOURCE_NAME } from '@/utils/dataSource';
+import { CALENDAR_DRAWDOWN_COUNT, findDrawdowns, rankDrawdowns } from '@/utils/drawdown';
+import { detectRegimes } from '@/utils/regimes';
+import { AnalysisTimeSettings, ProcessedDayData, Timeframe, HistoryRange, KlineFetchProgress, CandleCacheStatus, DataSourceStatus, RequestWeightStatus, RetryNotice, ColorScheme, DateRange, FilterOptions, Alert, AlertSettings, DataComparison as DataComparisonType, HistoricalPattern, IndicatorSettings, LiquidityMeasure, OrderBookState, PatternDetection, RealTimeConfig, StreamHealth, VolatilitySettings, WebSocketMessage } from '@/types';
+import { Calendar, TrendingUp, BarChart3, Settings, Download, Bell, Target, Database, Trash2, FlaskConical, Clock, Layers, Grid3x3, Network } from 'lucide-react';
 
-// Available timeframes for data analysis
+const dailyTimeframe: Timeframe = { label: 'Daily', value: 'daily', interval: '1d' };
+
+// Available timeframes for data analysis, from 1-minute candles up to monthly
 const timeframes: Timeframe[] = [
-  { label: 'Daily', value: 'daily', interval: '1d' },
+  ...INTRADAY_INTERVALS.map(interval => ({ label: interval, value: interval, interval })),
+  dailyTimeframe,
   { label: 'Weekly', value: 'weekly', interval: '1w' },
   { label: 'Monthly', value: 'monthly', interval: '1M' },
 ];
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Interval of the klines connectStream delivers for alerts
+const ALERT_STREAM_INTERVAL = '1m';
+
+// How far back market data is loaded; longer ranges are paginated by the service
+const historyRanges: HistoryRange[] = [
+  { label: '1Y', years: 1 },
+  { label: '2Y', years: 2 },
+  { label: '5Y', years: 5 },
+  { label: '8Y', years: 8 },
+];
+
 // Predefined color schemes for different accessibility needs and visual preferences
 const colorSchemes: ColorScheme[] = [
   {
@@ -67,6 +102,13 @@ const colorSchemes: ColorScheme[] = [
   },
 ];
 
+const emptyPatterns: PatternDetection = {
+  seasonalPatterns: [],
+  cyclicalPatterns: [],
+  anomalies: [],
+  trends: []
+};
+
 /**
  * Main Market Seasonality Explorer Component
  * 
@@ -74,25 +116,43 @@ const colorSchemes: ColorScheme[] = [
  * It manages all state, handles data fetching, and coordinates between different
  * views and components.
  */
+type ExplorerView = 'calendar' | 'hourly' | 'heatmap' | 'analytics' | 'alerts' | 'comparison' | 'correlation' | 'patterns' | 'depth';
+
 const MarketSeasonalityExplorer: React.FC = () => {
   // Core data state
   const [marketData, setMarketData] = useState<ProcessedDayData[]>([]);
+  const [settledData, setSettledData] = useState<ProcessedDayData[]>([]);  // As of the last load or candle close; patterns run on this
   const [selectedDate, setSelectedDate] = useState<Date | null>(null);
   const [dateRange, setDateRange] = useState<DateRange | null>(null);
   
   // UI configuration state
-  const [currentTimeframe, setCurrentTimeframe] = useState<Timeframe>(timeframes[0]);
+  const [currentTimeframe, setCurrentTimeframe] = useState<Timeframe>(dailyTimeframe);
+  const [historyRange, setHistoryRange] = useState<HistoryRange>(historyRanges[0]);
   const [currentColorScheme, setCurrentColorScheme] = useState<ColorScheme>(colorSchemes[0]);
-  const [currentView, setCurrentView] = useState<'calendar' | 'analytics' | 'alerts' | 'comparison' | 'patterns'>('calendar');
+  const [currentView, setCurrentView] = useState<ExplorerView>('calendar');
+  const [timeSettings, setTimeSettings] = useState<AnalysisTimeSettings>(DEFAULT_ANALYSIS_TIME);  // Timezone and day start all date buckets use
   
   // Loading and error states
   const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<{ title: string; message: string } | null>(null);
+  const [loadProgress, setLoadProgress] = useState<KlineFetchProgress | null>(null);
+  const [cacheStatus, setCacheStatus] = useState<CandleCacheStatus | null>(null);
+  const [dataSource, setDataSource] = useState<DataSourceStatus | null>(null);
+  const [requestWeight, setRequestWeight] = useState<RequestWeightStatus | null>(null);
+  const [retryNotice, setRetryNotice] = useState<RetryNotice | null>(null);
+  const [syntheticMode, setSyntheticMode] = useState(false);  // Generated data is strictly opt-in
+  const loadAbortRef = useRef<AbortController | null>(null);
   
   // Data source configuration
+  const [provider, setProvider] = useState<MarketDataProvider>(() => providerRegistry.getActive());
   const [selectedSymbol, setSelectedSymbol] = useState('BTCUSDT');
   const [symbols, setSymbols] = useState<string[]>([]);
   const [selectedMetrics, setSelectedMetrics] = useState<string[]>(['volatility', 'liquidity', 'performance']);
+  const [liquidityMeasure, setLiquidityMeasure] = useState<LiquidityMeasure>('volume');
+  const [volatilitySettings, setVolatilitySettings] = useState<VolatilitySettings>(DEFAULT_VOLATILITY_SETTINGS);
+  const [indicatorSettings, setIndicatorSettings] = useState<IndicatorSettings>(DEFAULT_INDICATOR_SETTINGS);
+  // Read by loads without making them depend on the periods; a change recalculates in place
+  const indicatorSettingsRef = useRef(indicatorSettings);
   
   // UI modal states
   const [showDashboard, setShowDashboard] = useState(false);
@@ -112,14 +172,14 @@ const MarketSeasonalityExplorer: React.FC = () => {
   // Data comparison state
   const [comparisons, setComparisons] = useState<DataComparisonType[]>([]);
   const [comparisonData, setComparisonData] = useState<Map<string, ProcessedDayData[]>>(new Map());
+
+  // Correlation state: candles of the other symbols in the correlation view, by symbol
+  const [correlationData, setCorrelationData] = useState<Map<string, ProcessedDayData[]>>(new Map());
+  const [correlationLoading, setCorrelationLoading] = useState<string[]>([]);
+  const correlationGenerationRef = useRef(0);  // Bumped when loaded candles go stale, so older fetches are dropped
   
   // Pattern detection state
-  const [patterns, setPatterns] = useState<PatternDetection>({
-    seasonalPatterns: [],
-    cyclicalPatterns: [],
-    anomalies: [],
-    trends: []
-  });
+  const [patterns, setPatterns] = useState<PatternDetection>(emptyPatterns);
   
   // Real-time data configuration
   const [realTimeConfig, setRealTimeConfig] = useState<RealTimeConfig>({
@@ -129,7 +189,8 @@ const MarketSeasonalityExplorer: React.FC = () => {
     autoReconnect: true,
     maxRetries: 5
   });
-  const [isRealTimeConnected, setIsRealTimeConnected] = useState(false);
+  const [streamHealth, setStreamHealth] = useState<StreamHealth | null>(null);
+  const [orderBook, setOrderBook] = useState<OrderBookState | null>(null);
 
   // Initialize default date range (last 365 days)
   useEffect(() => {
@@ -141,12 +202,16 @@ const MarketSeasonalityExplorer: React.FC = () => {
     });
   }, []);
 
-  // Load available trading symbols from Binance API
+  // Load available trading symbols from the active provider
   useEffect(() => {
     const loadSymbols = async () => {
       try {
-        const symbolList = await binanceApi.getSymbols();
+        const symbolList = await provider.getSymbols();
         setSymbols(symbolList);
+        // Keep the current symbol when the new provider lists it
+        if (symbolList.length > 0) {
+          setSelectedSymbol(current => symbolList.includes(current) ? current : symbolList[0]);
+        }
       } catch (err) {
         console.error('Failed to load symbols:', err);
         // Fallback to default symbols if API fails
@@ -154,59 +219,170 @@ const MarketSeasonalityExplorer: React.FC = () => {
       }
     };
     loadSymbols();
-  }, []);
+  }, [provider]);
+
+  // Follow the request weight the active provider reports, when it reports one
+  useEffect(() => {
+    setRequestWeight(provider.getRequestWeight?.() ?? null);
+    return provider.onRequestWeightChange?.(setRequestWeight);
+  }, [provider]);
+
+  // Show requests the provider is about to retry while data loads
+  useEffect(() => provider.onRetry?.(setRetryNotice), [provider]);
+
+  // Follow the stream connection health for the header indicator
+  useEffect(() => {
+    setStreamHealth(provider.getStreamHealth?.() ?? null);
+    return provider.onStreamHealthChange?.(setStreamHealth);
+  }, [provider]);
 
   /**
-   * Load market data from Binance API
-   * Fetches historical kline data and processes it with technical indicators
+   * Load market data from the active provider
+   * Fetches historical kline data and processes it with technical indicators.
+   * Any load still in flight is cancelled before a new one starts. Failures are
+   * reported by kind (rate limited, invalid symbol, network, server, parse);
+   * generated data is only used when synthetic mode is on.
    */
   const loadMarketData = useCallback(async () => {
+    const showData = (data: ProcessedDayData[]) => {
+      setMarketData(data);
+      setSettledData(data);
+    };
+
+    loadAbortRef.current?.abort();
+    const controller = new AbortController();
+    loadAbortRef.current = controller;
+
     setLoading(true);
     setError(null);
+    setLoadProgress(null);
+    setRetryNotice(null);
     
     try {
+      // Fine intraday intervals load a shorter window than the selected history range
+      const days = getHistoryDays(currentTimeframe.interval, historyRange.years);
       const endTime = Date.now();
-      const startTime = endTime - (365 * 24 * 60 * 60 * 1000); // Last 365 days
+      const startTime = endTime - days * DAY_MS;
+
+      if (syntheticMode) {
+        setCacheStatus(null);
+        showData(generateMockData(days, new Date(startTime)));
+        setDataSource({ state: 'synthetic', detail: `${days} generated days`, updatedAt: new Date() });
+        return;
+      }
       
-      // Fetch raw kline data from Binance API
-      const klineData = await binanceApi.getKlineData(
+      // Fetch raw kline data, serving cached candles and downloading only what is missing
+      const { klines: klineData, cache } = await provider.getCachedKlineHistory(
         selectedSymbol,
         currentTimeframe.interval,
         startTime,
-        endTime
+        endTime,
+        { signal: controller.signal, onProgress: setLoadProgress }
       );
+      setCacheStatus(cache);
       
       if (klineData.length === 0) {
-        // If no data from API, use mock data for testing
-        const endDate = new Date(); // End date is today
-        const startDate = new Date(endDate.getTime() - 365 * 24 * 60 * 60 * 1000); // Start from 1 year ago
-        const mockData = generateMockData(365, startDate);
-        setMarketData(mockData);
+        const message = `No market data returned for ${selectedSymbol} from ${provider.name}`;
+        showData([]);
+        setError({ title: 'No data', message });
+        setDataSource({ state: 'error', detail: message, updatedAt: new Date() });
         return;
       }
       
       // Process raw data and calculate technical indicators
       const processedData = binanceApi.processKlineData(klineData);
-      const dataWithIndicators = binanceApi.calculateTechnicalIndicators(processedData);
+      const dataWithIndicators = binanceApi.calculateTechnicalIndicators(processedData, indicatorSettingsRef.current);
       
-      setMarketData(dataWithIndicators);
+      showData(dataWithIndicators);
+      setDataSource(getDataSourceStatus(cache));
     } catch (err) {
-      // If API fails, use mock data for testing
-      const endDate = new Date(); // End date is today
-      const startDate = new Date(endDate.getTime() - 365 * 24 * 60 * 60 * 1000); // Start from 1 year ago
-      const mockData = generateMockData(365, startDate);
-      setMarketData(mockData);
-      setError(null); // Don't show error since we're using mock data
+      // A newer load superseded this one; leave state to it
+      if (controller.signal.aborted) return;
+
+      const described = describeMarketDataError(err, provider.name);
+      setCacheStatus(null);
+      showData([]);
+      setError(described);
+      setDataSource({
+        state: 'error',
+        detail: err instanceof Error ? err.message : String(err),
+        errorKind: err instanceof MarketDataError ? err.kind : undefined,
+        updatedAt: new Date(),
+      });
     } finally {
-      setLoading(false);
+      if (loadAbortRef.current === controller) {
+        setLoading(false);
+        setLoadProgress(null);
+        setRetryNotice(null);
+      }
     }
-  }, [selectedSymbol, currentTimeframe]);
+  }, [provider, selectedSymbol, currentTimeframe, historyRange, syntheticMode]);
+
+  const isSynthetic = dataSource?.state === 'synthetic';
+  const sourceName = isSynthetic ? SYNTHETIC_SOURCE_NAME : provider.name;
+
+  // Every candle is bucketed by the analysis timezone and trading day start.
+  // The day-based views (calendar, heatmap, analytics, comparison, patterns) get one
+  // candle per trading day, dated at local midnight of that day.
+  const isIntraday = isIntradayInterval(currentTimeframe.interval);
+  const zonedData = useMemo(
+    () => applyTimeSettings(marketData, timeSettings),
+    [marketData, timeSettings]
+  );
+  // Day candles built from intraday data get their own indicators
+  const tradingDays = useMemo(
+    () => (isIntraday
+      ? binanceApi.calculateTechnicalIndicators(aggregateToDays(zonedData, timeSettings), indicatorSettings)
+      : toTradingDates(zonedData, timeSettings)),
+    [zonedData, isIntraday, timeSettings, indicatorSettings]
+  );
+  // Liquidity is scored with the chosen definition; the rank compares against
+  // the comparison symbols. Volatility is re-estimated on the day candles.
+  const dayInterval = isIntraday ? dailyTimeframe.interval : currentTimeframe.interval;
+  const dayData = useMemo(
+    () => applyVolatilityEstimator(
+      applyLiquidityMeasure(tradingDays, liquidityMeasure, Array.from(comparisonData.values())),
+      volatilitySettings,
+      dayInterval
+    ),
+    [tradingDays, liquidityMeasure, comparisonData, volatilitySettings, dayInterval]
+  );
+  const volatilityThresholds = useMemo(
+    () => getVolatilityThresholds(volatilitySettings, dayInterval),
+    [volatilitySettings, dayInterval]
+  );
+  // Regimes are detected on the full history so a selected range keeps its trailing context
+  const regimes = useMemo(() => detectRegimes(dayData), [dayData]);
+  // The deepest drawdowns of the selected range (or the whole history) are shaded on the calendar
+  const calendarDrawdowns = useMemo(() => {
+    const days = dateRange ? dayData.filter(d => d.date >= dateRange.start && d.date <= dateRange.end) : dayData;
+    return rankDrawdowns(findDrawdowns(days), CALENDAR_DRAWDOWN_COUNT);
+  }, [dayData, dateRange]);
+  const settledDayData = useMemo(() => {
+    const zoned = applyTimeSettings(settledData, timeSettings);
+    return isIntraday ? aggregateToDays(zoned, timeSettings) : toTradingDates(zoned, timeSettings);
+  }, [settledData, isIntraday, timeSettings]);
+  const historyCapDays = getHistoryDays(currentTimeframe.interval, historyRange.years);
+  const historyCapped = historyCapDays < historyRange.years * 365;
+
+  // Recalculate indicators in place when their periods change
+  useEffect(() => {
+    if (indicatorSettingsRef.current === indicatorSettings) return;
+    indicatorSettingsRef.current = indicatorSettings;
+    setMarketData(prev => binanceApi.calculateTechnicalIndicators(prev, indicatorSettings));
+    setSettledData(prev => binanceApi.calculateTechnicalIndicators(prev, indicatorSettings));
+  }, [indicatorSettings]);
 
-  // Reload data when symbol or timeframe changes
+  // Reload data when symbol, timeframe or history range changes
   useEffect(() => {
     loadMarketData();
   }, [loadMarketData]);
 
+  // Cancel any pending history download on unmount
+  useEffect(() => {
+    return () => loadAbortRef.current?.abort();
+  }, []);
+
   // Debug logging for market data
   useEffect(() => {
     if (marketData.length > 0) {
@@ -262,22 +438,41 @@ const MarketSeasonalityExplorer: React.FC = () => {
     }
   }, [alertSettings.browserNotifications, alertSettings.soundAlerts]);
 
+  // Read by the stream handler, which must keep its identity while candles
+  // stream in: a new handler would resubscribe the stream on every tick
+  const streamAlertContextRef = useRef({ marketData, volatilitySettings, selectedSymbol, interval: currentTimeframe.interval });
+  useEffect(() => {
+    streamAlertContextRef.current = { marketData, volatilitySettings, selectedSymbol, interval: currentTimeframe.interval };
+  }, [marketData, volatilitySettings, selectedSymbol, currentTimeframe.interval]);
+
   /**
    * Handle incoming WebSocket messages for real-time data
    * @param message - WebSocket message containing market data
    */
   const handleWebSocketMessage = useCallback((message: WebSocketMessage) => {
+    // Alerts are paused while the screen shows generated data
+    if (isSynthetic) return;
+    // Alerts are evaluated on candles; other stream types feed their own views
+    if (message.type !== 'kline') return;
+
     // Check if any alerts should be triggered based on real-time data
     if (alerts.length > 0) {
+      const context = streamAlertContextRef.current;
       alerts.forEach(alert => {
         if (!alert.isActive) return;
         
         let currentValue = 0;
         switch (alert.type) {
           case 'volatility':
-            // Calculate volatility from OHLC data
-            const { open, high, low, close } = message.data as { open: number; high: number; low: number; close: number };
-            currentValue = ((high - low) / open) * 100;
+            // The selected symbol's history is kept current by its own-interval stream; other
+            // symbols only have this stream's 1m candle, estimated in its own units
+            currentValue = (message.symbol === context.selectedSymbol
+              ? getLatestVolatility(context.marketData, context.volatilitySettings, context.interval)
+              : getLatestVolatility(
+                [message.data as { open: number; high: number; low: number; close: number }],
+                context.volatilitySettings,
+                ALERT_STREAM_INTERVAL
+              )) ?? 0;
             break;
           case 'performance':
             // Calculate performance as percentage change
@@ -311,34 +506,81 @@ const MarketSeasonalityExplorer: React.FC = () => {
         }
       });
     }
-  }, [alerts, triggerAlert]);
+  }, [alerts, triggerAlert, isSynthetic]);
+
+  // Pass update interval and reconnect settings to the provider's streams
+  useEffect(() => {
+    provider.setStreamConfig(realTimeConfig);
+  }, [provider, realTimeConfig]);
 
-  // Manage WebSocket connection for real-time data
+  // Manage WebSocket connection for real-time data; streamed candles must not resubscribe it
+  const hasMarketData = marketData.length > 0;
   useEffect(() => {
-    if (realTimeConfig.enabled && marketData.length > 0) {
-      binanceApi.connectWebSocket(realTimeConfig.symbols, handleWebSocketMessage);
-      setIsRealTimeConnected(true);
+    if (realTimeConfig.enabled && hasMarketData) {
+      provider.connectStream(realTimeConfig.symbols, handleWebSocketMessage);
     } else {
-      binanceApi.disconnectWebSocket();
-      setIsRealTimeConnected(false);
+      provider.disconnectStream();
     }
 
     return () => {
-      binanceApi.disconnectWebSocket();
+      provider.disconnectStream();
     };
-  }, [realTimeConfig.enabled, realTimeConfig.symbols, marketData.length, handleWebSocketMessage]);
+  }, [provider, realTimeConfig.enabled, realTimeConfig.symbols, hasMarketData, handleWebSocketMessage]);
 
-  // Detect patterns in market data when data changes
+  // Merge the selected symbol's streamed candles into the dataset: the forming
+  // candle updates in place and closed candles are kept for pattern detection
+  const canStreamCandles = realTimeConfig.enabled && !isSynthetic && !loading && marketData.length > 0 && !!provider.subscribeStream;
   useEffect(() => {
-    if (marketData.length > 0) {
-      const detectedPatterns = binanceApi.detectAllPatterns(marketData);
+    if (!canStreamCandles || !provider.subscribeStream) return;
+    return provider.subscribeStream(
+      { symbol: selectedSymbol, type: 'kline', interval: currentTimeframe.interval },
+      message => {
+        if (message.symbol !== selectedSymbol) return;
+        setMarketData(prev => binanceApi.mergeStreamedCandle(prev, message, indicatorSettings));
+        if (message.data.closed) {
+          setSettledData(prev => binanceApi.mergeStreamedCandle(prev, message, indicatorSettings));
+        }
+      }
+    );
+  }, [provider, canStreamCandles, selectedSymbol, currentTimeframe.interval, indicatorSettings]);
+
+  // Keep a local order book for the selected symbol while live updates are on
+  const canSyncOrderBook = realTimeConfig.enabled && !isSynthetic && !!provider.subscribeStream;
+  useEffect(() => {
+    if (!canSyncOrderBook) return;
+    const book = new LocalOrderBook(provider, selectedSymbol);
+    const stopListening = book.onChange(setOrderBook);
+    book.start();
+    return () => {
+      stopListening();
+      book.stop();
+      setOrderBook(null);
+    };
+  }, [provider, selectedSymbol, canSyncOrderBook]);
+
+  // Spread, depth and imbalance of the synced book; replaces the volume-based
+  // liquidity placeholder for today wherever it is shown
+  const bookLiquidity = useMemo(
+    () => (orderBook?.status === 'synced' ? calculateLiquidityMetrics(orderBook) : null),
+    [orderBook]
+  );
+
+  // Detect patterns when data loads or a candle closes, not on every tick
+  useEffect(() => {
+    // Patterns found in generated data would be meaningless
+    if (isSynthetic) {
+      setPatterns(emptyPatterns);
+      return;
+    }
+    if (settledDayData.length > 0) {
+      const detectedPatterns = binanceApi.detectAllPatterns(settledDayData);
       setPatterns(detectedPatterns);
     }
-  }, [marketData]);
+  }, [settledDayData, isSynthetic]);
 
   // Monitor alerts and trigger them based on current market data
   useEffect(() => {
-    if (alerts.length > 0 && marketData.length > 0) {
+    if (!isSynthetic && alerts.length > 0 && marketData.length > 0) {
       const checkAlerts = () => {
         const latestData = marketData[marketData.length - 1];
         
@@ -351,7 +593,7 @@ const MarketSeasonalityExplorer: React.FC = () => {
           // Get current value based on alert type
           switch (alert.type) {
             case 'volatility':
-              currentValue = latestData.volatility;
+              currentValue = getLatestVolatility(marketData, volatilitySettings, currentTimeframe.interval) ?? 0;
               break;
             case 'performance':
               currentValue = latestData.performance;
@@ -387,7 +629,7 @@ const MarketSeasonalityExplorer: React.FC = () => {
       const interval = setInterval(checkAlerts, alertSettings.refreshInterval * 1000);
       return () => clearInterval(interval);
     }
-  }, [alerts, marketData, alertSettings.refreshInterval, triggerAlert]);
+  }, [alerts, marketData, alertSettings.refreshInterval, triggerAlert, isSynthetic, volatilitySettings, currentTimeframe.interval]);
 
   // Event handlers for user interactions
   const handleDateSelect = (date: Date) => {
@@ -404,6 +646,19 @@ const MarketSeasonalityExplorer: React.FC = () => {
     setCurrentTimeframe(timeframe);
   };
 
+  const handleClearCache = async () => {
+    await provider.clearCandleCache();
+    loadMarketData();
+  };
+
+  const handleHistoryRangeChange = (range: HistoryRange) => {
+    setHistoryRange(range);
+  };
+
+  const handleProviderChange = (providerId: string) => {
+    setProvider(providerRegistry.setActive(providerId));
+  };
+
   const handleSymbolChange = (symbol: string) => {
     setSelectedSymbol(symbol);
   };
@@ -414,6 +669,8 @@ const MarketSeasonalityExplorer: React.FC = () => {
 
   const handleFilterChange = (newFilterOptions: FilterOptions) => {
     setSelectedMetrics(newFilterOptions.metrics);
+    setLiquidityMeasure(newFilterOptions.liquidityMeasure);
+    setVolatilitySettings(newFilterOptions.volatility);
   };
 
   const handleDashboardClose = () => {
@@ -435,6 +692,8 @@ const MarketSeasonalityExplorer: React.FC = () => {
       start: new Date(Date.now() - 365 * 24 * 60 * 60 * 1000),
       end: new Date(),
     },
+    liquidityMeasure,
+    volatility: volatilitySettings,
   };
 
   // Alert management handlers
@@ -461,36 +720,70 @@ const MarketSeasonalityExplorer: React.FC = () => {
     setAlertSettings(settings);
   };
 
+  // Other symbols are fetched as background requests, so the provider's scheduler
+  // keeps them within budget and behind the main symbol load
+  const fetchSymbolDays = useCallback(async (symbol: string, interval: string, startTime: number, endTime: number) => {
+    const { klines } = await provider.getCachedKlineHistory(symbol, interval, startTime, endTime, { priority: 'background' });
+    return toTradingDates(binanceApi.processKlineData(klines, timeSettings), timeSettings);
+  }, [provider, timeSettings]);
+
   // Data comparison handlers
   const handleComparisonCreate = async (comparison: Omit<DataComparisonType, 'id' | 'createdAt'>) => {
     const newComparison: DataComparisonType = {
       ...comparison,
       id: `comparison-${Date.now()}`,
+      providerName: provider.name,
       createdAt: new Date()
     };
 
-    // Fetch data for each dataset in the comparison
+    // Fetch every dataset in the comparison
     const newComparisonData = new Map(comparisonData);
     
-    for (const dataset of comparison.datasets) {
+    await Promise.all(comparison.datasets.map(async dataset => {
       try {
-        const data = await binanceApi.getKlineData(
+        const processedData = await fetchSymbolDays(
           dataset.symbol,
           dataset.timeframe,
           dataset.dateRange.start.getTime(),
           dataset.dateRange.end.getTime()
         );
-        const processedData = binanceApi.processKlineData(data);
         newComparisonData.set(`${dataset.symbol}_${dataset.timeframe}`, processedData);
       } catch (error) {
         console.error(`Error fetching data for ${dataset.symbol}:`, error);
       }
-    }
+    }));
     
     setComparisonData(newComparisonData);
     setComparisons(prev => [...prev, newComparison]);
   };
 
+  // Correlation symbols load over the same history and candle interval as the day views
+  const handleCorrelationSymbolsLoad = useCallback(async (symbolsToLoad: string[]) => {
+    const generation = correlationGenerationRef.current;
+    const endTime = Date.now();
+    const startTime = endTime - getHistoryDays(dayInterval, historyRange.years) * DAY_MS;
+    setCorrelationLoading(prev => [...prev, ...symbolsToLoad]);
+
+    await Promise.all(symbolsToLoad.map(async symbol => {
+      let data: ProcessedDayData[] = [];
+      try {
+        data = await fetchSymbolDays(symbol, dayInterval, startTime, endTime);
+      } catch (error) {
+        console.error(`Error fetching data for ${symbol}:`, error);
+      }
+      if (correlationGenerationRef.current !== generation) return;
+      setCorrelationData(prev => new Map(prev).set(symbol, data));
+      setCorrelationLoading(prev => prev.filter(s => s !== symbol));
+    }));
+  }, [fetchSymbolDays, dayInterval, historyRange]);
+
+  // Candles fetched for another interval, range, provider or timezone are reloaded
+  useEffect(() => {
+    correlationGenerationRef.current += 1;
+    setCorrelationData(new Map());
+    setCorrelationLoading([]);
+  }, [fetchSymbolDays, dayInterval, historyRange]);
+
   const handleComparisonDelete = (comparisonId: string) => {
     setComparisons(prev => prev.filter(c => c.id !== comparisonId));
     
@@ -534,18 +827,36 @@ const MarketSeasonalityExplorer: React.FC = () => {
             
             {/* Navigation and action buttons */}
             <div className="flex items-center space-x-2 sm:space-x-4 w-full sm:w-auto justify-between sm:justify-end">
+              {/* Data source status */}
+              {dataSource && (
+                <DataSourceBadge
+                  status={dataSource}
+                  providerName={provider.name}
+                  onExitSynthetic={() => setSyntheticMode(false)}
+                />
+              )}
+              {/* Live stream toggle and connection health */}
+              <LiveStreamIndicator
+                enabled={realTimeConfig.enabled}
+                health={streamHealth}
+                onToggle={() => setRealTimeConfig(prev => ({ ...prev, enabled: !prev.enabled }))}
+              />
               {/* View toggle buttons */}
               <div className="flex bg-gray-100 dark:bg-gray-700 rounded-lg p-0.5 sm:p-1">
                 {[
                   { key: 'calendar', icon: Calendar, label: 'Calendar' },
+                  { key: 'hourly', icon: Clock, label: 'Hourly' },
+                  { key: 'heatmap', icon: Grid3x3, label: 'Heatmap' },
                   { key: 'analytics', icon: BarChart3, label: 'Analytics' },
                   { key: 'alerts', icon: Bell, label: 'Alerts' },
                   { key: 'comparison', icon: BarChart3, label: 'Compare' },
-                  { key: 'patterns', icon: Target, label: 'Patterns' }
+                  { key: 'correlation', icon: Network, label: 'Correlation' },
+                  { key: 'patterns', icon: Target, label: 'Patterns' },
+                  { key: 'depth', icon: Layers, label: 'Depth' }
                 ].map(({ key, icon: Icon, label }) => (
                 <button
                     key={key}
-                    onClick={() => setCurrentView(key as 'calendar' | 'analytics' | 'alerts' | 'comparison' | 'patterns')}
+                    onClick={() => setCurrentView(key as ExplorerView)}
                   className={`px-2 sm:px-3 py-1 rounded-md text-xs sm:text-sm font-medium transition-colors ${
                       currentView === key
                       ? 'bg-white dark:bg-gray-600 text-gray-900 dark:text-white shadow'
@@ -584,15 +895,53 @@ const MarketSeasonalityExplorer: React.FC = () => {
         {/* Filter controls */}
         <div className="mb-6">
               <FilterControls
+                providers={providerRegistry.list()}
+                selectedProvider={provider.id}
+                onProviderChange={handleProviderChange}
                 symbols={symbols}
                 selectedSymbol={selectedSymbol}
                 onSymbolChange={handleSymbolChange}
                 timeframes={timeframes}
                 currentTimeframe={currentTimeframe}
                 onTimeframeChange={handleTimeframeChange}
+                historyRanges={historyRanges}
+                currentHistoryRange={historyRange}
+                onHistoryRangeChange={handleHistoryRangeChange}
+                timeSettings={timeSettings}
+                onTimeSettingsChange={setTimeSettings}
                 filterOptions={filterOptions}
                 onFilterChange={handleFilterChange}
               />
+              {/* Candle cache status */}
+              {cacheStatus && !loading && (
+                <div className="mt-2 flex items-center justify-between text-xs text-gray-500 dark:text-gray-400">
+                  <div className="flex items-center space-x-1">
+                    <Database className="h-3 w-3" />
+                    <span>{describeCacheStatus(cacheStatus)}</span>
+                    <span>• Days in {getTimeSettingsLabel(timeSettings)}</span>
+                    {historyCapped && (
+                      <span title="Fine intraday intervals load a shorter history to stay within API limits">
+                        • Last {historyCapDays} days at {currentTimeframe.interval}
+                      </span>
+                    )}
+                    {requestWeight && (
+                      <span
+                        className={requestWeight.used / requestWeight.limit >= 0.8 ? 'text-orange-600 dark:text-orange-400' : ''}
+                      >
+                        • {describeRequestWeight(requestWeight)}
+                      </span>
+                    )}
+                  </div>
+                  <button
+                    onClick={handleClearCache}
+                    className="flex items-center space-x-1 hover:text-red-600 dark:hover:text-red-400 transition-colors"
+                    title="Clear cached candles"
+                  >
+                    <Trash2 className="h-3 w-3" />
+                    <span>Clear cache</span>
+                  </button>
+                </div>
+              )}
           </div>
 
           {/* Main content area with different views */}
@@ -601,20 +950,35 @@ const MarketSeasonalityExplorer: React.FC = () => {
             {loading && (
               <div className="flex items-center justify-center h-96">
                 <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
-                <span className="ml-3 text-gray-600 dark:text-gray-400">Loading market data...</span>
+                <span className="ml-3 text-gray-600 dark:text-gray-400">
+                  Loading market data...
+                  {loadProgress && ` ${loadProgress.fetched.toLocaleString()} / ~${loadProgress.expected.toLocaleString()} candles`}
+                  {retryNotice && ` • ${describeRetryNotice(retryNotice)}`}
+                </span>
               </div>
             )}
 
             {/* Error state */}
             {error && (
               <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-4 mb-6">
-                <p className="text-red-600 dark:text-red-400">{error}</p>
-                <button
-                  onClick={loadMarketData}
-                  className="mt-2 px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors"
-                >
-                  Retry
-                </button>
+                <p className="font-medium text-red-700 dark:text-red-300">{error.title}</p>
+                <p className="text-red-600 dark:text-red-400">{error.message}</p>
+                <div className="mt-2 flex flex-wrap gap-2">
+                  <button
+                    onClick={loadMarketData}
+                    className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors"
+                  >
+                    Retry
+                  </button>
+                  <button
+                    onClick={() => setSyntheticMode(true)}
+                    className="flex items-center space-x-1 px-4 py-2 border border-red-300 dark:border-red-700 text-red-700 dark:text-red-300 rounded-lg hover:bg-red-100 dark:hover:bg-red-900/40 transition-colors"
+                    title="Explore generated data instead; it is watermarked everywhere"
+                  >
+                    <FlaskConical className="h-4 w-4" />
+                    <span>Use synthetic data</span>
+                  </button>
+                </div>
               </div>
             )}
 
@@ -624,7 +988,7 @@ const MarketSeasonalityExplorer: React.FC = () => {
                 {/* Calendar view */}
                 {currentView === 'calendar' && (
                   <CalendarComponent
-                    data={marketData}
+                    data={dayData}
                     timeframe={currentTimeframe}
                     colorScheme={currentColorScheme}
                     onDateSelect={handleDateSelect}
@@ -633,24 +997,67 @@ const MarketSeasonalityExplorer: React.FC = () => {
                     selectedRange={dateRange}
                   selectedMetrics={selectedMetrics}
                   onDashboardClose={handleCalendarDashboardClose}
+                  providerName={sourceName}
+                  synthetic={isSynthetic}
+                  timeSettings={timeSettings}
+                  live={canStreamCandles && streamHealth?.state === 'open'}
+                  liveLiquidity={bookLiquidity}
+                  liquidityMeasure={liquidityMeasure}
+                  volatility={volatilitySettings}
+                  volatilityThresholds={volatilityThresholds}
+                  drawdowns={calendarDrawdowns}
+                  regimes={regimes}
+                  />
+                )}
+                {/* Hour-of-day view */}
+                {currentView === 'hourly' && (
+                  <HourlyHeatmap
+                    data={zonedData}
+                    interval={currentTimeframe.interval}
+                    timeZone={timeSettings.timeZone}
+                    onTimeZoneChange={timeZone => setTimeSettings(prev => ({ ...prev, timeZone }))}
+                    colorScheme={currentColorScheme}
+                    providerName={sourceName}
+                    synthetic={isSynthetic}
+                  />
+                )}
+                {/* Year x month / week view */}
+                {currentView === 'heatmap' && (
+                  <SeasonalityHeatmap
+                    data={dayData}
+                    colorScheme={currentColorScheme}
+                    onDateRangeSelect={handleDateRangeSelect}
+                    providerName={sourceName}
+                    synthetic={isSynthetic}
+                    timeSettings={timeSettings}
                   />
                 )}
                 {/* Analytics view */}
                 {currentView === 'analytics' && (
                   <AnalyticsDashboard
-                    data={marketData}
+                    data={dayData}
                     timeframe={currentTimeframe}
                     colorScheme={currentColorScheme}
                     symbol={selectedSymbol}
                   selectedMetrics={selectedMetrics}
                   selectedRange={dateRange}
                   onDateRangeSelect={handleDateRangeSelect}
+                  providerName={sourceName}
+                  synthetic={isSynthetic}
+                  timeSettings={timeSettings}
+                  volatility={volatilitySettings}
+                  volatilityThresholds={volatilityThresholds}
+                  indicatorSettings={indicatorSettings}
+                  onIndicatorSettingsChange={setIndicatorSettings}
+                  regimes={regimes}
                 />
               )}
               {/* Alerts view */}
               {currentView === 'alerts' && (
                 <AlertSystem
                   alerts={alerts}
+                  paused={isSynthetic}
+                  volatilityLabel={describeVolatilitySettings(volatilitySettings)}
                   settings={alertSettings}
                   onAlertCreate={handleAlertCreate}
                   onAlertDelete={handleAlertDelete}
@@ -662,21 +1069,52 @@ const MarketSeasonalityExplorer: React.FC = () => {
               {currentView === 'comparison' && (
                 <DataComparison
                   comparisons={comparisons}
-                  marketData={marketData}
+                  marketData={dayData}
                   comparisonData={comparisonData}
                   symbols={symbols}
+                  symbol={selectedSymbol}
+                  providerName={sourceName}
+                  synthetic={isSynthetic}
                   onComparisonCreate={handleComparisonCreate}
                   onComparisonDelete={handleComparisonDelete}
                 />
               )}
+              {/* Correlation view */}
+              {currentView === 'correlation' && (
+                <CorrelationAnalysis
+                  symbol={selectedSymbol}
+                  marketData={dayData}
+                  symbols={symbols}
+                  correlationData={correlationData}
+                  loadingSymbols={correlationLoading}
+                  onSymbolsLoad={handleCorrelationSymbolsLoad}
+                  colorScheme={currentColorScheme}
+                  providerName={sourceName}
+                  synthetic={isSynthetic}
+                />
+              )}
               {/* Patterns view */}
               {currentView === 'patterns' && (
                 <HistoricalPatterns
                   patterns={patterns}
-                  marketData={marketData}
+                  marketData={dayData}
                   onPatternSelect={handlePatternSelect}
+                  providerName={sourceName}
+                  synthetic={isSynthetic}
+                  regimes={regimes}
                   />
                 )}
+              {/* Order book depth view */}
+              {currentView === 'depth' && (
+                <OrderBookDepthChart
+                  book={orderBook}
+                  metrics={bookLiquidity}
+                  symbol={selectedSymbol}
+                  colorScheme={currentColorScheme}
+                  available={canSyncOrderBook}
+                  providerName={sourceName}
+                />
+              )}
               </div>
             )}
           </div>
@@ -727,10 +1165,17 @@ const MarketSeasonalityExplorer: React.FC = () => {
                 onClick={(e) => e.stopPropagation()}
               >
                 <DataDashboard
-                  data={marketData}
+                  data={dayData}
                   selectedDate={selectedDate}
                   selectedRange={dateRange}
                   symbol={selectedSymbol}
+                  providerName={sourceName}
+                  synthetic={isSynthetic}
+                  timeSettings={timeSettings}
+                  liveLiquidity={bookLiquidity}
+                  liquidityMeasure={liquidityMeasure}
+                  volatility={volatilitySettings}
+                  indicatorSettings={indicatorSettings}
                   onClose={handleDashboardClose}
                 />
               </motion.div>
@@ -756,10 +1201,13 @@ const MarketSeasonalityExplorer: React.FC = () => {
                 onClick={(e) => e.stopPropagation()}
               >
                 <ExportPanel
-                  data={marketData}
+                  data={zonedData}
                   symbol={selectedSymbol}
                   timeframe={currentTimeframe}
                   selectedRange={dateRange}
+                  timeSettings={timeSettings}
+                  providerName={sourceName}
+                  synthetic={isSynthetic}
                   onClose={() => setShowExportPanel(false)}
                 />
               </motion.div>
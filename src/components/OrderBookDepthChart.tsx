@@ -0,0 +1,126 @@
+'use client';
+
+import React, { useMemo } from 'react';
+import { ColorScheme, LiquidityMetrics, OrderBookState } from '@/types';
+import { AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { formatQuoteAmount, getDepthChartData } from '@/utils/orderBookMetrics';
+import { Info, Layers } from 'lucide-react';
+
+interface OrderBookDepthChartProps {
+  book: OrderBookState | null;
+  metrics: LiquidityMetrics | null;
+  symbol: string;
+  colorScheme: ColorScheme;
+  available: boolean;    // Live updates are on and the provider streams depth
+  providerName?: string;
+}
+
+const STATUS_LABELS: Record<OrderBookState['status'], string> = {
+  syncing: 'Syncing',
+  synced: 'Synced',
+  error: 'Sync failed, retrying',
+};
+
+/**
+ * Order Book Depth Chart
+ *
+ * Cumulative bid and ask depth within ±2% of the mid price from the locally
+ * synced order book, with spread, depth and imbalance cards. Depth figures
+ * marked ≥ are lower bounds: the book does not reach that far from the mid.
+ */
+const OrderBookDepthChart: React.FC<OrderBookDepthChartProps> = ({
+  book,
+  metrics,
+  symbol,
+  colorScheme,
+  available,
+  providerName,
+}) => {
+  const chartData = useMemo(() => (book ? getDepthChartData(book) : []), [book]);
+
+  if (!available) {
+    return (
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6 border border-gray-200 dark:border-gray-700">
+        <div className="flex items-center space-x-2 text-gray-600 dark:text-gray-400">
+          <Info className="h-5 w-5" />
+          <p>The order book is kept in sync from the live depth stream. Turn on live updates with a provider that streams market data.</p>
+        </div>
+      </div>
+    );
+  }
+
+  const cards = metrics
+    ? [
+        { label: 'Spread', value: `${metrics.spreadPercent.toFixed(3)}%`, detail: metrics.spread.toFixed(2) },
+        ...metrics.depth.map(({ band, bid, ask, covered }) => ({
+          label: `Depth ±${band}%`,
+          value: `${covered ? '' : '≥'}${formatQuoteAmount(bid + ask)}`,
+          detail: `Bids ${formatQuoteAmount(bid)} / Asks ${formatQuoteAmount(ask)}`,
+        })),
+        {
+          label: 'Imbalance',
+          value: `${metrics.imbalance >= 0 ? '+' : ''}${(metrics.imbalance * 100).toFixed(1)}%`,
+          detail: metrics.imbalance >= 0 ? 'Bid heavy' : 'Ask heavy',
+        },
+      ]
+    : [];
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6 border border-gray-200 dark:border-gray-700">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 mb-6">
+        <div>
+          <h3 className="flex items-center space-x-2 text-lg font-semibold text-gray-900 dark:text-white">
+            <Layers className="h-5 w-5" />
+            <span>{symbol} Order Book Depth</span>
+          </h3>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            {book ? `${STATUS_LABELS[book.status]} • ${book.bids.length + book.asks.length} levels • update #${book.lastUpdateId}` : 'Syncing'}
+            {providerName && ` • Source: ${providerName}`}
+          </p>
+        </div>
+        {metrics && (
+          <p className="text-sm text-gray-600 dark:text-gray-300">
+            Mid {metrics.midPrice.toLocaleString(undefined, { maximumFractionDigits: 8 })}
+          </p>
+        )}
+      </div>
+
+      {cards.length > 0 && (
+        <div className="grid grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
+          {cards.map(({ label, value, detail }) => (
+            <div key={label} className="bg-gray-50 dark:bg-gray-700 rounded-lg p-4">
+              <p className="text-sm text-gray-600 dark:text-gray-400">{label}</p>
+              <p className="text-xl font-bold text-gray-900 dark:text-white">{value}</p>
+              <p className="text-xs text-gray-500 dark:text-gray-400">{detail}</p>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {chartData.length > 0 ? (
+        <ResponsiveContainer width="100%" height={320}>
+          <AreaChart data={chartData} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis
+              dataKey="price"
+              type="number"
+              domain={['dataMin', 'dataMax']}
+              tickFormatter={(price: number) => price.toLocaleString()}
+            />
+            <YAxis />
+            <Tooltip
+              labelFormatter={(price) => `Price ${Number(price).toLocaleString()}`}
+              formatter={(value: number, name: string) => [value.toLocaleString(), name === 'bids' ? 'Cumulative bids' : 'Cumulative asks']}
+            />
+            <Area type="stepAfter" dataKey="bids" stroke={colorScheme.performance.positive} fill={colorScheme.performance.positive} fillOpacity={0.3} connectNulls={false} />
+            <Area type="stepBefore" dataKey="asks" stroke={colorScheme.performance.negative} fill={colorScheme.performance.negative} fillOpacity={0.3} connectNulls={false} />
+          </AreaChart>
+        </ResponsiveContainer>
+      ) : (
+        <p className="text-sm text-gray-500 dark:text-gray-400">Waiting for the order book snapshot…</p>
+      )}
+    </div>
+  );
+};
+
+export default OrderBookDepthChart;
@@ -0,0 +1,125 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { ColorScheme, ProcessedDayData, RegimeDimension, RegimePoint } from '@/types';
+import {
+  REGIME_DIMENSIONS, buildRegimeStats, buildRegimeTransitions, getRegimeColor, getRegimeLabel, indexRegimes,
+} from '@/utils/regimes';
+
+interface RegimeAnalysisProps {
+  data: ProcessedDayData[];  // Candles of the selected range
+  regimes: RegimePoint[];    // Regimes detected on the full history, so the range keeps its trailing context
+  colorScheme: ColorScheme;
+}
+
+const formatPercent = (value: number) => `${value >= 0 ? '+' : ''}${value.toFixed(2)}%`;
+const formatProbability = (value: number | null) => (value === null ? '–' : `${(value * 100).toFixed(0)}%`);
+
+/**
+ * Regime Analysis
+ *
+ * How the candles of the range behave in each volatility or trend regime:
+ * share of time, returns, volatility and spell lengths, plus the chance of
+ * moving from one regime to another on the next candle.
+ */
+const RegimeAnalysis: React.FC<RegimeAnalysisProps> = ({ data, regimes, colorScheme }) => {
+  const [dimension, setDimension] = useState<RegimeDimension>('volatility');
+
+  const regimeIndex = useMemo(() => indexRegimes(regimes), [regimes]);
+  const stats = useMemo(() => buildRegimeStats(data, regimeIndex, dimension), [data, regimeIndex, dimension]);
+  const transitions = useMemo(() => buildRegimeTransitions(data, regimeIndex, dimension), [data, regimeIndex, dimension]);
+
+  const toggleClass = (active: boolean) => `px-3 py-1 text-sm font-medium transition-colors ${
+    active
+      ? 'bg-blue-600 text-white'
+      : 'bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-600'
+  }`;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-xs text-gray-500 dark:text-gray-400">{REGIME_DIMENSIONS[dimension].description}</p>
+        <div className="flex rounded-lg border border-gray-300 dark:border-gray-600 overflow-hidden" role="group" aria-label="Regime type">
+          {(Object.keys(REGIME_DIMENSIONS) as RegimeDimension[]).map(key => (
+            <button key={key} onClick={() => setDimension(key)} aria-pressed={dimension === key} className={toggleClass(dimension === key)}>
+              {REGIME_DIMENSIONS[key].label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-sm" aria-label="Regime statistics">
+          <thead>
+            <tr className="text-left text-xs uppercase tracking-wide text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-600">
+              <th className="py-2 pr-3">Regime</th>
+              <th className="py-2 pr-3 text-right">N</th>
+              <th className="py-2 pr-3 text-right">Share</th>
+              <th className="py-2 pr-3 text-right">Mean return</th>
+              <th className="py-2 pr-3 text-right">Std dev</th>
+              <th className="py-2 pr-3 text-right">Volatility</th>
+              <th className="py-2 pr-3 text-right">Spells</th>
+              <th className="py-2 text-right">Avg spell</th>
+            </tr>
+          </thead>
+          <tbody>
+            {stats.map(stat => (
+              <tr key={stat.regime} className="border-b border-gray-100 dark:border-gray-700 text-gray-900 dark:text-white">
+                <td className="py-1.5 pr-3">
+                  <span className="inline-flex items-center space-x-2">
+                    <span className="h-3 w-3 rounded-sm" style={{ backgroundColor: getRegimeColor(stat.regime, colorScheme) }} />
+                    <span>{getRegimeLabel(stat.regime)}</span>
+                  </span>
+                </td>
+                <td className="py-1.5 pr-3 text-right">{stat.count}</td>
+                <td className="py-1.5 pr-3 text-right">{(stat.share * 100).toFixed(0)}%</td>
+                <td className={`py-1.5 pr-3 text-right ${stat.meanReturn >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                  {stat.count > 0 ? formatPercent(stat.meanReturn) : '–'}
+                </td>
+                <td className="py-1.5 pr-3 text-right">{stat.count > 1 ? `${stat.stdDev.toFixed(2)}%` : '–'}</td>
+                <td className="py-1.5 pr-3 text-right">{stat.count > 0 ? `${stat.avgVolatility.toFixed(2)}%` : '–'}</td>
+                <td className="py-1.5 pr-3 text-right">{stat.spells}</td>
+                <td className="py-1.5 text-right">{stat.spells > 0 ? `${stat.averageSpell.toFixed(1)} candles` : '–'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Row regime today, column regime on the next candle */}
+      <div className="overflow-x-auto">
+        <table className="text-sm" aria-label="Regime transitions">
+          <caption className="text-left text-xs text-gray-500 dark:text-gray-400 pb-2">
+            Chance of each regime on the next candle, from the regime in the row
+          </caption>
+          <thead>
+            <tr className="text-xs text-gray-500 dark:text-gray-400">
+              <th className="py-1 pr-3 text-left font-normal">From \ To</th>
+              {transitions.regimes.map(regime => (
+                <th key={regime} className="py-1 px-3 text-right font-medium">{getRegimeLabel(regime)}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {transitions.regimes.map((from, i) => (
+              <tr key={from} className="text-gray-900 dark:text-white">
+                <th className="py-1 pr-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400">{getRegimeLabel(from)}</th>
+                {transitions.regimes.map((to, j) => {
+                  const probability = transitions.probabilities[i][j];
+                  const label = `${getRegimeLabel(from)} to ${getRegimeLabel(to)}: ${formatProbability(probability)} (${transitions.counts[i][j]} moves)`;
+                  return (
+                    <td key={to} aria-label={label} title={label} className={`py-1 px-3 text-right ${i === j ? 'font-semibold' : ''}`}>
+                      {formatProbability(probability)}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default RegimeAnalysis;
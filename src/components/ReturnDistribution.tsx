@@ -0,0 +1,268 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { ColorScheme, DistributionGrouping, ProcessedDayData, ValueAtRiskMethod } from '@/types';
+import { ComposedChart, Bar, Line, Scatter, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import {
+  DISTRIBUTION_GROUPINGS, VALUE_AT_RISK_CONFIDENCE_LEVELS, VALUE_AT_RISK_METHODS, buildDistributionBuckets,
+  buildQuantilePlot, buildReturnHistogram, getCandleReturns, getRiskEstimate, summarizeReturns,
+} from '@/utils/distribution';
+import { formatPValue } from '@/utils/seasonality';
+
+interface ReturnDistributionProps {
+  data: ProcessedDayData[];  // Candles of the selected range; `performance` is the return analysed
+  colorScheme: ColorScheme;
+}
+
+const formatPercent = (value: number) => `${value.toFixed(2)}%`;
+const formatConfidence = (confidence: number) => `${Math.round(confidence * 100)}%`;
+
+/**
+ * Return Distribution
+ *
+ * Shape and tails of the candle returns in the selected range: a histogram
+ * with kernel density and fitted normal curves, a normal QQ plot, moments
+ * with a Jarque-Bera test, and VaR and expected shortfall by three methods.
+ * Returns can be split by weekday or month to compare seasonal tails.
+ */
+const ReturnDistribution: React.FC<ReturnDistributionProps> = ({ data, colorScheme }) => {
+  const [grouping, setGrouping] = useState<DistributionGrouping>('all');
+  const [bucketKey, setBucketKey] = useState<number | null>(null);
+  const [method, setMethod] = useState<ValueAtRiskMethod>('historical');
+
+  const allReturns = useMemo(() => getCandleReturns(data), [data]);
+  const buckets = useMemo(
+    () => (grouping === 'all' ? [] : buildDistributionBuckets(data, grouping)),
+    [data, grouping]
+  );
+  const bucket = buckets.find(({ key }) => key === bucketKey);
+  const returns = bucket ? bucket.returns : allReturns;
+
+  const summary = useMemo(() => summarizeReturns(returns), [returns]);
+  const histogram = useMemo(() => buildReturnHistogram(returns), [returns]);
+  const quantiles = useMemo(() => buildQuantilePlot(returns), [returns]);
+
+  const selectGrouping = (next: DistributionGrouping) => {
+    setGrouping(next);
+    setBucketKey(null);
+  };
+
+  const selectClass = 'px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white';
+  const toggleClass = (active: boolean) => `px-3 py-1 text-sm font-medium transition-colors ${
+    active
+      ? 'bg-blue-600 text-white'
+      : 'bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-600'
+  }`;
+
+  if (!summary) {
+    return (
+      <p className="text-sm text-gray-500 dark:text-gray-400">
+        At least two candle returns are needed for a return distribution.
+      </p>
+    );
+  }
+
+  const moments = [
+    { label: 'Returns', text: summary.count.toLocaleString() },
+    { label: 'Mean', text: formatPercent(summary.mean) },
+    { label: 'Std dev', text: formatPercent(summary.stdDev) },
+    { label: 'Skewness', text: summary.skewness.toFixed(2) },
+    { label: 'Excess kurtosis', text: summary.excessKurtosis.toFixed(2) },
+    {
+      label: 'Jarque-Bera',
+      text: summary.jarqueBera
+        ? `${summary.jarqueBera.statistic.toFixed(1)} (p ${formatPValue(summary.jarqueBera.pValue)})`
+        : '–',
+    },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h4 className="text-base sm:text-lg font-semibold text-gray-900 dark:text-white">
+          Return Distribution
+        </h4>
+        <div className="flex flex-wrap items-center gap-2">
+          <div className="flex rounded-lg border border-gray-300 dark:border-gray-600 overflow-hidden" role="group" aria-label="Break down returns">
+            {(Object.keys(DISTRIBUTION_GROUPINGS) as DistributionGrouping[]).map(key => (
+              <button
+                key={key}
+                onClick={() => selectGrouping(key)}
+                aria-pressed={grouping === key}
+                title={DISTRIBUTION_GROUPINGS[key].description}
+                className={toggleClass(grouping === key)}
+              >
+                {DISTRIBUTION_GROUPINGS[key].label}
+              </button>
+            ))}
+          </div>
+          {grouping !== 'all' && (
+            <select
+              value={bucketKey ?? ''}
+              onChange={(e) => setBucketKey(e.target.value === '' ? null : Number(e.target.value))}
+              aria-label="Distribution of"
+              className={selectClass}
+            >
+              <option value="">All candles</option>
+              {buckets.map(({ key, label }) => (
+                <option key={key} value={key}>{label}</option>
+              ))}
+            </select>
+          )}
+        </div>
+      </div>
+
+      {/* Moments and normality */}
+      <dl className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-6 gap-4 text-sm">
+        {moments.map(({ label, text }) => (
+          <div key={label}>
+            <dt className="text-gray-600 dark:text-gray-400">{label}</dt>
+            <dd className="font-semibold text-gray-900 dark:text-white">{text}</dd>
+          </div>
+        ))}
+      </dl>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 sm:gap-6">
+        <div>
+          <h5 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Histogram</h5>
+          <div className="h-72">
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart data={histogram} margin={{ top: 8, right: 16, left: 0, bottom: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="mid" type="number" domain={['dataMin', 'dataMax']} tickFormatter={(value: number) => `${value.toFixed(1)}%`} />
+                <YAxis tickFormatter={(value: number) => value.toFixed(2)} />
+                <Tooltip
+                  labelFormatter={(mid: number) => `Return ${formatPercent(mid)}`}
+                  formatter={(value: number, name: string) => [value.toFixed(3), name]}
+                />
+                <Legend />
+                <Bar dataKey="density" name="Returns" fill={colorScheme.liquidity.medium} fillOpacity={0.6} isAnimationActive={false} />
+                <Line type="monotone" dataKey="kernel" name="Kernel density" stroke={colorScheme.liquidity.high} dot={false} isAnimationActive={false} />
+                <Line type="monotone" dataKey="normal" name="Normal fit" stroke={colorScheme.volatility.high} strokeDasharray="4 4" dot={false} isAnimationActive={false} />
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+        <div>
+          <h5 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Normal QQ plot</h5>
+          <div className="h-72">
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart data={quantiles} margin={{ top: 8, right: 16, left: 0, bottom: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="theoretical" type="number" domain={['auto', 'auto']} name="Normal" tickFormatter={(value: number) => `${value.toFixed(1)}%`} />
+                <YAxis type="number" domain={['auto', 'auto']} tickFormatter={(value: number) => `${value.toFixed(1)}%`} />
+                <Tooltip formatter={(value: number, name: string) => [formatPercent(value), name]} />
+                <Legend />
+                <Scatter dataKey="sample" name="Returns" fill={colorScheme.liquidity.high} isAnimationActive={false} />
+                <Line dataKey="theoretical" name="Normal" stroke={colorScheme.volatility.high} dot={false} isAnimationActive={false} />
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      </div>
+
+      {/* VaR and expected shortfall of the shown returns */}
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-sm" aria-label="Value at risk">
+          <thead>
+            <tr className="text-left text-xs uppercase tracking-wide text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-600">
+              <th className="py-2 pr-3">Method</th>
+              {VALUE_AT_RISK_CONFIDENCE_LEVELS.map(confidence => (
+                <React.Fragment key={confidence}>
+                  <th className="py-2 pr-3 text-right">VaR {formatConfidence(confidence)}</th>
+                  <th className="py-2 pr-3 text-right">CVaR {formatConfidence(confidence)}</th>
+                </React.Fragment>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {(Object.keys(VALUE_AT_RISK_METHODS) as ValueAtRiskMethod[]).map(key => (
+              <tr key={key} className="border-b border-gray-100 dark:border-gray-700 text-gray-900 dark:text-white">
+                <td className="py-1.5 pr-3" title={VALUE_AT_RISK_METHODS[key].description}>{VALUE_AT_RISK_METHODS[key].label}</td>
+                {VALUE_AT_RISK_CONFIDENCE_LEVELS.map(confidence => {
+                  const estimate = getRiskEstimate(summary, key, confidence);
+                  return (
+                    <React.Fragment key={confidence}>
+                      <td className="py-1.5 pr-3 text-right">{estimate ? formatPercent(estimate.valueAtRisk) : '–'}</td>
+                      <td className="py-1.5 pr-3 text-right">{estimate ? formatPercent(estimate.expectedShortfall) : '–'}</td>
+                    </React.Fragment>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Tails of the seasonal buckets side by side */}
+      {grouping !== 'all' && buckets.length > 0 && (
+        <div className="space-y-3">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <h5 className="text-sm font-medium text-gray-700 dark:text-gray-300">
+              Tails {DISTRIBUTION_GROUPINGS[grouping].label.toLowerCase()}
+            </h5>
+            <div className="flex rounded-lg border border-gray-300 dark:border-gray-600 overflow-hidden" role="group" aria-label="VaR method">
+              {(Object.keys(VALUE_AT_RISK_METHODS) as ValueAtRiskMethod[]).map(key => (
+                <button
+                  key={key}
+                  onClick={() => setMethod(key)}
+                  aria-pressed={method === key}
+                  title={VALUE_AT_RISK_METHODS[key].description}
+                  className={toggleClass(method === key)}
+                >
+                  {VALUE_AT_RISK_METHODS[key].label}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm" aria-label="Tails by bucket">
+              <thead>
+                <tr className="text-left text-xs uppercase tracking-wide text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-600">
+                  <th className="py-2 pr-3">{grouping === 'month' ? 'Month' : 'Weekday'}</th>
+                  <th className="py-2 pr-3 text-right">N</th>
+                  <th className="py-2 pr-3 text-right">Std dev</th>
+                  <th className="py-2 pr-3 text-right">Skew</th>
+                  <th className="py-2 pr-3 text-right">Kurtosis</th>
+                  {VALUE_AT_RISK_CONFIDENCE_LEVELS.map(confidence => (
+                    <React.Fragment key={confidence}>
+                      <th className="py-2 pr-3 text-right">VaR {formatConfidence(confidence)}</th>
+                      <th className="py-2 pr-3 text-right">CVaR {formatConfidence(confidence)}</th>
+                    </React.Fragment>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {buckets.map(({ key, label, returns: bucketReturns, summary: bucketSummary }) => (
+                  <tr
+                    key={key}
+                    className={`border-b border-gray-100 dark:border-gray-700 text-gray-900 dark:text-white ${
+                      key === bucketKey ? 'bg-blue-50 dark:bg-blue-900/20' : ''
+                    }`}
+                  >
+                    <td className="py-1.5 pr-3">{label}</td>
+                    <td className="py-1.5 pr-3 text-right">{bucketReturns.length}</td>
+                    <td className="py-1.5 pr-3 text-right">{bucketSummary ? formatPercent(bucketSummary.stdDev) : '–'}</td>
+                    <td className="py-1.5 pr-3 text-right">{bucketSummary ? bucketSummary.skewness.toFixed(2) : '–'}</td>
+                    <td className="py-1.5 pr-3 text-right">{bucketSummary ? bucketSummary.excessKurtosis.toFixed(2) : '–'}</td>
+                    {VALUE_AT_RISK_CONFIDENCE_LEVELS.map(confidence => {
+                      const estimate = bucketSummary ? getRiskEstimate(bucketSummary, method, confidence) : undefined;
+                      return (
+                        <React.Fragment key={confidence}>
+                          <td className="py-1.5 pr-3 text-right">{estimate ? formatPercent(estimate.valueAtRisk) : '–'}</td>
+                          <td className="py-1.5 pr-3 text-right">{estimate ? formatPercent(estimate.expectedShortfall) : '–'}</td>
+                        </React.Fragment>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReturnDistribution;
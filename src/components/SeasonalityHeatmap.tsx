@@ -0,0 +1,260 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import {
+  AnalysisTimeSettings, ColorScheme, DateRange, ProcessedDayData, SeasonalityGridCell, SeasonalityGridPeriod,
+  SeasonalityGridSummary,
+} from '@/types';
+import { Grid3x3 } from 'lucide-react';
+import SyntheticWatermark from './SyntheticWatermark';
+import { MONTH_NAMES } from '@/utils/calendarMath';
+import { formatQuoteAmount } from '@/utils/orderBookMetrics';
+import { buildSeasonalityGrid } from '@/utils/seasonality';
+import { median } from '@/utils/statistics';
+import { getTimeSettingsLabel } from '@/utils/timezone';
+
+interface SeasonalityHeatmapProps {
+  data: ProcessedDayData[];
+  colorScheme: ColorScheme;
+  onDateRangeSelect?: (range: DateRange) => void;  // Called with a cell's first and last day when it is clicked
+  providerName?: string;
+  synthetic?: boolean;
+  timeSettings?: AnalysisTimeSettings;             // Timezone and day start the data is bucketed in
+}
+
+type HeatmapMetric = 'return' | 'volatility' | 'volume';
+
+const METRICS: { key: HeatmapMetric; label: string }[] = [
+  { key: 'return', label: 'Return' },
+  { key: 'volatility', label: 'Volatility' },
+  { key: 'volume', label: 'Volume' },
+];
+
+const PERIODS: { key: SeasonalityGridPeriod; label: string }[] = [
+  { key: 'month', label: 'Year × Month' },
+  { key: 'week', label: 'Year × Week' },
+];
+
+const getCellValue = (cell: SeasonalityGridCell, metric: HeatmapMetric): number => {
+  switch (metric) {
+    case 'return': return cell.cumulativeReturn;
+    case 'volatility': return cell.volatility;
+    case 'volume': return cell.volume;
+  }
+};
+
+// Rows show the year's compounded return; columns and the other metrics use averages
+const getSummaryValue = (summary: SeasonalityGridSummary, metric: HeatmapMetric, row: boolean): number => {
+  switch (metric) {
+    case 'return': return row ? summary.compoundedReturn : summary.meanReturn;
+    case 'volatility': return summary.volatility;
+    case 'volume': return summary.volume;
+  }
+};
+
+const formatMetric = (value: number, metric: HeatmapMetric): string => {
+  if (metric === 'volume') return formatQuoteAmount(value);
+  return `${metric === 'return' && value > 0 ? '+' : ''}${value.toFixed(2)}%`;
+};
+
+const getPeriodLabel = (period: number, gridPeriod: SeasonalityGridPeriod): string =>
+  gridPeriod === 'month' ? MONTH_NAMES[period - 1].slice(0, 3) : `W${period.toString().padStart(2, '0')}`;
+
+/**
+ * Shade a colour by how far a value sits from the centre of its scale
+ * @param color - Hex colour of this side of the scale
+ * @param strength - Distance from the centre relative to the largest distance, 0-1
+ * @returns string - Hex colour with alpha
+ */
+const shade = (color: string, strength: number): string =>
+  `${color}${Math.round((0.15 + Math.min(1, strength) * 0.85) * 255).toString(16).padStart(2, '0')}`;
+
+/**
+ * Seasonality Heatmap
+ *
+ * One row per year and one column per month or ISO week, so a month that is
+ * weak year after year stands out. Cells show the cumulative return, mean
+ * volatility or total volume of their candles on a diverging scale; the last
+ * column and the bottom rows summarise each year and each month or week.
+ * Clicking a cell selects its dates.
+ */
+const SeasonalityHeatmap: React.FC<SeasonalityHeatmapProps> = ({
+  data,
+  colorScheme,
+  onDateRangeSelect,
+  providerName,
+  synthetic = false,
+  timeSettings
+}) => {
+  const [metric, setMetric] = useState<HeatmapMetric>('return');
+  const [period, setPeriod] = useState<SeasonalityGridPeriod>('month');
+
+  const grid = useMemo(() => buildSeasonalityGrid(data, period), [data, period]);
+  const cellsByPosition = useMemo(
+    () => new Map(grid.cells.map(cell => [`${cell.year}-${cell.period}`, cell])),
+    [grid]
+  );
+  const columnsByPeriod = useMemo(() => new Map(grid.columns.map(column => [column.key, column])), [grid]);
+
+  // Returns diverge around zero; volatility and volume around their median cell
+  const { centre, maxDeviation } = useMemo(() => {
+    const values = grid.cells.map(cell => getCellValue(cell, metric));
+    const middle = metric === 'return' || values.length === 0 ? 0 : median(values);
+    return { centre: middle, maxDeviation: Math.max(0, ...values.map(value => Math.abs(value - middle))) };
+  }, [grid, metric]);
+
+  const getColor = (value: number): string => {
+    const [below, above] = metric === 'return'
+      ? [colorScheme.performance.negative, colorScheme.performance.positive]
+      : metric === 'volatility'
+        ? [colorScheme.volatility.low, colorScheme.volatility.high]
+        : [colorScheme.liquidity.low, colorScheme.liquidity.high];
+    const strength = maxDeviation > 0 ? Math.abs(value - centre) / maxDeviation : 0;
+    return shade(value >= centre ? above : below, strength);
+  };
+
+  const renderToggle = <T extends string,>(
+    label: string,
+    options: { key: T; label: string }[],
+    value: T,
+    onChange: (value: T) => void
+  ) => (
+    <div className="flex rounded-lg border border-gray-300 dark:border-gray-600 overflow-hidden" role="group" aria-label={label}>
+      {options.map(option => (
+        <button
+          key={option.key}
+          onClick={() => onChange(option.key)}
+          aria-pressed={value === option.key}
+          className={`px-3 py-1.5 text-xs sm:text-sm font-medium transition-colors ${
+            value === option.key
+              ? 'bg-blue-600 text-white'
+              : 'bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-600'
+          }`}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  );
+
+  const cellClass = period === 'month' ? 'h-9 min-w-[3.5rem] text-xs' : 'h-6 min-w-[1.25rem]';
+
+  return (
+    <div className="relative bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6 border border-gray-200 dark:border-gray-700">
+      {synthetic && <SyntheticWatermark />}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-6">
+        <div>
+          <h3 className="flex items-center space-x-2 text-lg font-semibold text-gray-900 dark:text-white">
+            <Grid3x3 className="h-5 w-5" />
+            <span>Seasonality Heatmap</span>
+          </h3>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            {grid.years.length} years · {data.length.toLocaleString()} candles
+            {providerName && ` • Source: ${providerName}`}
+            {timeSettings && ` • Days in ${getTimeSettingsLabel(timeSettings)}`}
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          {renderToggle('Heatmap columns', PERIODS, period, setPeriod)}
+          {renderToggle('Heatmap metric', METRICS, metric, setMetric)}
+        </div>
+      </div>
+
+      {grid.cells.length === 0 ? (
+        <p className="text-center py-8 text-gray-500 dark:text-gray-400">No data to lay out by year</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="border-separate" style={{ borderSpacing: 2 }} role="grid" aria-label={`Year by ${period} heatmap`}>
+            <thead>
+              <tr>
+                <th className="w-12" />
+                {grid.periods.map(column => (
+                  <th key={column} scope="col" className="text-[10px] font-normal text-gray-500 dark:text-gray-400">
+                    {period === 'month' ? getPeriodLabel(column, period) : column}
+                  </th>
+                ))}
+                <th scope="col" className="pl-2 text-xs font-medium text-gray-600 dark:text-gray-300">Year</th>
+              </tr>
+            </thead>
+            <tbody>
+              {grid.years.map((year, rowIndex) => {
+                const row = grid.rows[rowIndex];
+                return (
+                  <tr key={year}>
+                    <th scope="row" className="pr-2 text-left text-xs font-medium text-gray-600 dark:text-gray-300">{year}</th>
+                    {grid.periods.map(column => {
+                      const cell = cellsByPosition.get(`${year}-${column}`);
+                      if (!cell) {
+                        return <td key={column} role="gridcell" className={`${cellClass} rounded-sm bg-gray-100 dark:bg-gray-900`} />;
+                      }
+                      const value = getCellValue(cell, metric);
+                      const label = `${getPeriodLabel(column, period)} ${year}: ${formatMetric(value, metric)} (${cell.count} candles)`;
+                      return (
+                        <td key={column} role="gridcell" className="p-0">
+                          <button
+                            onClick={() => onDateRangeSelect?.({ start: cell.start, end: cell.end })}
+                            disabled={!onDateRangeSelect}
+                            title={label}
+                            aria-label={label}
+                            className={`${cellClass} w-full rounded-sm text-gray-900 dark:text-white hover:ring-2 hover:ring-blue-500 disabled:cursor-default`}
+                            style={{ backgroundColor: getColor(value) }}
+                          >
+                            {period === 'month' && formatMetric(value, metric)}
+                          </button>
+                        </td>
+                      );
+                    })}
+                    <td className="pl-2 text-xs font-medium text-right whitespace-nowrap text-gray-900 dark:text-white">
+                      {formatMetric(getSummaryValue(row, metric, true), metric)}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+            <tfoot>
+              <tr>
+                <th scope="row" className="pr-2 text-left text-xs font-medium text-gray-600 dark:text-gray-300">Avg</th>
+                {grid.periods.map(column => {
+                  const summary = columnsByPeriod.get(column);
+                  return (
+                    <td key={column} className="text-[10px] text-center whitespace-nowrap text-gray-700 dark:text-gray-300">
+                      {summary && period === 'month' ? formatMetric(getSummaryValue(summary, metric, false), metric) : ''}
+                      {summary && period === 'week' && (
+                        <span
+                          className="block h-2 rounded-sm"
+                          title={`${getPeriodLabel(column, period)} average: ${formatMetric(getSummaryValue(summary, metric, false), metric)}`}
+                          style={{ backgroundColor: getColor(getSummaryValue(summary, metric, false)) }}
+                        />
+                      )}
+                    </td>
+                  );
+                })}
+                <td />
+              </tr>
+              {metric === 'return' && (
+                <tr>
+                  <th scope="row" className="pr-2 text-left text-xs font-medium text-gray-600 dark:text-gray-300">Up</th>
+                  {grid.periods.map(column => {
+                    const summary = columnsByPeriod.get(column);
+                    return (
+                      <td
+                        key={column}
+                        className="text-[10px] text-center text-gray-700 dark:text-gray-300"
+                        title={summary ? `${getPeriodLabel(column, period)}: up in ${Math.round(summary.positiveShare * summary.count)} of ${summary.count} years` : undefined}
+                      >
+                        {summary && period === 'month' ? `${Math.round(summary.positiveShare * 100)}%` : ''}
+                      </td>
+                    );
+                  })}
+                  <td />
+                </tr>
+              )}
+            </tfoot>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SeasonalityHeatmap;
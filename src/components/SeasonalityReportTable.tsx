@@ -0,0 +1,150 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { MarketRegime, MultipleComparisonCorrection, ProcessedDayData, RegimePoint, SeasonalityDimension } from '@/types';
+import {
+  MULTIPLE_COMPARISON_CORRECTIONS, SEASONALITY_DIMENSIONS, buildSeasonalityReport, formatPValue,
+} from '@/utils/seasonality';
+import { filterByRegime, getRegimeKeys, getRegimeLabel, indexRegimes } from '@/utils/regimes';
+
+interface SeasonalityReportTableProps {
+  data: ProcessedDayData[];
+  alpha?: number;  // Significance level for the adjusted p-values
+  regimes?: RegimePoint[];  // Regime of each candle; lets the report be limited to one regime
+}
+
+const formatPercent = (value: number) => `${value >= 0 ? '+' : ''}${value.toFixed(2)}%`;
+
+/**
+ * Seasonality Report
+ *
+ * One row per weekday, month, ISO week or turn-of-month day: mean and median
+ * return, hit rate and volatility, with a Welch t-test and Cohen's d against
+ * the other candles, a bootstrap interval for the mean and p-values corrected
+ * for the number of buckets tested.
+ */
+const SeasonalityReportTable: React.FC<SeasonalityReportTableProps> = ({ data, alpha = 0.05, regimes = [] }) => {
+  const [dimension, setDimension] = useState<SeasonalityDimension>('weekday');
+  const [correction, setCorrection] = useState<MultipleComparisonCorrection>('benjaminiHochberg');
+  const [regime, setRegime] = useState<MarketRegime | 'all'>('all');
+
+  // Buckets are tested against the other candles of the same regime
+  const regimeData = useMemo(
+    () => filterByRegime(data, indexRegimes(regimes), regime),
+    [data, regimes, regime]
+  );
+  const report = useMemo(
+    () => buildSeasonalityReport(regimeData, dimension, { correction, alpha }),
+    [regimeData, dimension, correction, alpha]
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex flex-wrap gap-2">
+          {(Object.keys(SEASONALITY_DIMENSIONS) as SeasonalityDimension[]).map(key => (
+            <button
+              key={key}
+              onClick={() => setDimension(key)}
+              aria-pressed={dimension === key}
+              title={SEASONALITY_DIMENSIONS[key].description}
+              className={`px-3 py-1 rounded-md text-sm font-medium transition-colors ${
+                dimension === key
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
+              }`}
+            >
+              {SEASONALITY_DIMENSIONS[key].label}
+            </button>
+          ))}
+        </div>
+        <div className="flex flex-wrap items-center gap-3">
+          {regimes.length > 0 && (
+            <label className="flex items-center space-x-2 text-sm text-gray-600 dark:text-gray-400">
+              <span>Regime</span>
+              <select
+                value={regime}
+                onChange={(e) => setRegime(e.target.value as MarketRegime | 'all')}
+                aria-label="Regime"
+                className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+              >
+                <option value="all">All candles</option>
+                {[...getRegimeKeys('volatility'), ...getRegimeKeys('trend')].map(key => (
+                  <option key={key} value={key}>{getRegimeLabel(key)}</option>
+                ))}
+              </select>
+            </label>
+          )}
+          <label className="flex items-center space-x-2 text-sm text-gray-600 dark:text-gray-400">
+            <span>Correction</span>
+            <select
+              value={correction}
+              onChange={(e) => setCorrection(e.target.value as MultipleComparisonCorrection)}
+              aria-label="Multiple-comparison correction"
+              className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+            >
+              {(Object.keys(MULTIPLE_COMPARISON_CORRECTIONS) as MultipleComparisonCorrection[]).map(key => (
+                <option key={key} value={key}>{MULTIPLE_COMPARISON_CORRECTIONS[key]}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+      </div>
+
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        {report.sampleSize} candles{regime !== 'all' && ` in the ${getRegimeLabel(regime).toLowerCase()} regime`} · overall mean {formatPercent(report.overallMean)} · each bucket is tested against all other candles;
+        highlighted rows have an adjusted p-value below {alpha}
+      </p>
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs uppercase tracking-wide text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-600">
+              <th className="py-2 pr-3">{SEASONALITY_DIMENSIONS[dimension].label}</th>
+              <th className="py-2 pr-3 text-right">N</th>
+              <th className="py-2 pr-3 text-right">Mean</th>
+              <th className="py-2 pr-3 text-right">Median</th>
+              <th className="py-2 pr-3 text-right">Hit rate</th>
+              <th className="py-2 pr-3 text-right">Volatility</th>
+              <th className="py-2 pr-3 text-right">95% CI (bootstrap)</th>
+              <th className="py-2 pr-3 text-right">t</th>
+              <th className="py-2 pr-3 text-right">Effect (d)</th>
+              <th className="py-2 pr-3 text-right">p</th>
+              <th className="py-2 text-right">Adjusted p</th>
+            </tr>
+          </thead>
+          <tbody>
+            {report.buckets.map(bucket => (
+              <tr
+                key={bucket.key}
+                className={`border-b border-gray-100 dark:border-gray-700 ${
+                  bucket.significant ? 'bg-blue-50 dark:bg-blue-900/20 font-medium' : ''
+                } text-gray-900 dark:text-white`}
+              >
+                <td className="py-1.5 pr-3">{bucket.label}</td>
+                <td className="py-1.5 pr-3 text-right">{bucket.count}</td>
+                <td className={`py-1.5 pr-3 text-right ${bucket.meanReturn >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                  {formatPercent(bucket.meanReturn)}
+                </td>
+                <td className="py-1.5 pr-3 text-right">{formatPercent(bucket.medianReturn)}</td>
+                <td className="py-1.5 pr-3 text-right">{(bucket.hitRate * 100).toFixed(0)}%</td>
+                <td className="py-1.5 pr-3 text-right">{bucket.volatility.toFixed(2)}%</td>
+                <td className="py-1.5 pr-3 text-right whitespace-nowrap">
+                  {bucket.confidenceInterval
+                    ? `${formatPercent(bucket.confidenceInterval[0])} to ${formatPercent(bucket.confidenceInterval[1])}`
+                    : '–'}
+                </td>
+                <td className="py-1.5 pr-3 text-right">{bucket.tStat === null ? '–' : bucket.tStat.toFixed(2)}</td>
+                <td className="py-1.5 pr-3 text-right">{bucket.effectSize === null ? '–' : bucket.effectSize.toFixed(2)}</td>
+                <td className="py-1.5 pr-3 text-right">{formatPValue(bucket.pValue)}</td>
+                <td className="py-1.5 text-right">{formatPValue(bucket.adjustedPValue)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default SeasonalityReportTable;
@@ -0,0 +1,26 @@
+'use client';
+
+import React from 'react';
+import { SYNTHETIC_WATERMARK } from '@/utils/dataSource';
+
+/**
+ * Synthetic Data Watermark
+ *
+ * Diagonal overlay marking a chart or panel as built from generated data.
+ * Place inside a relatively positioned container; it does not block pointer events.
+ */
+const SyntheticWatermark: React.FC = () => {
+  return (
+    <div
+      className="absolute inset-0 z-10 flex items-center justify-center overflow-hidden pointer-events-none select-none"
+      aria-hidden="true"
+      data-testid="synthetic-watermark"
+    >
+      <span className="-rotate-12 whitespace-nowrap text-2xl sm:text-4xl font-extrabold tracking-widest text-red-600/20 dark:text-red-400/20">
+        {SYNTHETIC_WATERMARK}
+      </span>
+    </div>
+  );
+};
+
+export default SyntheticWatermark;
@@ -0,0 +1,222 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { ProcessedDayData, YearOverYearAlignment, YearOverYearAnchor } from '@/types';
+import { ComposedChart, Line, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { MONTH_NAMES, getDaysInMonth } from '@/utils/calendarMath';
+import {
+  DEFAULT_YEAR_OVER_YEAR_ANCHOR, YEAR_OVER_YEAR_ALIGNMENTS, buildYearOverYear, getYearOverYearLabel,
+} from '@/utils/seasonality';
+import SyntheticWatermark from './SyntheticWatermark';
+
+export interface YearOverYearSource {
+  key: string;
+  label: string;             // e.g. "BTCUSDT (1d)"
+  data: ProcessedDayData[];
+  synthetic?: boolean;       // Generated data; the chart is watermarked while it is shown
+}
+
+interface YearOverYearChartProps {
+  sources: YearOverYearSource[];  // Symbols that can be overlaid; the first is shown initially
+  providerName?: string;          // Provider the candles were loaded from
+}
+
+const YEAR_COLORS = ['#3b82f6', '#ef4444', '#10b981', '#f59e0b', '#8b5cf6', '#06b6d4', '#ec4899', '#84cc16'];
+const AVERAGE_COLOR = '#111827';
+const BAND_COLOR = '#9ca3af';
+
+const tooltipStyle = { backgroundColor: '#1f2937', border: 'none', borderRadius: '8px', color: '#f9fafb' };
+
+const formatPercent = (value: number) => `${value >= 0 ? '+' : ''}${value.toFixed(2)}%`;
+
+/**
+ * Year-over-Year Chart
+ *
+ * One line per year of a single symbol, each rebased to 0% at the anchor date
+ * and lined up by calendar day or trading day, with the average of the
+ * complete years and their min/max band. Clicking a year in the legend hides
+ * or shows its line.
+ */
+const YearOverYearChart: React.FC<YearOverYearChartProps> = ({ sources, providerName }) => {
+  const [sourceKey, setSourceKey] = useState(sources[0]?.key ?? '');
+  const [alignment, setAlignment] = useState<YearOverYearAlignment>('dayOfYear');
+  const [anchor, setAnchor] = useState<YearOverYearAnchor>(DEFAULT_YEAR_OVER_YEAR_ANCHOR);
+  const [hiddenYears, setHiddenYears] = useState<number[]>([]);
+
+  const source = sources.find(s => s.key === sourceKey) ?? sources[0];
+  const overlay = useMemo(
+    () => buildYearOverYear(source?.data ?? [], alignment, anchor),
+    [source, alignment, anchor]
+  );
+
+  const chartData = useMemo(() => overlay.rows.map(row => {
+    const point: Record<string, string | number | [number, number] | null> = {
+      label: getYearOverYearLabel(row.position, alignment, anchor),
+      average: row.average,
+      band: row.min !== null && row.max !== null ? [row.min, row.max] : null,
+    };
+    Object.entries(row.returns).forEach(([year, value]) => {
+      point[`y${year}`] = value;
+    });
+    return point;
+  }), [overlay, alignment, anchor]);
+
+  const toggleYear = (year: number) => {
+    setHiddenYears(prev => prev.includes(year) ? prev.filter(y => y !== year) : [...prev, year]);
+  };
+
+  const selectClass = 'px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white';
+  const completeYears = overlay.series.filter(line => !line.partial).length;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-3 text-sm text-gray-600 dark:text-gray-400">
+        <select
+          value={source?.key ?? ''}
+          onChange={(e) => setSourceKey(e.target.value)}
+          aria-label="Year-over-year symbol"
+          className={selectClass}
+        >
+          {sources.map(s => (
+            <option key={s.key} value={s.key}>{s.label}</option>
+          ))}
+        </select>
+
+        <div className="flex rounded-lg border border-gray-300 dark:border-gray-600 overflow-hidden" role="group" aria-label="Align years by">
+          {(Object.keys(YEAR_OVER_YEAR_ALIGNMENTS) as YearOverYearAlignment[]).map(key => (
+            <button
+              key={key}
+              onClick={() => setAlignment(key)}
+              aria-pressed={alignment === key}
+              title={YEAR_OVER_YEAR_ALIGNMENTS[key].description}
+              className={`px-3 py-1 text-sm font-medium transition-colors ${
+                alignment === key
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-600'
+              }`}
+            >
+              {YEAR_OVER_YEAR_ALIGNMENTS[key].label}
+            </button>
+          ))}
+        </div>
+
+        <label className="flex items-center space-x-2">
+          <span>Years start on</span>
+          <select
+            value={anchor.month}
+            onChange={(e) => setAnchor({ ...anchor, month: Number(e.target.value) })}
+            aria-label="Anchor month"
+            className={selectClass}
+          >
+            {MONTH_NAMES.map((name, index) => (
+              <option key={name} value={index + 1}>{name}</option>
+            ))}
+          </select>
+          <input
+            type="number"
+            min={1}
+            max={getDaysInMonth(2001, anchor.month)}
+            value={anchor.day}
+            onChange={(e) => {
+              const day = Math.round(Number(e.target.value));
+              if (day >= 1 && day <= 31) setAnchor({ ...anchor, day });
+            }}
+            aria-label="Anchor day"
+            className={`${selectClass} w-16`}
+          />
+        </label>
+
+        {providerName && <span className="ml-auto">Source: {providerName}</span>}
+      </div>
+
+      {overlay.series.length === 0 ? (
+        <p className="text-center py-8 text-gray-500 dark:text-gray-400">No data to compare across years</p>
+      ) : (
+        <>
+          <div className="relative h-80">
+            {source?.synthetic && <SyntheticWatermark />}
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart data={chartData} margin={{ top: 16, right: 16, left: 0, bottom: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="label" minTickGap={24} />
+                <YAxis tickFormatter={(value: number) => `${value.toFixed(0)}%`} />
+                <Tooltip
+                  contentStyle={tooltipStyle}
+                  formatter={(value: number | [number, number], name: string) => [
+                    Array.isArray(value) ? `${formatPercent(value[0])} to ${formatPercent(value[1])}` : formatPercent(value),
+                    name,
+                  ]}
+                />
+                <Area
+                  type="monotone"
+                  dataKey="band"
+                  name="Min/max"
+                  stroke="none"
+                  fill={BAND_COLOR}
+                  fillOpacity={0.25}
+                  isAnimationActive={false}
+                />
+                {overlay.series
+                  .filter(line => !hiddenYears.includes(line.year))
+                  .map(line => (
+                    <Line
+                      key={line.year}
+                      type="monotone"
+                      dataKey={`y${line.year}`}
+                      name={line.year.toString()}
+                      stroke={YEAR_COLORS[overlay.series.indexOf(line) % YEAR_COLORS.length]}
+                      strokeWidth={1.5}
+                      strokeDasharray={line.partial ? '4 4' : undefined}
+                      dot={false}
+                      connectNulls
+                      isAnimationActive={false}
+                    />
+                  ))}
+                <Line
+                  type="monotone"
+                  dataKey="average"
+                  name="Average year"
+                  stroke={AVERAGE_COLOR}
+                  strokeWidth={3}
+                  dot={false}
+                  connectNulls
+                  isAnimationActive={false}
+                />
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            {overlay.series.map((line, index) => {
+              const last = line.points[line.points.length - 1];
+              const color = YEAR_COLORS[index % YEAR_COLORS.length];
+              return (
+                <button
+                  key={line.year}
+                  onClick={() => toggleYear(line.year)}
+                  aria-pressed={!hiddenYears.includes(line.year)}
+                  title={line.partial ? 'Starts after the anchor date, so it is left out of the average' : undefined}
+                  className={`flex items-center space-x-2 px-3 py-1 rounded-full text-sm ${
+                    hiddenYears.includes(line.year) ? 'opacity-40' : ''
+                  }`}
+                  style={{ backgroundColor: color + '20', color }}
+                >
+                  <span className="w-3 h-3 rounded-full" style={{ backgroundColor: color }} />
+                  <span>{line.year}{line.partial && ' (partial)'}</span>
+                  <span className="text-xs opacity-75">{formatPercent(last.cumulativeReturn)}</span>
+                </button>
+              );
+            })}
+          </div>
+
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Average and min/max band over {completeYears} complete {completeYears === 1 ? 'year' : 'years'};
+            dashed lines start after the anchor date
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default YearOverYearChart;
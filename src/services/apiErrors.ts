@@ -0,0 +1,172 @@
+import { MarketDataErrorKind } from '@/types';
+
+// Binance error code returned with HTTP 400 for an unknown trading pair
+const BINANCE_INVALID_SYMBOL_CODE = -1121;
+
+/**
+ * Base class for every failure of a market data request
+ * `retryable` tells the retry policy whether repeating the request can help.
+ */
+export class MarketDataError extends Error {
+  readonly kind: MarketDataErrorKind;
+  readonly retryable: boolean;
+  readonly status?: number;
+
+  constructor(kind: MarketDataErrorKind, message: string, retryable: boolean, status?: number) {
+    super(message);
+    this.name = 'MarketDataError';
+    this.kind = kind;
+    this.retryable = retryable;
+    this.status = status;
+  }
+}
+
+/**
+ * Request weight or order limit exceeded (HTTP 429, or 418 once the IP is banned)
+ */
+export class RateLimitError extends MarketDataError {
+  readonly retryAfterMs: number;
+
+  constructor(message: string, retryAfterMs: number, status: number = 429) {
+    super('rate-limited', message, true, status);
+    this.name = 'RateLimitError';
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/**
+ * The exchange does not know the requested trading pair
+ */
+export class InvalidSymbolError extends MarketDataError {
+  readonly symbol?: string;
+
+  constructor(message: string, symbol?: string, status: number = 400) {
+    super('invalid-symbol', message, false, status);
+    this.name = 'InvalidSymbolError';
+    this.symbol = symbol;
+  }
+}
+
+/**
+ * The request never got a response (offline, DNS, CORS, timeout)
+ */
+export class NetworkError extends MarketDataError {
+  constructor(message: string) {
+    super('network', message, true);
+    this.name = 'NetworkError';
+  }
+}
+
+/**
+ * The exchange answered with an error status
+ * 5xx responses are retried; other rejected requests are not.
+ */
+export class ServerError extends MarketDataError {
+  constructor(message: string, status: number) {
+    super('server', message, status >= 500, status);
+    this.name = 'ServerError';
+  }
+}
+
+/**
+ * The response arrived but did not have the expected shape
+ */
+export class ParseError extends MarketDataError {
+  constructor(message: string) {
+    super('parse', message, false);
+    this.name = 'ParseError';
+  }
+}
+
+interface HttpErrorLike {
+  message?: string;
+  code?: string;
+  name?: string;
+  response?: {
+    status: number;
+    headers?: Record<string, string | undefined>;
+    data?: { code?: number; msg?: string } | unknown;
+  };
+}
+
+/**
+ * Check whether an error comes from an aborted request
+ * Aborts are not failures and must never be retried or reported.
+ * @param error - Caught error
+ * @returns boolean - True for AbortError / axios cancellation
+ */
+export const isAbortError = (error: unknown): boolean => {
+  const { name, code } = (error ?? {}) as HttpErrorLike;
+  return name === 'AbortError' || name === 'CanceledError' || code === 'ERR_CANCELED';
+};
+
+/**
+ * Parse a Retry-After header value
+ * @param value - Header value in seconds (Binance) or an HTTP date
+ * @returns number - Delay in milliseconds (0 when missing or unparseable)
+ */
+export const parseRetryAfter = (value: string | undefined): number => {
+  if (!value) return 0;
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? 0 : Math.max(0, date - Date.now());
+};
+
+/**
+ * Classify a failed HTTP request into the typed error hierarchy
+ * @param error - Error thrown by the HTTP client
+ * @param context - What was being requested, used in the error message
+ * @param symbol - Trading pair of the request, when there is one
+ * @returns MarketDataError - Typed error (passed through if already typed)
+ */
+export const toMarketDataError = (error: unknown, context: string, symbol?: string): MarketDataError => {
+  if (error instanceof MarketDataError) return error;
+
+  const { response, message } = (error ?? {}) as HttpErrorLike;
+  if (!response) {
+    return new NetworkError(`${context}: ${message || 'network request failed'}`);
+  }
+
+  const { status, headers = {}, data } = response;
+  const body = (data ?? {}) as { code?: number; msg?: string };
+  const detail = body.msg || message || `HTTP ${status}`;
+
+  if (status === 429 || status === 418) {
+    return new RateLimitError(`${context}: ${detail}`, parseRetryAfter(headers['retry-after']), status);
+  }
+  if (status === 400 && (body.code === BINANCE_INVALID_SYMBOL_CODE || /invalid symbol/i.test(detail))) {
+    return new InvalidSymbolError(`${context}: ${symbol ? `${symbol} is not a valid symbol` : detail}`, symbol, status);
+  }
+  return new ServerError(`${context}: ${detail}`, status);
+};
+
+/**
+ * Describe an error for display, naming the provider and what the user can do
+ * @param error - Caught error
+ * @param providerName - Name of the provider that failed
+ * @returns { title: string; message: string } - Heading and explanation
+ */
+export const describeMarketDataError = (error: unknown, providerName: string): { title: string; message: string } => {
+  if (error instanceof RateLimitError) {
+    const wait = error.retryAfterMs > 0 ? ` Try again in ${Math.ceil(error.retryAfterMs / 1000)}s.` : ' Try again shortly.';
+    return { title: 'Rate limited', message: `${providerName} is rate limiting requests.${wait}` };
+  }
+  if (error instanceof InvalidSymbolError) {
+    return {
+      title: 'Invalid symbol',
+      message: `${error.symbol ?? 'This symbol'} is not available on ${providerName}. Choose another symbol.`,
+    };
+  }
+  if (error instanceof NetworkError) {
+    return { title: 'Network unavailable', message: `Could not reach ${providerName}. Check your connection and retry.` };
+  }
+  if (error instanceof ServerError) {
+    return { title: 'Server error', message: `${providerName} returned an error (HTTP ${error.status}).` };
+  }
+  if (error instanceof ParseError) {
+    return { title: 'Unexpected response', message: `${providerName} returned data in an unexpected format.` };
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  return { title: 'Failed to load market data', message: `${providerName}: ${message}` };
+};
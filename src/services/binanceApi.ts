@@ -1,22 +1,86 @@
-import axios from 'axios';
-import { KlineData, OrderBookData, MarketMetrics, ProcessedDayData, WebSocketMessage, HistoricalPattern, PatternDetection } from '@/types';
+import { AnalysisTimeSettings, IndicatorSettings, KlineData, OrderBookData, MarketMetrics, ProcessedDayData, RequestPriority, RequestWeightStatus, StreamConfig, StreamHealth, StreamSubscription, WebSocketMessage, HistoricalPattern, CycleSeries, PatternDetection, SeasonalityDimension } from '@/types';
+import { CYCLE_SERIES, buildCycleReport } from '@/utils/cycles';
+import { DEFAULT_INDICATOR_SETTINGS, IndicatorStream, createIndicatorStream, withoutIndicators } from '@/utils/indicators';
+import { getTradingSession } from '@/utils/intraday';
+import { buildRegimeStats, buildRegimeTransitions, detectRegimes, getRegimeKeys, getRegimeLabel, indexRegimes } from '@/utils/regimes';
+import { buildSeasonalityReport, formatPValue, getSeasonalityKey } from '@/utils/seasonality';
+import { DEFAULT_ANALYSIS_TIME, getCalendarFields } from '@/utils/timezone';
+import { ParseError } from './apiErrors';
+import { BaseMarketDataProvider } from './marketDataProvider';
+import { RequestScheduler } from './requestScheduler';
+import { StreamManager } from './streamManager';
 
 // Base URL for Binance REST API
 const BINANCE_BASE_URL = 'https://api.binance.com/api/v3';
 
+// Combined market stream endpoint; frames arrive as { stream, data }
+const STREAM_URL = 'wss://stream.binance.com:9443/stream';
+
+// Request weight Binance allows per IP per minute
+const REQUEST_WEIGHT_LIMIT_1M = 6000;
+
+// Share of the limit this client spends, leaving headroom for other tabs on the same IP
+const REQUEST_WEIGHT_BUDGET = 0.8;
+
+// Request weights from the Binance REST API documentation
+const EXCHANGE_INFO_WEIGHT = 20;
+const TICKER_24HR_WEIGHT = 2;
+
+/**
+ * Weight of a /klines request, which grows with the page size
+ * @param limit - Candles requested
+ * @returns number - Request weight
+ */
+const getKlinesWeight = (limit: number): number => {
+  if (limit < 100) return 1;
+  if (limit < 500) return 2;
+  if (limit <= 1000) return 5;
+  return 10;
+};
+
+/**
+ * Weight of a /depth request, which grows with the number of levels
+ * @param limit - Order book levels requested
+ * @returns number - Request weight
+ */
+const getDepthWeight = (limit: number): number => {
+  if (limit <= 100) return 5;
+  if (limit <= 500) return 25;
+  if (limit <= 1000) return 50;
+  return 250;
+};
+
+// Raw /klines row: open time, OHLCV, close time, quote volume, trades, taker buy volumes
+type BinanceRawKline = [number, string, string, string, string, string, number, string, number, string, string];
+
+// Fields of an /exchangeInfo symbol entry used to build the symbol list
+interface BinanceSymbolInfo {
+  symbol: string;
+  status: string;
+  quoteAsset: string;
+  isSpotTradingAllowed: boolean;
+}
+
 /**
  * Binance API Service
  * 
  * Provides comprehensive integration with Binance REST API and WebSocket streams.
  * Handles market data fetching, real-time updates, technical analysis, and pattern detection.
+ * Acts as the Binance adapter of the MarketDataProvider contract.
  * Implements singleton pattern for efficient resource management.
  */
-export class BinanceApiService {
+export class BinanceApiService extends BaseMarketDataProvider {
+  readonly id = 'binance';
+  readonly name = 'Binance';
+
   private static instance: BinanceApiService;
-  private ws: WebSocket | null = null;
-  private reconnectAttempts = 0;
-  private maxReconnectAttempts = 5;
-  private reconnectDelay = 1000;
+  private streams = new StreamManager({ url: STREAM_URL });
+  private klineStreamUnsubscribes: (() => void)[] = [];
+  private requestWeight: RequestWeightStatus | null = null;
+  private weightListeners = new Set<(status: RequestWeightStatus) => void>();
+  // Indicator state after a candle, so a streamed candle only costs one step
+  private indicatorStates = new WeakMap<ProcessedDayData, IndicatorStream>();
+  protected scheduler = new RequestScheduler({ weightPerWindow: REQUEST_WEIGHT_LIMIT_1M * REQUEST_WEIGHT_BUDGET });
 
   /**
    * Get singleton instance of BinanceApiService
@@ -31,348 +95,418 @@ export class BinanceApiService {
   }
 
   /**
-   * Fetch historical kline (candlestick) data from Binance API
-   * @param symbol - Trading pair symbol (e.g., 'BTCUSDT')
-   * @param interval - Time interval (e.g., '1d', '1h', '1m')
+   * Fetch a single page of klines from Binance, propagating errors to the caller
+   * @param symbol - Trading pair symbol
+   * @param interval - Time interval
    * @param startTime - Start time in milliseconds (optional)
    * @param endTime - End time in milliseconds (optional)
-   * @param limit - Maximum number of klines to return (default: 1000)
+   * @param limit - Maximum number of klines to return
+   * @param signal - Optional abort signal forwarded to the HTTP client
+   * @param priority - Scheduling priority (default 'foreground')
    * @returns Promise<KlineData[]> - Array of kline data
    */
-  async getKlineData(
+  protected async fetchKlineChunk(
     symbol: string,
     interval: string,
     startTime?: number,
     endTime?: number,
-    limit: number = 1000
+    limit: number = 1000,
+    signal?: AbortSignal,
+    priority?: RequestPriority
   ): Promise<KlineData[]> {
-    try {
-      // Prepare query parameters
-      const params: Record<string, string | number> = {
-        symbol,
-        interval,
-        limit,
-      };
-
-      if (startTime) params.startTime = startTime;
-      if (endTime) params.endTime = endTime;
-
-      // Fetch data from Binance API
-      const response = await axios.get(`${BINANCE_BASE_URL}/klines`, { params });
-      
-      // Transform raw array data into structured objects
-      return response.data.map((kline: (string | number)[]) => ({
-        openTime: kline[0],           // Open time in milliseconds
-        open: kline[1],               // Open price
-        high: kline[2],               // High price
-        low: kline[3],                // Low price
-        close: kline[4],              // Close price
-        volume: kline[5],             // Volume
-        closeTime: kline[6],          // Close time in milliseconds
-        quoteAssetVolume: kline[7],   // Quote asset volume
-        numberOfTrades: kline[8],     // Number of trades
-        takerBuyBaseAssetVolume: kline[9],    // Taker buy base asset volume
-        takerBuyQuoteAssetVolume: kline[10],  // Taker buy quote asset volume
-      }));
-    } catch (error) {
-      console.error('Error fetching kline data:', error);
-      return [];
+    // Prepare query parameters
+    const params: Record<string, string | number> = {
+      symbol,
+      interval,
+      limit,
+    };
+
+    if (startTime) params.startTime = startTime;
+    if (endTime) params.endTime = endTime;
+
+    // Fetch data from Binance API
+    const data = await this.request<BinanceRawKline[]>(`${BINANCE_BASE_URL}/klines`, 'Fetching klines', {
+      params,
+      signal,
+      symbol,
+      weight: getKlinesWeight(limit),
+      priority,
+    });
+    if (!Array.isArray(data)) {
+      throw new ParseError('Fetching klines: expected an array of klines');
     }
+
+    // Transform raw array data into structured objects
+    return data.map((kline: BinanceRawKline) => ({
+      openTime: kline[0],           // Open time in milliseconds
+      open: kline[1],               // Open price
+      high: kline[2],               // High price
+      low: kline[3],                // Low price
+      close: kline[4],              // Close price
+      volume: kline[5],             // Volume
+      closeTime: kline[6],          // Close time in milliseconds
+      quoteAssetVolume: kline[7],   // Quote asset volume
+      numberOfTrades: kline[8],     // Number of trades
+      takerBuyBaseAssetVolume: kline[9],    // Taker buy base asset volume
+      takerBuyQuoteAssetVolume: kline[10],  // Taker buy quote asset volume
+    }));
   }
 
   /**
    * Fetch order book data for a trading pair
    * @param symbol - Trading pair symbol
    * @param limit - Number of order book entries (default: 100)
-   * @returns Promise<OrderBookData | null> - Order book data or null if error
+   * @returns Promise<OrderBookData | null> - Order book data
+   * @throws MarketDataError - Typed error once retries are exhausted
    */
   async getOrderBook(symbol: string, limit: number = 100): Promise<OrderBookData | null> {
-    try {
-      const response = await axios.get(`${BINANCE_BASE_URL}/depth`, {
-        params: { symbol, limit },
-      });
-
-      return {
-        symbol,
-        bids: response.data.bids,      // Buy orders
-        asks: response.data.asks,      // Sell orders
-        lastUpdateId: response.data.lastUpdateId,
-      };
-    } catch (error) {
-      console.error('Error fetching order book:', error);
-      return null;
+    const data = await this.request<{ bids?: [string, string][]; asks?: [string, string][]; lastUpdateId: number }>(
+      `${BINANCE_BASE_URL}/depth`,
+      'Fetching order book',
+      { params: { symbol, limit }, symbol, weight: getDepthWeight(limit) }
+    );
+    if (!Array.isArray(data?.bids) || !Array.isArray(data?.asks)) {
+      throw new ParseError('Fetching order book: missing bids or asks');
     }
+
+    return {
+      symbol,
+      bids: data.bids,      // Buy orders
+      asks: data.asks,      // Sell orders
+      lastUpdateId: data.lastUpdateId,
+    };
   }
 
   /**
    * Fetch 24-hour ticker statistics for a trading pair
    * @param symbol - Trading pair symbol
-   * @returns Promise<MarketMetrics | null> - Market metrics or null if error
+   * @returns Promise<MarketMetrics | null> - Market metrics
+   * @throws MarketDataError - Typed error once retries are exhausted
    */
   async get24hrTicker(symbol: string): Promise<MarketMetrics | null> {
-    try {
-      const response = await axios.get(`${BINANCE_BASE_URL}/ticker/24hr`, {
-        params: { symbol },
-      });
-
-      const data = response.data;
-      return {
-        symbol: data.symbol,
-        price: parseFloat(data.lastPrice),           // Current price
-        priceChange: parseFloat(data.priceChange),   // Price change
-        priceChangePercent: parseFloat(data.priceChangePercent), // Price change percentage
-        volume: parseFloat(data.volume),             // 24h volume
-        high: parseFloat(data.highPrice),            // 24h high
-        low: parseFloat(data.lowPrice),              // 24h low
-        open: parseFloat(data.openPrice),            // 24h open
-        close: parseFloat(data.lastPrice),           // Current close
-      };
-    } catch (error) {
-      console.error('Error fetching 24hr ticker:', error);
-      return null;
+    const data = await this.request<Record<string, string>>(`${BINANCE_BASE_URL}/ticker/24hr`, 'Fetching 24hr ticker', {
+      params: { symbol },
+      symbol,
+      weight: TICKER_24HR_WEIGHT,
+    });
+    if (!data || data.lastPrice === undefined) {
+      throw new ParseError('Fetching 24hr ticker: missing lastPrice');
     }
+
+    return {
+      symbol: data.symbol,
+      price: parseFloat(data.lastPrice),           // Current price
+      priceChange: parseFloat(data.priceChange),   // Price change
+      priceChangePercent: parseFloat(data.priceChangePercent), // Price change percentage
+      volume: parseFloat(data.volume),             // 24h volume
+      high: parseFloat(data.highPrice),            // 24h high
+      low: parseFloat(data.lowPrice),              // 24h low
+      open: parseFloat(data.openPrice),            // 24h open
+      close: parseFloat(data.lastPrice),           // Current close
+    };
   }
 
   /**
    * Fetch available trading symbols from Binance
    * @returns Promise<string[]> - Array of trading symbols
+   * @throws MarketDataError - Typed error once retries are exhausted
    */
   async getSymbols(): Promise<string[]> {
-    try {
-      const response = await axios.get(`${BINANCE_BASE_URL}/exchangeInfo`);
-      
-      // Filter for USDT pairs and extract symbols
-      return response.data.symbols
-        .filter((symbol: any) => 
-          symbol.status === 'TRADING' && 
-          symbol.quoteAsset === 'USDT' &&
-          symbol.isSpotTradingAllowed
-        )
-        .map((symbol: any) => symbol.symbol)
-        .slice(0, 50); // Limit to top 50 for performance
-    } catch (error) {
-      console.error('Error fetching symbols:', error);
-      return ['BTCUSDT', 'ETHUSDT', 'BNBUSDT', 'ADAUSDT', 'DOTUSDT'];
+    const data = await this.request<{ symbols?: BinanceSymbolInfo[] }>(`${BINANCE_BASE_URL}/exchangeInfo`, 'Fetching symbols', {
+      weight: EXCHANGE_INFO_WEIGHT,
+    });
+    if (!Array.isArray(data?.symbols)) {
+      throw new ParseError('Fetching symbols: missing symbol list');
     }
+
+    // Filter for USDT pairs and extract symbols
+    return data.symbols
+      .filter(symbol =>
+        symbol.status === 'TRADING' &&
+        symbol.quoteAsset === 'USDT' &&
+        symbol.isSpotTradingAllowed
+      )
+      .map(symbol => symbol.symbol)
+      .slice(0, 50); // Limit to top 50 for performance
+  }
+
+  /**
+   * Get the request weight Binance reported on the latest response
+   * @returns RequestWeightStatus | null - Used and allowed weight, or null before the first request
+   */
+  getRequestWeight(): RequestWeightStatus | null {
+    return this.requestWeight;
+  }
+
+  /**
+   * Subscribe to request weight updates
+   * @param listener - Called whenever a response reports a new weight
+   * @returns () => void - Unsubscribe function
+   */
+  onRequestWeightChange(listener: (status: RequestWeightStatus) => void): () => void {
+    this.weightListeners.add(listener);
+    return () => {
+      this.weightListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Record the x-mbx-used-weight-1m header Binance sends with every response
+   * @param headers - Response headers
+   */
+  protected onResponseHeaders(headers: Record<string, string | undefined>) {
+    const used = Number(headers['x-mbx-used-weight-1m']);
+    if (headers['x-mbx-used-weight-1m'] === undefined || Number.isNaN(used)) return;
+
+    const status = { used, limit: REQUEST_WEIGHT_LIMIT_1M, updatedAt: Date.now() };
+    this.requestWeight = status;
+    this.scheduler.syncUsedWeight(used);
+    this.weightListeners.forEach(listener => listener(status));
   }
 
   /**
    * Process raw kline data into structured market data with calculated metrics
+   * Calendar fields follow the trading day in the analysis timezone; see
+   * applyTimeSettings to regroup processed data without fetching it again
    * @param klineData - Raw kline data from API
+   * @param settings - Analysis timezone and day start (UTC days by default)
    * @returns ProcessedDayData[] - Processed market data with additional metrics
    */
-  processKlineData(klineData: KlineData[]): ProcessedDayData[] {
-    return klineData.map((kline, index) => {
-      const open = parseFloat(kline.open);
-      const high = parseFloat(kline.high);
-      const low = parseFloat(kline.low);
-      const close = parseFloat(kline.close);
-      const volume = parseFloat(kline.volume);
-      const date = new Date(kline.openTime);
-
-      // Calculate volatility as percentage of price range
-      const volatility = ((high - low) / open) * 100;
-      
-      // Calculate performance as percentage change
-      const performance = ((close - open) / open) * 100;
-      
-      // Calculate liquidity score (0-1) based on volume
-      const liquidity = Math.min(volume / 1000000, 1); // Normalize to 0-1 scale
-
-      return {
-        date,
-        open,
-        high,
-        low,
-        close,
-        volume,
-        volatility,
-        performance,
-        liquidity,
-        dayOfWeek: date.getDay(),
-        weekOfYear: this.getWeekOfYear(date),
-        monthOfYear: date.getMonth() + 1
-      };
+  processKlineData(klineData: KlineData[], settings: AnalysisTimeSettings = DEFAULT_ANALYSIS_TIME): ProcessedDayData[] {
+    return klineData.map(kline => this.processCandle(kline.openTime, {
+      open: parseFloat(kline.open),
+      high: parseFloat(kline.high),
+      low: parseFloat(kline.low),
+      close: parseFloat(kline.close),
+      volume: parseFloat(kline.volume),
+      quoteVolume: parseFloat(kline.quoteAssetVolume),
+      trades: Number(kline.numberOfTrades),
+      takerBuyVolume: parseFloat(kline.takerBuyBaseAssetVolume),
+      takerBuyQuoteVolume: parseFloat(kline.takerBuyQuoteAssetVolume),
+    }, settings));
+  }
+
+  /**
+   * Calculate technical indicators for market data
+   * Runs one incremental pass over the candles. The state after the last two
+   * candles is kept so streamed candles can be merged in one step.
+   * @param data - Processed market data, oldest first
+   * @param settings - Indicator periods
+   * @returns ProcessedDayData[] - Data with technical indicators added
+   */
+  calculateTechnicalIndicators(
+    data: ProcessedDayData[],
+    settings: IndicatorSettings = DEFAULT_INDICATOR_SETTINGS
+  ): ProcessedDayData[] {
+    const stream = createIndicatorStream(settings);
+    const result = data.map(day => withoutIndicators(day));
+
+    result.forEach((day, index) => {
+      result[index] = { ...day, ...stream.next(day) };
+      if (index >= result.length - 2) this.indicatorStates.set(result[index], stream.fork());
     });
+    return result;
   }
 
   /**
-   * Calculate week of year for a given date
-   * @param date - Date to calculate week for
-   * @returns number - Week of year (1-53)
+   * Merge a streamed kline into processed market data
+   * A message for the last candle replaces it in place and a message for a
+   * newer candle is appended. Only the merged candle's metrics and indicators
+   * are recomputed; earlier candles are unchanged.
+   * @param data - Processed market data, oldest first
+   * @param message - Kline stream message for the same symbol and interval
+   * @param settings - Indicator periods the data was calculated with
+   * @returns ProcessedDayData[] - Updated copy, or the same array when there is nothing to merge into or the message is older than the last candle
    */
-  private getWeekOfYear(date: Date): number {
-    const startOfYear = new Date(date.getFullYear(), 0, 1);
-    const days = Math.floor((date.getTime() - startOfYear.getTime()) / (24 * 60 * 60 * 1000));
-    return Math.ceil((days + startOfYear.getDay() + 1) / 7);
+  mergeStreamedCandle(
+    data: ProcessedDayData[],
+    message: WebSocketMessage,
+    settings: IndicatorSettings = DEFAULT_INDICATOR_SETTINGS
+  ): ProcessedDayData[] {
+    const last = data[data.length - 1];
+    if (message.type !== 'kline' || !last || message.timestamp < last.date.getTime()) return data;
+
+    const { open, high, low, close, volume, quoteVolume, trades, takerBuyVolume, takerBuyQuoteVolume } = message.data;
+    const candle = this.processCandle(
+      message.timestamp,
+      { open, high, low, close, volume, quoteVolume, trades, takerBuyVolume, takerBuyQuoteVolume },
+      DEFAULT_ANALYSIS_TIME
+    );
+    const merged = message.timestamp === last.date.getTime()
+      ? [...data.slice(0, -1), candle]
+      : [...data, candle];
+
+    const index = merged.length - 1;
+    const stream = this.getIndicatorStream(merged, index, settings);
+    merged[index] = { ...candle, ...stream.next(candle) };
+    this.indicatorStates.set(merged[index], stream);
+    return merged;
   }
 
   /**
-   * Calculate technical indicators for market data
-   * @param data - Processed market data
-   * @returns ProcessedDayData[] - Data with technical indicators added
+   * Get an indicator stream that has consumed the candles before `index`
+   * Uses the state kept for the previous candle, or replays the history when
+   * there is none (or it was calculated with other settings).
+   * @param data - Processed market data, oldest first
+   * @param index - Candle the stream is needed for
+   * @param settings - Indicator periods
+   * @returns IndicatorStream - Stream ready for the candle at `index`
    */
-  calculateTechnicalIndicators(data: ProcessedDayData[]) {
-    if (data.length < 20) return data;
+  private getIndicatorStream(data: ProcessedDayData[], index: number, settings: IndicatorSettings): IndicatorStream {
+    const kept = index > 0 ? this.indicatorStates.get(data[index - 1]) : undefined;
+    if (kept && kept.settings === settings) return kept.fork();
 
-    return data.map((day, index) => {
-      const indicators: any = {};
+    const stream = createIndicatorStream(settings);
+    data.slice(0, index).forEach(day => stream.next(day));
+    return stream;
+  }
 
-      // Calculate Simple Moving Averages (SMA)
-      if (index >= 19) {
-        // 20-day SMA
-        const sma20Data = data.slice(index - 19, index + 1);
-        indicators.sma20 = sma20Data.reduce((sum, d) => sum + d.close, 0) / 20;
-      }
+  /**
+   * Build one processed candle from its open time and OHLCV values
+   * @param openTime - Candle open time in milliseconds
+   * @param values - OHLCV plus the quote volume, trade count and taker buy volumes when known
+   * @param settings - Analysis timezone and day start
+   * @returns ProcessedDayData - Candle with volatility, performance, liquidity and calendar fields
+   */
+  private processCandle(
+    openTime: number,
+    values: Pick<ProcessedDayData, 'open' | 'high' | 'low' | 'close' | 'volume' | 'quoteVolume' | 'trades' | 'takerBuyVolume' | 'takerBuyQuoteVolume'>,
+    settings: AnalysisTimeSettings
+  ): ProcessedDayData {
+    const { open, high, low, close, volume } = values;
+    const date = new Date(openTime);
 
-      if (index >= 49) {
-        // 50-day SMA
-        const sma50Data = data.slice(index - 49, index + 1);
-        indicators.sma50 = sma50Data.reduce((sum, d) => sum + d.close, 0) / 50;
-      }
+    // Calculate volatility as percentage of price range
+    const volatility = ((high - low) / open) * 100;
 
-      // Calculate RSI (Relative Strength Index)
-      if (index >= 14) {
-        const rsiData = data.slice(index - 14, index + 1);
-        let gains = 0;
-        let losses = 0;
-
-        for (let i = 1; i < rsiData.length; i++) {
-          const change = rsiData[i].close - rsiData[i - 1].close;
-          if (change > 0) {
-            gains += change;
-          } else {
-            losses += Math.abs(change);
-          }
-        }
+    // Calculate performance as percentage change
+    const performance = ((close - open) / open) * 100;
 
-        const avgGain = gains / 14;
-        const avgLoss = losses / 14;
-        const rs = avgGain / avgLoss;
-        indicators.rsi = 100 - (100 / (1 + rs));
-      }
+    // Calculate liquidity score (0-1) based on volume
+    const liquidity = Math.min(volume / 1000000, 1); // Normalize to 0-1 scale
 
-      return {
-        ...day,
-        ...indicators
-      };
-    });
+    return {
+      ...values,
+      date,
+      volatility,
+      performance,
+      liquidity,
+      ...getCalendarFields(date, settings),
+      session: getTradingSession(date),
+    };
   }
 
   /**
-   * Connect to Binance WebSocket for real-time data
+   * Stream 1m klines for the given symbols, replacing the previous kline stream
    * @param symbols - Array of trading symbols to subscribe to
    * @param onMessage - Callback function for incoming messages
    */
   connectWebSocket(symbols: string[], onMessage: (message: WebSocketMessage) => void) {
-    if (this.ws) {
-      this.disconnectWebSocket();
-    }
+    this.disconnectWebSocket();
+    this.klineStreamUnsubscribes = symbols.map(symbol => this.streams.subscribe({ symbol, type: 'kline' }, onMessage));
+  }
 
-    // Create WebSocket connection to Binance stream
-    const streams = symbols.map(symbol => `${symbol.toLowerCase()}@kline_1m`).join('/');
-    const wsUrl = `wss://stream.binance.com:9443/ws/${streams}`;
-    
-    this.ws = new WebSocket(wsUrl);
+  /**
+   * Stop the kline stream started by connectWebSocket
+   * The connection closes once no other subscription needs it.
+   */
+  disconnectWebSocket() {
+    this.klineStreamUnsubscribes.forEach(unsubscribe => unsubscribe());
+    this.klineStreamUnsubscribes = [];
+  }
 
-    this.ws.onopen = () => {
-      console.log('WebSocket connected to Binance');
-      this.reconnectAttempts = 0;
-    };
+  /**
+   * Stream real-time klines for the given symbols over the Binance WebSocket
+   * @param symbols - Array of trading symbols to subscribe to
+   * @param onMessage - Callback function for incoming messages
+   */
+  connectStream(symbols: string[], onMessage: (message: WebSocketMessage) => void) {
+    this.connectWebSocket(symbols, onMessage);
+  }
 
-    this.ws.onmessage = (event) => {
-      try {
-        const data = JSON.parse(event.data);
-        
-        // Handle different message types
-        if (data.e === 'kline') {
-          const kline = data.k;
-          const message: WebSocketMessage = {
-            symbol: data.s,
-            eventType: 'kline',
-            data: {
-              open: parseFloat(kline.o),
-              high: parseFloat(kline.h),
-              low: parseFloat(kline.l),
-              close: parseFloat(kline.c),
-              volume: parseFloat(kline.v),
-              timestamp: kline.t
-            }
-          };
-          onMessage(message);
-        }
-      } catch (error) {
-        console.error('Error parsing WebSocket message:', error);
-      }
-    };
+  /**
+   * Stop the real-time stream
+   */
+  disconnectStream() {
+    this.disconnectWebSocket();
+  }
 
-    this.ws.onerror = (error) => {
-      console.error('WebSocket error:', error);
-    };
+  /**
+   * Subscribe to any market stream on the shared connection
+   * @param subscription - Symbol, stream type (kline, trade, aggTrade, miniTicker, bookTicker, depth) and kline interval
+   * @param onMessage - Callback function for incoming messages
+   * @returns () => void - Unsubscribe function
+   */
+  subscribeStream(subscription: StreamSubscription, onMessage: (message: WebSocketMessage) => void): () => void {
+    return this.streams.subscribe(subscription, onMessage);
+  }
 
-    this.ws.onclose = () => {
-      console.log('WebSocket disconnected');
-      
-      // Attempt to reconnect if not at max attempts
-      if (this.reconnectAttempts < this.maxReconnectAttempts) {
-        this.reconnectAttempts++;
-        setTimeout(() => {
-          this.connectWebSocket(symbols, onMessage);
-        }, this.reconnectDelay * this.reconnectAttempts);
-      }
-    };
+  /**
+   * Apply the real-time settings to the stream connection
+   * @param config - Update interval, auto-reconnect and retry limit
+   */
+  setStreamConfig(config: StreamConfig) {
+    this.streams.configure(config);
   }
 
   /**
-   * Disconnect from WebSocket
+   * Get the health of the stream connection
+   * @returns StreamHealth - Connection state, active streams and last message time
    */
-  disconnectWebSocket() {
-    if (this.ws) {
-      this.ws.close();
-      this.ws = null;
-    }
+  getStreamHealth(): StreamHealth {
+    return this.streams.getHealth();
+  }
+
+  /**
+   * Subscribe to stream connection health changes
+   * @param listener - Called whenever the connection state or stream count changes
+   * @returns () => void - Unsubscribe function
+   */
+  onStreamHealthChange(listener: (health: StreamHealth) => void): () => void {
+    return this.streams.onHealthChange(listener);
   }
 
   /**
    * Detect seasonal patterns in market data
-   * Identifies recurring patterns based on time periods (weekly, monthly)
+   * Reports every weekday, month, week-of-year and turn-of-month bucket whose
+   * returns differ from the rest of the sample after multiple-comparison
+   * correction (see buildSeasonalityReport). Confidence is one minus the
+   * adjusted p-value and strength is the effect size, capped at 1.
    * @param data - Market data to analyze
    * @returns HistoricalPattern[] - Array of detected seasonal patterns
    */
   detectSeasonalPatterns(data: ProcessedDayData[]): HistoricalPattern[] {
     const patterns: HistoricalPattern[] = [];
-    
-    // Group data by day of week
-    const weeklyPatterns = new Map<number, ProcessedDayData[]>();
-    data.forEach(day => {
-      if (!weeklyPatterns.has(day.dayOfWeek)) {
-        weeklyPatterns.set(day.dayOfWeek, []);
-      }
-      weeklyPatterns.get(day.dayOfWeek)!.push(day);
-    });
+    if (data.length === 0) return patterns;
 
-    // Analyze weekly patterns
-    let idx = 0;
-    weeklyPatterns.forEach((days, dayOfWeek) => {
-      if (days.length < 5) return; // Need at least 5 data points
+    const dimensions: SeasonalityDimension[] = ['weekday', 'month', 'weekOfYear', 'turnOfMonth'];
+    dimensions.forEach(dimension => {
+      const report = buildSeasonalityReport(data, dimension);
 
-      const avgVolatility = days.reduce((sum, d) => sum + d.volatility, 0) / days.length;
-      const avgPerformance = days.reduce((sum, d) => sum + d.performance, 0) / days.length;
-      const avgVolume = days.reduce((sum, d) => sum + d.volume, 0) / days.length;
+      report.buckets.forEach(bucket => {
+        if (!bucket.significant || bucket.pValue === null || bucket.adjustedPValue === null || bucket.effectSize === null) return;
 
-      // Check for significant patterns
-      if (avgVolatility > 1.5 || avgVolatility < 0.3) {
+        const days = data.filter(day => getSeasonalityKey(day, dimension) === bucket.key);
+        const direction = bucket.meanReturn > report.overallMean ? 'Strong' : 'Weak';
+        const adjustedP = formatPValue(bucket.adjustedPValue);
         patterns.push({
-          id: `seasonal-${dayOfWeek}-${days[0].date.getTime()}-${days[days.length-1].date.getTime()}-${idx++}`,
+          id: `seasonal-${dimension}-${bucket.key}-${days[0].date.getTime()}-${days[days.length - 1].date.getTime()}`,
           type: 'seasonal',
-          name: `High volatility on ${this.getDayName(dayOfWeek)}`,
-          description: `Average volatility of ${avgVolatility.toFixed(2)}% on ${this.getDayName(dayOfWeek)}`,
-          confidence: Math.min(avgVolatility / 2, 1),
+          name: `${direction} returns: ${bucket.label}`,
+          description: `${bucket.label} returns ${bucket.meanReturn >= 0 ? '+' : ''}${bucket.meanReturn.toFixed(2)}% on average vs ${report.overallMean.toFixed(2)}% overall (d = ${bucket.effectSize.toFixed(2)}, adjusted p ${adjustedP.startsWith('<') ? adjustedP : `= ${adjustedP}`})`,
+          confidence: 1 - bucket.adjustedPValue,
           startDate: days[0].date,
           endDate: days[days.length - 1].date,
-          metrics: { volatility: avgVolatility, performance: avgPerformance, volume: avgVolume }
+          frequency: bucket.count,
+          strength: Math.min(Math.abs(bucket.effectSize), 1),
+          metrics: {
+            volatility: bucket.volatility,
+            performance: bucket.meanReturn,
+            volume: days.reduce((sum, day) => sum + day.volume, 0) / days.length
+          },
+          statistics: { effectSize: bucket.effectSize, pValue: bucket.pValue, adjustedPValue: bucket.adjustedPValue }
         });
-      }
+      });
     });
 
     return patterns;
@@ -380,7 +514,12 @@ export class BinanceApiService {
 
   /**
    * Detect cyclical patterns in market data
-   * Identifies repeating cycles in price movements
+   * Reports one pattern per volatility regime the candles spend time in (see
+   * detectRegimes). Confidence is the chance the regime carries on to the next
+   * candle, strength its share of candles, and the dates span its latest spell.
+   * Dominant periods of returns, volatility and volume (see buildCycleReport)
+   * follow, with the period in candles as frequency, confidence one minus the
+   * adjusted p-value and strength the share of variance at that period.
    * @param data - Market data to analyze
    * @returns HistoricalPattern[] - Array of detected cyclical patterns
    */
@@ -389,25 +528,61 @@ export class BinanceApiService {
     
     if (data.length < 30) return patterns; // Need sufficient data
 
-    // Look for cycles in volatility
-    const volatilityValues = data.map(d => d.volatility);
-    const volatilityVariance = this.calculateVariance(volatilityValues);
-    
-    if (volatilityVariance > 0.5) {
-      // High variance indicates cyclical patterns
-      const avgVolatility = volatilityValues.reduce((sum, v) => sum + v, 0) / volatilityValues.length;
-      
+    const points = detectRegimes(data);
+    const regimes = indexRegimes(points);
+    const transitions = buildRegimeTransitions(data, regimes, 'volatility');
+    const keys = getRegimeKeys('volatility');
+
+    buildRegimeStats(data, regimes, 'volatility').forEach((stats, index) => {
+      if (stats.count === 0) return;
+
+      // Latest unbroken spell of the regime
+      let last = points.length - 1;
+      while (points[last].volatility !== stats.regime) last--;
+      let first = last;
+      while (first > 0 && points[first - 1].volatility === stats.regime) first--;
+
+      const persistence = transitions.probabilities[index][index] ?? 0;
+      const label = getRegimeLabel(keys[index]);
       patterns.push({
-        id: `cyclical-${data[0].date.getTime()}-${data[data.length-1].date.getTime()}`,
+        id: `cyclical-${stats.regime}-${data[0].date.getTime()}-${data[data.length - 1].date.getTime()}`,
         type: 'cyclical',
-        name: 'Volatility Cycles Detected',
-        description: `Cyclical volatility patterns with variance of ${volatilityVariance.toFixed(2)}`,
-        confidence: Math.min(volatilityVariance, 1),
-        startDate: data[0].date,
-        endDate: data[data.length - 1].date,
-        metrics: { volatility: avgVolatility, performance: 0, volume: 0 }
+        name: `${label} regime`,
+        description: `${(stats.share * 100).toFixed(0)}% of candles in ${stats.spells} spells averaging ${stats.averageSpell.toFixed(1)} candles; stays ${label.toLowerCase()} the next candle ${(persistence * 100).toFixed(0)}% of the time`,
+        confidence: persistence,
+        startDate: points[first].date,
+        endDate: points[last].date,
+        frequency: stats.spells,
+        strength: stats.share,
+        metrics: { volatility: stats.avgVolatility, performance: stats.meanReturn, volume: stats.avgVolume }
       });
-    }
+    });
+
+    const first = data[0].date;
+    const last = data[data.length - 1].date;
+    const metrics = {
+      volatility: data.reduce((sum, d) => sum + d.volatility, 0) / data.length,
+      performance: data.reduce((sum, d) => sum + d.performance, 0) / data.length,
+      volume: data.reduce((sum, d) => sum + d.volume, 0) / data.length
+    };
+    (Object.keys(CYCLE_SERIES) as CycleSeries[]).forEach(series => {
+      buildCycleReport(data, series).peaks.forEach(peak => {
+        const adjustedP = formatPValue(peak.adjustedPValue);
+        patterns.push({
+          id: `cyclical-${series}-${peak.period.toFixed(2)}-${first.getTime()}-${last.getTime()}`,
+          type: 'cyclical',
+          name: `${CYCLE_SERIES[series].label} cycle (${peak.period.toFixed(1)} candles)`,
+          description: `${CYCLE_SERIES[series].label} cycles every ${peak.period.toFixed(1)} candles, ${peak.ratio.toFixed(1)}x the red-noise background (adjusted p ${adjustedP.startsWith('<') ? adjustedP : `= ${adjustedP}`})`,
+          confidence: 1 - peak.adjustedPValue,
+          startDate: first,
+          endDate: last,
+          frequency: Math.round(peak.period),
+          strength: peak.share,
+          metrics,
+          cycle: { series, period: peak.period, ratio: peak.ratio, pValue: peak.pValue, adjustedPValue: peak.adjustedPValue }
+        });
+      });
+    });
 
     return patterns;
   }
@@ -436,7 +611,7 @@ export class BinanceApiService {
     const volumeStd = Math.sqrt(this.calculateVariance(volumes));
     const volumeThreshold = avgVolume + (2 * volumeStd);
 
-    // Detect anomalies
+    // Detect anomalies; strength is the z-score over 4, so the 2-sigma threshold scores 0.5
     let idx = 0;
     data.forEach(day => {
       if (day.volatility > volatilityThreshold) {
@@ -448,6 +623,8 @@ export class BinanceApiService {
           confidence: Math.min(day.volatility / volatilityThreshold, 1),
           startDate: day.date,
           endDate: day.date,
+          frequency: 1,
+          strength: Math.min((day.volatility - avgVolatility) / volatilityStd / 4, 1),
           metrics: { volatility: day.volatility, performance: day.performance ?? 0, volume: day.volume ?? 0 }
         });
       }
@@ -461,6 +638,8 @@ export class BinanceApiService {
           confidence: Math.min(day.volume / volumeThreshold, 1),
           startDate: day.date,
           endDate: day.date,
+          frequency: 1,
+          strength: Math.min((day.volume - avgVolume) / volumeStd / 4, 1),
           metrics: { volatility: day.volatility ?? 0, performance: day.performance ?? 0, volume: day.volume ?? 0 }
         });
       }
@@ -507,6 +686,8 @@ export class BinanceApiService {
         confidence,
         startDate: data[0].date,
         endDate: data[data.length - 1].date,
+        frequency: data.length,
+        strength: confidence,
         metrics: { 
           volatility: data.reduce((sum, d) => sum + d.volatility, 0) / data.length,
           performance: priceChange,
@@ -529,27 +710,6 @@ export class BinanceApiService {
     return squaredDiffs.reduce((sum, diff) => sum + diff, 0) / values.length;
   }
 
-  /**
-   * Get month name from month number
-   * @param month - Month number (1-12)
-   * @returns string - Month name
-   */
-  private getMonthName(month: number): string {
-    const months = ['January', 'February', 'March', 'April', 'May', 'June',
-                   'July', 'August', 'September', 'October', 'November', 'December'];
-    return months[month - 1] || 'Unknown';
-  }
-
-  /**
-   * Get day name from day number
-   * @param day - Day number (0-6, where 0 is Sunday)
-   * @returns string - Day name
-   */
-  private getDayName(day: number): string {
-    const days = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
-    return days[day] || 'Unknown';
-  }
-
   /**
    * Detect all types of patterns in market data
    * Combines seasonal, cyclical, anomaly, and trend detection
@@ -0,0 +1,348 @@
+import { CachedCandleSeries, KlineData } from '@/types';
+
+const DB_NAME = 'market-seasonality-explorer';
+const DB_VERSION = 2;
+const STORE_NAME = 'candles';
+const META_STORE_NAME = 'series-meta';
+
+/**
+ * Eviction limits for the candle cache
+ */
+export interface CandleCacheLimits {
+  maxSeries: number;          // Least recently used series beyond this count are dropped
+  maxCandlesPerSeries: number; // Oldest candles beyond this count are trimmed
+  maxIdleMs: number;          // Series not read for this long are dropped
+}
+
+const DEFAULT_LIMITS: CandleCacheLimits = {
+  maxSeries: 24,
+  maxCandlesPerSeries: 100000,
+  maxIdleMs: 30 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Small record kept beside each series, so reads can be recorded and eviction
+ * decided without loading or rewriting any candles
+ */
+interface CandleSeriesMeta {
+  key: string;
+  lastAccessed: number;
+  candles: number;
+}
+
+const toMeta = (series: CachedCandleSeries): CandleSeriesMeta => ({
+  key: series.key,
+  lastAccessed: series.lastAccessed,
+  candles: series.klines.length,
+});
+
+/**
+ * Minimal async key-value store the cache persists series into
+ * put and delete write the series and its metadata together.
+ */
+interface CandleStore {
+  get(key: string): Promise<CachedCandleSeries | undefined>;
+  put(series: CachedCandleSeries): Promise<void>;
+  delete(key: string): Promise<void>;
+  putMeta(meta: CandleSeriesMeta): Promise<void>;
+  getAllMeta(): Promise<CandleSeriesMeta[]>;
+  clear(): Promise<void>;
+}
+
+/**
+ * Wrap an IDBRequest in a promise
+ */
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * IndexedDB-backed store used in the browser
+ */
+class IndexedDbCandleStore implements CandleStore {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(STORE_NAME)) {
+            db.createObjectStore(STORE_NAME, { keyPath: 'key' });
+          }
+          if (!db.objectStoreNames.contains(META_STORE_NAME)) {
+            const meta = db.createObjectStore(META_STORE_NAME, { keyPath: 'key' });
+            // Index series cached before the metadata store existed
+            const cursorRequest = request.transaction!.objectStore(STORE_NAME).openCursor();
+            cursorRequest.onsuccess = () => {
+              const cursor = cursorRequest.result;
+              if (!cursor) return;
+              meta.put(toMeta(cursor.value as CachedCandleSeries));
+              cursor.continue();
+            };
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async transaction<T>(
+    name: string,
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> {
+    const db = await this.open();
+    return promisify(run(db.transaction(name, mode).objectStore(name)));
+  }
+
+  /**
+   * Write to the candle and metadata stores in one transaction
+   */
+  private async write(run: (candles: IDBObjectStore, meta: IDBObjectStore) => void): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction([STORE_NAME, META_STORE_NAME], 'readwrite');
+    run(tx.objectStore(STORE_NAME), tx.objectStore(META_STORE_NAME));
+    return new Promise((resolve, reject) => {
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  }
+
+  async get(key: string) {
+    return this.transaction<CachedCandleSeries | undefined>(STORE_NAME, 'readonly', store => store.get(key));
+  }
+
+  async put(series: CachedCandleSeries) {
+    await this.write((candles, meta) => {
+      candles.put(series);
+      meta.put(toMeta(series));
+    });
+  }
+
+  async delete(key: string) {
+    await this.write((candles, meta) => {
+      candles.delete(key);
+      meta.delete(key);
+    });
+  }
+
+  async putMeta(meta: CandleSeriesMeta) {
+    await this.transaction(META_STORE_NAME, 'readwrite', store => store.put(meta));
+  }
+
+  async getAllMeta() {
+    return this.transaction<CandleSeriesMeta[]>(META_STORE_NAME, 'readonly', store => store.getAll());
+  }
+
+  async clear() {
+    await this.write((candles, meta) => {
+      candles.clear();
+      meta.clear();
+    });
+  }
+}
+
+/**
+ * In-memory store used when IndexedDB is unavailable (SSR, tests, private browsing)
+ */
+class MemoryCandleStore implements CandleStore {
+  private series = new Map<string, CachedCandleSeries>();
+  private meta = new Map<string, CandleSeriesMeta>();
+
+  async get(key: string) {
+    return this.series.get(key);
+  }
+
+  async put(series: CachedCandleSeries) {
+    this.series.set(series.key, series);
+    this.meta.set(series.key, toMeta(series));
+  }
+
+  async delete(key: string) {
+    this.series.delete(key);
+    this.meta.delete(key);
+  }
+
+  async putMeta(meta: CandleSeriesMeta) {
+    this.meta.set(meta.key, meta);
+  }
+
+  async getAllMeta() {
+    return Array.from(this.meta.values());
+  }
+
+  async clear() {
+    this.series.clear();
+    this.meta.clear();
+  }
+}
+
+/**
+ * Candle Cache Service
+ *
+ * Persists raw kline rows per provider, symbol and interval so history only has to be
+ * downloaded once. Each series remembers which time range has already been
+ * requested, letting callers fetch just the missing head or tail.
+ */
+export class CandleCacheService {
+  private static instance: CandleCacheService;
+  private store: CandleStore;
+  private limits: CandleCacheLimits;
+
+  constructor(store?: CandleStore, limits: Partial<CandleCacheLimits> = {}) {
+    this.store = store ?? (typeof indexedDB !== 'undefined' ? new IndexedDbCandleStore() : new MemoryCandleStore());
+    this.limits = { ...DEFAULT_LIMITS, ...limits };
+  }
+
+  /**
+   * Get singleton instance of CandleCacheService
+   * @returns CandleCacheService instance
+   */
+  public static getInstance(): CandleCacheService {
+    if (!CandleCacheService.instance) {
+      CandleCacheService.instance = new CandleCacheService();
+    }
+    return CandleCacheService.instance;
+  }
+
+  /**
+   * Build the cache key for a series
+   * @param provider - Market data provider id
+   * @param symbol - Trading pair symbol
+   * @param interval - Kline interval
+   * @returns string - Cache key
+   */
+  static getKey(provider: string, symbol: string, interval: string): string {
+    return `${provider}:${symbol}_${interval}`;
+  }
+
+  /**
+   * Read a cached series and mark it as recently used
+   * Only the series' metadata is rewritten; the candles are left untouched.
+   * @param provider - Market data provider id
+   * @param symbol - Trading pair symbol
+   * @param interval - Kline interval
+   * @returns Promise<CachedCandleSeries | null> - Cached series or null when missing
+   */
+  async getSeries(provider: string, symbol: string, interval: string): Promise<CachedCandleSeries | null> {
+    try {
+      const series = await this.store.get(CandleCacheService.getKey(provider, symbol, interval));
+      if (!series) return null;
+
+      const touched = { ...series, lastAccessed: Date.now() };
+      await this.store.putMeta(toMeta(touched));
+      return touched;
+    } catch (error) {
+      console.error('Error reading candle cache:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Merge new candles into a cached series and extend its covered range
+   * Candles with an existing open time replace the cached row, so a candle that
+   * was still forming when first cached is corrected on the next top-up.
+   * @param provider - Market data provider id
+   * @param symbol - Trading pair symbol
+   * @param interval - Kline interval
+   * @param klines - Newly fetched candles
+   * @param coveredFrom - Start of the range the fetch covered
+   * @param coveredTo - End of the range the fetch covered
+   * @returns Promise<CachedCandleSeries> - The merged series
+   */
+  async mergeSeries(
+    provider: string,
+    symbol: string,
+    interval: string,
+    klines: KlineData[],
+    coveredFrom: number,
+    coveredTo: number
+  ): Promise<CachedCandleSeries> {
+    const key = CandleCacheService.getKey(provider, symbol, interval);
+    const existing = await this.store.get(key).catch(() => undefined);
+
+    const byOpenTime = new Map<number, KlineData>();
+    existing?.klines.forEach(kline => byOpenTime.set(kline.openTime, kline));
+    klines.forEach(kline => byOpenTime.set(kline.openTime, kline));
+
+    let merged = Array.from(byOpenTime.values()).sort((a, b) => a.openTime - b.openTime);
+    let mergedFrom = Math.min(coveredFrom, existing?.coveredFrom ?? coveredFrom);
+    if (merged.length > this.limits.maxCandlesPerSeries) {
+      merged = merged.slice(-this.limits.maxCandlesPerSeries);
+      mergedFrom = merged[0].openTime;
+    }
+
+    const now = Date.now();
+    const series: CachedCandleSeries = {
+      key,
+      provider,
+      symbol,
+      interval,
+      klines: merged,
+      coveredFrom: mergedFrom,
+      coveredTo: Math.max(coveredTo, existing?.coveredTo ?? coveredTo),
+      updatedAt: now,
+      lastAccessed: now,
+    };
+
+    try {
+      await this.store.put(series);
+      await this.evict();
+    } catch (error) {
+      console.error('Error writing candle cache:', error);
+    }
+    return series;
+  }
+
+  /**
+   * Apply eviction rules: drop idle series, then the least recently used ones
+   * beyond the configured series limit
+   * Decided on metadata alone, so no cached candles are loaded.
+   */
+  async evict(): Promise<void> {
+    const all = await this.store.getAllMeta();
+    const now = Date.now();
+
+    const idle = all.filter(meta => now - meta.lastAccessed > this.limits.maxIdleMs);
+    const active = all
+      .filter(meta => now - meta.lastAccessed <= this.limits.maxIdleMs)
+      .sort((a, b) => b.lastAccessed - a.lastAccessed);
+    const overflow = active.slice(this.limits.maxSeries);
+
+    await Promise.all([...idle, ...overflow].map(meta => this.store.delete(meta.key)));
+  }
+
+  /**
+   * Summarise cache contents for display
+   * @returns Promise<{ series: number; candles: number }> - Series and candle counts
+   */
+  async getStats(): Promise<{ series: number; candles: number }> {
+    try {
+      const all = await this.store.getAllMeta();
+      return {
+        series: all.length,
+        candles: all.reduce((sum, meta) => sum + meta.candles, 0),
+      };
+    } catch (error) {
+      console.error('Error reading candle cache:', error);
+      return { series: 0, candles: 0 };
+    }
+  }
+
+  /**
+   * Remove every cached series
+   */
+  async clear(): Promise<void> {
+    await this.store.clear();
+  }
+}
+
+// Export singleton instance
+export default CandleCacheService.getInstance();
@@ -0,0 +1,369 @@
+import { KlineData, OrderBookData, MarketMetrics, RequestPriority, StreamConfig, WebSocketMessage } from '@/types';
+import { getIntervalMs } from '@/utils/intervals';
+import { ParseError } from './apiErrors';
+import { BaseMarketDataProvider } from './marketDataProvider';
+
+/**
+ * Endpoint template for a REST/JSON provider
+ * Placeholders such as {symbol}, {interval}, {startTime}, {endTime} and {limit}
+ * are substituted in the path and in query parameter values. A query parameter
+ * whose placeholder has no value (e.g. no startTime) is left out of the request.
+ */
+export interface EndpointTemplate {
+  path: string;
+  params?: Record<string, string>;
+}
+
+/**
+ * Where each kline field lives in a response row
+ * Paths are dot-separated and may index into arrays, so '0' reads the first
+ * element of an array row and 'ohlc.open' reads a nested object field.
+ */
+export interface KlineFieldMapping {
+  rows?: string;          // Path to the array of rows in the response (omit when the response is the array)
+  openTime: string;
+  open: string;
+  high: string;
+  low: string;
+  close: string;
+  volume: string;
+  closeTime?: string;     // Derived from openTime and the interval when omitted
+  quoteAssetVolume?: string;
+  numberOfTrades?: string;
+  takerBuyBaseAssetVolume?: string;
+  takerBuyQuoteAssetVolume?: string;
+}
+
+export interface OrderBookFieldMapping {
+  bids: string;           // Path to the bid levels
+  asks: string;           // Path to the ask levels
+  price?: string;         // Path to the price within a level (default '0')
+  quantity?: string;      // Path to the quantity within a level (default '1')
+  lastUpdateId?: string;
+}
+
+export interface TickerFieldMapping {
+  price: string;
+  volume: string;
+  high: string;
+  low: string;
+  open: string;
+  priceChange?: string;          // Derived from price and open when omitted
+  priceChangePercent?: string;   // Derived from price and open when omitted
+}
+
+export interface SymbolFieldMapping {
+  rows?: string;          // Path to the array of symbols in the response
+  symbol?: string;        // Path to the symbol within a row (omit when rows are plain strings)
+}
+
+/**
+ * Configuration for a generic REST/JSON market data provider
+ */
+export interface GenericRestProviderConfig {
+  id: string;
+  name: string;
+  baseUrl: string;
+  timeUnit?: 'ms' | 's';                   // Unit of timestamps in requests and responses (default 'ms')
+  maxKlinesPerRequest?: number;            // Page size used when paginating history (default 1000)
+  intervalMap?: Record<string, string>;    // App interval -> provider interval (e.g. { '1d': 'D' })
+  streamPollIntervalMs?: number;           // How often streaming polls the latest candle (default 15s)
+  symbols?: string[];                      // Static symbol list when there is no symbols endpoint
+  endpoints: {
+    klines: EndpointTemplate;
+    orderBook?: EndpointTemplate;
+    ticker?: EndpointTemplate;
+    symbols?: EndpointTemplate;
+  };
+  fields: {
+    klines: KlineFieldMapping;
+    orderBook?: OrderBookFieldMapping;
+    ticker?: TickerFieldMapping;
+    symbols?: SymbolFieldMapping;
+  };
+}
+
+/**
+ * Read a value from a nested object or array by dot-separated path
+ * @param source - Parsed JSON value
+ * @param path - Dot-separated path (empty path returns the source)
+ * @returns unknown - Value at the path, or undefined when missing
+ */
+export const readPath = (source: unknown, path?: string): unknown => {
+  if (!path) return source;
+  return path.split('.').reduce<unknown>((value, key) => {
+    if (value === null || value === undefined) return undefined;
+    return (value as Record<string, unknown>)[key];
+  }, source);
+};
+
+/**
+ * Generic REST Provider
+ *
+ * Adapter for any exchange or internal candle store that serves candles over
+ * REST/JSON. Endpoints and response fields are described by configuration, so
+ * a new source only needs a GenericRestProviderConfig rather than new code.
+ * Sources without a push API are streamed by polling the latest candle.
+ */
+export class GenericRestProvider extends BaseMarketDataProvider {
+  readonly id: string;
+  readonly name: string;
+  private config: GenericRestProviderConfig;
+  private pollTimer: ReturnType<typeof setInterval> | null = null;
+  private updateInterval = 0;
+
+  constructor(config: GenericRestProviderConfig) {
+    super();
+    this.config = config;
+    this.id = config.id;
+    this.name = config.name;
+    this.maxKlinesPerRequest = config.maxKlinesPerRequest ?? 1000;
+  }
+
+  /**
+   * Fetch a single page of klines using the configured template and field mapping
+   * @param symbol - Trading pair symbol
+   * @param interval - Time interval
+   * @param startTime - Start time in milliseconds (optional)
+   * @param endTime - End time in milliseconds (optional)
+   * @param limit - Maximum number of klines to return
+   * @param signal - Optional abort signal forwarded to the HTTP client
+   * @param priority - Scheduling priority, used when a scheduler is installed
+   * @returns Promise<KlineData[]> - Array of kline data
+   */
+  protected async fetchKlineChunk(
+    symbol: string,
+    interval: string,
+    startTime?: number,
+    endTime?: number,
+    limit: number = this.maxKlinesPerRequest,
+    signal?: AbortSignal,
+    priority?: RequestPriority
+  ): Promise<KlineData[]> {
+    const data = await this.requestEndpoint(this.config.endpoints.klines, 'Fetching klines', {
+      symbol,
+      interval: this.config.intervalMap?.[interval] ?? interval,
+      startTime: startTime !== undefined ? this.toProviderTime(startTime) : undefined,
+      endTime: endTime !== undefined ? this.toProviderTime(endTime) : undefined,
+      limit,
+    }, signal, priority);
+
+    const fields = this.config.fields.klines;
+    const rows = readPath(data, fields.rows);
+    if (!Array.isArray(rows)) {
+      throw new ParseError(`${this.name}: klines response has no rows at '${fields.rows ?? ''}'`);
+    }
+
+    const intervalMs = getIntervalMs(interval);
+    return rows
+      .map(row => {
+        const openTime = this.fromProviderTime(Number(readPath(row, fields.openTime)));
+        return {
+          openTime,
+          open: String(readPath(row, fields.open)),
+          high: String(readPath(row, fields.high)),
+          low: String(readPath(row, fields.low)),
+          close: String(readPath(row, fields.close)),
+          volume: String(readPath(row, fields.volume)),
+          closeTime: fields.closeTime
+            ? this.fromProviderTime(Number(readPath(row, fields.closeTime)))
+            : openTime + intervalMs - 1,
+          quoteAssetVolume: String(readPath(row, fields.quoteAssetVolume) ?? '0'),
+          numberOfTrades: Number(readPath(row, fields.numberOfTrades) ?? 0),
+          takerBuyBaseAssetVolume: String(readPath(row, fields.takerBuyBaseAssetVolume) ?? '0'),
+          takerBuyQuoteAssetVolume: String(readPath(row, fields.takerBuyQuoteAssetVolume) ?? '0'),
+        };
+      })
+      // Some sources return newest first; pagination relies on ascending open times
+      .sort((a, b) => a.openTime - b.openTime);
+  }
+
+  /**
+   * Fetch order book data when the provider exposes a depth endpoint
+   * @param symbol - Trading pair symbol
+   * @param limit - Number of order book entries (default: 100)
+   * @returns Promise<OrderBookData | null> - Order book data or null when no depth endpoint is configured
+   * @throws MarketDataError - Typed error once retries are exhausted
+   */
+  async getOrderBook(symbol: string, limit: number = 100): Promise<OrderBookData | null> {
+    const endpoint = this.config.endpoints.orderBook;
+    const fields = this.config.fields.orderBook;
+    if (!endpoint || !fields) return null;
+
+    const data = await this.requestEndpoint(endpoint, 'Fetching order book', { symbol, limit });
+    const toLevels = (levels: unknown): [string, string][] => {
+      if (!Array.isArray(levels)) {
+        throw new ParseError(`${this.name}: order book response is missing bid or ask levels`);
+      }
+      return levels.map(level => [
+        String(readPath(level, fields.price ?? '0')),
+        String(readPath(level, fields.quantity ?? '1')),
+      ]);
+    };
+
+    return {
+      symbol,
+      bids: toLevels(readPath(data, fields.bids)),
+      asks: toLevels(readPath(data, fields.asks)),
+      lastUpdateId: Number(readPath(data, fields.lastUpdateId) ?? 0),
+    };
+  }
+
+  /**
+   * Fetch 24-hour ticker statistics when the provider exposes a ticker endpoint
+   * @param symbol - Trading pair symbol
+   * @returns Promise<MarketMetrics | null> - Market metrics or null when no ticker endpoint is configured
+   * @throws MarketDataError - Typed error once retries are exhausted
+   */
+  async get24hrTicker(symbol: string): Promise<MarketMetrics | null> {
+    const endpoint = this.config.endpoints.ticker;
+    const fields = this.config.fields.ticker;
+    if (!endpoint || !fields) return null;
+
+    const data = await this.requestEndpoint(endpoint, 'Fetching 24hr ticker', { symbol });
+    const read = (path: string) => parseFloat(String(readPath(data, path)));
+    const price = read(fields.price);
+    const open = read(fields.open);
+    if (Number.isNaN(price)) {
+      throw new ParseError(`${this.name}: ticker response has no price at '${fields.price}'`);
+    }
+
+    return {
+      symbol,
+      price,
+      priceChange: fields.priceChange ? read(fields.priceChange) : price - open,
+      priceChangePercent: fields.priceChangePercent
+        ? read(fields.priceChangePercent)
+        : open !== 0 ? ((price - open) / open) * 100 : 0,
+      volume: read(fields.volume),
+      high: read(fields.high),
+      low: read(fields.low),
+      open,
+      close: price,
+    };
+  }
+
+  /**
+   * Fetch available trading symbols, or the configured static list when there is no symbols endpoint
+   * @returns Promise<string[]> - Array of trading symbols
+   * @throws MarketDataError - Typed error once retries are exhausted
+   */
+  async getSymbols(): Promise<string[]> {
+    const endpoint = this.config.endpoints.symbols;
+    if (!endpoint) return this.config.symbols ?? [];
+
+    const data = await this.requestEndpoint(endpoint, 'Fetching symbols', {});
+    const fields = this.config.fields.symbols ?? {};
+    const rows = readPath(data, fields.rows);
+    if (!Array.isArray(rows)) {
+      throw new ParseError(`${this.name}: symbols response has no rows at '${fields.rows ?? ''}'`);
+    }
+
+    return rows.map(row => String(readPath(row, fields.symbol))).slice(0, 50);
+  }
+
+  /**
+   * Stream real-time klines by polling the latest one-minute candle per symbol
+   * @param symbols - Array of trading symbols to poll
+   * @param onMessage - Callback function for incoming messages
+   */
+  connectStream(symbols: string[], onMessage: (message: WebSocketMessage) => void) {
+    this.disconnectStream();
+
+    const poll = async () => {
+      for (const symbol of symbols) {
+        let latest: KlineData | undefined;
+        try {
+          [latest] = (await this.getKlineData(symbol, '1m', undefined, undefined, 1)).slice(-1);
+        } catch (error) {
+          console.error(`Error polling ${symbol} from ${this.name}:`, error);
+        }
+        if (!latest) continue;
+
+        onMessage({
+          type: 'kline',
+          symbol,
+          timestamp: latest.openTime,
+          data: {
+            open: parseFloat(latest.open),
+            high: parseFloat(latest.high),
+            low: parseFloat(latest.low),
+            close: parseFloat(latest.close),
+            volume: parseFloat(latest.volume),
+          },
+        });
+      }
+    };
+
+    void poll();
+    // The configured poll interval is a floor that keeps polling within the API's limits
+    this.pollTimer = setInterval(poll, Math.max(this.updateInterval, this.config.streamPollIntervalMs ?? 15000));
+  }
+
+  /**
+   * Apply the real-time settings to polling
+   * Only the update interval applies; polling has no connection to reconnect.
+   * Takes effect the next time the stream is connected.
+   * @param config - Real-time settings
+   */
+  setStreamConfig(config: StreamConfig) {
+    this.updateInterval = config.updateInterval;
+  }
+
+  /**
+   * Stop polling for real-time klines
+   */
+  disconnectStream() {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+  }
+
+  /**
+   * Resolve an endpoint template and perform the GET request
+   * @param endpoint - Endpoint template
+   * @param context - What is being requested, used in error messages
+   * @param values - Placeholder values
+   * @param signal - Optional abort signal
+   * @param priority - Scheduling priority (optional)
+   * @returns Promise<unknown> - Parsed response body
+   */
+  private async requestEndpoint(
+    endpoint: EndpointTemplate,
+    context: string,
+    values: Record<string, string | number | undefined>,
+    signal?: AbortSignal,
+    priority?: RequestPriority
+  ): Promise<unknown> {
+    let missing = false;
+    const fill = (template: string) =>
+      template.replace(/\{(\w+)\}/g, (_, key: string) => {
+        const value = values[key];
+        if (value === undefined) {
+          missing = true;
+          return '';
+        }
+        return encodeURIComponent(String(value));
+      });
+
+    const params: Record<string, string> = {};
+    Object.entries(endpoint.params ?? {}).forEach(([name, template]) => {
+      missing = false;
+      const value = fill(template);
+      if (!missing) params[name] = value;
+    });
+
+    const url = `${this.config.baseUrl}${fill(endpoint.path)}`;
+    const symbol = values.symbol !== undefined ? String(values.symbol) : undefined;
+    return this.request(url, `${this.name}: ${context}`, { params, signal, symbol, priority });
+  }
+
+  private toProviderTime(ms: number): number {
+    return this.config.timeUnit === 's' ? Math.floor(ms / 1000) : ms;
+  }
+
+  private fromProviderTime(value: number): number {
+    return this.config.timeUnit === 's' ? value * 1000 : value;
+  }
+}
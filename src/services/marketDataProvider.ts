@@ -0,0 +1,376 @@
+import axios from 'axios';
+import { KlineData, KlineHistoryOptions, KlineHistoryResult, OrderBookData, MarketMetrics, RequestPriority, RequestWeightStatus, RetryNotice, RetryPolicy, StreamConfig, StreamHealth, StreamSubscription, WebSocketMessage } from '@/types';
+import { estimateCandleCount } from '@/utils/intervals';
+import { DEFAULT_RETRY_POLICY, withRetry } from '@/utils/retry';
+import { MarketDataError, RateLimitError, isAbortError, toMarketDataError } from './apiErrors';
+import candleCache from './candleCache';
+import { RequestScheduler } from './requestScheduler';
+
+// How long a cached, still-forming candle is served before it is refreshed
+const FORMING_CANDLE_TTL_MS = 60 * 1000;
+
+/**
+ * Contract every market data source implements
+ *
+ * The explorer only talks to providers through this interface, so an exchange
+ * or an internal candle store can be plugged in without touching the UI.
+ */
+export interface MarketDataProvider {
+  readonly id: string;    // Stable identifier, also used to namespace cached candles
+  readonly name: string;  // Display name shown on charts and exports
+
+  getKlineData(symbol: string, interval: string, startTime?: number, endTime?: number, limit?: number): Promise<KlineData[]>;
+  getKlineHistory(symbol: string, interval: string, startTime: number, endTime: number, options?: KlineHistoryOptions): Promise<KlineData[]>;
+  getCachedKlineHistory(symbol: string, interval: string, startTime: number, endTime: number, options?: KlineHistoryOptions): Promise<KlineHistoryResult>;
+  getOrderBook(symbol: string, limit?: number): Promise<OrderBookData | null>;
+  get24hrTicker(symbol: string): Promise<MarketMetrics | null>;
+  getSymbols(): Promise<string[]>;
+  clearCandleCache(): Promise<void>;
+  setRetryPolicy(policy: Partial<RetryPolicy>): void;
+  connectStream(symbols: string[], onMessage: (message: WebSocketMessage) => void): void;
+  disconnectStream(): void;
+  setStreamConfig(config: StreamConfig): void;
+
+  // Request weight reporting, for providers whose API exposes it
+  getRequestWeight?(): RequestWeightStatus | null;
+  onRequestWeightChange?(listener: (status: RequestWeightStatus) => void): () => void;
+
+  // Failed requests that are about to be retried
+  onRetry?(listener: (notice: RetryNotice) => void): () => void;
+
+  // Multi-stream subscriptions and connection health, for providers with a push API
+  subscribeStream?(subscription: StreamSubscription, onMessage: (message: WebSocketMessage) => void): () => void;
+  getStreamHealth?(): StreamHealth;
+  onStreamHealthChange?(listener: (health: StreamHealth) => void): () => void;
+}
+
+interface RequestOptions {
+  params?: Record<string, string | number>;
+  signal?: AbortSignal;
+  symbol?: string;    // Trading pair of the request, reported by InvalidSymbolError
+  weight?: number;    // Cost against the scheduler's weight budget (default 1)
+  priority?: RequestPriority;
+}
+
+/**
+ * Base Market Data Provider
+ *
+ * Implements the parts of the contract that only depend on fetching a single
+ * page of klines: range pagination and the local candle cache, plus the shared
+ * HTTP path that turns failures into typed errors and retries them with backoff.
+ * Adapters supply the page fetch and the remaining endpoints, and may install a
+ * RequestScheduler to budget request weight and share identical requests.
+ */
+export abstract class BaseMarketDataProvider implements MarketDataProvider {
+  abstract readonly id: string;
+  abstract readonly name: string;
+
+  // Largest page the upstream API returns for one klines request
+  protected maxKlinesPerRequest = 1000;
+
+  protected retryPolicy: RetryPolicy = DEFAULT_RETRY_POLICY;
+
+  // Gate for every request() call; null sends requests straight away
+  protected scheduler: RequestScheduler | null = null;
+
+  private retryListeners = new Set<(notice: RetryNotice) => void>();
+
+  /**
+   * Fetch a single page of klines, propagating errors to the caller
+   * @param symbol - Trading pair symbol
+   * @param interval - Time interval
+   * @param startTime - Start time in milliseconds (optional)
+   * @param endTime - End time in milliseconds (optional)
+   * @param limit - Maximum number of klines to return
+   * @param signal - Optional abort signal forwarded to the HTTP client
+   * @param priority - Scheduling priority of the request (optional)
+   * @returns Promise<KlineData[]> - Array of kline data
+   */
+  protected abstract fetchKlineChunk(
+    symbol: string,
+    interval: string,
+    startTime?: number,
+    endTime?: number,
+    limit?: number,
+    signal?: AbortSignal,
+    priority?: RequestPriority
+  ): Promise<KlineData[]>;
+
+  abstract getOrderBook(symbol: string, limit?: number): Promise<OrderBookData | null>;
+  abstract get24hrTicker(symbol: string): Promise<MarketMetrics | null>;
+  abstract getSymbols(): Promise<string[]>;
+  abstract connectStream(symbols: string[], onMessage: (message: WebSocketMessage) => void): void;
+  abstract disconnectStream(): void;
+  abstract setStreamConfig(config: StreamConfig): void;
+
+  /**
+   * Fetch historical kline (candlestick) data
+   * @param symbol - Trading pair symbol (e.g., 'BTCUSDT')
+   * @param interval - Time interval (e.g., '1d', '1h', '1m')
+   * @param startTime - Start time in milliseconds (optional)
+   * @param endTime - End time in milliseconds (optional)
+   * @param limit - Maximum number of klines to return (default: 1000)
+   * @returns Promise<KlineData[]> - Array of kline data
+   * @throws MarketDataError - Typed error once retries are exhausted
+   */
+  async getKlineData(
+    symbol: string,
+    interval: string,
+    startTime?: number,
+    endTime?: number,
+    limit: number = 1000
+  ): Promise<KlineData[]> {
+    return this.fetchKlineChunk(symbol, interval, startTime, endTime, limit);
+  }
+
+  /**
+   * Override the retry policy used for every request of this provider
+   * @param policy - Fields to change (e.g. { maxRetries: 0 } to disable retries)
+   */
+  setRetryPolicy(policy: Partial<RetryPolicy>) {
+    this.retryPolicy = { ...this.retryPolicy, ...policy };
+  }
+
+  /**
+   * Subscribe to failed requests that are about to be retried
+   * @param listener - Called before each retry wait
+   * @returns () => void - Unsubscribe function
+   */
+  onRetry(listener: (notice: RetryNotice) => void): () => void {
+    this.retryListeners.add(listener);
+    return () => {
+      this.retryListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Fetch kline history for an arbitrary range by paginating through the klines endpoint
+   * Walks startTime forward in chunks of up to 1000 candles, drops duplicates at
+   * chunk edges, reports progress and stops early when the signal is aborted.
+   * @param symbol - Trading pair symbol (e.g., 'BTCUSDT')
+   * @param interval - Time interval (e.g., '1d', '1h', '1m')
+   * @param startTime - Start time in milliseconds
+   * @param endTime - End time in milliseconds
+   * @param options - Abort signal, progress callback, chunk size and priority
+   * @returns Promise<KlineData[]> - Klines sorted by open time, without duplicates
+   */
+  async getKlineHistory(
+    symbol: string,
+    interval: string,
+    startTime: number,
+    endTime: number,
+    options: KlineHistoryOptions = {}
+  ): Promise<KlineData[]> {
+    const { signal, onProgress, chunkSize = this.maxKlinesPerRequest, priority } = options;
+    const expected = estimateCandleCount(interval, startTime, endTime);
+    const klines: KlineData[] = [];
+    let cursor = startTime;
+    let requests = 0;
+
+    while (cursor <= endTime) {
+      this.throwIfAborted(signal);
+
+      const chunk = await this.fetchKlineChunk(symbol, interval, cursor, endTime, chunkSize, signal, priority);
+      requests++;
+
+      // Providers may repeat the boundary candle when startTime equals an open time
+      const lastOpenTime = klines.length > 0 ? klines[klines.length - 1].openTime : -Infinity;
+      const fresh = chunk.filter(kline => kline.openTime > lastOpenTime);
+      klines.push(...fresh);
+
+      onProgress?.({
+        symbol,
+        interval,
+        fetched: klines.length,
+        expected: Math.max(expected, klines.length),
+        requests,
+        done: false,
+      });
+
+      // A short page (or one with nothing new) means we reached the end of the range
+      if (chunk.length < chunkSize || fresh.length === 0) break;
+      cursor = klines[klines.length - 1].openTime + 1;
+    }
+
+    onProgress?.({ symbol, interval, fetched: klines.length, expected: klines.length, requests, done: true });
+    return klines;
+  }
+
+  /**
+   * Fetch kline history through the local candle cache
+   * Serves whatever part of the range is already cached and only downloads the
+   * missing head (before the cached range) and tail (from the last cached candle,
+   * which may still have been forming). When the top-up fails but cached candles
+   * exist, those are returned and the result is flagged as offline.
+   * @param symbol - Trading pair symbol (e.g., 'BTCUSDT')
+   * @param interval - Time interval (e.g., '1d', '1h', '1m')
+   * @param startTime - Start time in milliseconds
+   * @param endTime - End time in milliseconds
+   * @param options - Abort signal, progress callback, chunk size and priority
+   * @returns Promise<KlineHistoryResult> - Klines in range plus cache status
+   */
+  async getCachedKlineHistory(
+    symbol: string,
+    interval: string,
+    startTime: number,
+    endTime: number,
+    options: KlineHistoryOptions = {}
+  ): Promise<KlineHistoryResult> {
+    const cached = await candleCache.getSeries(this.id, symbol, interval);
+
+    if (!cached || cached.klines.length === 0) {
+      const klines = await this.getKlineHistory(symbol, interval, startTime, endTime, options);
+      await candleCache.mergeSeries(this.id, symbol, interval, klines, startTime, endTime);
+      return {
+        klines,
+        cache: { source: 'network', cachedCandles: 0, fetchedCandles: klines.length, offline: false },
+      };
+    }
+
+    const fetched: KlineData[] = [];
+    let coveredFrom = cached.coveredFrom;
+    let coveredTo = cached.coveredTo;
+    let offline = false;
+
+    try {
+      // Missing head: the requested range starts before anything we have asked for
+      if (startTime < cached.coveredFrom) {
+        const headEnd = cached.klines[0].openTime - 1;
+        fetched.push(...await this.getKlineHistory(symbol, interval, startTime, headEnd, options));
+        coveredFrom = startTime;
+      }
+
+      // Missing tail: refetch from the last cached candle in case it was still open
+      const lastCached = cached.klines[cached.klines.length - 1];
+      const formingCandleStale = Date.now() - cached.updatedAt > FORMING_CANDLE_TTL_MS;
+      if (endTime > lastCached.closeTime || formingCandleStale) {
+        const tail = await this.getKlineHistory(symbol, interval, lastCached.openTime, endTime, options);
+        fetched.push(...tail);
+        coveredTo = Math.max(coveredTo, endTime);
+      }
+    } catch (error) {
+      // Only transient failures fall back to the cache; an invalid symbol or a
+      // malformed response would fail the same way next time
+      const transient = error instanceof MarketDataError && error.retryable;
+      if (options.signal?.aborted || !transient) throw error;
+      console.error('Error topping up candle cache, serving cached data:', error);
+      offline = true;
+    }
+
+    const series = fetched.length > 0 || coveredFrom !== cached.coveredFrom || coveredTo !== cached.coveredTo
+      ? await candleCache.mergeSeries(this.id, symbol, interval, fetched, coveredFrom, coveredTo)
+      : cached;
+
+    const klines = series.klines.filter(kline => kline.openTime >= startTime && kline.openTime <= endTime);
+    const cachedOpenTimes = new Set(cached.klines.map(kline => kline.openTime));
+    const newCandles = fetched.filter(kline => !cachedOpenTimes.has(kline.openTime)).length;
+
+    return {
+      klines,
+      cache: {
+        source: newCandles === 0 ? 'cache' : newCandles >= klines.length ? 'network' : 'mixed',
+        cachedCandles: Math.max(0, klines.length - newCandles),
+        fetchedCandles: newCandles,
+        offline,
+      },
+    };
+  }
+
+  /**
+   * Remove all locally cached candles
+   */
+  async clearCandleCache(): Promise<void> {
+    await candleCache.clear();
+  }
+
+  /**
+   * GET a JSON endpoint with typed errors and retries
+   * Failures are converted to MarketDataError subclasses; retryable ones are
+   * repeated according to the retry policy, honouring Retry-After when present.
+   * With a scheduler installed every attempt waits for weight budget on its own,
+   * so retries are charged to the budget and backoff waits hold no request slot;
+   * callers asking for the same URL and parameters at once share a single request.
+   * @param url - Absolute URL
+   * @param context - What is being requested, used in error messages
+   * @param options - Query parameters, abort signal, symbol, weight and priority
+   * @returns Promise<T> - Parsed response body
+   */
+  protected async request<T = unknown>(url: string, context: string, options: RequestOptions = {}): Promise<T> {
+    const { params, signal, weight = 1, priority } = options;
+    const key = params ? `${url}?${JSON.stringify(params)}` : url;
+    const attempt = (): Promise<T> => {
+      if (!this.scheduler) return this.send<T>(url, context, options, signal);
+      // Only hand the shared signal to the HTTP client when the caller can abort at all
+      return this.scheduler.schedule({ key, weight, priority, signal }, sharedSignal =>
+        this.send<T>(url, context, options, signal ? sharedSignal : undefined)
+      );
+    };
+
+    return withRetry(attempt, this.retryPolicy, {
+      signal,
+      isRetryable: error => this.isRetryable(error),
+      getMinDelay: error => (error instanceof RateLimitError ? error.retryAfterMs : 0),
+      onRetry: (error, attempt, delayMs) => {
+        const notice: RetryNotice = {
+          context,
+          attempt,
+          delayMs,
+          errorKind: error instanceof MarketDataError ? error.kind : undefined,
+        };
+        this.retryListeners.forEach(listener => listener(notice));
+      },
+    });
+  }
+
+  /**
+   * Perform a single GET, converting failures to typed errors
+   * @param url - Absolute URL
+   * @param context - What is being requested, used in error messages
+   * @param options - Query parameters and symbol
+   * @param signal - Signal that cancels the request
+   * @returns Promise<T> - Parsed response body
+   */
+  private async send<T>(url: string, context: string, options: RequestOptions, signal?: AbortSignal): Promise<T> {
+    const { params, symbol } = options;
+    const config = params || signal ? { ...(params && { params }), ...(signal && { signal }) } : undefined;
+
+    try {
+      const response = config ? await axios.get(url, config) : await axios.get(url);
+      if (response.headers) this.onResponseHeaders?.(response.headers as Record<string, string | undefined>);
+      return response.data as T;
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      const headers = (error as { response?: { headers?: Record<string, string> } }).response?.headers;
+      if (headers) this.onResponseHeaders?.(headers);
+      throw toMarketDataError(error, context, symbol);
+    }
+  }
+
+  /**
+   * Decide whether a failed request should be retried
+   * Rate limits that ask for a longer wait than the policy allows are surfaced
+   * immediately so the UI can tell the user when to come back.
+   * @param error - Typed error from request()
+   * @returns boolean - True to retry
+   */
+  protected isRetryable(error: unknown): boolean {
+    if (!(error instanceof MarketDataError) || !error.retryable) return false;
+    return !(error instanceof RateLimitError && error.retryAfterMs > this.retryPolicy.maxDelayMs);
+  }
+
+  /**
+   * Optional hook for adapters that read rate-limit headers from every response
+   * @param headers - Response headers, including those of failed requests
+   */
+  protected onResponseHeaders?(headers: Record<string, string | undefined>): void;
+
+  /**
+   * Throw an AbortError if the given signal has been aborted
+   * @param signal - Optional abort signal
+   */
+  protected throwIfAborted(signal?: AbortSignal) {
+    if (signal?.aborted) {
+      throw new DOMException('Kline history request was aborted', 'AbortError');
+    }
+  }
+}
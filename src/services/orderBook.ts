@@ -0,0 +1,236 @@
+import { OrderBookData, OrderBookState, OrderBookSyncStatus, WebSocketMessage } from '@/types';
+import { MarketDataProvider } from './marketDataProvider';
+
+export interface LocalOrderBookOptions {
+  snapshotLimit?: number;     // Levels per side in the REST snapshot (default 1000)
+  notifyIntervalMs?: number;  // Minimum time between change notifications (default 1s)
+  retryDelayMs?: number;      // Wait before fetching the snapshot again after a failed or unusable one (default 5s)
+  maxBufferedEvents?: number; // Diff events kept while waiting for a snapshot (default 1000)
+}
+
+type OrderBookListener = (book: OrderBookState) => void;
+
+/**
+ * Apply price levels to one side of the book
+ * @param side - Quantity by price string
+ * @param levels - [price, quantity] pairs; a zero quantity removes the level
+ */
+const applyLevels = (side: Map<string, number>, levels: [string, string][]) => {
+  levels.forEach(([price, quantity]) => {
+    const amount = parseFloat(quantity);
+    if (amount === 0) {
+      side.delete(price);
+    } else {
+      side.set(price, amount);
+    }
+  });
+};
+
+const sortLevels = (side: Map<string, number>, descending: boolean): [number, number][] => {
+  const levels = Array.from(side, ([price, quantity]): [number, number] => [parseFloat(price), quantity]);
+  return levels.sort((a, b) => (descending ? b[0] - a[0] : a[0] - b[0]));
+};
+
+/**
+ * Local Order Book
+ *
+ * Keeps an order book for one symbol in sync the way Binance documents it:
+ * diff-depth events are buffered while the REST snapshot loads, events the
+ * snapshot already covers are dropped, and every later event must continue
+ * from the last applied update id. A gap in the sequence, or a snapshot older
+ * than the buffered events, triggers a fresh snapshot. Listeners are notified
+ * at most once per notifyIntervalMs.
+ */
+export class LocalOrderBook {
+  private provider: MarketDataProvider;
+  private symbol: string;
+  private snapshotLimit: number;
+  private notifyIntervalMs: number;
+  private retryDelayMs: number;
+  private maxBufferedEvents: number;
+
+  private bids = new Map<string, number>();
+  private asks = new Map<string, number>();
+  private lastUpdateId = 0;
+  private status: OrderBookSyncStatus = 'syncing';
+  private buffer: WebSocketMessage[] = [];
+  private generation = 0;  // Bumped per snapshot request so late responses are ignored
+
+  private unsubscribe: (() => void) | null = null;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private notifyTimer: ReturnType<typeof setTimeout> | null = null;
+  private lastNotifiedAt = 0;
+  private listeners = new Set<OrderBookListener>();
+
+  constructor(provider: MarketDataProvider, symbol: string, options: LocalOrderBookOptions = {}) {
+    this.provider = provider;
+    this.symbol = symbol;
+    this.snapshotLimit = options.snapshotLimit ?? 1000;
+    this.notifyIntervalMs = options.notifyIntervalMs ?? 1000;
+    this.retryDelayMs = options.retryDelayMs ?? 5000;
+    this.maxBufferedEvents = options.maxBufferedEvents ?? 1000;
+  }
+
+  /**
+   * Subscribe to the depth stream and load the snapshot
+   * Providers without a push API cannot keep a book in sync; the book reports an error instead.
+   */
+  start() {
+    if (this.unsubscribe) return;
+    if (!this.provider.subscribeStream) {
+      this.setStatus('error');
+      return;
+    }
+    this.unsubscribe = this.provider.subscribeStream({ symbol: this.symbol, type: 'depth' }, message => this.handleDiff(message));
+    void this.resync();
+  }
+
+  /**
+   * Leave the depth stream and discard the book
+   */
+  stop() {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    this.generation++;
+    if (this.retryTimer) clearTimeout(this.retryTimer);
+    if (this.notifyTimer) clearTimeout(this.notifyTimer);
+    this.retryTimer = null;
+    this.notifyTimer = null;
+    this.bids.clear();
+    this.asks.clear();
+    this.buffer = [];
+  }
+
+  /**
+   * Get the current book
+   * @returns OrderBookState - Sorted levels, last applied update id and sync status
+   */
+  getState(): OrderBookState {
+    return {
+      symbol: this.symbol,
+      bids: sortLevels(this.bids, true),
+      asks: sortLevels(this.asks, false),
+      lastUpdateId: this.lastUpdateId,
+      status: this.status,
+      updatedAt: Date.now(),
+    };
+  }
+
+  /**
+   * Subscribe to book changes
+   * @param listener - Called with the current book after updates, throttled to notifyIntervalMs
+   * @returns () => void - Unsubscribe function
+   */
+  onChange(listener: OrderBookListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private handleDiff(message: WebSocketMessage) {
+    if (message.type !== 'depth') return;
+
+    if (this.status !== 'synced') {
+      this.buffer.push(message);
+      if (this.buffer.length > this.maxBufferedEvents) this.buffer.shift();
+      return;
+    }
+    if (this.applyDiff(message)) {
+      this.scheduleNotify();
+    } else {
+      void this.resync();
+    }
+  }
+
+  /**
+   * Apply one diff event
+   * @param message - Depth update with first and final update ids
+   * @returns boolean - false when the event does not continue the sequence
+   */
+  private applyDiff(message: WebSocketMessage): boolean {
+    const { firstUpdateId, finalUpdateId } = message.data;
+    if (finalUpdateId <= this.lastUpdateId) return true;  // Already in the book
+    if (firstUpdateId > this.lastUpdateId + 1) return false;
+
+    applyLevels(this.bids, message.levels?.bids ?? []);
+    applyLevels(this.asks, message.levels?.asks ?? []);
+    this.lastUpdateId = finalUpdateId;
+    return true;
+  }
+
+  private async resync() {
+    const generation = ++this.generation;
+    if (this.retryTimer) clearTimeout(this.retryTimer);
+    this.retryTimer = null;
+    this.setStatus('syncing');
+
+    let snapshot: OrderBookData | null;
+    try {
+      snapshot = await this.provider.getOrderBook(this.symbol, this.snapshotLimit);
+    } catch (error) {
+      if (generation !== this.generation) return;
+      console.error(`Error loading ${this.symbol} order book snapshot:`, error);
+      this.setStatus('error');
+      this.scheduleResync();
+      return;
+    }
+    if (generation !== this.generation) return;
+    if (!snapshot) {
+      this.setStatus('error');
+      return;
+    }
+
+    // Buffered events start after this snapshot, so it cannot be bridged
+    const first = this.buffer[0];
+    if (first && snapshot.lastUpdateId < first.data.firstUpdateId - 1) {
+      this.scheduleResync();
+      return;
+    }
+
+    this.bids.clear();
+    this.asks.clear();
+    applyLevels(this.bids, snapshot.bids);
+    applyLevels(this.asks, snapshot.asks);
+    this.lastUpdateId = snapshot.lastUpdateId;
+
+    const buffered = this.buffer;
+    this.buffer = [];
+    if (!buffered.every(message => this.applyDiff(message))) {
+      this.scheduleResync();
+      return;
+    }
+    this.setStatus('synced');
+  }
+
+  // Snapshots are heavy requests, so a failed or unusable one is retried after
+  // retryDelayMs rather than straight away; diffs keep buffering meanwhile
+  private scheduleResync() {
+    if (this.retryTimer) clearTimeout(this.retryTimer);
+    this.retryTimer = setTimeout(() => void this.resync(), this.retryDelayMs);
+  }
+
+  private setStatus(status: OrderBookSyncStatus) {
+    this.status = status;
+    this.notify();
+  }
+
+  private scheduleNotify() {
+    if (this.notifyTimer) return;
+    const wait = this.lastNotifiedAt + this.notifyIntervalMs - Date.now();
+    if (wait <= 0) {
+      this.notify();
+      return;
+    }
+    this.notifyTimer = setTimeout(() => this.notify(), wait);
+  }
+
+  private notify() {
+    if (this.notifyTimer) clearTimeout(this.notifyTimer);
+    this.notifyTimer = null;
+    this.lastNotifiedAt = Date.now();
+    if (this.listeners.size === 0) return;
+    const state = this.getState();
+    this.listeners.forEach(listener => listener(state));
+  }
+}
@@ -0,0 +1,100 @@
+import binanceApi from './binanceApi';
+import { GenericRestProvider, GenericRestProviderConfig } from './genericRestProvider';
+import { MarketDataProvider } from './marketDataProvider';
+
+/**
+ * Parse generic provider configurations from the environment
+ * NEXT_PUBLIC_MARKET_DATA_PROVIDERS holds a JSON array of GenericRestProviderConfig.
+ * @param raw - Raw environment value
+ * @returns GenericRestProviderConfig[] - Parsed configurations (empty when unset or invalid)
+ */
+const parseProviderConfigs = (raw: string | undefined): GenericRestProviderConfig[] => {
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    console.error('Error parsing NEXT_PUBLIC_MARKET_DATA_PROVIDERS:', error);
+    return [];
+  }
+};
+
+/**
+ * Provider Registry
+ *
+ * Keeps track of the available market data providers and which one is active.
+ * Binance is always registered; additional REST/JSON sources are added from
+ * configuration or at runtime through register().
+ */
+export class ProviderRegistry {
+  private static instance: ProviderRegistry;
+  private providers = new Map<string, MarketDataProvider>();
+  private activeId: string;
+
+  constructor(providers: MarketDataProvider[]) {
+    providers.forEach(provider => this.register(provider));
+    this.activeId = providers[0].id;
+  }
+
+  /**
+   * Get singleton instance of ProviderRegistry
+   * @returns ProviderRegistry instance
+   */
+  public static getInstance(): ProviderRegistry {
+    if (!ProviderRegistry.instance) {
+      const configured = parseProviderConfigs(process.env.NEXT_PUBLIC_MARKET_DATA_PROVIDERS)
+        .map(config => new GenericRestProvider(config));
+      ProviderRegistry.instance = new ProviderRegistry([binanceApi, ...configured]);
+    }
+    return ProviderRegistry.instance;
+  }
+
+  /**
+   * Add a provider, replacing any existing provider with the same id
+   * @param provider - Provider to register
+   */
+  register(provider: MarketDataProvider) {
+    this.providers.set(provider.id, provider);
+  }
+
+  /**
+   * List registered providers in registration order
+   * @returns MarketDataProvider[] - Registered providers
+   */
+  list(): MarketDataProvider[] {
+    return Array.from(this.providers.values());
+  }
+
+  /**
+   * Look up a provider by id
+   * @param id - Provider id
+   * @returns MarketDataProvider | undefined - The provider, if registered
+   */
+  get(id: string): MarketDataProvider | undefined {
+    return this.providers.get(id);
+  }
+
+  /**
+   * Get the currently active provider
+   * @returns MarketDataProvider - Active provider
+   */
+  getActive(): MarketDataProvider {
+    return this.providers.get(this.activeId) ?? this.list()[0];
+  }
+
+  /**
+   * Switch the active provider
+   * @param id - Id of a registered provider
+   * @returns MarketDataProvider - The newly active provider
+   */
+  setActive(id: string): MarketDataProvider {
+    if (!this.providers.has(id)) {
+      throw new Error(`Unknown market data provider: ${id}`);
+    }
+    this.activeId = id;
+    return this.getActive();
+  }
+}
+
+// Export singleton instance
+export default ProviderRegistry.getInstance();
@@ -0,0 +1,234 @@
+import { RequestPriority } from '@/types';
+
+export interface RequestSchedulerOptions {
+  weightPerWindow: number;   // Request weight that may be spent per window
+  windowMs?: number;         // Length of the rate limit window (default 1 minute)
+  maxConcurrent?: number;    // Requests allowed in flight at once (default 4)
+}
+
+export interface ScheduleOptions {
+  key?: string;                  // Requests with the same key share one in-flight call
+  weight: number;                // Weight the request costs against the budget
+  priority?: RequestPriority;    // Background requests wait for queued foreground ones (default 'foreground')
+  signal?: AbortSignal;          // Aborts this caller only; the call is cancelled once every caller has aborted
+}
+
+interface ScheduledEntry {
+  key?: string;
+  weight: number;
+  priority: RequestPriority;
+  run: (signal: AbortSignal) => Promise<unknown>;
+  controller: AbortController;
+  subscribers: number;
+  started: boolean;
+  promise: Promise<unknown>;
+  resolve: (value: unknown) => void;
+  reject: (reason: unknown) => void;
+}
+
+const abortError = () => new DOMException('Scheduled request was aborted', 'AbortError');
+
+/**
+ * Request Scheduler
+ *
+ * Central gate for outgoing REST calls. Spends a request-weight budget over a
+ * sliding window and queues calls that would exceed it, shares one call
+ * between identical in-flight requests, and starts foreground requests before
+ * background ones so a symbol load is never stuck behind comparison downloads.
+ */
+export class RequestScheduler {
+  private weightPerWindow: number;
+  private windowMs: number;
+  private maxConcurrent: number;
+  private spent: { at: number; weight: number }[] = [];
+  private queue: ScheduledEntry[] = [];
+  private shared = new Map<string, ScheduledEntry>();
+  private active = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(options: RequestSchedulerOptions) {
+    this.weightPerWindow = options.weightPerWindow;
+    this.windowMs = options.windowMs ?? 60 * 1000;
+    this.maxConcurrent = options.maxConcurrent ?? 4;
+  }
+
+  /**
+   * Run a request once the budget allows, or join an identical one already pending
+   * @param options - Coalescing key, weight, priority and abort signal
+   * @param run - Performs the request with a signal that aborts when no caller is left
+   * @returns Promise<T> - Result of the (possibly shared) request
+   */
+  schedule<T>(options: ScheduleOptions, run: (signal: AbortSignal) => Promise<T>): Promise<T> {
+    const { key, weight, priority = 'foreground', signal } = options;
+    if (signal?.aborted) return Promise.reject(abortError());
+
+    const existing = key !== undefined ? this.shared.get(key) : undefined;
+    if (existing) {
+      existing.subscribers++;
+      // A foreground caller promotes a queued background request it joins
+      if (priority === 'foreground') existing.priority = 'foreground';
+      return this.subscribe(existing, signal) as Promise<T>;
+    }
+
+    let resolve!: (value: unknown) => void;
+    let reject!: (reason: unknown) => void;
+    const promise = new Promise<unknown>((res, rej) => {
+      resolve = res;
+      reject = rej;
+    });
+    // Every caller may have aborted by the time the request settles
+    promise.catch(() => {});
+
+    const entry: ScheduledEntry = {
+      key,
+      weight,
+      priority,
+      run,
+      controller: new AbortController(),
+      subscribers: 1,
+      started: false,
+      promise,
+      resolve,
+      reject,
+    };
+
+    if (key !== undefined) this.shared.set(key, entry);
+    this.queue.push(entry);
+    const result = this.subscribe(entry, signal) as Promise<T>;
+    this.pump();
+    return result;
+  }
+
+  /**
+   * Account for weight the server reports as used in the current window
+   * Other tabs or clients on the same IP spend the same budget, so the
+   * server's count wins whenever it is higher than ours.
+   * @param used - Weight the server reports for the current window
+   */
+  syncUsedWeight(used: number) {
+    const local = this.getUsedWeight();
+    if (used > local) {
+      this.spent.push({ at: Date.now(), weight: used - local });
+    }
+  }
+
+  /**
+   * Get the weight spent in the current window
+   * @returns number - Weight spent by requests started within the window
+   */
+  getUsedWeight(): number {
+    this.prune();
+    return this.spent.reduce((sum, entry) => sum + entry.weight, 0);
+  }
+
+  /**
+   * Get the number of requests waiting for budget or a free slot
+   * @returns number - Queued request count
+   */
+  getQueuedCount(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * Attach a caller to an entry, detaching it again if its signal aborts
+   * @param entry - Scheduled entry
+   * @param signal - Caller's abort signal
+   * @returns Promise<unknown> - Settles with the entry, or rejects when the caller aborts
+   */
+  private subscribe(entry: ScheduledEntry, signal?: AbortSignal): Promise<unknown> {
+    if (!signal) return entry.promise;
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        reject(abortError());
+        this.release(entry);
+      };
+      signal.addEventListener('abort', onAbort, { once: true });
+      entry.promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+    });
+  }
+
+  /**
+   * Drop one caller from an entry, cancelling the entry when none are left
+   * @param entry - Scheduled entry
+   */
+  private release(entry: ScheduledEntry) {
+    entry.subscribers--;
+    if (entry.subscribers > 0) return;
+
+    if (entry.key !== undefined && this.shared.get(entry.key) === entry) {
+      this.shared.delete(entry.key);
+    }
+    if (entry.started) {
+      entry.controller.abort();
+    } else {
+      this.queue = this.queue.filter(queued => queued !== entry);
+      entry.reject(abortError());
+      this.pump();
+    }
+  }
+
+  /**
+   * Start as many queued requests as the budget and concurrency limit allow
+   */
+  private pump() {
+    while (this.queue.length > 0 && this.active < this.maxConcurrent) {
+      const foreground = this.queue.findIndex(entry => entry.priority === 'foreground');
+      const index = foreground === -1 ? 0 : foreground;
+      const entry = this.queue[index];
+
+      const used = this.getUsedWeight();
+      // A single request heavier than the whole budget still runs once the window is empty
+      if (used > 0 && used + entry.weight > this.weightPerWindow) {
+        this.waitForBudget();
+        return;
+      }
+
+      this.queue.splice(index, 1);
+      this.start(entry);
+    }
+  }
+
+  /**
+   * Run a dequeued entry and continue with the queue once it settles
+   * @param entry - Scheduled entry
+   */
+  private start(entry: ScheduledEntry) {
+    entry.started = true;
+    this.active++;
+    this.spent.push({ at: Date.now(), weight: entry.weight });
+
+    entry.run(entry.controller.signal)
+      .then(entry.resolve, entry.reject)
+      .finally(() => {
+        this.active--;
+        if (entry.key !== undefined && this.shared.get(entry.key) === entry) {
+          this.shared.delete(entry.key);
+        }
+        this.pump();
+      });
+  }
+
+  /**
+   * Resume the queue when the oldest spent weight leaves the window
+   */
+  private waitForBudget() {
+    if (this.timer || this.spent.length === 0) return;
+
+    const delay = Math.max(0, this.spent[0].at + this.windowMs - Date.now());
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.pump();
+    }, delay);
+  }
+
+  /**
+   * Forget weight spent before the current window
+   */
+  private prune() {
+    const cutoff = Date.now() - this.windowMs;
+    while (this.spent.length > 0 && this.spent[0].at <= cutoff) {
+      this.spent.shift();
+    }
+  }
+}
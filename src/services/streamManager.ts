@@ -0,0 +1,446 @@
+import { StreamConfig, StreamHealth, StreamConnectionState, StreamSubscription, StreamType, WebSocketMessage } from '@/types';
+import { DEFAULT_RETRY_POLICY, getBackoffDelay } from '@/utils/retry';
+
+export interface StreamManagerOptions {
+  url: string;                   // Combined stream endpoint, e.g. wss://stream.binance.com:9443/stream
+  heartbeatIntervalMs?: number;  // Quiet time before the connection is probed (default 30s)
+  staleTimeoutMs?: number;       // Wait for any frame after a probe before giving up on the socket (default 10s)
+  reconnectBaseDelayMs?: number; // First reconnect delay; later attempts back off exponentially (default 1s)
+}
+
+type StreamListener = (message: WebSocketMessage) => void;
+
+interface StreamEntry {
+  listeners: Set<StreamListener>;
+  conflate: boolean;                       // Only the latest message matters, so throttle to updateInterval
+  lastDeliveredAt: number;
+  pending: WebSocketMessage | null;
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+export const DEFAULT_STREAM_CONFIG: StreamConfig = {
+  updateInterval: 0,
+  autoReconnect: true,
+  maxRetries: 5,
+};
+
+// Snapshot streams where a newer message replaces the previous one; event
+// streams (trades, depth diffs) must be delivered in full
+const CONFLATED_STREAMS: StreamType[] = ['kline', 'miniTicker', 'bookTicker'];
+
+/**
+ * Get the Binance stream name of a subscription
+ * @param subscription - Symbol, stream type and kline interval
+ * @param updateInterval - Requested update interval; depth streams switch to 100ms updates below one second
+ * @returns string - Stream name, e.g. "btcusdt@kline_1m"
+ */
+export const getStreamName = (subscription: StreamSubscription, updateInterval = 0): string => {
+  const symbol = subscription.symbol.toLowerCase();
+  switch (subscription.type) {
+    case 'kline':
+      return `${symbol}@kline_${subscription.interval ?? '1m'}`;
+    case 'depth':
+      return updateInterval > 0 && updateInterval < 1000 ? `${symbol}@depth@100ms` : `${symbol}@depth`;
+    default:
+      return `${symbol}@${subscription.type}`;
+  }
+};
+
+const toNumber = (value: unknown): number => (typeof value === 'number' ? value : parseFloat(String(value)));
+
+/**
+ * Convert a Binance stream payload into a WebSocketMessage
+ * @param payload - `data` field of a combined stream frame
+ * @param now - Receive time, used for streams without an event time
+ * @returns WebSocketMessage | null - null for payloads of unknown shape
+ */
+export const parseStreamPayload = (payload: Record<string, unknown>, now: number): WebSocketMessage | null => {
+  const symbol = String(payload.s ?? '');
+
+  switch (payload.e) {
+    case 'kline': {
+      const kline = payload.k as Record<string, unknown>;
+      return {
+        type: 'kline',
+        symbol,
+        timestamp: toNumber(kline.t),
+        data: {
+          open: toNumber(kline.o),
+          high: toNumber(kline.h),
+          low: toNumber(kline.l),
+          close: toNumber(kline.c),
+          volume: toNumber(kline.v),
+          quoteVolume: toNumber(kline.q),
+          trades: toNumber(kline.n),
+          takerBuyVolume: toNumber(kline.V),
+          takerBuyQuoteVolume: toNumber(kline.Q),
+          closeTime: toNumber(kline.T),
+          closed: kline.x ? 1 : 0,
+        },
+      };
+    }
+    case 'trade':
+    case 'aggTrade':
+      return {
+        type: payload.e === 'trade' ? 'trade' : 'aggTrade',
+        symbol,
+        timestamp: toNumber(payload.T),
+        data: {
+          price: toNumber(payload.p),
+          quantity: toNumber(payload.q),
+          tradeId: toNumber(payload.e === 'trade' ? payload.t : payload.a),
+          buyerIsMaker: payload.m ? 1 : 0,
+        },
+      };
+    case '24hrMiniTicker':
+      return {
+        type: 'miniTicker',
+        symbol,
+        timestamp: toNumber(payload.E),
+        data: {
+          open: toNumber(payload.o),
+          high: toNumber(payload.h),
+          low: toNumber(payload.l),
+          close: toNumber(payload.c),
+          volume: toNumber(payload.v),
+          quoteVolume: toNumber(payload.q),
+        },
+      };
+    case 'depthUpdate':
+      return {
+        type: 'depth',
+        symbol,
+        timestamp: toNumber(payload.E),
+        data: { firstUpdateId: toNumber(payload.U), finalUpdateId: toNumber(payload.u) },
+        levels: { bids: payload.b as [string, string][], asks: payload.a as [string, string][] },
+      };
+  }
+
+  // Book ticker frames carry no event type
+  if (payload.u !== undefined && payload.b !== undefined && payload.a !== undefined) {
+    return {
+      type: 'bookTicker',
+      symbol,
+      timestamp: now,
+      data: {
+        bidPrice: toNumber(payload.b),
+        bidQty: toNumber(payload.B),
+        askPrice: toNumber(payload.a),
+        askQty: toNumber(payload.A),
+        updateId: toNumber(payload.u),
+      },
+    };
+  }
+  return null;
+};
+
+/**
+ * Stream Manager
+ *
+ * Owns a single combined-stream WebSocket. Subscriptions are reference
+ * counted per stream and added or removed on the open socket with
+ * SUBSCRIBE/UNSUBSCRIBE frames, so components can come and go without
+ * reconnecting. Quiet connections are probed with LIST_SUBSCRIPTIONS and
+ * replaced when the probe goes unanswered; dropped connections are reopened
+ * with backoff as RealTimeConfig allows. Health is published to listeners.
+ */
+export class StreamManager {
+  private url: string;
+  private heartbeatIntervalMs: number;
+  private staleTimeoutMs: number;
+  private reconnectBaseDelayMs: number;
+  private config: StreamConfig = DEFAULT_STREAM_CONFIG;
+
+  private socket: WebSocket | null = null;
+  private open = false;
+  private subscribed = new Set<string>();   // Streams the current socket is subscribed to
+  private streams = new Map<string, StreamEntry>();
+  private requestId = 0;
+
+  private heartbeatTimer: ReturnType<typeof setTimeout> | null = null;
+  private staleTimer: ReturnType<typeof setTimeout> | null = null;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+
+  private health: StreamHealth = { state: 'idle', streams: 0, lastMessageAt: null, reconnectAttempts: 0 };
+  private healthListeners = new Set<(health: StreamHealth) => void>();
+
+  constructor(options: StreamManagerOptions) {
+    this.url = options.url;
+    this.heartbeatIntervalMs = options.heartbeatIntervalMs ?? 30 * 1000;
+    this.staleTimeoutMs = options.staleTimeoutMs ?? 10 * 1000;
+    this.reconnectBaseDelayMs = options.reconnectBaseDelayMs ?? 1000;
+  }
+
+  /**
+   * Apply real-time settings
+   * Takes effect for new messages and the next reconnect; open streams are kept.
+   * @param config - Update interval, auto-reconnect and retry limit
+   */
+  configure(config: Partial<StreamConfig>) {
+    this.config = { ...this.config, ...config };
+  }
+
+  /**
+   * Subscribe to a market stream, opening the connection if needed
+   * @param subscription - Symbol, stream type and kline interval
+   * @param listener - Called with every message (or the latest one per updateInterval for snapshot streams)
+   * @returns () => void - Unsubscribe function; the stream is dropped once its last listener leaves
+   */
+  subscribe(subscription: StreamSubscription, listener: StreamListener): () => void {
+    const name = getStreamName(subscription, this.config.updateInterval);
+    let entry = this.streams.get(name);
+    const isNew = !entry;
+
+    if (!entry) {
+      entry = {
+        listeners: new Set(),
+        conflate: CONFLATED_STREAMS.includes(subscription.type),
+        lastDeliveredAt: 0,
+        pending: null,
+        timer: null,
+      };
+      this.streams.set(name, entry);
+    }
+    entry.listeners.add(listener);
+
+    if (isNew) {
+      // A new subscription gets a fresh set of retries after the last ones ran out
+      if (this.health.state === 'failed') this.health = { ...this.health, reconnectAttempts: 0 };
+      try {
+        if (this.socket) {
+          this.syncSubscriptions();
+        } else if (!this.reconnectTimer) {
+          this.connect();
+        }
+      } catch (error) {
+        this.streams.delete(name);
+        throw error;
+      }
+      this.updateHealth({ streams: this.streams.size });
+    }
+
+    return () => this.unsubscribe(name, listener);
+  }
+
+  /**
+   * Drop every subscription and close the connection
+   */
+  close() {
+    this.streams.forEach(entry => {
+      if (entry.timer) clearTimeout(entry.timer);
+    });
+    this.streams.clear();
+    this.teardown();
+    this.updateHealth({ state: 'idle', streams: 0, reconnectAttempts: 0 });
+  }
+
+  /**
+   * Get the current connection health
+   * @returns StreamHealth - State, active streams, last message time and reconnect attempts
+   */
+  getHealth(): StreamHealth {
+    return this.health;
+  }
+
+  /**
+   * Subscribe to connection health changes
+   * @param listener - Called whenever the state or stream count changes
+   * @returns () => void - Unsubscribe function
+   */
+  onHealthChange(listener: (health: StreamHealth) => void): () => void {
+    this.healthListeners.add(listener);
+    return () => {
+      this.healthListeners.delete(listener);
+    };
+  }
+
+  private unsubscribe(name: string, listener: StreamListener) {
+    const entry = this.streams.get(name);
+    if (!entry) return;
+
+    entry.listeners.delete(listener);
+    if (entry.listeners.size > 0) return;
+
+    if (entry.timer) clearTimeout(entry.timer);
+    this.streams.delete(name);
+
+    if (this.streams.size === 0) {
+      this.close();
+      return;
+    }
+    this.syncSubscriptions();
+    this.updateHealth({ streams: this.streams.size });
+  }
+
+  private connect() {
+    const names = Array.from(this.streams.keys());
+    this.setState(this.health.reconnectAttempts > 0 ? 'reconnecting' : 'connecting');
+
+    // Streams in the URL are subscribed on connect; later changes go through frames
+    const socket = new WebSocket(`${this.url}?streams=${names.join('/')}`);
+    this.socket = socket;
+    this.subscribed = new Set(names);
+
+    socket.onopen = () => {
+      this.open = true;
+      this.syncSubscriptions();
+      this.updateHealth({ state: 'open', reconnectAttempts: 0 });
+      this.scheduleHeartbeat();
+    };
+
+    socket.onmessage = (event: MessageEvent) => {
+      this.handleFrame(event.data);
+    };
+
+    socket.onclose = () => {
+      this.handleDisconnect();
+    };
+  }
+
+  private handleFrame(raw: unknown) {
+    const now = Date.now();
+    this.clearTimer('staleTimer');
+    // Frames can arrive many times a second, so the time is recorded without notifying listeners
+    this.health = { ...this.health, lastMessageAt: now };
+    this.scheduleHeartbeat();
+
+    let frame: { stream?: string; data?: Record<string, unknown> };
+    try {
+      frame = JSON.parse(String(raw));
+    } catch (error) {
+      console.error('Error parsing stream frame:', error);
+      return;
+    }
+
+    // Replies to SUBSCRIBE and heartbeat probes only prove the socket is alive
+    if (!frame.stream || !frame.data) return;
+
+    const entry = this.streams.get(frame.stream);
+    const message = parseStreamPayload(frame.data, now);
+    if (entry && message) this.deliver(entry, message, now);
+  }
+
+  private deliver(entry: StreamEntry, message: WebSocketMessage, now: number) {
+    const interval = this.config.updateInterval;
+    if (!entry.conflate || interval <= 0 || now - entry.lastDeliveredAt >= interval) {
+      entry.lastDeliveredAt = now;
+      entry.listeners.forEach(listener => listener(message));
+      return;
+    }
+
+    // A tick of the next candle must not replace the last update of the previous
+    // one, which carries its close: deliver that update before holding the tick
+    const pending = entry.pending;
+    if (pending && pending.type === 'kline' && message.type === 'kline' && pending.timestamp !== message.timestamp) {
+      entry.pending = null;
+      entry.listeners.forEach(listener => listener(pending));
+    }
+
+    // Hold the latest snapshot until the interval has passed
+    entry.pending = message;
+    if (!entry.timer) {
+      entry.timer = setTimeout(() => {
+        entry.timer = null;
+        const pending = entry.pending;
+        entry.pending = null;
+        if (!pending) return;
+        entry.lastDeliveredAt = Date.now();
+        entry.listeners.forEach(listener => listener(pending));
+      }, entry.lastDeliveredAt + interval - now);
+    }
+  }
+
+  private handleDisconnect() {
+    this.teardown();
+    if (this.streams.size === 0) {
+      this.setState('idle');
+      return;
+    }
+
+    const attempts = this.health.reconnectAttempts;
+    if (!this.config.autoReconnect || attempts >= this.config.maxRetries) {
+      this.setState('failed');
+      return;
+    }
+
+    const delay = getBackoffDelay(attempts + 1, { ...DEFAULT_RETRY_POLICY, baseDelayMs: this.reconnectBaseDelayMs });
+    this.updateHealth({ state: 'reconnecting', reconnectAttempts: attempts + 1 });
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      if (this.streams.size > 0) this.connect();
+    }, delay);
+  }
+
+  /**
+   * Send SUBSCRIBE/UNSUBSCRIBE frames so the socket matches the wanted streams
+   * Frames wait for the socket to open; onopen syncs again.
+   */
+  private syncSubscriptions() {
+    if (!this.socket || !this.open) return;
+
+    const wanted = Array.from(this.streams.keys());
+    const added = wanted.filter(name => !this.subscribed.has(name));
+    const removed = Array.from(this.subscribed).filter(name => !this.streams.has(name));
+
+    if (added.length > 0) this.send('SUBSCRIBE', added);
+    if (removed.length > 0) this.send('UNSUBSCRIBE', removed);
+    this.subscribed = new Set(wanted);
+  }
+
+  private send(method: 'SUBSCRIBE' | 'UNSUBSCRIBE' | 'LIST_SUBSCRIPTIONS', params?: string[]) {
+    this.socket?.send(JSON.stringify({ method, ...(params && { params }), id: ++this.requestId }));
+  }
+
+  /**
+   * Probe the connection after a quiet period
+   * Binance answers LIST_SUBSCRIPTIONS with a frame; if nothing at all arrives
+   * within staleTimeoutMs the socket is presumed dead and replaced.
+   */
+  private scheduleHeartbeat() {
+    this.clearTimer('heartbeatTimer');
+    this.heartbeatTimer = setTimeout(() => {
+      this.heartbeatTimer = null;
+      this.send('LIST_SUBSCRIPTIONS');
+      this.staleTimer = setTimeout(() => {
+        this.staleTimer = null;
+        this.setState('stale');
+        // A dead socket may never fire onclose, so drop it without waiting
+        this.handleDisconnect();
+      }, this.staleTimeoutMs);
+    }, this.heartbeatIntervalMs);
+  }
+
+  private teardown() {
+    this.clearTimer('heartbeatTimer');
+    this.clearTimer('staleTimer');
+    this.clearTimer('reconnectTimer');
+
+    const socket = this.socket;
+    this.socket = null;
+    this.open = false;
+    this.subscribed.clear();
+    if (socket) {
+      socket.onopen = null;
+      socket.onmessage = null;
+      socket.onclose = null;
+      socket.close();
+    }
+  }
+
+  private clearTimer(name: 'heartbeatTimer' | 'staleTimer' | 'reconnectTimer') {
+    const timer = this[name];
+    if (timer) {
+      clearTimeout(timer);
+      this[name] = null;
+    }
+  }
+
+  private setState(state: StreamConnectionState) {
+    this.updateHealth({ state });
+  }
+
+  private updateHealth(changes: Partial<StreamHealth>) {
+    this.health = { ...this.health, ...changes };
+    this.healthListeners.forEach(listener => listener(this.health));
+  }
+}
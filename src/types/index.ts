@@ -12,7 +12,85 @@ export interface KlineData {
   takerBuyQuoteAssetVolume: string;
 }
 
-export interface ProcessedDayData {
+export interface KlineFetchProgress {
+  symbol: string;
+  interval: string;
+  fetched: number;      // Unique candles received so far
+  expected: number;     // Estimated total candles for the requested range
+  requests: number;     // Number of /klines calls made so far
+  done: boolean;
+}
+
+// Background requests (e.g. comparison datasets) yield to foreground ones (the selected symbol)
+export type RequestPriority = 'foreground' | 'background';
+
+export interface KlineHistoryOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: KlineFetchProgress) => void;
+  chunkSize?: number;   // Candles per request (Binance maximum is 1000)
+  priority?: RequestPriority;   // Default 'foreground'
+}
+
+export interface CachedCandleSeries {
+  key: string;
+  provider: string;
+  symbol: string;
+  interval: string;
+  klines: KlineData[];
+  coveredFrom: number;  // Earliest requested time already fetched (even if no candles exist before it)
+  coveredTo: number;    // Latest requested time already fetched
+  updatedAt: number;
+  lastAccessed: number;
+}
+
+export interface CandleCacheStatus {
+  source: 'cache' | 'network' | 'mixed';
+  cachedCandles: number;   // Candles served from the local store
+  fetchedCandles: number;  // Candles downloaded by this request
+  offline: boolean;        // Top-up failed and only cached candles were returned
+}
+
+export interface KlineHistoryResult {
+  klines: KlineData[];
+  cache: CandleCacheStatus;
+}
+
+// Where the data on screen came from: fetched just now, served from the local
+// cache, cached but the refresh failed, generated on request, or unavailable
+export type DataSourceState = 'live' | 'cached' | 'stale' | 'synthetic' | 'error';
+
+export interface DataSourceStatus {
+  state: DataSourceState;
+  detail?: string;      // Human readable explanation (cache summary or error message)
+  errorKind?: MarketDataErrorKind;
+  updatedAt: Date;
+}
+
+export type MarketDataErrorKind = 'rate-limited' | 'invalid-symbol' | 'network' | 'server' | 'parse';
+
+export interface RetryPolicy {
+  maxRetries: number;    // Retries after the first attempt (0 disables retrying)
+  baseDelayMs: number;   // Delay before the first retry; doubles on every attempt
+  maxDelayMs: number;    // Upper bound for a single backoff delay
+  jitter: number;        // Fraction of the delay randomised (0 = none, 1 = full jitter)
+}
+
+// A failed request the provider is about to repeat, reported so the UI can show the wait
+export interface RetryNotice {
+  context: string;                 // What was being requested
+  attempt: number;                 // Retry number starting at 1
+  delayMs: number;                 // Wait before the retry is sent
+  errorKind?: MarketDataErrorKind;
+}
+
+export interface RequestWeightStatus {
+  used: number;          // Weight used in the current minute (x-mbx-used-weight-1m)
+  limit: number;         // Weight allowed per minute
+  updatedAt: number;
+}
+
+// Indicators are set by calculateTechnicalIndicators once enough history exists
+export interface ProcessedDayData extends Partial<TechnicalIndicators> {
   date: Date;
   open: number;
   high: number;
@@ -25,6 +103,41 @@ export interface ProcessedDayData {
   dayOfWeek: number;
   weekOfYear: number;
   monthOfYear: number;
+  hourOfDay: number;          // Hour the candle opened (0-23), in the analysis timezone
+  session: TradingSession;    // Market session the candle opened in
+  quoteVolume?: number;         // Volume in the quote asset; kline fields below are absent for generated data
+  trades?: number;              // Number of trades
+  takerBuyVolume?: number;      // Base volume bought by takers (aggressive buyers)
+  takerBuyQuoteVolume?: number;
+}
+
+// Binance kline intervals shorter than a day
+export type IntradayInterval = '1m' | '3m' | '5m' | '15m' | '30m' | '1h' | '2h' | '4h' | '6h' | '8h' | '12h';
+
+// Main trading session by UTC hour: Asia (Tokyo/Hong Kong), Europe (London), US (New York)
+export type TradingSession = 'asia' | 'europe' | 'us' | 'off-hours';
+
+// Timezone and day boundary every date bucket (day, week, month, hour) is read in
+export interface AnalysisTimeSettings {
+  timeZone: string;      // IANA timezone name
+  dayStartHour: number;  // Hour (0-23) in timeZone at which a trading day starts
+}
+
+export interface HourWeekdayCell {
+  dayOfWeek: number;      // 0 = Sunday
+  hour: number;           // 0-23
+  avgReturn: number;      // Mean candle return in percent
+  avgVolatility: number;  // Mean candle high-low range in percent
+  avgVolume: number;
+  count: number;          // Candles aggregated into the cell
+}
+
+export interface SessionStats {
+  session: TradingSession;
+  avgReturn: number;
+  avgVolatility: number;
+  avgVolume: number;
+  count: number;
 }
 
 export interface CalendarCellData extends ProcessedDayData {
@@ -35,19 +148,48 @@ export interface CalendarCellData extends ProcessedDayData {
 
 export interface Timeframe {
   label: string;
-  value: 'daily' | 'weekly' | 'monthly';
+  value: IntradayInterval | 'daily' | 'weekly' | 'monthly';
   interval: string;
 }
 
+export interface HistoryRange {
+  label: string;
+  years: number;
+}
+
 export interface TechnicalIndicators {
   sma20: number;
   sma50: number;
-  rsi: number;
+  ema: number;
+  rsi: number;              // Wilder-smoothed, 0-100
   macd: {
-    macd: number;
-    signal: number;
-    histogram: number;
+    macd: number;           // Fast EMA minus slow EMA
+    signal: number;         // EMA of the MACD line
+    histogram: number;      // MACD minus signal
+  };
+  bollinger: {
+    upper: number;
+    middle: number;         // SMA of the close
+    lower: number;
   };
+  atr: number;              // Wilder-smoothed average true range
+  stochastic: {
+    k: number;              // Close within the period's high-low range, 0-100
+    d: number;              // SMA of %K
+  };
+  obv: number;              // On-balance volume since the first candle
+  vwap: number;             // Volume-weighted typical price over the VWAP period
+}
+
+// Periods, in candles, of the configurable indicators (SMA 20 and 50 are fixed)
+export interface IndicatorSettings {
+  emaPeriod: number;
+  macd: { fast: number; slow: number; signal: number };
+  rsiPeriod: number;
+  bollinger: { period: number; stdDev: number };
+  atrPeriod: number;
+  stochastic: { period: number; smoothing: number };
+  vwapPeriod: number;
 }
 
 export interface Alert {
@@ -80,12 +222,222 @@ export interface DataComparison {
     dateRange: DateRange;
     color: string;
   }[];
+  providerName?: string;  // Market data provider the datasets were fetched from
   createdAt: Date;
 }
 
+export type ComparisonDisplayMode = 'price' | 'rebased' | 'log' | 'ratio' | 'spread' | 'volatility';
+
+export interface ComparisonRow {
+  time: number;                    // Candle timestamp the datasets are aligned on
+  values: Record<string, number>;  // Value by dataset key, for the datasets with a candle at this time
+}
+
+export interface PerformanceStats {
+  start: Date;               // First candle of the window
+  end: Date;                 // Last candle of the window
+  totalReturn: number;       // Last close over first close, percent
+  cagr: number | null;       // Compound annual growth rate, percent; null for a single instant
+  maxDrawdown: number;       // Largest fall from a running peak, percent (0 or negative)
+  volatility: number;        // Annualised standard deviation of candle returns, percent
+  sharpe: number | null;     // Annualised mean return over volatility (zero risk-free rate)
+  count: number;             // Candles in the window
+}
+
+export type CorrelationMethod = 'pearson' | 'spearman';
+
+export interface CorrelationMatrix {
+  method: CorrelationMethod;
+  keys: string[];                   // Symbols, in row and column order
+  values: (number | null)[][];      // Correlation of candle returns; null with too few shared candles
+  counts: number[][];               // Shared candle returns behind each value
+}
+
+export interface RollingCorrelationPoint {
+  time: number;               // Timestamp of the window's last candle
+  correlation: number | null;
+  beta: number | null;        // Covariance with the benchmark over the benchmark's variance
+}
+
+export type CorrelationBreakdownDimension = 'month' | 'weekday';
+
+export interface CorrelationBucket {
+  key: number;                                // Month (1-12) or weekday (0 = Sunday)
+  label: string;
+  count: number;                              // Shared candle returns in the bucket
+  correlation: number | null;
+  confidenceInterval: [number, number] | null;  // 95% interval from Fisher's z
+  beta: number | null;
+}
+
+export interface CorrelationBreakdown {
+  dimension: CorrelationBreakdownDimension;
+  method: CorrelationMethod;
+  overall: number | null;           // Correlation over every shared candle
+  buckets: CorrelationBucket[];
+  homogeneity: {                    // Test that every bucket shares one correlation
+    statistic: number;              // Chi-square of the buckets' Fisher z around their pooled mean
+    degreesOfFreedom: number;
+    pValue: number;
+  } | null;
+}
+
+export interface UnderwaterPoint {
+  date: Date;
+  drawdown: number;  // Close below the running peak close, percent (0 or negative)
+}
+
+export interface DrawdownEpisode {
+  peak: Date;                   // Last candle at the running high before the fall
+  trough: Date;                 // Lowest close of the episode
+  recovery: Date | null;        // First close back at or above the peak; null while still underwater
+  end: Date;                    // Recovery, or the last candle while still underwater
+  peakClose: number;
+  troughClose: number;
+  depth: number;                // Trough below the peak, percent (negative)
+  duration: number;             // Calendar days from peak to end
+  recoveryDays: number | null;  // Calendar days from trough to recovery
+}
+
+export interface DrawdownRecoveryStats {
+  episodes: number;                     // Drawdowns in the data
+  recovered: number;                    // Of those, drawdowns that got back to their peak
+  averageRecoveryDays: number | null;   // Trough to recovery, over recovered drawdowns
+  medianRecoveryDays: number | null;
+  longestRecoveryDays: number | null;
+  longestUnderwaterDays: number;        // Longest peak-to-end stretch, recovered or not
+  currentDrawdown: number;              // Last close below its running peak, percent
+}
+
+export type ValueAtRiskMethod = 'historical' | 'parametric' | 'cornishFisher';
+
+export interface ValueAtRiskEstimate {
+  method: ValueAtRiskMethod;
+  confidence: number;          // e.g. 0.95
+  valueAtRisk: number;         // Return the worst (1 - confidence) of candles fall to, percent
+  expectedShortfall: number;   // Average return beyond the VaR (CVaR), percent
+}
+
+export interface ReturnDistributionSummary {
+  count: number;               // Candle returns in the sample
+  mean: number;                // Percent
+  stdDev: number;              // Percent
+  skewness: number;
+  excessKurtosis: number;      // 0 for a normal distribution
+  jarqueBera: {                // Test that skewness and excess kurtosis are both 0
+    statistic: number;
+    pValue: number;
+  } | null;
+  risk: ValueAtRiskEstimate[]; // Every method at every confidence level
+}
+
+export interface ReturnHistogramBin {
+  from: number;                // Lower edge, percent
+  to: number;                  // Upper edge, percent
+  mid: number;
+  count: number;
+  density: number;             // Share of returns per percentage point
+  kernel: number;              // Gaussian kernel density at the bin's midpoint
+  normal: number;              // Density of the fitted normal at the bin's midpoint
+}
+
+export interface QuantilePoint {
+  theoretical: number;         // Quantile of the fitted normal, percent
+  sample: number;              // Same quantile of the returns, percent
+}
+
+export type DistributionGrouping = 'all' | 'weekday' | 'month';
+
+export interface DistributionBucket {
+  key: number;                 // Weekday (0 = Sunday) or month (1-12)
+  label: string;
+  returns: number[];           // Candle returns in the bucket, percent
+  summary: ReturnDistributionSummary | null;  // null with too few returns
+}
+
+export type VolatilityRegime = 'low' | 'normal' | 'high';
+
+export type TrendRegime = 'bull' | 'bear';
+
+export type MarketRegime = VolatilityRegime | TrendRegime;
+
+export type RegimeDimension = 'volatility' | 'trend';
+
+export interface RegimeSettings {
+  volatilityWindow: number;  // Candles averaged into the volatility level
+  lookback: number;          // Trailing candles the level is ranked against
+  trendWindow: number;       // Candles in the moving average a close is compared with
+}
+
+export interface RegimePoint {
+  date: Date;
+  volatility: VolatilityRegime;
+  trend: TrendRegime;
+  level: number;             // Smoothed candle volatility, percent
+  percentile: number;        // Share of the lookback's levels below this one, 0-1
+}
+
+export interface RegimeStats {
+  regime: MarketRegime;
+  count: number;             // Candles in the regime
+  share: number;             // Of all candles, 0-1
+  meanReturn: number;        // Percent
+  stdDev: number;            // Of candle returns, percent
+  avgVolatility: number;     // Percent
+  avgVolume: number;
+  spells: number;            // Unbroken runs of the regime
+  averageSpell: number;      // Candles per run
+}
+
+export interface RegimeTransitions {
+  dimension: RegimeDimension;
+  regimes: MarketRegime[];                // Row and column order
+  counts: number[][];                     // Candle-to-candle moves from row regime to column regime
+  probabilities: (number | null)[][];     // Counts over row totals; null for a regime never left from
+}
+
+// Candle series searched for cycles: returns, volatility or log volume
+export type CycleSeries = 'returns' | 'volatility' | 'volume';
+
+export interface CorrelogramPoint {
+  lag: number;          // Candles
+  acf: number;          // Autocorrelation at the lag
+  pacf: number;         // Partial autocorrelation at the lag
+  acfBand: number;      // 95% band for the ACF under a moving average of lower order (Bartlett)
+  pacfBand: number;     // 95% band for the PACF under white noise, 1.96 / sqrt(n)
+}
+
+export interface SpectrumPoint {
+  frequency: number;    // Cycles per candle
+  period: number;       // Candles per cycle
+  power: number;        // Periodogram ordinate
+  background: number;   // Red-noise (AR(1)) spectrum fitted to the series
+  threshold: number;    // 95% level of a single ordinate over the background
+}
+
+export interface CyclePeak {
+  period: number;             // Candles per cycle
+  frequency: number;          // Cycles per candle
+  power: number;
+  ratio: number;              // Power over the red-noise background
+  share: number;              // Share of the series' variance at this frequency, 0-1
+  pValue: number;             // Chance of a peak this high in red noise, at this frequency
+  adjustedPValue: number;     // Benjamini-Hochberg across the frequencies searched
+  autocorrelation: number | null;  // ACF at the nearest whole lag, when within the correlogram
+}
+
+export interface CycleReport {
+  series: CycleSeries;
+  count: number;                  // Observations after dropping non-finite values
+  correlogram: CorrelogramPoint[];
+  spectrum: SpectrumPoint[];      // Fourier frequencies, lowest first
+  peaks: CyclePeak[];             // Local maxima significant after correction, strongest first
+}
+
 export interface HistoricalPattern {
   id: string;
   type: 'seasonal' | 'cyclical' | 'anomaly' | 'trend';
+  name: string;              // Short title, e.g. "High volatility regime"
   description: string;
   confidence: number; 
   startDate: Date;
@@ -97,6 +449,116 @@ export interface HistoricalPattern {
     performance: number;
     volume: number;
   };
+  statistics?: {             // Test behind a seasonal pattern, in place of a heuristic confidence
+    effectSize: number;      // Cohen's d against the other candles
+    pValue: number;
+    adjustedPValue: number;  // After multiple-comparison correction
+  };
+  cycle?: {                  // Spectral peak behind a cyclical pattern
+    series: CycleSeries;
+    period: number;          // Candles per cycle
+    ratio: number;           // Power over the red-noise background
+    pValue: number;
+    adjustedPValue: number;
+  };
+}
+
+export type SeasonalityDimension = 'weekday' | 'month' | 'weekOfYear' | 'turnOfMonth';
+
+export type MultipleComparisonCorrection = 'none' | 'bonferroni' | 'holm' | 'benjaminiHochberg';
+
+export interface SeasonalityBucket {
+  key: number;                                     // Weekday (0 = Sunday), month (1-12), ISO week, or turn-of-month offset (0 = mid-month)
+  label: string;
+  count: number;
+  meanReturn: number;                              // Percent
+  medianReturn: number;                            // Percent
+  hitRate: number;                                 // Share of positive returns, 0-1
+  volatility: number;                              // Standard deviation of returns, percent
+  tStat: number | null;                            // Welch t against the other candles
+  pValue: number | null;
+  adjustedPValue: number | null;
+  effectSize: number | null;                       // Cohen's d against the other candles
+  confidenceInterval: [number, number] | null;     // Bootstrap interval of the mean return
+  significant: boolean;                            // Adjusted p-value below alpha
+}
+
+export interface SeasonalityReport {
+  dimension: SeasonalityDimension;
+  correction: MultipleComparisonCorrection;
+  alpha: number;
+  sampleSize: number;
+  overallMean: number;                             // Mean return of every candle, percent
+  buckets: SeasonalityBucket[];
+}
+
+export type SeasonalityGridPeriod = 'month' | 'week';
+
+export interface SeasonalityGridCell {
+  year: number;              // Calendar year, or ISO week-numbering year for weeks
+  period: number;            // Month (1-12) or ISO week (1-53)
+  start: Date;               // First candle in the cell
+  end: Date;                 // Last candle in the cell
+  cumulativeReturn: number;  // Last close over first open, percent
+  volatility: number;        // Mean candle volatility, percent
+  volume: number;            // Total volume
+  count: number;             // Candles in the cell
+}
+
+export interface SeasonalityGridSummary {
+  key: number;               // Year for a row, month or week for a column
+  meanReturn: number;        // Mean cumulative return of the cells, percent
+  compoundedReturn: number;  // Cell returns compounded, percent
+  positiveShare: number;     // Share of cells with a positive return, 0-1
+  volatility: number;        // Mean cell volatility, percent
+  volume: number;            // Mean cell volume
+  count: number;             // Cells summarised
+}
+
+export interface SeasonalityGrid {
+  period: SeasonalityGridPeriod;
+  years: number[];
+  periods: number[];                  // 1-12, or 1 to the last ISO week seen
+  cells: SeasonalityGridCell[];       // Only year/period pairs with candles
+  rows: SeasonalityGridSummary[];     // One per year
+  columns: SeasonalityGridSummary[];  // One per period
+}
+
+export type YearOverYearAlignment = 'dayOfYear' | 'tradingDay';
+
+export interface YearOverYearAnchor {
+  month: number;  // 1-12
+  day: number;    // 1-31; clamped to the length of the month
+}
+
+export interface YearOverYearPoint {
+  position: number;          // Calendar days or candles since the anchor, from 0
+  date: Date;                // Candle at this position (the last one when several share a day)
+  cumulativeReturn: number;  // Close over the year's first open, percent
+}
+
+export interface YearOverYearSeries {
+  year: number;              // Calendar year the anchor falls in
+  start: Date;               // First candle, whose open is the 0% base
+  end: Date;                 // Last candle
+  partial: boolean;          // Starts more than a week after the anchor; left out of the average
+  points: YearOverYearPoint[];
+}
+
+export interface YearOverYearRow {
+  position: number;
+  returns: Record<number, number>;  // Cumulative return by year, for the years with a candle here
+  average: number | null;           // Mean of the complete years still running, percent
+  min: number | null;
+  max: number | null;
+  count: number;                    // Complete years in the average
+}
+
+export interface YearOverYear {
+  alignment: YearOverYearAlignment;
+  anchor: YearOverYearAnchor;
+  series: YearOverYearSeries[];  // Oldest year first
+  rows: YearOverYearRow[];       // One per position with a candle in any year
 }
 
 export interface PatternDetection {
@@ -115,10 +577,32 @@ export interface RealTimeConfig {
 }
 
 export interface WebSocketMessage {
-  type: 'price' | 'volume' | 'trade' | 'kline';
+  type: 'price' | 'volume' | StreamType;
   symbol: string;
   data: Record<string, number>;
   timestamp: number;
+  levels?: { bids: [string, string][]; asks: [string, string][] };  // Price levels of depth updates
+}
+
+// Binance market streams the stream manager can subscribe to
+export type StreamType = 'kline' | 'trade' | 'aggTrade' | 'miniTicker' | 'bookTicker' | 'depth';
+
+export interface StreamSubscription {
+  symbol: string;
+  type: StreamType;
+  interval?: string;  // Kline interval (default 1m)
+}
+
+// Real-time settings a provider's stream honours
+export type StreamConfig = Pick<RealTimeConfig, 'updateInterval' | 'autoReconnect' | 'maxRetries'>;
+
+export type StreamConnectionState = 'idle' | 'connecting' | 'open' | 'stale' | 'reconnecting' | 'failed';
+
+export interface StreamHealth {
+  state: StreamConnectionState;
+  streams: number;                // Active subscriptions
+  lastMessageAt: number | null;   // Epoch ms of the last frame received
+  reconnectAttempts: number;      // Attempts since the connection was last open
 }
 
 export interface OrderBookData {
@@ -128,6 +612,33 @@ export interface OrderBookData {
   lastUpdateId: number;
 }
 
+export type OrderBookSyncStatus = 'syncing' | 'synced' | 'error';
+
+// Locally maintained book: REST snapshot kept current by the diff-depth stream
+export interface OrderBookState {
+  symbol: string;
+  bids: [number, number][];  // [price, quantity], best (highest) first
+  asks: [number, number][];  // [price, quantity], best (lowest) first
+  lastUpdateId: number;
+  status: OrderBookSyncStatus;
+  updatedAt: number;
+}
+
+export interface LiquidityDepth {
+  band: number;      // Distance from the mid price, in percent
+  bid: number;       // Quote value of bids within the band
+  ask: number;       // Quote value of asks within the band
+  covered: boolean;  // The book reaches the band on both sides; otherwise depth is a lower bound
+}
+
+export interface LiquidityMetrics {
+  midPrice: number;
+  spread: number;
+  spreadPercent: number;   // Spread as a percentage of the mid price
+  depth: LiquidityDepth[];
+  imbalance: number;       // (bid - ask) / (bid + ask) within the widest band, -1 to 1
+}
+
 export interface MarketMetrics {
   symbol: string;
   price: number;
@@ -169,4 +680,22 @@ export interface FilterOptions {
   timeframe: Timeframe;
   metrics: string[];
   dateRange: DateRange;
+  liquidityMeasure: LiquidityMeasure;
+  volatility: VolatilitySettings;
+}
+
+// Definition behind the liquidity metric: volume score (legacy), Amihud
+// illiquidity, quote-volume turnover, average trade size, taker buy/sell
+// ratio, or a liquidity rank normalised across the loaded symbols
+export type LiquidityMeasure = 'volume' | 'amihud' | 'turnover' | 'tradeSize' | 'takerRatio' | 'rank';
+
+// Estimator behind the volatility metric: candle range in percent of the open
+// (legacy), close-to-close realised volatility, or one of the range-based
+// Parkinson, Garman-Klass, Rogers-Satchell and Yang-Zhang estimators
+export type VolatilityEstimator = 'range' | 'closeToClose' | 'parkinson' | 'garmanKlass' | 'rogersSatchell' | 'yangZhang';
+
+export interface VolatilitySettings {
+  estimator: VolatilityEstimator;
+  window: number;       // Candles per estimate, ending at the candle itself
+  annualize: boolean;   // Scale by the square root of candles per year
 }
@@ -0,0 +1,171 @@
+/**
+ * Calendar arithmetic shared by every processor, aggregator and pattern detector
+ * Functions take plain calendar dates (year, month, day) rather than instants,
+ * so results do not depend on the browser timezone. Read the date of an
+ * instant with getTradingDayParts (timezone.ts) or toCalendarDate first.
+ */
+
+export interface CalendarDate {
+  year: number;
+  month: number;  // 1-12
+  day: number;    // 1-31
+}
+
+export interface ISOWeek {
+  weekYear: number;  // ISO week-numbering year; differs from the calendar year around New Year
+  week: number;      // 1-53
+}
+
+export const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+export const MONTH_NAMES = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// UTC midnight is used purely as a day counter, so daylight saving never shifts it
+const toDayNumber = ({ year, month, day }: CalendarDate): number => Date.UTC(year, month - 1, day) / DAY_MS;
+
+const isWeekday = (dayOfWeek: number): boolean => dayOfWeek !== 0 && dayOfWeek !== 6;
+
+/**
+ * Read the calendar date of a Date in the browser timezone
+ * Use for dates already set to local midnight of a trading day (see getTradingDate).
+ * @param date - Date to read
+ * @returns CalendarDate - Local year, month and day
+ */
+export const toCalendarDate = (date: Date): CalendarDate => ({
+  year: date.getFullYear(),
+  month: date.getMonth() + 1,
+  day: date.getDate(),
+});
+
+/**
+ * Get the weekday of a calendar date
+ * @param date - Calendar date
+ * @returns number - Day of week (0 = Sunday)
+ */
+export const getDayOfWeek = (date: CalendarDate): number => {
+  return new Date(Date.UTC(date.year, date.month - 1, date.day)).getUTCDay();
+};
+
+/**
+ * Get the number of days in a month
+ * @param year - Full year
+ * @param month - Month (1-12)
+ * @returns number - 28 to 31
+ */
+export const getDaysInMonth = (year: number, month: number): number => {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+};
+
+/**
+ * Get the day of year of a calendar date
+ * @param date - Calendar date
+ * @returns number - 1 on 1 January, up to 366
+ */
+export const getDayOfYear = (date: CalendarDate): number => {
+  return toDayNumber(date) - toDayNumber({ year: date.year, month: 1, day: 1 }) + 1;
+};
+
+/**
+ * Count the calendar days from one date to another
+ * @param from - Earlier calendar date
+ * @param to - Later calendar date
+ * @returns number - 0 for the same day, negative when `to` is earlier
+ */
+export const getDaysBetween = (from: CalendarDate, to: CalendarDate): number => {
+  return toDayNumber(to) - toDayNumber(from);
+};
+
+/**
+ * Get the quarter of a calendar date
+ * @param date - Calendar date
+ * @returns number - Quarter (1-4)
+ */
+export const getQuarter = (date: CalendarDate): number => {
+  return Math.ceil(date.month / 3);
+};
+
+/**
+ * Get the ISO-8601 week of a calendar date
+ * Weeks start on Monday and week 1 is the week holding the year's first
+ * Thursday, so 30 December 2024 falls in week 1 of week-year 2025.
+ * @param date - Calendar date
+ * @returns ISOWeek - Week-numbering year and week (1-53)
+ */
+export const getISOWeek = (date: CalendarDate): ISOWeek => {
+  const isoWeekday = (getDayOfWeek(date) + 6) % 7;  // 0 = Monday
+  const thursday = new Date((toDayNumber(date) - isoWeekday + 3) * DAY_MS);
+  const weekYear = thursday.getUTCFullYear();
+  const week = Math.floor((thursday.getTime() - Date.UTC(weekYear, 0, 1)) / (7 * DAY_MS)) + 1;
+  return { weekYear, week };
+};
+
+/**
+ * Get a sortable key for the ISO week of a calendar date
+ * @param date - Calendar date
+ * @returns string - e.g. "2025-W01"
+ */
+export const getISOWeekKey = (date: CalendarDate): string => {
+  const { weekYear, week } = getISOWeek(date);
+  return `${weekYear}-W${week.toString().padStart(2, '0')}`;
+};
+
+/**
+ * Get the position of a day among the trading days of its month
+ * Crypto trades every day, so by default every day counts; pass
+ * weekdaysOnly for equity-style calendars that skip weekends.
+ * @param date - Calendar date
+ * @param weekdaysOnly - Count Monday to Friday only
+ * @returns number | null - 1 on the first trading day; null for a weekend day when weekdaysOnly
+ */
+export const getTradingDayOfMonth = (date: CalendarDate, weekdaysOnly = false): number | null => {
+  if (!weekdaysOnly) return date.day;
+  if (!isWeekday(getDayOfWeek(date))) return null;
+
+  let count = 0;
+  for (let day = 1; day <= date.day; day++) {
+    if (isWeekday(getDayOfWeek({ ...date, day }))) count++;
+  }
+  return count;
+};
+
+/**
+ * Get how many trading days remain in the month after a day
+ * Used for turn-of-month analysis: 0 is the last trading day of the month.
+ * @param date - Calendar date
+ * @param weekdaysOnly - Count Monday to Friday only
+ * @returns number | null - Trading days left after this one; null for a weekend day when weekdaysOnly
+ */
+export const getMonthEndOffset = (date: CalendarDate, weekdaysOnly = false): number | null => {
+  const daysInMonth = getDaysInMonth(date.year, date.month);
+  if (!weekdaysOnly) return daysInMonth - date.day;
+  if (!isWeekday(getDayOfWeek(date))) return null;
+
+  let count = 0;
+  for (let day = date.day + 1; day <= daysInMonth; day++) {
+    if (isWeekday(getDayOfWeek({ ...date, day }))) count++;
+  }
+  return count;
+};
+
+/**
+ * Get the name of a weekday
+ * @param dayOfWeek - Day number (0-6, where 0 is Sunday)
+ * @returns string - Day name
+ */
+export const getDayName = (dayOfWeek: number): string => {
+  return DAY_NAMES[dayOfWeek] || 'Unknown';
+};
+
+/**
+ * Get the name of a month
+ * @param month - Month number (1-12)
+ * @returns string - Month name
+ */
+export const getMonthName = (month: number): string => {
+  return MONTH_NAMES[month - 1] || 'Unknown';
+};
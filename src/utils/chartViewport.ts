@@ -0,0 +1,67 @@
+/**
+ * Visible slice of a chart's data, as inclusive start and end indices
+ */
+export interface ChartViewport {
+  start: number;
+  end: number;
+}
+
+// Zooming in stops once this many candles are visible
+export const MIN_VISIBLE_CANDLES = 10;
+
+/**
+ * Get the viewport showing every point
+ * @param length - Number of data points
+ * @returns ChartViewport - Whole data range
+ */
+export const getFullViewport = (length: number): ChartViewport => ({ start: 0, end: Math.max(0, length - 1) });
+
+/**
+ * Keep a viewport inside the data
+ * Indices are rounded and ordered; a viewport wider than the data shows all of it.
+ * @param viewport - Requested viewport
+ * @param length - Number of data points
+ * @returns ChartViewport - Viewport within [0, length - 1]
+ */
+export const clampViewport = (viewport: ChartViewport, length: number): ChartViewport => {
+  if (length <= 0) return { start: 0, end: 0 };
+  const last = length - 1;
+  const start = Math.min(Math.max(0, Math.round(Math.min(viewport.start, viewport.end))), last);
+  const end = Math.min(Math.max(start, Math.round(Math.max(viewport.start, viewport.end))), last);
+  return { start, end };
+};
+
+/**
+ * Zoom a viewport around its centre
+ * @param viewport - Current viewport
+ * @param length - Number of data points
+ * @param factor - Width multiplier; below 1 zooms in, above 1 zooms out
+ * @returns ChartViewport - Zoomed viewport, never narrower than MIN_VISIBLE_CANDLES
+ */
+export const zoomViewport = (viewport: ChartViewport, length: number, factor: number): ChartViewport => {
+  if (length <= 0) return { start: 0, end: 0 };
+  const { start, end } = clampViewport(viewport, length);
+  const width = end - start + 1;
+  const target = Math.min(length, Math.max(Math.min(MIN_VISIBLE_CANDLES, length), Math.round(width * factor)));
+  if (target === width) return { start, end };
+
+  // Centre the new width on the old one, then slide it back inside the data
+  const centre = (start + end) / 2;
+  const newStart = Math.min(Math.max(0, Math.round(centre - (target - 1) / 2)), length - target);
+  return { start: newStart, end: newStart + target - 1 };
+};
+
+/**
+ * Move a viewport along the data without changing its width
+ * @param viewport - Current viewport
+ * @param length - Number of data points
+ * @param shift - Points to move; negative moves back in time
+ * @returns ChartViewport - Shifted viewport, stopped at either end of the data
+ */
+export const panViewport = (viewport: ChartViewport, length: number, shift: number): ChartViewport => {
+  if (length <= 0) return { start: 0, end: 0 };
+  const { start, end } = clampViewport(viewport, length);
+  const width = end - start;
+  const newStart = Math.min(Math.max(0, start + Math.round(shift)), length - 1 - width);
+  return { start: newStart, end: newStart + width };
+};
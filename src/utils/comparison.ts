@@ -0,0 +1,156 @@
+import { ComparisonDisplayMode, ComparisonRow, PerformanceStats, ProcessedDayData } from '@/types';
+import { getMaxDrawdown } from './drawdown';
+import { mean, sampleStdDev } from './statistics';
+import { getPeriodsPerYear } from './volatility';
+
+export interface ComparisonDisplayModeInfo {
+  label: string;
+  description: string;
+  pairwise: boolean;  // Plots one line computed from two datasets
+}
+
+/**
+ * Ways a comparison chart can plot its datasets
+ */
+export const COMPARISON_DISPLAY_MODES: Record<ComparisonDisplayMode, ComparisonDisplayModeInfo> = {
+  rebased: { label: 'Rebased', description: 'Closes as an index starting at 100 on the first date every dataset covers', pairwise: false },
+  log: { label: 'Log scale', description: 'Closes on a logarithmic axis, so equal percentage moves look the same size', pairwise: false },
+  price: { label: 'Price', description: 'Raw closes', pairwise: false },
+  ratio: { label: 'Ratio', description: 'Close of the first dataset divided by the close of the second', pairwise: true },
+  spread: { label: 'Spread', description: 'First rebased index minus the second, in index points', pairwise: true },
+  volatility: { label: 'Volatility', description: 'Candle volatility, percent', pairwise: false },
+};
+
+export interface ComparisonSeries {
+  key: string;
+  data: ProcessedDayData[];  // Candles sorted oldest first
+}
+
+const YEAR_MS = 365 * 24 * 60 * 60 * 1000;
+
+/**
+ * Line datasets up on their candle timestamps
+ * @param series - Datasets to align
+ * @param value - Value to read from each candle, given the candles of its dataset
+ * @returns ComparisonRow[] - One row per timestamp any dataset has, oldest first
+ */
+export const alignSeries = (
+  series: ComparisonSeries[],
+  value: (candle: ProcessedDayData, data: ProcessedDayData[]) => number
+): ComparisonRow[] => {
+  const rows = new Map<number, Record<string, number>>();
+  series.forEach(({ key, data }) => {
+    data.forEach(candle => {
+      const time = candle.date.getTime();
+      const values = rows.get(time);
+      if (values) {
+        values[key] = value(candle, data);
+      } else {
+        rows.set(time, { [key]: value(candle, data) });
+      }
+    });
+  });
+  return Array.from(rows.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([time, values]) => ({ time, values }));
+};
+
+/**
+ * Get the first timestamp every non-empty dataset has reached
+ * @param series - Datasets to compare
+ * @returns number | null - Latest first candle time, or null when every dataset is empty
+ */
+export const getCommonStart = (series: ComparisonSeries[]): number | null => {
+  const starts = series.filter(({ data }) => data.length > 0).map(({ data }) => data[0].date.getTime());
+  return starts.length > 0 ? Math.max(...starts) : null;
+};
+
+/**
+ * Trim datasets to the window they all cover
+ * @param series - Datasets to compare
+ * @returns ComparisonSeries[] - Each dataset from the common start on
+ */
+export const getCommonWindow = (series: ComparisonSeries[]): ComparisonSeries[] => {
+  const start = getCommonStart(series);
+  if (start === null) return series;
+  return series.map(({ key, data }) => ({ key, data: data.filter(candle => candle.date.getTime() >= start) }));
+};
+
+// Index a close against the first close of its dataset
+const rebase = (candle: ProcessedDayData, data: ProcessedDayData[]): number => (candle.close / data[0].close) * 100;
+
+/**
+ * Build the rows a comparison chart plots in a display mode
+ * Price, log and volatility rows hold raw values under each dataset key.
+ * Rebased rows start every dataset at 100 from the common start. Ratio and
+ * spread rows hold one value under the mode name, at the timestamps both
+ * datasets of the pair share.
+ * @param series - Datasets to compare
+ * @param mode - Display mode
+ * @param pair - Keys of the two datasets a ratio or spread is taken between
+ * @returns ComparisonRow[] - Rows oldest first
+ */
+export const buildComparisonRows = (
+  series: ComparisonSeries[],
+  mode: ComparisonDisplayMode,
+  pair?: [string, string]
+): ComparisonRow[] => {
+  switch (mode) {
+    case 'price':
+    case 'log':
+      return alignSeries(series, candle => candle.close);
+    case 'volatility':
+      return alignSeries(series, candle => candle.volatility);
+    case 'rebased':
+      return alignSeries(getCommonWindow(series).filter(({ data }) => data.length > 0 && data[0].close > 0), rebase);
+    case 'ratio':
+    case 'spread': {
+      const first = series.find(s => s.key === pair?.[0]);
+      const second = series.find(s => s.key === pair?.[1]);
+      if (!first || !second || first === second) return [];
+
+      const windowed = getCommonWindow([first, second]).filter(({ data }) => data.length > 0 && data[0].close > 0);
+      if (windowed.length < 2) return [];
+      return alignSeries(windowed, mode === 'ratio' ? candle => candle.close : rebase).flatMap(({ time, values }) => {
+        const a = values[first.key];
+        const b = values[second.key];
+        if (a === undefined || b === undefined || (mode === 'ratio' && b <= 0)) return [];
+        return [{ time, values: { [mode]: mode === 'ratio' ? a / b : a - b } }];
+      });
+    }
+  }
+};
+
+/**
+ * Summarise the performance of a dataset
+ * Volatility and Sharpe annualise candle-to-candle close returns by the
+ * candles in a year of the timeframe; CAGR uses the calendar time elapsed.
+ * @param data - Candles sorted oldest first
+ * @param interval - Timeframe of the candles (e.g., '1d', '1w')
+ * @returns PerformanceStats | null - null for an empty dataset
+ */
+export const computePerformanceStats = (data: ProcessedDayData[], interval: string): PerformanceStats | null => {
+  if (data.length === 0) return null;
+  const first = data[0];
+  const last = data[data.length - 1];
+  const growth = first.close > 0 ? last.close / first.close : 1;
+  const elapsed = last.date.getTime() - first.date.getTime();
+
+  const returns = data.slice(1).flatMap((candle, index) => {
+    const previous = data[index].close;
+    return previous > 0 ? [candle.close / previous - 1] : [];
+  });
+  const periodsPerYear = getPeriodsPerYear(interval);
+  const deviation = sampleStdDev(returns);
+
+  return {
+    start: first.date,
+    end: last.date,
+    totalReturn: (growth - 1) * 100,
+    cagr: elapsed > 0 ? (growth ** (YEAR_MS / elapsed) - 1) * 100 : null,
+    maxDrawdown: getMaxDrawdown(data),
+    volatility: deviation * Math.sqrt(periodsPerYear) * 100,
+    sharpe: returns.length >= 2 && deviation > 0 ? (mean(returns) * Math.sqrt(periodsPerYear)) / deviation : null,
+    count: data.length,
+  };
+};
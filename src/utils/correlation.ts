@@ -0,0 +1,215 @@
+import {
+  CorrelationBreakdown, CorrelationBreakdownDimension, CorrelationBucket, CorrelationMatrix, CorrelationMethod,
+  ProcessedDayData, RollingCorrelationPoint,
+} from '@/types';
+import { getDayOfWeek, toCalendarDate } from './calendarMath';
+import { ComparisonSeries } from './comparison';
+import { getSeasonalityLabel } from './seasonality';
+import {
+  chiSquarePValue, pearsonCorrelation, sampleCovariance, sampleVariance, spearmanCorrelation,
+} from './statistics';
+
+export interface CorrelationMethodInfo {
+  label: string;
+  description: string;
+}
+
+export const CORRELATION_METHODS: Record<CorrelationMethod, CorrelationMethodInfo> = {
+  pearson: { label: 'Pearson', description: 'Linear co-movement of candle returns' },
+  spearman: { label: 'Spearman', description: 'Rank correlation of candle returns; less swayed by outliers' },
+};
+
+// Rolling windows offered in the view, in candles
+export const ROLLING_CORRELATION_WINDOWS = [30, 60, 90, 180];
+
+export interface PairedReturns {
+  times: number[];  // Timestamps both datasets have a return at, oldest first
+  asset: number[];
+  benchmark: number[];
+}
+
+// Two-sided 95% normal quantile
+const Z_95 = 1.959964;
+
+// Fisher's z of a Spearman coefficient has about 1.06 times the variance of a Pearson one
+const SPEARMAN_VARIANCE_FACTOR = 1.06;
+
+/**
+ * Get candle-to-candle close returns keyed by candle timestamp
+ * @param data - Candles sorted oldest first
+ * @returns Map<number, number> - Return of each candle after the first, as a fraction
+ */
+export const getReturnsByTime = (data: ProcessedDayData[]): Map<number, number> => {
+  const returns = new Map<number, number>();
+  data.forEach((candle, index) => {
+    const previous = index > 0 ? data[index - 1].close : 0;
+    if (previous > 0) returns.set(candle.date.getTime(), candle.close / previous - 1);
+  });
+  return returns;
+};
+
+/**
+ * Pair the returns two datasets have at the same timestamps
+ * @param asset - Returns by time of the first dataset
+ * @param benchmark - Returns by time of the second dataset
+ * @returns PairedReturns - Shared timestamps and both returns, oldest first
+ */
+export const pairReturns = (asset: Map<number, number>, benchmark: Map<number, number>): PairedReturns => {
+  const times = Array.from(asset.keys()).filter(time => benchmark.has(time)).sort((a, b) => a - b);
+  return {
+    times,
+    asset: times.map(time => asset.get(time) ?? 0),
+    benchmark: times.map(time => benchmark.get(time) ?? 0),
+  };
+};
+
+/**
+ * Correlate two paired samples
+ * @param a - First sample
+ * @param b - Second sample
+ * @param method - Pearson or Spearman
+ * @returns number | null - Coefficient, or null when undefined
+ */
+export const correlate = (a: number[], b: number[], method: CorrelationMethod): number | null =>
+  method === 'pearson' ? pearsonCorrelation(a, b) : spearmanCorrelation(a, b);
+
+/**
+ * Beta of an asset's returns to a benchmark's
+ * @param asset - Asset returns
+ * @param benchmark - Benchmark returns, paired with the asset's
+ * @returns number | null - Covariance over benchmark variance, or null when the benchmark does not move
+ */
+export const getBeta = (asset: number[], benchmark: number[]): number | null => {
+  const variance = sampleVariance(benchmark);
+  return benchmark.length >= 2 && variance > 0 ? sampleCovariance(asset, benchmark) / variance : null;
+};
+
+/**
+ * Correlate the candle returns of every pair of datasets
+ * Each pair uses the timestamps both datasets have a return at.
+ * @param series - Datasets keyed by symbol
+ * @param method - Pearson or Spearman
+ * @returns CorrelationMatrix - Symmetric matrix with 1 on the diagonal
+ */
+export const buildCorrelationMatrix = (series: ComparisonSeries[], method: CorrelationMethod): CorrelationMatrix => {
+  const returns = series.map(({ data }) => getReturnsByTime(data));
+  const values: (number | null)[][] = series.map(() => series.map(() => null));
+  const counts: number[][] = series.map(() => series.map(() => 0));
+
+  series.forEach((_, i) => {
+    counts[i][i] = returns[i].size;
+    values[i][i] = returns[i].size >= 3 ? 1 : null;
+    for (let j = i + 1; j < series.length; j++) {
+      const paired = pairReturns(returns[i], returns[j]);
+      const value = correlate(paired.asset, paired.benchmark, method);
+      values[i][j] = values[j][i] = value;
+      counts[i][j] = counts[j][i] = paired.times.length;
+    }
+  });
+
+  return { method, keys: series.map(({ key }) => key), values, counts };
+};
+
+/**
+ * Correlation and beta of an asset to a benchmark over a sliding window
+ * @param asset - Asset candles sorted oldest first
+ * @param benchmark - Benchmark candles sorted oldest first
+ * @param window - Shared returns in each window
+ * @param method - Pearson or Spearman (beta is always the least-squares slope)
+ * @returns RollingCorrelationPoint[] - One point per full window, oldest first
+ */
+export const buildRollingCorrelation = (
+  asset: ProcessedDayData[],
+  benchmark: ProcessedDayData[],
+  window: number,
+  method: CorrelationMethod = 'pearson'
+): RollingCorrelationPoint[] => {
+  const paired = pairReturns(getReturnsByTime(asset), getReturnsByTime(benchmark));
+  const size = Math.max(3, Math.round(window));
+  const points: RollingCorrelationPoint[] = [];
+  for (let end = size; end <= paired.times.length; end++) {
+    const a = paired.asset.slice(end - size, end);
+    const b = paired.benchmark.slice(end - size, end);
+    points.push({ time: paired.times[end - 1], correlation: correlate(a, b, method), beta: getBeta(a, b) });
+  }
+  return points;
+};
+
+const getBucketKey = (time: number, dimension: CorrelationBreakdownDimension): number => {
+  const date = toCalendarDate(new Date(time));
+  return dimension === 'month' ? date.month : getDayOfWeek(date);
+};
+
+// Months run January to December, weekdays Monday to Sunday
+const sortKey = (key: number, dimension: CorrelationBreakdownDimension): number =>
+  dimension === 'weekday' ? (key + 6) % 7 : key;
+
+/**
+ * Check whether an asset's correlation to a benchmark depends on the month or weekday
+ * Each bucket gets its correlation with a Fisher z interval and its beta. A
+ * chi-square test on the buckets' Fisher z values asks whether they could all
+ * share one correlation; a small p-value means the dependency shifts.
+ * @param asset - Asset candles sorted oldest first
+ * @param benchmark - Benchmark candles sorted oldest first
+ * @param dimension - Month of year or day of week
+ * @param method - Pearson or Spearman
+ * @returns CorrelationBreakdown - Buckets in calendar order and the homogeneity test
+ */
+export const buildCorrelationBreakdown = (
+  asset: ProcessedDayData[],
+  benchmark: ProcessedDayData[],
+  dimension: CorrelationBreakdownDimension,
+  method: CorrelationMethod = 'pearson'
+): CorrelationBreakdown => {
+  const paired = pairReturns(getReturnsByTime(asset), getReturnsByTime(benchmark));
+  const varianceFactor = method === 'spearman' ? SPEARMAN_VARIANCE_FACTOR : 1;
+
+  const groups = new Map<number, number[]>();
+  paired.times.forEach((time, index) => {
+    const key = getBucketKey(time, dimension);
+    const group = groups.get(key);
+    if (group) {
+      group.push(index);
+    } else {
+      groups.set(key, [index]);
+    }
+  });
+
+  const buckets: CorrelationBucket[] = Array.from(groups.entries())
+    .sort(([a], [b]) => sortKey(a, dimension) - sortKey(b, dimension))
+    .map(([key, indices]) => {
+      const a = indices.map(index => paired.asset[index]);
+      const b = indices.map(index => paired.benchmark[index]);
+      const correlation = correlate(a, b, method);
+      const standardError = Math.sqrt(varianceFactor / (indices.length - 3));
+      const z = correlation !== null && Math.abs(correlation) < 1 && indices.length > 3 ? Math.atanh(correlation) : null;
+      return {
+        key,
+        label: getSeasonalityLabel(key, dimension),
+        count: indices.length,
+        correlation,
+        confidenceInterval: z === null
+          ? null
+          : [Math.tanh(z - Z_95 * standardError), Math.tanh(z + Z_95 * standardError)],
+        beta: getBeta(a, b),
+      };
+    });
+
+  // Weighted spread of Fisher z around its pooled value, chi-square with k - 1 degrees of freedom
+  const tested = buckets
+    .filter(bucket => bucket.correlation !== null && Math.abs(bucket.correlation) < 1 && bucket.count > 3)
+    .map(bucket => ({ z: Math.atanh(bucket.correlation ?? 0), weight: (bucket.count - 3) / varianceFactor }));
+  const totalWeight = tested.reduce((sum, { weight }) => sum + weight, 0);
+  const pooled = tested.reduce((sum, { z, weight }) => sum + z * weight, 0) / totalWeight;
+  const statistic = tested.reduce((sum, { z, weight }) => sum + weight * (z - pooled) ** 2, 0);
+
+  return {
+    dimension,
+    method,
+    overall: correlate(paired.asset, paired.benchmark, method),
+    buckets,
+    homogeneity: tested.length >= 2
+      ? { statistic, degreesOfFreedom: tested.length - 1, pValue: chiSquarePValue(statistic, tested.length - 1) }
+      : null,
+  };
+};
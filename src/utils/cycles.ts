@@ -0,0 +1,271 @@
+import {
+  CorrelogramPoint, CycleReport, CyclePeak, CycleSeries, ProcessedDayData, SpectrumPoint,
+} from '@/types';
+import { adjustPValues, mean, normalQuantile } from './statistics';
+
+export interface CycleSeriesInfo {
+  label: string;
+  description: string;
+}
+
+export const CYCLE_SERIES: Record<CycleSeries, CycleSeriesInfo> = {
+  returns: { label: 'Returns', description: 'Candle returns; cycles here are repeating gains and losses' },
+  volatility: { label: 'Volatility', description: 'Candle volatility; cycles here are recurring calm and busy stretches' },
+  volume: { label: 'Volume', description: 'Log volume, so a few huge candles do not dominate the spectrum' },
+};
+
+export const DEFAULT_CYCLE_MAX_LAG = 40;
+
+// Shortest history the correlogram and spectrum are computed for
+export const MIN_CYCLE_OBSERVATIONS = 32;
+
+// A cycle must repeat at least this many times within the sample to be reported
+const MIN_CYCLE_REPEATS = 3;
+
+const MAX_CYCLE_PEAKS = 5;
+
+const SIGNIFICANCE = 0.05;
+
+/**
+ * Get the values of a series from the candles
+ * @param data - Candles sorted oldest first
+ * @param series - Returns, volatility or volume
+ * @returns number[] - One value per candle, skipping non-finite values (and zero volume)
+ */
+export const getCycleSeriesValues = (data: ProcessedDayData[], series: CycleSeries): number[] =>
+  data
+    .map(candle => {
+      switch (series) {
+        case 'returns':
+          return candle.performance;
+        case 'volatility':
+          return candle.volatility;
+        case 'volume':
+          return candle.volume > 0 ? Math.log(candle.volume) : NaN;
+      }
+    })
+    .filter(value => Number.isFinite(value));
+
+/**
+ * Remove the least-squares straight line from a series
+ * A trend would otherwise pile power into the lowest frequencies.
+ * @param values - Series in time order
+ * @returns number[] - Residuals, mean zero
+ */
+export const detrend = (values: number[]): number[] => {
+  const n = values.length;
+  if (n < 2) return values.map(() => 0);
+  const middle = (n - 1) / 2;
+  const average = mean(values);
+  let covariance = 0;
+  let variance = 0;
+  values.forEach((value, index) => {
+    covariance += (index - middle) * (value - average);
+    variance += (index - middle) ** 2;
+  });
+  const slope = covariance / variance;
+  return values.map((value, index) => value - average - slope * (index - middle));
+};
+
+/**
+ * Sample autocorrelation function
+ * @param values - Series in time order
+ * @param maxLag - Largest lag, in observations
+ * @returns number[] - Autocorrelation at lags 0 to maxLag (lag 0 is 1); zeros without variance
+ */
+export const autocorrelation = (values: number[], maxLag: number): number[] => {
+  const average = mean(values);
+  const centred = values.map(value => value - average);
+  const c0 = centred.reduce((sum, value) => sum + value * value, 0);
+  return Array.from({ length: Math.max(0, Math.min(maxLag, values.length - 1)) + 1 }, (_, lag) => {
+    if (c0 === 0) return lag === 0 ? 1 : 0;
+    let sum = 0;
+    for (let t = 0; t + lag < centred.length; t++) sum += centred[t] * centred[t + lag];
+    return sum / c0;
+  });
+};
+
+/**
+ * Partial autocorrelations from an autocorrelation function (Durbin-Levinson)
+ * @param acf - Autocorrelation at lags 0 to maxLag, as from autocorrelation
+ * @returns number[] - Partial autocorrelation at lags 0 to maxLag (lag 0 is 1)
+ */
+export const partialAutocorrelation = (acf: number[]): number[] => {
+  const pacf = [1];
+  let previous: number[] = [];
+  for (let k = 1; k < acf.length; k++) {
+    const numerator = acf[k] - previous.reduce((sum, phi, j) => sum + phi * acf[k - 1 - j], 0);
+    const denominator = 1 - previous.reduce((sum, phi, j) => sum + phi * acf[j + 1], 0);
+    const phiKK = denominator !== 0 ? numerator / denominator : 0;
+    previous = [...previous.map((phi, j) => phi - phiKK * previous[k - 2 - j]), phiKK];
+    pacf.push(phiKK);
+  }
+  return pacf;
+};
+
+/**
+ * Pair the ACF and PACF of a series with their 95% significance bands
+ * @param values - Series in time order
+ * @param maxLag - Largest lag
+ * @returns CorrelogramPoint[] - Lags 1 to maxLag; empty with fewer than two values
+ */
+export const buildCorrelogram = (values: number[], maxLag = DEFAULT_CYCLE_MAX_LAG): CorrelogramPoint[] => {
+  const n = values.length;
+  if (n < 2) return [];
+  const z = normalQuantile(1 - SIGNIFICANCE / 2);
+  const acf = autocorrelation(values, maxLag);
+  const pacf = partialAutocorrelation(acf);
+  let sumSquares = 0;
+  return acf.slice(1).map((value, index) => {
+    const lag = index + 1;
+    // Bartlett: the band widens with the autocorrelation at lower lags
+    const acfBand = z * Math.sqrt((1 + 2 * sumSquares) / n);
+    sumSquares += value * value;
+    return { lag, acf: value, pacf: pacf[lag], acfBand, pacfBand: z / Math.sqrt(n) };
+  });
+};
+
+/**
+ * Discrete Fourier transform by iterative radix-2 FFT
+ * @param re - Real parts; length must be a power of two
+ * @param im - Imaginary parts, same length
+ * @returns [number[], number[]] - Real and imaginary parts of the transform
+ */
+export const fft = (re: number[], im: number[]): [number[], number[]] => {
+  const n = re.length;
+  const real = [...re];
+  const imag = [...im];
+
+  // Bit-reversal permutation
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [real[i], real[j]] = [real[j], real[i]];
+      [imag[i], imag[j]] = [imag[j], imag[i]];
+    }
+  }
+
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = (-2 * Math.PI) / size;
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < size / 2; k++) {
+        const wr = Math.cos(angle * k);
+        const wi = Math.sin(angle * k);
+        const a = start + k;
+        const b = a + size / 2;
+        const tr = real[b] * wr - imag[b] * wi;
+        const ti = real[b] * wi + imag[b] * wr;
+        real[b] = real[a] - tr;
+        imag[b] = imag[a] - ti;
+        real[a] += tr;
+        imag[a] += ti;
+      }
+    }
+  }
+  return [real, imag];
+};
+
+/**
+ * Periodogram of a detrended series against a red-noise background
+ * The series is zero-padded to a power of two for the FFT. The background is
+ * the spectrum of an AR(1) process with the series' variance and lag-1
+ * autocorrelation, so slowly wandering series such as volatility are not
+ * mistaken for cycles; a single ordinate over the background is
+ * exponentially distributed, which gives the 95% threshold.
+ * @param values - Series in time order
+ * @returns SpectrumPoint[] - Frequencies above zero up to 0.5, lowest first; empty with fewer than two values
+ */
+export const periodogram = (values: number[]): SpectrumPoint[] => {
+  const n = values.length;
+  if (n < 2) return [];
+  const residuals = detrend(values);
+  const size = 2 ** Math.ceil(Math.log2(n));
+  const padded = [...residuals, ...new Array<number>(size - n).fill(0)];
+  const [real, imag] = fft(padded, new Array<number>(size).fill(0));
+
+  const variance = residuals.reduce((sum, value) => sum + value * value, 0) / n;
+  const rho = Math.max(-0.99, Math.min(0.99, autocorrelation(residuals, 1)[1] ?? 0));
+  const cutoff = -Math.log(SIGNIFICANCE);
+
+  return Array.from({ length: size / 2 }, (_, index) => {
+    const k = index + 1;
+    const frequency = k / size;
+    const background = (variance * (1 - rho ** 2)) / (1 - 2 * rho * Math.cos(2 * Math.PI * frequency) + rho ** 2);
+    return {
+      frequency,
+      period: 1 / frequency,
+      power: (real[k] ** 2 + imag[k] ** 2) / n,
+      background,
+      threshold: background * cutoff,
+    };
+  });
+};
+
+/**
+ * Find the dominant periods of a spectrum
+ * Local maxima with periods from 2 candles up to a third of the sample are
+ * tested against the background, and their p-values corrected with
+ * Benjamini-Hochberg across every frequency searched.
+ * @param spectrum - Spectrum from periodogram
+ * @param count - Observations behind the spectrum
+ * @param acf - Autocorrelation at lags 0 and up, for the ACF at each period
+ * @returns CyclePeak[] - Significant peaks, strongest first, at most five
+ */
+export const findCyclePeaks = (spectrum: SpectrumPoint[], count: number, acf: number[] = []): CyclePeak[] => {
+  const searched = spectrum
+    .map((point, index) => ({ point, index }))
+    .filter(({ point }) => point.period >= 2 && point.period <= count / MIN_CYCLE_REPEATS);
+  const pValues = searched.map(({ point }) => (point.background > 0 ? Math.exp(-point.power / point.background) : 1));
+  const adjusted = adjustPValues(pValues, 'benjaminiHochberg');
+  const totalPower = spectrum.reduce((sum, point) => sum + point.power, 0);
+
+  return searched
+    .flatMap(({ point, index }, i) => {
+      const isPeak = point.power >= (spectrum[index - 1]?.power ?? 0) && point.power >= (spectrum[index + 1]?.power ?? 0);
+      const adjustedPValue = adjusted[i] ?? 1;
+      if (!isPeak || adjustedPValue >= SIGNIFICANCE) return [];
+      const lag = Math.round(point.period);
+      return [{
+        period: point.period,
+        frequency: point.frequency,
+        power: point.power,
+        ratio: point.power / point.background,
+        share: totalPower > 0 ? point.power / totalPower : 0,
+        pValue: pValues[i],
+        adjustedPValue,
+        autocorrelation: lag < acf.length ? acf[lag] : null,
+      }];
+    })
+    .sort((a, b) => a.adjustedPValue - b.adjustedPValue || b.ratio - a.ratio)
+    .slice(0, MAX_CYCLE_PEAKS);
+};
+
+/**
+ * Search a candle series for cycles
+ * @param data - Candles sorted oldest first
+ * @param series - Returns, volatility or volume
+ * @param maxLag - Largest correlogram lag, capped at a quarter of the sample
+ * @returns CycleReport - Correlogram, spectrum and significant peaks; empty below MIN_CYCLE_OBSERVATIONS
+ */
+export const buildCycleReport = (
+  data: ProcessedDayData[],
+  series: CycleSeries,
+  maxLag = DEFAULT_CYCLE_MAX_LAG
+): CycleReport => {
+  const values = getCycleSeriesValues(data, series);
+  if (values.length < MIN_CYCLE_OBSERVATIONS) {
+    return { series, count: values.length, correlogram: [], spectrum: [], peaks: [] };
+  }
+  const lags = Math.min(maxLag, Math.floor(values.length / 4));
+  const residuals = detrend(values);
+  const spectrum = periodogram(values);
+  return {
+    series,
+    count: values.length,
+    correlogram: buildCorrelogram(residuals, lags),
+    spectrum,
+    peaks: findCyclePeaks(spectrum, values.length, autocorrelation(residuals, lags)),
+  };
+};
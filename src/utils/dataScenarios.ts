@@ -1,4 +1,6 @@
 import { ProcessedDayData } from '@/types';
+import { getTradingSession } from './intraday';
+import { getISOWeek, toCalendarDate } from './calendarMath';
 
 /**
  * Generate realistic mock market data for testing and development
@@ -46,8 +48,10 @@ export const generateMockData = (days: number, startDate?: Date): ProcessedDayDa
       performance,
       liquidity,
       dayOfWeek: date.getDay(),
-      weekOfYear: Math.ceil((date.getTime() - new Date(date.getFullYear(), 0, 1).getTime()) / (7 * 24 * 60 * 60 * 1000)),
-      monthOfYear: date.getMonth() + 1
+      weekOfYear: getISOWeek(toCalendarDate(date)).week,
+      monthOfYear: date.getMonth() + 1,
+      hourOfDay: date.getHours(),
+      session: getTradingSession(date)
     });
   }
   
@@ -98,8 +102,10 @@ export const generateSeasonalData = (days: number): ProcessedDayData[] => {
       performance,
       liquidity,
       dayOfWeek: date.getDay(),
-      weekOfYear: Math.ceil((date.getTime() - new Date(date.getFullYear(), 0, 1).getTime()) / (7 * 24 * 60 * 60 * 1000)),
-      monthOfYear: date.getMonth() + 1
+      weekOfYear: getISOWeek(toCalendarDate(date)).week,
+      monthOfYear: date.getMonth() + 1,
+      hourOfDay: date.getHours(),
+      session: getTradingSession(date)
     });
   }
   
@@ -156,8 +162,10 @@ export const generateTrendData = (days: number, trend: 'up' | 'down' | 'sideways
       performance,
       liquidity,
       dayOfWeek: date.getDay(),
-      weekOfYear: Math.ceil((date.getTime() - new Date(date.getFullYear(), 0, 1).getTime()) / (7 * 24 * 60 * 60 * 1000)),
-      monthOfYear: date.getMonth() + 1
+      weekOfYear: getISOWeek(toCalendarDate(date)).week,
+      monthOfYear: date.getMonth() + 1,
+      hourOfDay: date.getHours(),
+      session: getTradingSession(date)
     });
   }
   
@@ -204,8 +212,10 @@ export const generateVolatileData = (days: number): ProcessedDayData[] => {
       performance,
       liquidity,
       dayOfWeek: date.getDay(),
-      weekOfYear: Math.ceil((date.getTime() - new Date(date.getFullYear(), 0, 1).getTime()) / (7 * 24 * 60 * 60 * 1000)),
-      monthOfYear: date.getMonth() + 1
+      weekOfYear: getISOWeek(toCalendarDate(date)).week,
+      monthOfYear: date.getMonth() + 1,
+      hourOfDay: date.getHours(),
+      session: getTradingSession(date)
     });
   }
   
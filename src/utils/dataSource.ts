@@ -0,0 +1,105 @@
+import { CandleCacheStatus, DataSourceState, DataSourceStatus, MarketDataErrorKind, RequestWeightStatus, RetryNotice } from '@/types';
+
+// Text stamped on every chart, dashboard and export built from generated data
+export const SYNTHETIC_WATERMARK = 'SYNTHETIC DATA - NOT REAL MARKET PRICES';
+
+// Source name reported in place of the provider while synthetic data is shown
+export const SYNTHETIC_SOURCE_NAME = 'Synthetic data';
+
+/**
+ * Display labels for each data source state
+ */
+export const DATA_SOURCE_LABELS: Record<DataSourceState, string> = {
+  live: 'Live',
+  cached: 'Cached',
+  stale: 'Stale',
+  synthetic: 'Synthetic',
+  error: 'Error',
+};
+
+/**
+ * Display labels for each kind of failed request, shown in place of 'Error'
+ */
+export const MARKET_DATA_ERROR_LABELS: Record<MarketDataErrorKind, string> = {
+  'rate-limited': 'Rate limited',
+  'invalid-symbol': 'Invalid symbol',
+  network: 'Offline',
+  server: 'Server error',
+  parse: 'Bad response',
+};
+
+/**
+ * Summarise the request weight used in the current rate limit window
+ * @param status - Weight reported by the provider
+ * @returns string - Short description for display
+ */
+export const describeRequestWeight = (status: RequestWeightStatus): string =>
+  `API weight ${status.used.toLocaleString()} / ${status.limit.toLocaleString()} per minute`;
+
+/**
+ * Summarise a request the provider is about to retry
+ * @param notice - Retry reported by the provider
+ * @returns string - Short description for display, e.g. "Rate limited, retry 1 in 7s"
+ */
+export const describeRetryNotice = (notice: RetryNotice): string => {
+  const reason = notice.errorKind ? MARKET_DATA_ERROR_LABELS[notice.errorKind] : 'Request failed';
+  return `${reason}, retry ${notice.attempt} in ${Math.ceil(notice.delayMs / 1000)}s`;
+};
+
+/**
+ * Summarise where the candles of the last load came from
+ * @param status - Cache status returned with the kline history
+ * @returns string - Short description for display
+ */
+export const describeCacheStatus = (status: CandleCacheStatus): string => {
+  if (status.offline) {
+    return `Offline: served ${status.cachedCandles.toLocaleString()} candles from cache`;
+  }
+  if (status.fetchedCandles === 0) {
+    return `Served from cache (${status.cachedCandles.toLocaleString()} candles)`;
+  }
+  const fromCache = status.cachedCandles > 0 ? `, ${status.cachedCandles.toLocaleString()} from cache` : '';
+  return `Fetched ${status.fetchedCandles.toLocaleString()} new candles${fromCache}`;
+};
+
+/**
+ * Derive the data source status from the cache status of a successful load
+ * @param cache - Cache status returned with the kline history
+ * @returns DataSourceStatus - Live when new candles were downloaded, cached when
+ * everything came from the local store, stale when the refresh failed
+ */
+export const getDataSourceStatus = (cache: CandleCacheStatus): DataSourceStatus => {
+  const state: DataSourceState = cache.offline ? 'stale' : cache.source === 'cache' ? 'cached' : 'live';
+  return { state, detail: describeCacheStatus(cache), updatedAt: new Date() };
+};
+
+/**
+ * Stamp the synthetic data watermark across a captured canvas
+ * Used for image and PDF exports so the warning survives outside the app.
+ * @param canvas - Canvas produced by html2canvas
+ * @returns HTMLCanvasElement - The same canvas, watermarked
+ */
+export const watermarkCanvas = (canvas: HTMLCanvasElement): HTMLCanvasElement => {
+  const context = canvas.getContext('2d');
+  if (!context) return canvas;
+
+  const fontSize = Math.max(16, Math.round(canvas.width / 30));
+  context.save();
+  context.fillStyle = 'rgba(220, 38, 38, 0.25)';
+  context.font = `bold ${fontSize}px sans-serif`;
+  context.textAlign = 'center';
+  context.textBaseline = 'middle';
+
+  // Repeat the text diagonally so cropping cannot remove it
+  const step = fontSize * 8;
+  for (let y = step / 2; y < canvas.height; y += step) {
+    context.save();
+    context.translate(canvas.width / 2, y);
+    context.rotate(-Math.PI / 12);
+    context.fillText(SYNTHETIC_WATERMARK, 0, 0);
+    context.restore();
+  }
+
+  context.restore();
+  return canvas;
+};
@@ -0,0 +1,244 @@
+import {
+  DistributionBucket, DistributionGrouping, ProcessedDayData, QuantilePoint, ReturnDistributionSummary,
+  ReturnHistogramBin, ValueAtRiskEstimate, ValueAtRiskMethod,
+} from '@/types';
+import { getSeasonalityKey, getSeasonalityLabel } from './seasonality';
+import {
+  excessKurtosis, jarqueBera, mean, normalPdf, normalQuantile, quantile, sampleStdDev, skewness,
+} from './statistics';
+
+export interface DistributionOptionInfo {
+  label: string;
+  description: string;
+}
+
+export const VALUE_AT_RISK_METHODS: Record<ValueAtRiskMethod, DistributionOptionInfo> = {
+  historical: { label: 'Historical', description: 'Quantile of the returns themselves' },
+  parametric: { label: 'Parametric', description: 'Quantile of a normal distribution with the returns\' mean and standard deviation' },
+  cornishFisher: { label: 'Cornish-Fisher', description: 'Normal quantile adjusted for the returns\' skewness and excess kurtosis' },
+};
+
+export const DISTRIBUTION_GROUPINGS: Record<DistributionGrouping, DistributionOptionInfo> = {
+  all: { label: 'All candles', description: 'Every candle return in the range' },
+  weekday: { label: 'By weekday', description: 'Returns split by day of week' },
+  month: { label: 'By month', description: 'Returns split by month of year' },
+};
+
+// Confidence levels VaR and expected shortfall are reported at
+export const VALUE_AT_RISK_CONFIDENCE_LEVELS = [0.95, 0.99];
+
+export const DEFAULT_HISTOGRAM_BINS = 30;
+
+// Tail probabilities averaged for the Cornish-Fisher expected shortfall
+const TAIL_STEPS = 200;
+
+/**
+ * Get the candle returns of the data
+ * @param data - Processed candles
+ * @returns number[] - `performance` of each candle, percent, skipping non-finite values
+ */
+export const getCandleReturns = (data: ProcessedDayData[]): number[] =>
+  data.map(candle => candle.performance).filter(value => Number.isFinite(value));
+
+/**
+ * Silverman's rule-of-thumb bandwidth for a Gaussian kernel
+ * @param values - Sample
+ * @returns number - Bandwidth in the sample's units; 1 when the sample has no spread
+ */
+export const getKernelBandwidth = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const iqr = quantile(sorted, 0.75) - quantile(sorted, 0.25);
+  const spread = Math.min(sampleStdDev(values), iqr > 0 ? iqr / 1.34 : Infinity);
+  return spread > 0 && Number.isFinite(spread) ? 0.9 * spread * values.length ** -0.2 : 1;
+};
+
+/**
+ * Gaussian kernel density estimate
+ * @param values - Sample
+ * @param x - Point to estimate the density at
+ * @param bandwidth - Kernel standard deviation
+ * @returns number - Density at x
+ */
+export const kernelDensity = (values: number[], x: number, bandwidth: number): number =>
+  values.reduce((sum, value) => sum + normalPdf((x - value) / bandwidth), 0) / (values.length * bandwidth);
+
+/**
+ * Bin returns into a histogram with kernel density and fitted normal curves
+ * @param values - Returns, percent
+ * @param binCount - Equal-width bins between the smallest and largest return
+ * @returns ReturnHistogramBin[] - Bins from the lowest return up; empty without returns
+ */
+export const buildReturnHistogram = (values: number[], binCount = DEFAULT_HISTOGRAM_BINS): ReturnHistogramBin[] => {
+  if (values.length === 0) return [];
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const bins = max > min ? Math.max(1, Math.round(binCount)) : 1;
+  const width = max > min ? (max - min) / bins : 1;
+  const start = max > min ? min : min - 0.5;
+
+  const counts = new Array<number>(bins).fill(0);
+  values.forEach(value => {
+    counts[Math.min(bins - 1, Math.floor((value - start) / width))]++;
+  });
+
+  const average = mean(values);
+  const deviation = sampleStdDev(values);
+  const bandwidth = getKernelBandwidth(values);
+  return counts.map((count, index) => {
+    const from = start + index * width;
+    const mid = from + width / 2;
+    return {
+      from,
+      to: from + width,
+      mid,
+      count,
+      density: count / (values.length * width),
+      kernel: kernelDensity(values, mid, bandwidth),
+      normal: deviation > 0 ? normalPdf((mid - average) / deviation) / deviation : 0,
+    };
+  });
+};
+
+/**
+ * Pair each sorted return with the same quantile of the fitted normal
+ * Points on the diagonal match the normal; fat tails bend away at both ends.
+ * @param values - Returns, percent
+ * @returns QuantilePoint[] - One point per return, lowest first
+ */
+export const buildQuantilePlot = (values: number[]): QuantilePoint[] => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const average = mean(values);
+  const deviation = sampleStdDev(values);
+  return sorted.map((sample, index) => ({
+    theoretical: average + deviation * normalQuantile((index + 0.5) / sorted.length),
+    sample,
+  }));
+};
+
+/**
+ * Adjust a standard normal quantile for skewness and excess kurtosis
+ * @param z - Standard normal quantile
+ * @param skew - Sample skewness
+ * @param kurtosis - Sample excess kurtosis
+ * @returns number - Cornish-Fisher expansion of z
+ */
+export const getCornishFisherQuantile = (z: number, skew: number, kurtosis: number): number =>
+  z + ((z ** 2 - 1) * skew) / 6 + ((z ** 3 - 3 * z) * kurtosis) / 24 - ((2 * z ** 3 - 5 * z) * skew ** 2) / 36;
+
+/**
+ * Estimate value at risk and expected shortfall of candle returns
+ * Both are returns (negative for a loss): the VaR is the return the worst
+ * (1 - confidence) of candles fall to, the expected shortfall their average.
+ * @param values - Returns, percent
+ * @param confidence - e.g. 0.95
+ * @param method - Historical, parametric (normal) or Cornish-Fisher
+ * @returns ValueAtRiskEstimate | null - null with fewer than two returns
+ */
+export const estimateValueAtRisk = (
+  values: number[],
+  confidence: number,
+  method: ValueAtRiskMethod
+): ValueAtRiskEstimate | null => {
+  if (values.length < 2) return null;
+  const tail = 1 - confidence;
+  const average = mean(values);
+  const deviation = sampleStdDev(values);
+
+  if (method === 'historical') {
+    const sorted = [...values].sort((a, b) => a - b);
+    const valueAtRisk = quantile(sorted, tail);
+    return { method, confidence, valueAtRisk, expectedShortfall: mean(sorted.filter(value => value <= valueAtRisk)) };
+  }
+
+  const z = normalQuantile(tail);
+  if (method === 'parametric') {
+    return {
+      method,
+      confidence,
+      valueAtRisk: average + deviation * z,
+      expectedShortfall: average - (deviation * normalPdf(z)) / tail,
+    };
+  }
+
+  // Cornish-Fisher: the shortfall averages the adjusted quantiles across the tail
+  const skew = skewness(values);
+  const kurtosis = excessKurtosis(values);
+  const tailQuantiles = Array.from({ length: TAIL_STEPS }, (_, step) =>
+    getCornishFisherQuantile(normalQuantile((tail * (step + 0.5)) / TAIL_STEPS), skew, kurtosis));
+  return {
+    method,
+    confidence,
+    valueAtRisk: average + deviation * getCornishFisherQuantile(z, skew, kurtosis),
+    expectedShortfall: average + deviation * mean(tailQuantiles),
+  };
+};
+
+/**
+ * Describe the shape and tails of a sample of returns
+ * @param values - Returns, percent
+ * @returns ReturnDistributionSummary | null - null with fewer than two returns
+ */
+export const summarizeReturns = (values: number[]): ReturnDistributionSummary | null => {
+  if (values.length < 2) return null;
+  const methods = Object.keys(VALUE_AT_RISK_METHODS) as ValueAtRiskMethod[];
+  return {
+    count: values.length,
+    mean: mean(values),
+    stdDev: sampleStdDev(values),
+    skewness: skewness(values),
+    excessKurtosis: excessKurtosis(values),
+    jarqueBera: jarqueBera(values),
+    risk: VALUE_AT_RISK_CONFIDENCE_LEVELS.flatMap(confidence =>
+      methods.flatMap(method => estimateValueAtRisk(values, confidence, method) ?? [])),
+  };
+};
+
+/**
+ * Find one estimate in a summary
+ * @param summary - Distribution summary
+ * @param method - VaR method
+ * @param confidence - Confidence level
+ * @returns ValueAtRiskEstimate | undefined - The matching estimate
+ */
+export const getRiskEstimate = (
+  summary: ReturnDistributionSummary,
+  method: ValueAtRiskMethod,
+  confidence: number
+): ValueAtRiskEstimate | undefined =>
+  summary.risk.find(estimate => estimate.method === method && estimate.confidence === confidence);
+
+// Weekdays run Monday to Sunday
+const sortKey = (key: number, grouping: Exclude<DistributionGrouping, 'all'>): number =>
+  grouping === 'weekday' ? (key + 6) % 7 : key;
+
+/**
+ * Split candle returns into weekday or month buckets and summarise each
+ * @param data - Processed candles
+ * @param grouping - Day of week or month of year
+ * @returns DistributionBucket[] - Buckets in calendar order
+ */
+export const buildDistributionBuckets = (
+  data: ProcessedDayData[],
+  grouping: Exclude<DistributionGrouping, 'all'>
+): DistributionBucket[] => {
+  const groups = new Map<number, number[]>();
+  data.forEach(candle => {
+    if (!Number.isFinite(candle.performance)) return;
+    const key = getSeasonalityKey(candle, grouping);
+    const group = groups.get(key);
+    if (group) {
+      group.push(candle.performance);
+    } else {
+      groups.set(key, [candle.performance]);
+    }
+  });
+
+  return Array.from(groups.entries())
+    .sort(([a], [b]) => sortKey(a, grouping) - sortKey(b, grouping))
+    .map(([key, returns]) => ({
+      key,
+      label: getSeasonalityLabel(key, grouping),
+      returns,
+      summary: summarizeReturns(returns),
+    }));
+};
@@ -0,0 +1,115 @@
+import { DrawdownEpisode, DrawdownRecoveryStats, ProcessedDayData, UnderwaterPoint } from '@/types';
+import { getDaysBetween, toCalendarDate } from './calendarMath';
+import { mean, median } from './statistics';
+
+// Ranked drawdowns offered in the dashboard table
+export const DRAWDOWN_TABLE_SIZES = [5, 10, 20];
+
+// Deepest drawdowns shaded on the calendar
+export const CALENDAR_DRAWDOWN_COUNT = 5;
+
+const daysBetween = (from: Date, to: Date): number => getDaysBetween(toCalendarDate(from), toCalendarDate(to));
+
+/**
+ * Get how far each close sits below the highest close before it
+ * @param data - Candles sorted oldest first
+ * @returns UnderwaterPoint[] - One point per candle; 0 at a new high
+ */
+export const getUnderwaterSeries = (data: ProcessedDayData[]): UnderwaterPoint[] => {
+  let peak = -Infinity;
+  return data.map(({ date, close }) => {
+    peak = Math.max(peak, close);
+    return { date, drawdown: peak > 0 ? (close / peak - 1) * 100 : 0 };
+  });
+};
+
+/**
+ * Get the largest fall from a running peak
+ * @param data - Candles sorted oldest first
+ * @returns number - Percent, 0 or negative
+ */
+export const getMaxDrawdown = (data: ProcessedDayData[]): number =>
+  getUnderwaterSeries(data).reduce((deepest, { drawdown }) => Math.min(deepest, drawdown), 0);
+
+/**
+ * Split the data into drawdown episodes
+ * An episode starts when a close falls below the running high and ends on the
+ * first close back at or above it. The last episode may still be underwater.
+ * @param data - Candles sorted oldest first
+ * @returns DrawdownEpisode[] - Episodes in date order
+ */
+export const findDrawdowns = (data: ProcessedDayData[]): DrawdownEpisode[] => {
+  const episodes: DrawdownEpisode[] = [];
+  if (data.length === 0) return episodes;
+
+  const toEpisode = (peakIndex: number, troughIndex: number, endIndex: number, recovered: boolean): DrawdownEpisode => {
+    const peak = data[peakIndex];
+    const trough = data[troughIndex];
+    const end = data[endIndex];
+    return {
+      peak: peak.date,
+      trough: trough.date,
+      recovery: recovered ? end.date : null,
+      end: end.date,
+      peakClose: peak.close,
+      troughClose: trough.close,
+      depth: peak.close > 0 ? (trough.close / peak.close - 1) * 100 : 0,
+      duration: daysBetween(peak.date, end.date),
+      recoveryDays: recovered ? daysBetween(trough.date, end.date) : null,
+    };
+  };
+
+  let peakIndex = 0;
+  let troughIndex: number | null = null;
+  for (let index = 1; index < data.length; index++) {
+    const { close } = data[index];
+    if (close >= data[peakIndex].close) {
+      if (troughIndex !== null) episodes.push(toEpisode(peakIndex, troughIndex, index, true));
+      troughIndex = null;
+      peakIndex = index;
+    } else if (troughIndex === null || close < data[troughIndex].close) {
+      troughIndex = index;
+    }
+  }
+  if (troughIndex !== null) episodes.push(toEpisode(peakIndex, troughIndex, data.length - 1, false));
+
+  return episodes;
+};
+
+/**
+ * Rank drawdown episodes from deepest to shallowest
+ * @param episodes - Episodes from findDrawdowns
+ * @param count - Episodes to keep
+ * @returns DrawdownEpisode[] - The deepest episodes, deepest first
+ */
+export const rankDrawdowns = (episodes: DrawdownEpisode[], count: number): DrawdownEpisode[] =>
+  [...episodes].sort((a, b) => a.depth - b.depth).slice(0, Math.max(0, count));
+
+/**
+ * Summarise how long drawdowns took to recover
+ * @param data - Candles sorted oldest first
+ * @param episodes - Episodes found in the same data
+ * @returns DrawdownRecoveryStats - Recovery times in calendar days
+ */
+export const getRecoveryStats = (data: ProcessedDayData[], episodes: DrawdownEpisode[]): DrawdownRecoveryStats => {
+  const recoveryDays = episodes.flatMap(({ recoveryDays }) => (recoveryDays === null ? [] : [recoveryDays]));
+  const underwater = getUnderwaterSeries(data);
+  return {
+    episodes: episodes.length,
+    recovered: recoveryDays.length,
+    averageRecoveryDays: recoveryDays.length > 0 ? mean(recoveryDays) : null,
+    medianRecoveryDays: recoveryDays.length > 0 ? median(recoveryDays) : null,
+    longestRecoveryDays: recoveryDays.length > 0 ? Math.max(...recoveryDays) : null,
+    longestUnderwaterDays: episodes.reduce((longest, { duration }) => Math.max(longest, duration), 0),
+    currentDrawdown: underwater.length > 0 ? underwater[underwater.length - 1].drawdown : 0,
+  };
+};
+
+/**
+ * Find the drawdown episode a calendar day falls in
+ * @param date - Day to look up
+ * @param episodes - Episodes to search
+ * @returns DrawdownEpisode | undefined - Episode running from its peak to its end over the day
+ */
+export const getDrawdownForDate = (date: Date, episodes: DrawdownEpisode[]): DrawdownEpisode | undefined =>
+  episodes.find(({ peak, end }) => date >= peak && date <= end);
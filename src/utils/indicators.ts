@@ -0,0 +1,294 @@
+import { IndicatorSettings, ProcessedDayData, TechnicalIndicators } from '@/types';
+
+export type IndicatorCandle = Pick<ProcessedDayData, 'high' | 'low' | 'close' | 'volume'>;
+
+export const DEFAULT_INDICATOR_SETTINGS: IndicatorSettings = {
+  emaPeriod: 21,
+  macd: { fast: 12, slow: 26, signal: 9 },
+  rsiPeriod: 14,
+  bollinger: { period: 20, stdDev: 2 },
+  atrPeriod: 14,
+  stochastic: { period: 14, smoothing: 3 },
+  vwapPeriod: 20,
+};
+
+const INDICATOR_KEYS: (keyof TechnicalIndicators)[] = [
+  'sma20', 'sma50', 'ema', 'rsi', 'macd', 'bollinger', 'atr', 'stochastic', 'obv', 'vwap',
+];
+
+/**
+ * Incremental indicator calculator
+ * `next` takes candles oldest first and returns the indicators of each one in
+ * constant time (amortised for the stochastic range). `fork` copies the state,
+ * so a still-forming candle can be evaluated without committing it.
+ */
+export interface IndicatorStream {
+  readonly settings: IndicatorSettings;
+  next: (candle: IndicatorCandle) => Partial<TechnicalIndicators>;
+  fork: () => IndicatorStream;
+}
+
+// Last `period` values in a ring buffer, with their running sum and sum of squares
+interface RollingWindow {
+  period: number;
+  values: number[];
+  next: number;
+  sum: number;
+  sumSquares: number;
+}
+
+// Average seeded with the SMA of its first `period` inputs, then smoothed by `alpha`
+interface SmoothedAverage {
+  period: number;
+  alpha: number;
+  count: number;
+  seedSum: number;
+  value?: number;
+}
+
+// Monotonic deque of (index, value) for the running maximum or minimum of a window
+interface RollingExtreme {
+  period: number;
+  keep: (kept: number, incoming: number) => boolean;
+  entries: { index: number; value: number }[];
+}
+
+interface StreamState {
+  index: number;
+  previousClose?: number;
+  sma20: RollingWindow;
+  sma50: RollingWindow;
+  ema: SmoothedAverage;
+  macdFast: SmoothedAverage;
+  macdSlow: SmoothedAverage;
+  macdSignal: SmoothedAverage;
+  gains: SmoothedAverage;
+  losses: SmoothedAverage;
+  bollinger: RollingWindow;
+  atr: SmoothedAverage;
+  highest: RollingExtreme;
+  lowest: RollingExtreme;
+  stochasticD: RollingWindow;
+  obv: number;
+  vwapPriceVolume: RollingWindow;
+  vwapVolume: RollingWindow;
+}
+
+const createWindow = (period: number): RollingWindow => ({ period, values: [], next: 0, sum: 0, sumSquares: 0 });
+
+const pushWindow = (window: RollingWindow, value: number): boolean => {
+  if (window.values.length < window.period) {
+    window.values.push(value);
+  } else {
+    const removed = window.values[window.next];
+    window.values[window.next] = value;
+    window.next = (window.next + 1) % window.period;
+    window.sum -= removed;
+    window.sumSquares -= removed * removed;
+  }
+  window.sum += value;
+  window.sumSquares += value * value;
+  return window.values.length === window.period;
+};
+
+const createEma = (period: number): SmoothedAverage => ({ period, alpha: 2 / (period + 1), count: 0, seedSum: 0 });
+
+const createWilder = (period: number): SmoothedAverage => ({ period, alpha: 1 / period, count: 0, seedSum: 0 });
+
+const pushAverage = (average: SmoothedAverage, value: number): number | undefined => {
+  average.count++;
+  if (average.value === undefined) {
+    average.seedSum += value;
+    if (average.count === average.period) average.value = average.seedSum / average.period;
+  } else {
+    average.value += average.alpha * (value - average.value);
+  }
+  return average.value;
+};
+
+const createExtreme = (period: number, keep: RollingExtreme['keep']): RollingExtreme => ({ period, keep, entries: [] });
+
+const pushExtreme = (extreme: RollingExtreme, index: number, value: number): number => {
+  const { entries } = extreme;
+  while (entries.length > 0 && !extreme.keep(entries[entries.length - 1].value, value)) entries.pop();
+  entries.push({ index, value });
+  while (entries[0].index <= index - extreme.period) entries.shift();
+  return entries[0].value;
+};
+
+const createState = (settings: IndicatorSettings): StreamState => ({
+  index: -1,
+  sma20: createWindow(20),
+  sma50: createWindow(50),
+  ema: createEma(settings.emaPeriod),
+  macdFast: createEma(settings.macd.fast),
+  macdSlow: createEma(settings.macd.slow),
+  macdSignal: createEma(settings.macd.signal),
+  gains: createWilder(settings.rsiPeriod),
+  losses: createWilder(settings.rsiPeriod),
+  bollinger: createWindow(settings.bollinger.period),
+  atr: createWilder(settings.atrPeriod),
+  highest: createExtreme(settings.stochastic.period, (kept, incoming) => kept > incoming),
+  lowest: createExtreme(settings.stochastic.period, (kept, incoming) => kept < incoming),
+  stochasticD: createWindow(settings.stochastic.smoothing),
+  obv: 0,
+  vwapPriceVolume: createWindow(settings.vwapPeriod),
+  vwapVolume: createWindow(settings.vwapPeriod),
+});
+
+const cloneState = (state: StreamState): StreamState => {
+  const window = (w: RollingWindow): RollingWindow => ({ ...w, values: [...w.values] });
+  const extreme = (e: RollingExtreme): RollingExtreme => ({ ...e, entries: [...e.entries] });
+  return {
+    ...state,
+    sma20: window(state.sma20),
+    sma50: window(state.sma50),
+    ema: { ...state.ema },
+    macdFast: { ...state.macdFast },
+    macdSlow: { ...state.macdSlow },
+    macdSignal: { ...state.macdSignal },
+    gains: { ...state.gains },
+    losses: { ...state.losses },
+    bollinger: window(state.bollinger),
+    atr: { ...state.atr },
+    highest: extreme(state.highest),
+    lowest: extreme(state.lowest),
+    stochasticD: window(state.stochasticD),
+    vwapPriceVolume: window(state.vwapPriceVolume),
+    vwapVolume: window(state.vwapVolume),
+  };
+};
+
+/**
+ * Advance the state by one candle
+ * @param state - Stream state, updated in place
+ * @param settings - Indicator periods
+ * @param candle - Next candle
+ * @returns Partial<TechnicalIndicators> - Indicators whose period is covered by the candles so far
+ */
+const step = (state: StreamState, settings: IndicatorSettings, candle: IndicatorCandle): Partial<TechnicalIndicators> => {
+  const { high, low, close, volume } = candle;
+  const { previousClose } = state;
+  const indicators: Partial<TechnicalIndicators> = {};
+  state.index++;
+
+  if (pushWindow(state.sma20, close)) indicators.sma20 = state.sma20.sum / 20;
+  if (pushWindow(state.sma50, close)) indicators.sma50 = state.sma50.sum / 50;
+
+  const ema = pushAverage(state.ema, close);
+  if (ema !== undefined) indicators.ema = ema;
+
+  // MACD: the signal line starts once the slow EMA is seeded
+  const fast = pushAverage(state.macdFast, close);
+  const slow = pushAverage(state.macdSlow, close);
+  if (fast !== undefined && slow !== undefined) {
+    const macd = fast - slow;
+    const signal = pushAverage(state.macdSignal, macd);
+    if (signal !== undefined) indicators.macd = { macd, signal, histogram: macd - signal };
+  }
+
+  // RSI with Wilder's smoothing of gains and losses
+  if (previousClose !== undefined) {
+    const change = close - previousClose;
+    const gain = pushAverage(state.gains, Math.max(change, 0));
+    const loss = pushAverage(state.losses, Math.max(-change, 0));
+    if (gain !== undefined && loss !== undefined) {
+      indicators.rsi = loss === 0 ? (gain === 0 ? 50 : 100) : 100 - 100 / (1 + gain / loss);
+    }
+  }
+
+  if (pushWindow(state.bollinger, close)) {
+    const { period, stdDev } = settings.bollinger;
+    const middle = state.bollinger.sum / period;
+    const deviation = Math.sqrt(Math.max(0, state.bollinger.sumSquares / period - middle * middle));
+    indicators.bollinger = { upper: middle + stdDev * deviation, middle, lower: middle - stdDev * deviation };
+  }
+
+  // True range includes any gap from the previous close
+  const trueRange = previousClose === undefined
+    ? high - low
+    : Math.max(high - low, Math.abs(high - previousClose), Math.abs(low - previousClose));
+  const atr = pushAverage(state.atr, trueRange);
+  if (atr !== undefined) indicators.atr = atr;
+
+  const highest = pushExtreme(state.highest, state.index, high);
+  const lowest = pushExtreme(state.lowest, state.index, low);
+  if (state.index >= settings.stochastic.period - 1) {
+    const k = highest === lowest ? 50 : ((close - lowest) / (highest - lowest)) * 100;
+    if (pushWindow(state.stochasticD, k)) {
+      indicators.stochastic = { k, d: state.stochasticD.sum / settings.stochastic.smoothing };
+    }
+  }
+
+  if (previousClose !== undefined) {
+    state.obv += close > previousClose ? volume : close < previousClose ? -volume : 0;
+  }
+  indicators.obv = state.obv;
+
+  const typicalPrice = (high + low + close) / 3;
+  const priceVolumeFull = pushWindow(state.vwapPriceVolume, typicalPrice * volume);
+  pushWindow(state.vwapVolume, volume);
+  if (priceVolumeFull) {
+    indicators.vwap = state.vwapVolume.sum > 0 ? state.vwapPriceVolume.sum / state.vwapVolume.sum : typicalPrice;
+  }
+
+  state.previousClose = close;
+  return indicators;
+};
+
+const streamFromState = (settings: IndicatorSettings, state: StreamState): IndicatorStream => ({
+  settings,
+  next: candle => step(state, settings, candle),
+  fork: () => streamFromState(settings, cloneState(state)),
+});
+
+/**
+ * Create an incremental indicator calculator
+ * @param settings - Indicator periods
+ * @returns IndicatorStream - Calculator with no candles consumed yet
+ */
+export const createIndicatorStream = (settings: IndicatorSettings = DEFAULT_INDICATOR_SETTINGS): IndicatorStream =>
+  streamFromState(settings, createState(settings));
+
+/**
+ * Calculate the indicators of every candle in one pass
+ * @param candles - Candles sorted oldest first
+ * @param settings - Indicator periods
+ * @returns Partial<TechnicalIndicators>[] - Indicators of each candle
+ */
+export const calculateIndicators = (
+  candles: IndicatorCandle[],
+  settings: IndicatorSettings = DEFAULT_INDICATOR_SETTINGS
+): Partial<TechnicalIndicators>[] => {
+  const stream = createIndicatorStream(settings);
+  return candles.map(candle => stream.next(candle));
+};
+
+/**
+ * Drop any indicators a candle carries, e.g. before recalculating with other periods
+ * @param candle - Processed candle
+ * @returns ProcessedDayData - Copy without indicator fields
+ */
+export const withoutIndicators = (candle: ProcessedDayData): ProcessedDayData => {
+  const copy = { ...candle };
+  INDICATOR_KEYS.forEach(key => delete copy[key]);
+  return copy;
+};
+
+/**
+ * Short labels for the indicators, including their periods
+ * @param settings - Indicator periods
+ * @returns Record<keyof TechnicalIndicators, string> - e.g. { ema: 'EMA 21', macd: 'MACD 12/26/9', ... }
+ */
+export const getIndicatorLabels = (settings: IndicatorSettings): Record<keyof TechnicalIndicators, string> => ({
+  sma20: 'SMA 20',
+  sma50: 'SMA 50',
+  ema: `EMA ${settings.emaPeriod}`,
+  rsi: `RSI ${settings.rsiPeriod}`,
+  macd: `MACD ${settings.macd.fast}/${settings.macd.slow}/${settings.macd.signal}`,
+  bollinger: `Bollinger ${settings.bollinger.period}, ${settings.bollinger.stdDev}σ`,
+  atr: `ATR ${settings.atrPeriod}`,
+  stochastic: `Stochastic ${settings.stochastic.period}/${settings.stochastic.smoothing}`,
+  obv: 'OBV',
+  vwap: `VWAP ${settings.vwapPeriod}`,
+});
@@ -0,0 +1,46 @@
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * Approximate duration of each Binance kline interval in milliseconds.
+ * Monthly candles vary in length, so '1M' uses the average Gregorian month.
+ */
+export const INTERVAL_DURATIONS_MS: Record<string, number> = {
+  '1m': MINUTE_MS,
+  '3m': 3 * MINUTE_MS,
+  '5m': 5 * MINUTE_MS,
+  '15m': 15 * MINUTE_MS,
+  '30m': 30 * MINUTE_MS,
+  '1h': HOUR_MS,
+  '2h': 2 * HOUR_MS,
+  '4h': 4 * HOUR_MS,
+  '6h': 6 * HOUR_MS,
+  '8h': 8 * HOUR_MS,
+  '12h': 12 * HOUR_MS,
+  '1d': DAY_MS,
+  '3d': 3 * DAY_MS,
+  '1w': 7 * DAY_MS,
+  '1M': 30.436875 * DAY_MS,
+};
+
+/**
+ * Get the duration of a kline interval
+ * @param interval - Binance interval string (e.g., '1h', '1d')
+ * @returns number - Interval length in milliseconds (defaults to one day for unknown intervals)
+ */
+export const getIntervalMs = (interval: string): number => {
+  return INTERVAL_DURATIONS_MS[interval] ?? DAY_MS;
+};
+
+/**
+ * Estimate how many candles cover a time range
+ * Used for progress reporting while paginating through history
+ * @param interval - Binance interval string
+ * @param startTime - Range start in milliseconds
+ * @param endTime - Range end in milliseconds
+ * @returns number - Expected number of candles (at least 1)
+ */
+export const estimateCandleCount = (interval: string, startTime: number, endTime: number): number => {
+  return Math.max(1, Math.ceil((endTime - startTime) / getIntervalMs(interval)));
+};
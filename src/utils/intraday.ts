@@ -0,0 +1,178 @@
+import { AnalysisTimeSettings, HourWeekdayCell, IntradayInterval, ProcessedDayData, SessionStats, TradingSession } from '@/types';
+import { getISOWeek } from './calendarMath';
+import { getTradingDayParts } from './timezone';
+
+export const INTRADAY_INTERVALS: IntradayInterval[] = ['1m', '3m', '5m', '15m', '30m', '1h', '2h', '4h', '6h', '8h', '12h'];
+
+/**
+ * Longest history loaded for each intraday interval
+ * A year of 1m candles is over 500 /klines requests, so fine intervals are
+ * capped to keep loads within the request weight budget.
+ */
+export const INTRADAY_HISTORY_LIMIT_DAYS: Record<IntradayInterval, number> = {
+  '1m': 7,
+  '3m': 14,
+  '5m': 30,
+  '15m': 90,
+  '30m': 180,
+  '1h': 365,
+  '2h': 730,
+  '4h': 1460,
+  '6h': 2920,
+  '8h': 2920,
+  '12h': 2920,
+};
+
+/**
+ * Trading sessions by UTC opening hour, end exclusive
+ * Sessions follow the exchanges rather than the viewer, so they do not move
+ * with the selected timezone.
+ */
+export const TRADING_SESSIONS: { id: TradingSession; label: string; startHourUtc: number; endHourUtc: number }[] = [
+  { id: 'asia', label: 'Asia', startHourUtc: 0, endHourUtc: 7 },
+  { id: 'europe', label: 'Europe', startHourUtc: 7, endHourUtc: 13 },
+  { id: 'us', label: 'US', startHourUtc: 13, endHourUtc: 21 },
+  { id: 'off-hours', label: 'Off-hours', startHourUtc: 21, endHourUtc: 24 },
+];
+
+/**
+ * Check whether an interval is shorter than a day
+ * @param interval - Binance interval string
+ * @returns boolean - True for 1m through 12h
+ */
+export const isIntradayInterval = (interval: string): interval is IntradayInterval => {
+  return (INTRADAY_INTERVALS as string[]).includes(interval);
+};
+
+/**
+ * Number of days of history to load for an interval
+ * @param interval - Binance interval string
+ * @param years - History range selected by the user
+ * @returns number - Days to load, capped for fine intraday intervals
+ */
+export const getHistoryDays = (interval: string, years: number): number => {
+  const days = years * 365;
+  return isIntradayInterval(interval) ? Math.min(days, INTRADAY_HISTORY_LIMIT_DAYS[interval]) : days;
+};
+
+/**
+ * Get the trading session a candle opened in
+ * @param date - Candle open time
+ * @returns TradingSession - Session by UTC hour
+ */
+export const getTradingSession = (date: Date): TradingSession => {
+  const hour = date.getUTCHours();
+  return TRADING_SESSIONS.find(session => hour >= session.startHourUtc && hour < session.endHourUtc)?.id ?? 'off-hours';
+};
+
+/**
+ * Average return, volatility and volume for every hour of every weekday
+ * Cells follow the candles' dayOfWeek and hourOfDay, so pass data through
+ * applyTimeSettings first to read them in other analysis time settings.
+ * @param data - Processed intraday candles
+ * @returns HourWeekdayCell[] - 7 x 24 cells ordered by weekday then hour; empty cells have count 0
+ */
+export const buildHourWeekdayHeatmap = (data: ProcessedDayData[]): HourWeekdayCell[] => {
+  const cells: HourWeekdayCell[] = [];
+  for (let dayOfWeek = 0; dayOfWeek < 7; dayOfWeek++) {
+    for (let hour = 0; hour < 24; hour++) {
+      cells.push({ dayOfWeek, hour, avgReturn: 0, avgVolatility: 0, avgVolume: 0, count: 0 });
+    }
+  }
+
+  data.forEach(candle => {
+    const cell = cells[candle.dayOfWeek * 24 + candle.hourOfDay];
+    cell.avgReturn += candle.performance;
+    cell.avgVolatility += candle.volatility;
+    cell.avgVolume += candle.volume;
+    cell.count++;
+  });
+
+  cells.forEach(cell => {
+    if (cell.count === 0) return;
+    cell.avgReturn /= cell.count;
+    cell.avgVolatility /= cell.count;
+    cell.avgVolume /= cell.count;
+  });
+
+  return cells;
+};
+
+/**
+ * Average return, volatility and volume of the candles opened in each trading session
+ * @param data - Processed intraday candles
+ * @returns SessionStats[] - One entry per session, in TRADING_SESSIONS order
+ */
+export const summarizeSessions = (data: ProcessedDayData[]): SessionStats[] => {
+  return TRADING_SESSIONS.map(({ id }) => {
+    const candles = data.filter(candle => candle.session === id);
+    const average = (pick: (candle: ProcessedDayData) => number) =>
+      candles.length > 0 ? candles.reduce((sum, candle) => sum + pick(candle), 0) / candles.length : 0;
+
+    return {
+      session: id,
+      avgReturn: average(candle => candle.performance),
+      avgVolatility: average(candle => candle.volatility),
+      avgVolume: average(candle => candle.volume),
+      count: candles.length,
+    };
+  });
+};
+
+/**
+ * Combine intraday candles into one candle per trading day
+ * Used by the day-based views (calendar, day dashboard) when an intraday
+ * interval is loaded. Each day is dated at local midnight of its trading day
+ * (see getTradingDate), so day matching in the calendar works.
+ * @param data - Processed intraday candles, sorted by date
+ * @param settings - Timezone and day start that decide which day a candle belongs to
+ * @returns ProcessedDayData[] - One entry per trading day
+ */
+export const aggregateToDays = (data: ProcessedDayData[], settings: AnalysisTimeSettings): ProcessedDayData[] => {
+  const days = new Map<string, ProcessedDayData[]>();
+  data.forEach(candle => {
+    const { year, month, day } = getTradingDayParts(candle.date, settings);
+    const key = `${year}-${month}-${day}`;
+    const bucket = days.get(key);
+    if (bucket) {
+      bucket.push(candle);
+    } else {
+      days.set(key, [candle]);
+    }
+  });
+
+  return Array.from(days.values()).map(candles => {
+    const first = candles[0];
+    const last = candles[candles.length - 1];
+    const { year, month, day, dayOfWeek } = getTradingDayParts(first.date, settings);
+    const open = first.open;
+    const close = last.close;
+    const high = Math.max(...candles.map(c => c.high));
+    const low = Math.min(...candles.map(c => c.low));
+    const volume = candles.reduce((sum, c) => sum + c.volume, 0);
+    // Kline activity fields add up over the day, when the candles carry them
+    const sumField = (field: 'quoteVolume' | 'trades' | 'takerBuyVolume' | 'takerBuyQuoteVolume') =>
+      first[field] === undefined ? undefined : candles.reduce((sum, c) => sum + (c[field] ?? 0), 0);
+
+    return {
+      date: new Date(year, month - 1, day),
+      open,
+      high,
+      low,
+      close,
+      volume,
+      volatility: ((high - low) / open) * 100,
+      performance: ((close - open) / open) * 100,
+      liquidity: Math.min(volume / 1000000, 1),
+      dayOfWeek,
+      weekOfYear: getISOWeek({ year, month, day }).week,
+      monthOfYear: month,
+      hourOfDay: 0,
+      session: first.session,
+      quoteVolume: sumField('quoteVolume'),
+      trades: sumField('trades'),
+      takerBuyVolume: sumField('takerBuyVolume'),
+      takerBuyQuoteVolume: sumField('takerBuyQuoteVolume'),
+    };
+  });
+};
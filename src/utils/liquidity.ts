@@ -0,0 +1,173 @@
+import { LiquidityMeasure, ProcessedDayData } from '@/types';
+import { formatQuoteAmount } from './orderBookMetrics';
+
+export interface LiquidityMeasureInfo {
+  label: string;
+  description: string;
+  invert: boolean;  // Lower raw values mean more liquidity, so the score counts down
+}
+
+/**
+ * Liquidity definitions the user can choose from
+ * Every measure is turned into a 0-1 `liquidity` score (higher = more liquid)
+ * so charts, averages and alerts keep working whichever one is selected.
+ */
+export const LIQUIDITY_MEASURES: Record<LiquidityMeasure, LiquidityMeasureInfo> = {
+  volume: { label: 'Volume score', description: 'Base volume in millions, capped at 1', invert: false },
+  amihud: { label: 'Amihud illiquidity', description: 'Absolute return per million of quote volume; lower is more liquid', invert: true },
+  turnover: { label: 'Quote turnover', description: 'Traded value in the quote asset', invert: false },
+  tradeSize: { label: 'Avg trade size', description: 'Quote volume per trade', invert: false },
+  takerRatio: { label: 'Taker buy/sell', description: 'Volume bought by takers over volume sold by takers', invert: false },
+  rank: { label: 'Liquidity rank', description: 'Turnover and Amihud ranked across the loaded symbols on each date', invert: false },
+};
+
+const isPositive = (value?: number): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0;
+
+/**
+ * Get the traded value of a candle in the quote asset
+ * Falls back to volume x close for candles without a quote volume.
+ * @param candle - Processed candle
+ * @returns number - Quote volume
+ */
+export const getQuoteVolume = (candle: ProcessedDayData): number =>
+  isPositive(candle.quoteVolume) ? candle.quoteVolume : candle.volume * candle.close;
+
+/**
+ * Get the raw value of a liquidity measure for one candle
+ * Amihud uses the open-to-close return of the candle, scaled per million of
+ * quote volume. The rank has no per-candle value; see applyLiquidityMeasure.
+ * @param candle - Processed candle
+ * @param measure - Liquidity definition
+ * @returns number | null - null when the candle lacks the fields the measure needs
+ */
+export const getLiquidityValue = (candle: ProcessedDayData, measure: LiquidityMeasure): number | null => {
+  const quoteVolume = getQuoteVolume(candle);
+  switch (measure) {
+    case 'volume':
+      return Math.min(candle.volume / 1000000, 1);
+    case 'amihud':
+      return quoteVolume > 0 ? (Math.abs(candle.performance) / 100 / quoteVolume) * 1e6 : null;
+    case 'turnover':
+      return quoteVolume;
+    case 'tradeSize':
+      return isPositive(candle.trades) ? quoteVolume / candle.trades : null;
+    case 'takerRatio': {
+      if (typeof candle.takerBuyVolume !== 'number' || !Number.isFinite(candle.takerBuyVolume)) return null;
+      const takerSell = candle.volume - candle.takerBuyVolume;
+      return takerSell > 0 ? candle.takerBuyVolume / takerSell : null;
+    }
+    case 'rank':
+      return null;
+  }
+};
+
+/**
+ * Convert values to percentile ranks between 0 and 1
+ * Ties share their average rank; a single value ranks 0.5.
+ * @param values - Values to rank; nulls are skipped
+ * @returns (number | null)[] - Rank of each value, null where the value was null
+ */
+export const toPercentileRanks = (values: (number | null)[]): (number | null)[] => {
+  const present = values
+    .map((value, index) => ({ value, index }))
+    .filter((entry): entry is { value: number; index: number } => entry.value !== null)
+    .sort((a, b) => a.value - b.value);
+
+  const ranks: (number | null)[] = values.map(() => null);
+  if (present.length === 1) {
+    ranks[present[0].index] = 0.5;
+    return ranks;
+  }
+
+  let start = 0;
+  while (start < present.length) {
+    let end = start;
+    while (end + 1 < present.length && present[end + 1].value === present[start].value) end++;
+    const rank = (start + end) / 2 / (present.length - 1);
+    for (let i = start; i <= end; i++) ranks[present[i].index] = rank;
+    start = end + 1;
+  }
+  return ranks;
+};
+
+// Composite of turnover (more is liquid) and Amihud (less is liquid) ranks
+const compositeRank = (turnover: number | null, amihud: number | null): number | null => {
+  if (turnover === null || amihud === null) return turnover ?? (amihud === null ? null : 1 - amihud);
+  return (turnover + (1 - amihud)) / 2;
+};
+
+/**
+ * Score every candle's liquidity with the chosen definition
+ * Raw measures are ranked against the candles' own history. The rank measure
+ * compares the symbol with the peer datasets on each date instead, falling
+ * back to its own history on dates no peer covers. Candles without the fields
+ * a measure needs keep the volume score.
+ * @param data - Processed candles, one symbol
+ * @param measure - Liquidity definition
+ * @param peers - Candles of other symbols on the same dates, for the rank measure
+ * @returns ProcessedDayData[] - Copies with `liquidity` set to a 0-1 score, higher = more liquid
+ */
+export const applyLiquidityMeasure = (
+  data: ProcessedDayData[],
+  measure: LiquidityMeasure,
+  peers: ProcessedDayData[][] = []
+): ProcessedDayData[] => {
+  const volumeScore = (candle: ProcessedDayData) => Math.min(candle.volume / 1000000, 1);
+
+  if (measure === 'volume') {
+    return data.map(candle => ({ ...candle, liquidity: volumeScore(candle) }));
+  }
+
+  if (measure !== 'rank') {
+    const ranks = toPercentileRanks(data.map(candle => getLiquidityValue(candle, measure)));
+    const { invert } = LIQUIDITY_MEASURES[measure];
+    return data.map((candle, index) => {
+      const rank = ranks[index];
+      return { ...candle, liquidity: rank === null ? volumeScore(candle) : invert ? 1 - rank : rank };
+    });
+  }
+
+  const ownTurnover = toPercentileRanks(data.map(candle => getLiquidityValue(candle, 'turnover')));
+  const ownAmihud = toPercentileRanks(data.map(candle => getLiquidityValue(candle, 'amihud')));
+  const peersByTime = peers.map(peer => new Map(peer.map(candle => [candle.date.getTime(), candle])));
+
+  return data.map((candle, index) => {
+    const others = peersByTime
+      .map(peer => peer.get(candle.date.getTime()))
+      .filter((peer): peer is ProcessedDayData => peer !== undefined);
+
+    let score: number | null;
+    if (others.length > 0) {
+      const members = [candle, ...others];
+      const [turnover] = toPercentileRanks(members.map(member => getLiquidityValue(member, 'turnover')));
+      const [amihud] = toPercentileRanks(members.map(member => getLiquidityValue(member, 'amihud')));
+      score = compositeRank(turnover, amihud);
+    } else {
+      score = compositeRank(ownTurnover[index], ownAmihud[index]);
+    }
+    return { ...candle, liquidity: score ?? volumeScore(candle) };
+  });
+};
+
+/**
+ * Format the raw value of a liquidity measure for display
+ * @param candle - Processed candle, scored with applyLiquidityMeasure for the rank
+ * @param measure - Liquidity definition
+ * @returns string - e.g. "2.35M" turnover or "1.08" taker ratio; "–" when unavailable
+ */
+export const formatLiquidityValue = (candle: ProcessedDayData, measure: LiquidityMeasure): string => {
+  if (measure === 'rank') return `${Math.round(candle.liquidity * 100)}%`;
+
+  const value = getLiquidityValue(candle, measure);
+  if (value === null) return '–';
+  switch (measure) {
+    case 'amihud':
+      return value.toPrecision(3);
+    case 'turnover':
+    case 'tradeSize':
+      return formatQuoteAmount(value);
+    default:
+      return value.toFixed(2);
+  }
+};
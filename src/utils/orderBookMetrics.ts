@@ -0,0 +1,110 @@
+import { LiquidityMetrics, OrderBookState } from '@/types';
+
+// Distances from the mid price, in percent, that depth is measured within
+export const LIQUIDITY_DEPTH_BANDS = [0.5, 1];
+
+export interface DepthChartPoint {
+  price: number;
+  bids?: number;  // Cumulative bid quantity from the best bid down to this price
+  asks?: number;  // Cumulative ask quantity from the best ask up to this price
+}
+
+/**
+ * Calculate spread, depth and imbalance from an order book
+ * Depth is the quote value (price x quantity) resting within each band
+ * around the mid price; imbalance compares the two sides within the widest band.
+ * @param book - Order book with levels sorted best first
+ * @param bands - Band widths in percent (default ±0.5% and ±1%)
+ * @returns LiquidityMetrics | null - null when either side of the book is empty
+ */
+export const calculateLiquidityMetrics = (
+  book: Pick<OrderBookState, 'bids' | 'asks'>,
+  bands: number[] = LIQUIDITY_DEPTH_BANDS
+): LiquidityMetrics | null => {
+  const [bestBid] = book.bids;
+  const [bestAsk] = book.asks;
+  if (!bestBid || !bestAsk) return null;
+
+  const midPrice = (bestBid[0] + bestAsk[0]) / 2;
+  const spread = bestAsk[0] - bestBid[0];
+  const lowestBid = book.bids[book.bids.length - 1][0];
+  const highestAsk = book.asks[book.asks.length - 1][0];
+
+  const depth = bands.map(band => {
+    const floor = midPrice * (1 - band / 100);
+    const ceiling = midPrice * (1 + band / 100);
+    return {
+      band,
+      bid: book.bids.filter(([price]) => price >= floor).reduce((sum, [price, quantity]) => sum + price * quantity, 0),
+      ask: book.asks.filter(([price]) => price <= ceiling).reduce((sum, [price, quantity]) => sum + price * quantity, 0),
+      covered: lowestBid <= floor && highestAsk >= ceiling,
+    };
+  });
+
+  const widest = depth[depth.length - 1];
+  const total = widest ? widest.bid + widest.ask : 0;
+
+  return {
+    midPrice,
+    spread,
+    spreadPercent: (spread / midPrice) * 100,
+    depth,
+    imbalance: total > 0 ? (widest.bid - widest.ask) / total : 0,
+  };
+};
+
+/**
+ * Build cumulative depth curves for a depth chart
+ * @param book - Order book with levels sorted best first
+ * @param rangePercent - How far from the mid price to chart, in percent
+ * @returns DepthChartPoint[] - Points sorted by price, bids below the mid and asks above
+ */
+export const getDepthChartData = (
+  book: Pick<OrderBookState, 'bids' | 'asks'>,
+  rangePercent = 2
+): DepthChartPoint[] => {
+  const metrics = calculateLiquidityMetrics(book, []);
+  if (!metrics) return [];
+
+  const floor = metrics.midPrice * (1 - rangePercent / 100);
+  const ceiling = metrics.midPrice * (1 + rangePercent / 100);
+
+  let bidTotal = 0;
+  const bids = book.bids
+    .filter(([price]) => price >= floor)
+    .map(([price, quantity]) => ({ price, bids: (bidTotal += quantity) }))
+    .reverse();
+
+  let askTotal = 0;
+  const asks = book.asks
+    .filter(([price]) => price <= ceiling)
+    .map(([price, quantity]) => ({ price, asks: (askTotal += quantity) }));
+
+  return [...bids, ...asks];
+};
+
+/**
+ * Format a quote currency amount compactly
+ * @param value - Amount in quote currency
+ * @returns string - e.g. "2.35M"
+ */
+export const formatQuoteAmount = (value: number): string => {
+  if (value >= 1e9) return `${(value / 1e9).toFixed(2)}B`;
+  if (value >= 1e6) return `${(value / 1e6).toFixed(2)}M`;
+  if (value >= 1e3) return `${(value / 1e3).toFixed(1)}K`;
+  return value.toFixed(0);
+};
+
+/**
+ * Summarise order book liquidity in one line
+ * @param metrics - Metrics from calculateLiquidityMetrics
+ * @returns string - Spread, depth of the widest band and imbalance
+ */
+export const describeLiquidity = (metrics: LiquidityMetrics): string => {
+  const widest = metrics.depth[metrics.depth.length - 1];
+  const imbalance = `${metrics.imbalance >= 0 ? '+' : ''}${(metrics.imbalance * 100).toFixed(0)}%`;
+  const depth = widest
+    ? ` · ±${widest.band}% depth ${widest.covered ? '' : '≥'}${formatQuoteAmount(widest.bid + widest.ask)}`
+    : '';
+  return `Spread ${metrics.spreadPercent.toFixed(3)}%${depth} · Imbalance ${imbalance}`;
+};
@@ -0,0 +1,224 @@
+import {
+  ColorScheme, MarketRegime, ProcessedDayData, RegimeDimension, RegimePoint, RegimeSettings, RegimeStats, RegimeTransitions,
+  TrendRegime, VolatilityRegime,
+} from '@/types';
+import { mean, sampleStdDev } from './statistics';
+
+export interface RegimeInfo {
+  label: string;
+  description: string;
+}
+
+export const VOLATILITY_REGIMES: Record<VolatilityRegime, RegimeInfo> = {
+  low: { label: 'Low volatility', description: 'Volatility in the bottom third of its trailing range' },
+  normal: { label: 'Normal volatility', description: 'Volatility in the middle third of its trailing range' },
+  high: { label: 'High volatility', description: 'Volatility in the top third of its trailing range' },
+};
+
+export const TREND_REGIMES: Record<TrendRegime, RegimeInfo> = {
+  bull: { label: 'Bull', description: 'Close at or above its moving average' },
+  bear: { label: 'Bear', description: 'Close below its moving average' },
+};
+
+export const REGIME_DIMENSIONS: Record<RegimeDimension, RegimeInfo> = {
+  volatility: { label: 'Volatility', description: 'Low, normal or high volatility for the recent past' },
+  trend: { label: 'Trend', description: 'Bull or bear by the close against its moving average' },
+};
+
+export const DEFAULT_REGIME_SETTINGS: RegimeSettings = { volatilityWindow: 10, lookback: 250, trendWindow: 50 };
+
+// Levels ranked before this much history exists are ranked against the first candles instead
+const MIN_REGIME_HISTORY = 20;
+
+const LOW_PERCENTILE = 1 / 3;
+const HIGH_PERCENTILE = 2 / 3;
+
+// Mean of the values in [from, to), clamped to the start of the array
+const windowMean = (values: number[], from: number, to: number): number => mean(values.slice(Math.max(0, from), to));
+
+/**
+ * Label every candle with a volatility and a trend regime
+ * Volatility is the candles' volatility averaged over a short window, ranked
+ * against the trailing lookback of those averages: the bottom third is low,
+ * the top third high. The trend is bull when the close is at or above its
+ * moving average. Only past candles are used, except that the first candles
+ * are ranked against the first MIN_REGIME_HISTORY levels.
+ * @param data - Candles sorted oldest first
+ * @param settings - Window, lookback and moving-average lengths in candles
+ * @returns RegimePoint[] - One point per candle
+ */
+export const detectRegimes = (data: ProcessedDayData[], settings: RegimeSettings = DEFAULT_REGIME_SETTINGS): RegimePoint[] => {
+  const volatility = data.map(candle => (Number.isFinite(candle.volatility) ? candle.volatility : 0));
+  const closes = data.map(candle => candle.close);
+  const levels = volatility.map((_, index) => windowMean(volatility, index + 1 - settings.volatilityWindow, index + 1));
+
+  return data.map((candle, index) => {
+    const end = Math.max(index + 1, Math.min(MIN_REGIME_HISTORY, data.length));
+    const history = levels.slice(Math.max(0, end - settings.lookback), end);
+    const level = levels[index];
+    const below = history.filter(value => value < level).length;
+    const equal = history.filter(value => value === level).length;
+    // Ties with other levels count half, so a flat history ranks in the middle
+    const percentile = history.length > 1 ? (below + (equal - 1) / 2) / (history.length - 1) : 0.5;
+    const average = windowMean(closes, index + 1 - settings.trendWindow, index + 1);
+
+    return {
+      date: candle.date,
+      volatility: percentile < LOW_PERCENTILE ? 'low' : percentile > HIGH_PERCENTILE ? 'high' : 'normal',
+      trend: candle.close >= average ? 'bull' : 'bear',
+      level,
+      percentile,
+    };
+  });
+};
+
+/**
+ * Key regime points by candle timestamp
+ * @param points - Points from detectRegimes
+ * @returns Map<number, RegimePoint> - Point by date.getTime()
+ */
+export const indexRegimes = (points: RegimePoint[]): Map<number, RegimePoint> =>
+  new Map(points.map(point => [point.date.getTime(), point]));
+
+/**
+ * Get the regimes of a dimension, in display order
+ * @param dimension - Volatility or trend
+ * @returns MarketRegime[] - e.g. ['low', 'normal', 'high']
+ */
+export const getRegimeKeys = (dimension: RegimeDimension): MarketRegime[] =>
+  dimension === 'volatility'
+    ? (Object.keys(VOLATILITY_REGIMES) as VolatilityRegime[])
+    : (Object.keys(TREND_REGIMES) as TrendRegime[]);
+
+/**
+ * Name a regime
+ * @param regime - Volatility or trend regime
+ * @returns string - e.g. "High volatility", "Bear"
+ */
+export const getRegimeLabel = (regime: MarketRegime): string =>
+  regime === 'bull' || regime === 'bear' ? TREND_REGIMES[regime].label : VOLATILITY_REGIMES[regime].label;
+
+/**
+ * Colour a regime from the colour scheme
+ * @param regime - Volatility or trend regime
+ * @param colorScheme - Active colour scheme
+ * @returns string - Volatility colours for volatility regimes, performance colours for trends
+ */
+export const getRegimeColor = (regime: MarketRegime, colorScheme: ColorScheme): string => {
+  switch (regime) {
+    case 'low':
+      return colorScheme.volatility.low;
+    case 'normal':
+      return colorScheme.volatility.medium;
+    case 'high':
+      return colorScheme.volatility.high;
+    case 'bull':
+      return colorScheme.performance.positive;
+    case 'bear':
+      return colorScheme.performance.negative;
+  }
+};
+
+// Candles of the data that have a regime, paired with it
+const withRegimes = (data: ProcessedDayData[], regimes: Map<number, RegimePoint>, dimension: RegimeDimension) =>
+  data.flatMap(candle => {
+    const point = regimes.get(candle.date.getTime());
+    return point ? [{ candle, regime: point[dimension] as MarketRegime }] : [];
+  });
+
+/**
+ * Keep the candles in a regime
+ * @param data - Candles
+ * @param regimes - Regime points by timestamp
+ * @param regime - Regime to keep, or 'all'
+ * @returns ProcessedDayData[] - Candles labelled with the regime
+ */
+export const filterByRegime = (
+  data: ProcessedDayData[],
+  regimes: Map<number, RegimePoint>,
+  regime: MarketRegime | 'all'
+): ProcessedDayData[] => {
+  if (regime === 'all') return data;
+  const dimension: RegimeDimension = regime === 'bull' || regime === 'bear' ? 'trend' : 'volatility';
+  return data.filter(candle => regimes.get(candle.date.getTime())?.[dimension] === regime);
+};
+
+/**
+ * Summarise the candles of each regime
+ * @param data - Candles sorted oldest first
+ * @param regimes - Regime points by timestamp
+ * @param dimension - Volatility or trend
+ * @returns RegimeStats[] - One entry per regime, in display order
+ */
+export const buildRegimeStats = (
+  data: ProcessedDayData[],
+  regimes: Map<number, RegimePoint>,
+  dimension: RegimeDimension
+): RegimeStats[] => {
+  const labelled = withRegimes(data, regimes, dimension);
+  return getRegimeKeys(dimension).map(regime => {
+    const candles = labelled.filter(entry => entry.regime === regime).map(({ candle }) => candle);
+    const returns = candles.map(candle => candle.performance);
+    const spells = labelled.filter((entry, index) => entry.regime === regime && labelled[index - 1]?.regime !== regime).length;
+    return {
+      regime,
+      count: candles.length,
+      share: labelled.length > 0 ? candles.length / labelled.length : 0,
+      meanReturn: candles.length > 0 ? mean(returns) : 0,
+      stdDev: sampleStdDev(returns),
+      avgVolatility: candles.length > 0 ? mean(candles.map(candle => candle.volatility)) : 0,
+      avgVolume: candles.length > 0 ? mean(candles.map(candle => candle.volume)) : 0,
+      spells,
+      averageSpell: spells > 0 ? candles.length / spells : 0,
+    };
+  });
+};
+
+/**
+ * Count candle-to-candle moves between regimes
+ * @param data - Candles sorted oldest first
+ * @param regimes - Regime points by timestamp
+ * @param dimension - Volatility or trend
+ * @returns RegimeTransitions - Counts and row-normalised probabilities
+ */
+export const buildRegimeTransitions = (
+  data: ProcessedDayData[],
+  regimes: Map<number, RegimePoint>,
+  dimension: RegimeDimension
+): RegimeTransitions => {
+  const keys = getRegimeKeys(dimension);
+  const counts = keys.map(() => keys.map(() => 0));
+  const labelled = withRegimes(data, regimes, dimension);
+  labelled.slice(1).forEach((entry, index) => {
+    counts[keys.indexOf(labelled[index].regime)][keys.indexOf(entry.regime)]++;
+  });
+
+  return {
+    dimension,
+    regimes: keys,
+    counts,
+    probabilities: counts.map(row => {
+      const total = row.reduce((sum, count) => sum + count, 0);
+      return row.map(count => (total > 0 ? count / total : null));
+    }),
+  };
+};
+
+/**
+ * Get a numeric band per regime for shading charts
+ * Each row gets one key per regime, 1 while the candle is in that regime
+ * and 0 otherwise, for step areas drawn behind a chart's series.
+ * @param date - Candle date
+ * @param regimes - Regime points by timestamp
+ * @param dimension - Volatility or trend
+ * @returns Record<string, number> - `regime-<key>` fields; empty without a regime
+ */
+export const getRegimeBands = (
+  date: Date,
+  regimes: Map<number, RegimePoint>,
+  dimension: RegimeDimension
+): Record<string, number> => {
+  const point = regimes.get(date.getTime());
+  if (!point) return {};
+  return Object.fromEntries(getRegimeKeys(dimension).map(regime => [`regime-${regime}`, point[dimension] === regime ? 1 : 0]));
+};
@@ -0,0 +1,81 @@
+import { RetryPolicy } from '@/types';
+
+/**
+ * Default policy for market data requests: three retries starting at 500ms
+ */
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 30000,
+  jitter: 0.5,
+};
+
+/**
+ * Calculate the exponential backoff delay for a retry
+ * @param attempt - Retry number starting at 1
+ * @param policy - Retry policy
+ * @param random - Random source in [0, 1) (injectable for tests)
+ * @returns number - Delay in milliseconds
+ */
+export const getBackoffDelay = (attempt: number, policy: RetryPolicy, random: () => number = Math.random): number => {
+  const exponential = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  // Randomise part of the delay so clients that failed together do not retry together
+  const jitter = exponential * policy.jitter * random();
+  return Math.round(exponential - exponential * policy.jitter + jitter);
+};
+
+/**
+ * Wait for a number of milliseconds, rejecting early if the signal aborts
+ * @param ms - Delay in milliseconds
+ * @param signal - Optional abort signal
+ * @returns Promise<void>
+ */
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Retry wait was aborted', 'AbortError'));
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('Retry wait was aborted', 'AbortError'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+export interface RetryOptions {
+  signal?: AbortSignal;
+  isRetryable: (error: unknown) => boolean;
+  getMinDelay?: (error: unknown) => number;   // Server-mandated wait such as Retry-After
+  onRetry?: (error: unknown, attempt: number, delayMs: number) => void;
+}
+
+/**
+ * Run an async operation, retrying retryable failures with exponential backoff and jitter
+ * @param operation - Operation to run
+ * @param policy - Retry policy
+ * @param options - Abort signal, retry classification and hooks
+ * @returns Promise<T> - Result of the first successful attempt
+ */
+export const withRetry = async <T>(
+  operation: () => Promise<T>,
+  policy: RetryPolicy,
+  options: RetryOptions
+): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      if (attempt >= policy.maxRetries || !options.isRetryable(error) || options.signal?.aborted) {
+        throw error;
+      }
+      const delay = Math.max(getBackoffDelay(attempt + 1, policy), options.getMinDelay?.(error) ?? 0);
+      options.onRetry?.(error, attempt + 1, delay);
+      await sleep(delay, options.signal);
+    }
+  }
+};
@@ -0,0 +1,397 @@
+import {
+  MultipleComparisonCorrection, ProcessedDayData, SeasonalityBucket, SeasonalityDimension, SeasonalityGrid,
+  SeasonalityGridCell, SeasonalityGridPeriod, SeasonalityGridSummary, SeasonalityReport, YearOverYear,
+  YearOverYearAlignment, YearOverYearAnchor, YearOverYearPoint, YearOverYearRow, YearOverYearSeries,
+} from '@/types';
+import {
+  CalendarDate, MONTH_NAMES, getDayName, getDaysBetween, getDaysInMonth, getISOWeek, getMonthEndOffset, getMonthName,
+  getTradingDayOfMonth, toCalendarDate,
+} from './calendarMath';
+import {
+  adjustPValues, bootstrapMeanInterval, cohensD, createRandom, mean, median, sampleStdDev, welchTTest,
+} from './statistics';
+
+export interface SeasonalityDimensionInfo {
+  label: string;
+  description: string;
+}
+
+/**
+ * Calendar buckets the seasonality report can group candles by
+ */
+export const SEASONALITY_DIMENSIONS: Record<SeasonalityDimension, SeasonalityDimensionInfo> = {
+  weekday: { label: 'Day of week', description: 'Returns by weekday' },
+  month: { label: 'Month of year', description: 'Returns by calendar month' },
+  weekOfYear: { label: 'Week of year', description: 'Returns by ISO week number' },
+  turnOfMonth: { label: 'Turn of month', description: 'Last and first three days of each month against the rest' },
+};
+
+export const MULTIPLE_COMPARISON_CORRECTIONS: Record<MultipleComparisonCorrection, string> = {
+  none: 'No correction',
+  bonferroni: 'Bonferroni',
+  holm: 'Holm',
+  benjaminiHochberg: 'Benjamini-Hochberg (FDR)',
+};
+
+export interface SeasonalityOptions {
+  correction?: MultipleComparisonCorrection;  // Default Benjamini-Hochberg
+  alpha?: number;                             // Significance level (default 0.05)
+  resamples?: number;                         // Bootstrap resamples (default 1000)
+}
+
+// Days either side of the month boundary treated as the turn of the month
+const TURN_OF_MONTH_DAYS = 3;
+
+const ordinal = (n: number): string => (n === 1 ? '1st' : n === 2 ? '2nd' : n === 3 ? '3rd' : `${n}th`);
+
+/**
+ * Get the turn-of-month bucket of a candle
+ * @param date - Candle date, local midnight of its trading day
+ * @returns number - -3 to -1 for the last days of the month, 1 to 3 for the first days, 0 otherwise
+ */
+export const getTurnOfMonthKey = (date: Date): number => {
+  const calendarDate = toCalendarDate(date);
+  const fromEnd = getMonthEndOffset(calendarDate) ?? TURN_OF_MONTH_DAYS;
+  if (fromEnd < TURN_OF_MONTH_DAYS) return -(fromEnd + 1);
+  const dayOfMonth = getTradingDayOfMonth(calendarDate) ?? 0;
+  return dayOfMonth <= TURN_OF_MONTH_DAYS ? dayOfMonth : 0;
+};
+
+/**
+ * Get the bucket a candle falls in for a dimension
+ * @param candle - Processed candle
+ * @param dimension - Calendar grouping
+ * @returns number - Bucket key
+ */
+export const getSeasonalityKey = (candle: ProcessedDayData, dimension: SeasonalityDimension): number => {
+  switch (dimension) {
+    case 'weekday':
+      return candle.dayOfWeek;
+    case 'month':
+      return candle.monthOfYear;
+    case 'weekOfYear':
+      return candle.weekOfYear;
+    case 'turnOfMonth':
+      return getTurnOfMonthKey(candle.date);
+  }
+};
+
+/**
+ * Name a bucket
+ * @param key - Bucket key
+ * @param dimension - Calendar grouping
+ * @returns string - e.g. "Monday", "March", "Week 12", "Last day", "2nd last day", "1st day"
+ */
+export const getSeasonalityLabel = (key: number, dimension: SeasonalityDimension): string => {
+  switch (dimension) {
+    case 'weekday':
+      return getDayName(key);
+    case 'month':
+      return getMonthName(key);
+    case 'weekOfYear':
+      return `Week ${key}`;
+    case 'turnOfMonth':
+      if (key === 0) return 'Rest of month';
+      if (key === -1) return 'Last day';
+      return key < 0 ? `${ordinal(-key)} last day` : `${ordinal(key)} day`;
+  }
+};
+
+// Weekdays run Monday to Sunday; the turn of month runs from the 3rd last day to the 3rd day, then the rest
+const sortKey = (key: number, dimension: SeasonalityDimension): number => {
+  if (dimension === 'weekday') return (key + 6) % 7;
+  if (dimension === 'turnOfMonth') return key === 0 ? Infinity : key;
+  return key;
+};
+
+/**
+ * Test every calendar bucket's returns against the rest of the sample
+ * Each bucket gets mean and median return, hit rate, volatility, a Welch
+ * t-test and Cohen's d against all other candles, and a bootstrap interval
+ * for its mean. P-values are corrected across the buckets of the dimension.
+ * @param data - Processed candles; `performance` is the return tested
+ * @param dimension - Calendar grouping
+ * @param options - Correction, significance level and bootstrap resamples
+ * @returns SeasonalityReport - Buckets in calendar order
+ */
+export const buildSeasonalityReport = (
+  data: ProcessedDayData[],
+  dimension: SeasonalityDimension,
+  options: SeasonalityOptions = {}
+): SeasonalityReport => {
+  const { correction = 'benjaminiHochberg', alpha = 0.05, resamples = 1000 } = options;
+  const candles = data.filter(candle => Number.isFinite(candle.performance));
+  const random = createRandom(candles.length);
+
+  const groups = new Map<number, number[]>();
+  candles.forEach(candle => {
+    const key = getSeasonalityKey(candle, dimension);
+    const group = groups.get(key);
+    if (group) {
+      group.push(candle.performance);
+    } else {
+      groups.set(key, [candle.performance]);
+    }
+  });
+
+  const keys = Array.from(groups.keys()).sort((a, b) => sortKey(a, dimension) - sortKey(b, dimension));
+  const buckets: SeasonalityBucket[] = keys.map(key => {
+    const returns = groups.get(key)!;
+    const others = keys.filter(other => other !== key).flatMap(other => groups.get(other)!);
+    const test = welchTTest(returns, others);
+    return {
+      key,
+      label: getSeasonalityLabel(key, dimension),
+      count: returns.length,
+      meanReturn: mean(returns),
+      medianReturn: median(returns),
+      hitRate: returns.filter(r => r > 0).length / returns.length,
+      volatility: sampleStdDev(returns),
+      tStat: test ? test.t : null,
+      pValue: test ? test.pValue : null,
+      adjustedPValue: null,
+      effectSize: cohensD(returns, others),
+      confidenceInterval: bootstrapMeanInterval(returns, { resamples, random }),
+      significant: false,
+    };
+  });
+
+  const adjusted = adjustPValues(buckets.map(bucket => bucket.pValue), correction);
+  buckets.forEach((bucket, index) => {
+    const adjustedPValue = adjusted[index];
+    bucket.adjustedPValue = adjustedPValue;
+    bucket.significant = adjustedPValue !== null && adjustedPValue < alpha;
+  });
+
+  return {
+    dimension,
+    correction,
+    alpha,
+    sampleSize: candles.length,
+    overallMean: candles.length > 0 ? mean(candles.map(candle => candle.performance)) : 0,
+    buckets,
+  };
+};
+
+/**
+ * Format a p-value for tables and descriptions
+ * @param pValue - P-value, or null when untested
+ * @returns string - e.g. "0.012", "<0.001" or "–"
+ */
+export const formatPValue = (pValue: number | null): string => {
+  if (pValue === null) return '–';
+  return pValue < 0.001 ? '<0.001' : pValue.toFixed(3);
+};
+
+/**
+ * Get the row and column of a candle in the year grid
+ * @param date - Candle date, local midnight of its trading day
+ * @param period - Month or ISO week columns
+ * @returns { year, period } - Calendar year and month, or ISO week-year and week
+ */
+export const getSeasonalityGridPosition = (date: Date, period: SeasonalityGridPeriod): { year: number; period: number } => {
+  const calendarDate = toCalendarDate(date);
+  if (period === 'month') return { year: calendarDate.year, period: calendarDate.month };
+  const { weekYear, week } = getISOWeek(calendarDate);
+  return { year: weekYear, period: week };
+};
+
+const summarize = (key: number, cells: SeasonalityGridCell[]): SeasonalityGridSummary => ({
+  key,
+  meanReturn: mean(cells.map(cell => cell.cumulativeReturn)),
+  compoundedReturn: (cells.reduce((growth, cell) => growth * (1 + cell.cumulativeReturn / 100), 1) - 1) * 100,
+  positiveShare: cells.filter(cell => cell.cumulativeReturn > 0).length / cells.length,
+  volatility: mean(cells.map(cell => cell.volatility)),
+  volume: mean(cells.map(cell => cell.volume)),
+  count: cells.length,
+});
+
+/**
+ * Lay candles out as a year x month or year x ISO week grid
+ * Each cell holds the return from its first open to its last close, the mean
+ * candle volatility and the total volume. Rows summarise each year and
+ * columns each month or week across the years.
+ * @param data - Processed candles sorted oldest first
+ * @param period - Month or ISO week columns
+ * @returns SeasonalityGrid - Cells with candles, plus row and column summaries
+ */
+export const buildSeasonalityGrid = (data: ProcessedDayData[], period: SeasonalityGridPeriod): SeasonalityGrid => {
+  const groups = new Map<string, { year: number; period: number; candles: ProcessedDayData[] }>();
+  data.forEach(candle => {
+    const position = getSeasonalityGridPosition(candle.date, period);
+    const key = `${position.year}-${position.period}`;
+    const group = groups.get(key);
+    if (group) {
+      group.candles.push(candle);
+    } else {
+      groups.set(key, { ...position, candles: [candle] });
+    }
+  });
+
+  const cells: SeasonalityGridCell[] = Array.from(groups.values())
+    .map(({ year, period: column, candles }) => {
+      const first = candles[0];
+      const last = candles[candles.length - 1];
+      return {
+        year,
+        period: column,
+        start: first.date,
+        end: last.date,
+        cumulativeReturn: first.open > 0 ? (last.close / first.open - 1) * 100 : 0,
+        volatility: mean(candles.map(candle => candle.volatility)),
+        volume: candles.reduce((sum, candle) => sum + candle.volume, 0),
+        count: candles.length,
+      };
+    })
+    .sort((a, b) => a.year - b.year || a.period - b.period);
+
+  const years = Array.from(new Set(cells.map(cell => cell.year)));
+  const lastPeriod = period === 'month' ? 12 : Math.max(52, ...cells.map(cell => cell.period));
+  const periods = Array.from({ length: lastPeriod }, (_, index) => index + 1);
+
+  return {
+    period,
+    years,
+    periods,
+    cells,
+    rows: years.map(year => summarize(year, cells.filter(cell => cell.year === year))),
+    columns: periods
+      .map(column => ({ column, members: cells.filter(cell => cell.period === column) }))
+      .filter(({ members }) => members.length > 0)
+      .map(({ column, members }) => summarize(column, members)),
+  };
+};
+
+export const DEFAULT_YEAR_OVER_YEAR_ANCHOR: YearOverYearAnchor = { month: 1, day: 1 };
+
+export const YEAR_OVER_YEAR_ALIGNMENTS: Record<YearOverYearAlignment, SeasonalityDimensionInfo> = {
+  dayOfYear: { label: 'Calendar day', description: 'Days since the anchor date, so the same date lines up every year' },
+  tradingDay: { label: 'Trading day', description: 'Candles since the anchor, so weekends and holidays do not leave gaps' },
+};
+
+// A year whose first candle comes more than this many days after the anchor is only partly covered
+const PARTIAL_YEAR_DAYS = 7;
+
+const getAnchorDate = (year: number, anchor: YearOverYearAnchor): CalendarDate => ({
+  year,
+  month: anchor.month,
+  day: Math.min(anchor.day, getDaysInMonth(year, anchor.month)),
+});
+
+/**
+ * Get the year-over-year year of a day: the year of the last anchor on or before it
+ * @param date - Calendar date
+ * @param anchor - Month and day each year starts on
+ * @returns number - e.g. 2023 for 15 March 2024 with a 1 April anchor
+ */
+export const getYearOverYearYear = (date: CalendarDate, anchor: YearOverYearAnchor): number => {
+  return getDaysBetween(getAnchorDate(date.year, anchor), date) >= 0 ? date.year : date.year - 1;
+};
+
+/**
+ * Name a year-over-year position for the x-axis
+ * Calendar days are named after the date they fall on in a non-leap year.
+ * @param position - Days or candles since the anchor
+ * @param alignment - How the years are lined up
+ * @param anchor - Month and day each year starts on
+ * @returns string - e.g. "Mar 01" or "Day 41"
+ */
+export const getYearOverYearLabel = (
+  position: number,
+  alignment: YearOverYearAlignment,
+  anchor: YearOverYearAnchor = DEFAULT_YEAR_OVER_YEAR_ANCHOR
+): string => {
+  if (alignment === 'tradingDay') return `Day ${position + 1}`;
+  const start = getAnchorDate(2001, anchor);
+  const date = new Date(Date.UTC(start.year, start.month - 1, start.day + position));
+  return `${MONTH_NAMES[date.getUTCMonth()].slice(0, 3)} ${date.getUTCDate().toString().padStart(2, '0')}`;
+};
+
+/**
+ * Overlay each year's cumulative return on a common axis
+ * Every year runs from its anchor date to the day before the next one and is
+ * rebased on the open of its first candle, so each line starts near 0%.
+ * Years line up by days since the anchor or by candles since the anchor.
+ * The average and min/max band use the complete years, each carried forward
+ * over days without a candle until its last candle.
+ * @param data - Processed candles sorted oldest first
+ * @param alignment - Calendar days or trading days since the anchor
+ * @param anchor - Month and day each year starts on (default 1 January)
+ * @returns YearOverYear - One series per year and one row per position
+ */
+export const buildYearOverYear = (
+  data: ProcessedDayData[],
+  alignment: YearOverYearAlignment,
+  anchor: YearOverYearAnchor = DEFAULT_YEAR_OVER_YEAR_ANCHOR
+): YearOverYear => {
+  const groups = new Map<number, ProcessedDayData[]>();
+  data.forEach(candle => {
+    const year = getYearOverYearYear(toCalendarDate(candle.date), anchor);
+    const group = groups.get(year);
+    if (group) {
+      group.push(candle);
+    } else {
+      groups.set(year, [candle]);
+    }
+  });
+
+  const series: YearOverYearSeries[] = Array.from(groups.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([year, candles]) => {
+      const anchorDate = getAnchorDate(year, anchor);
+      const base = candles[0].open;
+      const points: YearOverYearPoint[] = [];
+      candles.forEach((candle, index) => {
+        const point = {
+          position: alignment === 'dayOfYear' ? getDaysBetween(anchorDate, toCalendarDate(candle.date)) : index,
+          date: candle.date,
+          cumulativeReturn: base > 0 ? (candle.close / base - 1) * 100 : 0,
+        };
+        // Intraday candles share a calendar day; the day's last close stands for it
+        const previous = points[points.length - 1];
+        if (previous && previous.position === point.position) {
+          points[points.length - 1] = point;
+        } else {
+          points.push(point);
+        }
+      });
+      return {
+        year,
+        start: candles[0].date,
+        end: candles[candles.length - 1].date,
+        partial: getDaysBetween(anchorDate, toCalendarDate(candles[0].date)) > PARTIAL_YEAR_DAYS,
+        points,
+      };
+    });
+
+  const returnsByYear = series.map(line => new Map(line.points.map(point => [point.position, point.cumulativeReturn])));
+  const positions = Array.from(new Set(series.flatMap(line => line.points.map(point => point.position))))
+    .sort((a, b) => a - b);
+  const latest: (number | undefined)[] = series.map(() => undefined);
+
+  const rows: YearOverYearRow[] = positions.map(position => {
+    const returns: Record<number, number> = {};
+    const running: number[] = [];
+    series.forEach((line, index) => {
+      const value = returnsByYear[index].get(position);
+      if (value !== undefined) {
+        returns[line.year] = value;
+        latest[index] = value;
+      }
+      const current = latest[index];
+      if (!line.partial && current !== undefined && position <= line.points[line.points.length - 1].position) {
+        running.push(current);
+      }
+    });
+    return {
+      position,
+      returns,
+      average: running.length > 0 ? mean(running) : null,
+      min: running.length > 0 ? Math.min(...running) : null,
+      max: running.length > 0 ? Math.max(...running) : null,
+      count: running.length,
+    };
+  });
+
+  return { alignment, anchor, series, rows };
+};
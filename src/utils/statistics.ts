@@ -0,0 +1,440 @@
+import { MultipleComparisonCorrection } from '@/types';
+
+/**
+ * Arithmetic mean
+ * @param values - Sample
+ * @returns number - Mean, or NaN for an empty sample
+ */
+export const mean = (values: number[]): number => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+/**
+ * Median
+ * @param values - Sample, in any order
+ * @returns number - Middle value (average of the two middle values for even sizes), or NaN when empty
+ */
+export const median = (values: number[]): number => {
+  if (values.length === 0) return NaN;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+/**
+ * Sample variance (n - 1 denominator)
+ * @param values - Sample
+ * @returns number - Variance, or 0 with fewer than two values
+ */
+export const sampleVariance = (values: number[]): number => {
+  if (values.length < 2) return 0;
+  const average = mean(values);
+  return values.reduce((sum, value) => sum + (value - average) ** 2, 0) / (values.length - 1);
+};
+
+/**
+ * Sample standard deviation (n - 1 denominator)
+ * @param values - Sample
+ * @returns number - Standard deviation, or 0 with fewer than two values
+ */
+export const sampleStdDev = (values: number[]): number => Math.sqrt(sampleVariance(values));
+
+/**
+ * Quantile with linear interpolation between order statistics
+ * @param sorted - Sample sorted ascending
+ * @param probability - Between 0 and 1
+ * @returns number - Quantile, or NaN when empty
+ */
+export const quantile = (sorted: number[], probability: number): number => {
+  if (sorted.length === 0) return NaN;
+  const position = (sorted.length - 1) * Math.min(Math.max(probability, 0), 1);
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+};
+
+// Lanczos approximation (g = 7, n = 9) of ln Γ(x) for x > 0
+const LANCZOS = [
+  0.99999999999980993, 676.5203681218851, -1259.1392167224028, 771.32342877765313,
+  -176.61502916214059, 12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6, 1.5056327351493116e-7,
+];
+
+const logGamma = (x: number): number => {
+  if (x < 0.5) return Math.log(Math.PI / Math.sin(Math.PI * x)) - logGamma(1 - x);
+  const shifted = x - 1;
+  let sum = LANCZOS[0];
+  for (let i = 1; i < LANCZOS.length; i++) sum += LANCZOS[i] / (shifted + i);
+  const t = shifted + 7.5;
+  return 0.5 * Math.log(2 * Math.PI) + (shifted + 0.5) * Math.log(t) - t + Math.log(sum);
+};
+
+// Continued fraction for the incomplete beta function (modified Lentz's method)
+const betaContinuedFraction = (x: number, a: number, b: number): number => {
+  const tiny = 1e-30;
+  let c = 1;
+  let d = 1 - ((a + b) * x) / (a + 1);
+  if (Math.abs(d) < tiny) d = tiny;
+  d = 1 / d;
+  let result = d;
+
+  for (let m = 1; m <= 200; m++) {
+    const even = (m * (b - m) * x) / ((a + 2 * m - 1) * (a + 2 * m));
+    d = 1 + even * d;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = 1 + even / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    result *= d * c;
+
+    const odd = -((a + m) * (a + b + m) * x) / ((a + 2 * m) * (a + 2 * m + 1));
+    d = 1 + odd * d;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = 1 + odd / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    const delta = d * c;
+    result *= delta;
+    if (Math.abs(delta - 1) < 1e-12) break;
+  }
+  return result;
+};
+
+/**
+ * Regularised incomplete beta function I_x(a, b)
+ * @param x - Between 0 and 1
+ * @param a - Positive shape
+ * @param b - Positive shape
+ * @returns number - Between 0 and 1
+ */
+export const regularizedIncompleteBeta = (x: number, a: number, b: number): number => {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+  const front = Math.exp(logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x));
+  // The continued fraction converges fastest on this side of the mean
+  return x < (a + 1) / (a + b + 2)
+    ? (front * betaContinuedFraction(x, a, b)) / a
+    : 1 - (front * betaContinuedFraction(1 - x, b, a)) / b;
+};
+
+/**
+ * Two-sided p-value of a Student t statistic
+ * @param t - Test statistic
+ * @param degreesOfFreedom - Positive, need not be an integer
+ * @returns number - P(|T| >= |t|)
+ */
+export const studentTwoSidedPValue = (t: number, degreesOfFreedom: number): number => {
+  if (!Number.isFinite(t)) return Number.isNaN(t) ? NaN : 0;
+  return regularizedIncompleteBeta(degreesOfFreedom / (degreesOfFreedom + t * t), degreesOfFreedom / 2, 0.5);
+};
+
+export interface WelchTestResult {
+  t: number;
+  degreesOfFreedom: number;
+  pValue: number;
+}
+
+/**
+ * Welch's two-sample t-test for a difference in means
+ * Does not assume equal variances; degrees of freedom follow Welch-Satterthwaite.
+ * @param sample - First sample
+ * @param other - Second sample
+ * @returns WelchTestResult | null - null when either sample has fewer than two values or both have zero variance
+ */
+export const welchTTest = (sample: number[], other: number[]): WelchTestResult | null => {
+  if (sample.length < 2 || other.length < 2) return null;
+  const varianceA = sampleVariance(sample) / sample.length;
+  const varianceB = sampleVariance(other) / other.length;
+  const standardError = Math.sqrt(varianceA + varianceB);
+  if (standardError === 0) return null;
+
+  const t = (mean(sample) - mean(other)) / standardError;
+  const degreesOfFreedom = (varianceA + varianceB) ** 2
+    / (varianceA ** 2 / (sample.length - 1) + varianceB ** 2 / (other.length - 1));
+  return { t, degreesOfFreedom, pValue: studentTwoSidedPValue(t, degreesOfFreedom) };
+};
+
+/**
+ * Cohen's d: difference in means over the pooled standard deviation
+ * @param sample - First sample
+ * @param other - Second sample
+ * @returns number | null - Effect size, or null when it is undefined
+ */
+export const cohensD = (sample: number[], other: number[]): number | null => {
+  if (sample.length < 2 || other.length < 2) return null;
+  const pooled = Math.sqrt(
+    ((sample.length - 1) * sampleVariance(sample) + (other.length - 1) * sampleVariance(other))
+    / (sample.length + other.length - 2)
+  );
+  return pooled > 0 ? (mean(sample) - mean(other)) / pooled : null;
+};
+
+/**
+ * Seeded pseudo-random generator (mulberry32)
+ * Resampling uses a fixed seed so a report does not change between renders.
+ * @param seed - 32-bit seed
+ * @returns () => number - Uniform values in [0, 1)
+ */
+export const createRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+export interface BootstrapOptions {
+  resamples?: number;      // Number of resamples (default 1000)
+  confidence?: number;     // Interval coverage (default 0.95)
+  random?: () => number;   // Uniform generator; seeded by default
+}
+
+/**
+ * Percentile bootstrap confidence interval for the mean
+ * @param values - Sample
+ * @param options - Resamples, coverage and random generator
+ * @returns [number, number] | null - Lower and upper bounds, or null for an empty sample
+ */
+export const bootstrapMeanInterval = (values: number[], options: BootstrapOptions = {}): [number, number] | null => {
+  if (values.length === 0) return null;
+  const { resamples = 1000, confidence = 0.95, random = createRandom(1) } = options;
+
+  const means: number[] = [];
+  for (let r = 0; r < resamples; r++) {
+    let sum = 0;
+    for (let i = 0; i < values.length; i++) sum += values[Math.floor(random() * values.length)];
+    means.push(sum / values.length);
+  }
+  means.sort((a, b) => a - b);
+  const tail = (1 - confidence) / 2;
+  return [quantile(means, tail), quantile(means, 1 - tail)];
+};
+
+/**
+ * Adjust p-values for testing several hypotheses at once
+ * Bonferroni and Holm control the family-wise error rate; Benjamini-Hochberg
+ * controls the false discovery rate.
+ * @param pValues - Raw p-values; nulls (untested hypotheses) are skipped
+ * @param method - Correction
+ * @returns (number | null)[] - Adjusted p-values in the input order, capped at 1
+ */
+export const adjustPValues = (
+  pValues: (number | null)[],
+  method: MultipleComparisonCorrection
+): (number | null)[] => {
+  const tested = pValues
+    .map((p, index) => ({ p, index }))
+    .filter((entry): entry is { p: number; index: number } => entry.p !== null && !Number.isNaN(entry.p));
+  const m = tested.length;
+  const adjusted: (number | null)[] = pValues.map(() => null);
+
+  switch (method) {
+    case 'none':
+      tested.forEach(({ p, index }) => { adjusted[index] = p; });
+      break;
+    case 'bonferroni':
+      tested.forEach(({ p, index }) => { adjusted[index] = Math.min(1, p * m); });
+      break;
+    case 'holm': {
+      // Step down from the smallest p-value, keeping the adjustments monotone
+      let running = 0;
+      [...tested].sort((a, b) => a.p - b.p).forEach(({ p, index }, rank) => {
+        running = Math.max(running, Math.min(1, p * (m - rank)));
+        adjusted[index] = running;
+      });
+      break;
+    }
+    case 'benjaminiHochberg': {
+      // Step up from the largest p-value
+      let running = 1;
+      [...tested].sort((a, b) => b.p - a.p).forEach(({ p, index }, reverseRank) => {
+        running = Math.min(running, (p * m) / (m - reverseRank));
+        adjusted[index] = running;
+      });
+      break;
+    }
+  }
+  return adjusted;
+};
+
+/**
+ * Sample covariance (n - 1 denominator)
+ * @param a - First sample
+ * @param b - Second sample, paired with the first
+ * @returns number - Covariance, or 0 with fewer than two pairs
+ */
+export const sampleCovariance = (a: number[], b: number[]): number => {
+  const n = Math.min(a.length, b.length);
+  if (n < 2) return 0;
+  const meanA = mean(a.slice(0, n));
+  const meanB = mean(b.slice(0, n));
+  let sum = 0;
+  for (let i = 0; i < n; i++) sum += (a[i] - meanA) * (b[i] - meanB);
+  return sum / (n - 1);
+};
+
+/**
+ * Pearson correlation coefficient
+ * @param a - First sample
+ * @param b - Second sample, paired with the first
+ * @returns number | null - Between -1 and 1, or null with fewer than three pairs or a constant sample
+ */
+export const pearsonCorrelation = (a: number[], b: number[]): number | null => {
+  const n = Math.min(a.length, b.length);
+  if (n < 3) return null;
+  const deviation = sampleStdDev(a.slice(0, n)) * sampleStdDev(b.slice(0, n));
+  if (deviation === 0) return null;
+  return Math.max(-1, Math.min(1, sampleCovariance(a, b) / deviation));
+};
+
+/**
+ * Rank a sample, giving tied values their average rank
+ * @param values - Sample, in any order
+ * @returns number[] - Ranks from 1, in the input order
+ */
+export const rankValues = (values: number[]): number[] => {
+  const order = values.map((value, index) => ({ value, index })).sort((x, y) => x.value - y.value);
+  const ranks: number[] = new Array(values.length);
+  for (let start = 0; start < order.length;) {
+    let end = start;
+    while (end + 1 < order.length && order[end + 1].value === order[start].value) end++;
+    const rank = (start + end) / 2 + 1;
+    for (let i = start; i <= end; i++) ranks[order[i].index] = rank;
+    start = end + 1;
+  }
+  return ranks;
+};
+
+/**
+ * Spearman rank correlation: the Pearson correlation of the ranks
+ * @param a - First sample
+ * @param b - Second sample, paired with the first
+ * @returns number | null - Between -1 and 1, or null with fewer than three pairs or a constant sample
+ */
+export const spearmanCorrelation = (a: number[], b: number[]): number | null => {
+  const n = Math.min(a.length, b.length);
+  return pearsonCorrelation(rankValues(a.slice(0, n)), rankValues(b.slice(0, n)));
+};
+
+/**
+ * Upper tail of the chi-square distribution
+ * Uses the regularised incomplete gamma function: a series below its mean and
+ * a continued fraction above it.
+ * @param x - Test statistic
+ * @param degreesOfFreedom - Positive
+ * @returns number - P(X >= x)
+ */
+export const chiSquarePValue = (x: number, degreesOfFreedom: number): number => {
+  if (x <= 0) return 1;
+  const a = degreesOfFreedom / 2;
+  const half = x / 2;
+  const front = Math.exp(-half + a * Math.log(half) - logGamma(a));
+
+  if (half < a + 1) {
+    let term = 1 / a;
+    let sum = term;
+    for (let n = 1; n <= 500 && Math.abs(term) > Math.abs(sum) * 1e-14; n++) {
+      term *= half / (a + n);
+      sum += term;
+    }
+    return Math.min(1, Math.max(0, 1 - sum * front));
+  }
+
+  const tiny = 1e-30;
+  let b = half + 1 - a;
+  let c = 1 / tiny;
+  let d = 1 / b;
+  let result = d;
+  for (let n = 1; n <= 500; n++) {
+    const an = -n * (n - a);
+    b += 2;
+    d = an * d + b;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = b + an / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    const delta = d * c;
+    result *= delta;
+    if (Math.abs(delta - 1) < 1e-14) break;
+  }
+  return Math.min(1, Math.max(0, front * result));
+};
+
+/**
+ * Sample skewness (moment estimator, g1)
+ * @param values - Sample
+ * @returns number - Third standardised moment; 0 with fewer than three values or no spread
+ */
+export const skewness = (values: number[]): number => {
+  if (values.length < 3) return 0;
+  const average = mean(values);
+  const m2 = mean(values.map(value => (value - average) ** 2));
+  const m3 = mean(values.map(value => (value - average) ** 3));
+  return m2 > 0 ? m3 / m2 ** 1.5 : 0;
+};
+
+/**
+ * Sample excess kurtosis (moment estimator, g2)
+ * @param values - Sample
+ * @returns number - Fourth standardised moment minus 3; 0 with fewer than four values or no spread
+ */
+export const excessKurtosis = (values: number[]): number => {
+  if (values.length < 4) return 0;
+  const average = mean(values);
+  const m2 = mean(values.map(value => (value - average) ** 2));
+  const m4 = mean(values.map(value => (value - average) ** 4));
+  return m2 > 0 ? m4 / m2 ** 2 - 3 : 0;
+};
+
+/**
+ * Standard normal density
+ * @param z - Standard score
+ * @returns number - φ(z)
+ */
+export const normalPdf = (z: number): number => Math.exp(-0.5 * z * z) / Math.sqrt(2 * Math.PI);
+
+// Rational approximations of the normal quantile (Acklam), relative error below 1.2e-9
+const QUANTILE_A = [-39.69683028665376, 220.9460984245205, -275.9285104469687, 138.357751867269, -30.66479806614716, 2.506628277459239];
+const QUANTILE_B = [-54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972, -13.28068155288572];
+const QUANTILE_C = [-0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+const QUANTILE_D = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416];
+const QUANTILE_TAIL = 0.02425;
+
+/**
+ * Standard normal quantile
+ * @param probability - Between 0 and 1, exclusive
+ * @returns number - z with Φ(z) = probability; ±Infinity at the bounds
+ */
+export const normalQuantile = (probability: number): number => {
+  if (probability <= 0) return -Infinity;
+  if (probability >= 1) return Infinity;
+  const [a, b, c, d] = [QUANTILE_A, QUANTILE_B, QUANTILE_C, QUANTILE_D];
+
+  if (probability < QUANTILE_TAIL || probability > 1 - QUANTILE_TAIL) {
+    const q = Math.sqrt(-2 * Math.log(Math.min(probability, 1 - probability)));
+    const z = (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+    return probability < QUANTILE_TAIL ? z : -z;
+  }
+
+  const q = probability - 0.5;
+  const r = q * q;
+  return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q /
+    (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+};
+
+export interface JarqueBeraResult {
+  statistic: number;
+  pValue: number;  // Chi-square with 2 degrees of freedom
+}
+
+/**
+ * Jarque-Bera test of normality from skewness and excess kurtosis
+ * @param values - Sample
+ * @returns JarqueBeraResult | null - null with fewer than four values
+ */
+export const jarqueBera = (values: number[]): JarqueBeraResult | null => {
+  if (values.length < 4) return null;
+  const statistic = (values.length / 6) * (skewness(values) ** 2 + excessKurtosis(values) ** 2 / 4);
+  return { statistic, pValue: chiSquarePValue(statistic, 2) };
+};
@@ -0,0 +1,219 @@
+import { AnalysisTimeSettings, ProcessedDayData } from '@/types';
+import { getISOWeek } from './calendarMath';
+
+export const UTC_TIMEZONE = 'UTC';
+
+/**
+ * Analysis time used until the user picks another: UTC days starting at
+ * midnight, which is also where exchange daily candles open
+ */
+export const DEFAULT_ANALYSIS_TIME: AnalysisTimeSettings = { timeZone: UTC_TIMEZONE, dayStartHour: 0 };
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Timezones offered for aggregation, covering the main crypto trading hubs
+ */
+export const TIMEZONE_OPTIONS: { label: string; value: string }[] = [
+  { label: 'UTC', value: UTC_TIMEZONE },
+  { label: 'New York', value: 'America/New_York' },
+  { label: 'Chicago', value: 'America/Chicago' },
+  { label: 'Los Angeles', value: 'America/Los_Angeles' },
+  { label: 'London', value: 'Europe/London' },
+  { label: 'Frankfurt', value: 'Europe/Berlin' },
+  { label: 'Dubai', value: 'Asia/Dubai' },
+  { label: 'Mumbai', value: 'Asia/Kolkata' },
+  { label: 'Singapore', value: 'Asia/Singapore' },
+  { label: 'Hong Kong', value: 'Asia/Hong_Kong' },
+  { label: 'Tokyo', value: 'Asia/Tokyo' },
+  { label: 'Sydney', value: 'Australia/Sydney' },
+];
+
+export interface ZonedDateParts {
+  year: number;
+  month: number;      // 1-12
+  day: number;        // 1-31
+  hour: number;       // 0-23
+  minute: number;
+  dayOfWeek: number;  // 0 = Sunday
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Building a formatter is slow, and intraday series convert thousands of dates
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      weekday: 'short',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+/**
+ * Read the calendar fields of an instant as seen in a timezone
+ * @param date - Instant to convert
+ * @param timeZone - IANA timezone name (browser timezone when omitted)
+ * @returns ZonedDateParts - Year, month, day, hour, minute and weekday in that timezone
+ */
+export const getZonedDateParts = (date: Date, timeZone?: string): ZonedDateParts => {
+  if (!timeZone) {
+    return {
+      year: date.getFullYear(),
+      month: date.getMonth() + 1,
+      day: date.getDate(),
+      hour: date.getHours(),
+      minute: date.getMinutes(),
+      dayOfWeek: date.getDay(),
+    };
+  }
+
+  const parts: Record<string, string> = {};
+  for (const { type, value } of getFormatter(timeZone).formatToParts(date)) {
+    parts[type] = value;
+  }
+
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    dayOfWeek: WEEKDAYS.indexOf(parts.weekday),
+  };
+};
+
+/**
+ * Get a short display label for a timezone
+ * @param timeZone - IANA timezone name
+ * @returns string - Label from TIMEZONE_OPTIONS, or the IANA name itself
+ */
+export const getTimeZoneLabel = (timeZone: string): string => {
+  return TIMEZONE_OPTIONS.find(option => option.value === timeZone)?.label ?? timeZone;
+};
+
+/**
+ * Get a filename-safe tag for a timezone
+ * @param timeZone - IANA timezone name
+ * @returns string - e.g. "UTC" or "America-New_York"
+ */
+export const getTimeZoneFileTag = (timeZone: string): string => {
+  return timeZone.replace(/[^A-Za-z0-9_+-]/g, '-');
+};
+
+const pad = (value: number): string => value.toString().padStart(2, '0');
+
+/**
+ * Get a display label for analysis time settings
+ * @param settings - Analysis timezone and day start
+ * @returns string - e.g. "UTC" or "New York, day starts 17:00"
+ */
+export const getTimeSettingsLabel = (settings: AnalysisTimeSettings): string => {
+  const label = getTimeZoneLabel(settings.timeZone);
+  return settings.dayStartHour === 0 ? label : `${label}, day starts ${pad(settings.dayStartHour)}:00`;
+};
+
+/**
+ * Read the trading day an instant belongs to
+ * A trading day runs from dayStartHour to dayStartHour the next day and is
+ * named after the date it starts on, so with a 09:00 start, 08:00 on Tuesday
+ * still counts as Monday.
+ * @param date - Instant to convert
+ * @param settings - Analysis timezone and day start
+ * @returns ZonedDateParts - Year, month, day and weekday of the trading day; hour and minute count from its start
+ */
+export const getTradingDayParts = (date: Date, settings: AnalysisTimeSettings): ZonedDateParts => {
+  return getZonedDateParts(new Date(date.getTime() - settings.dayStartHour * HOUR_MS), settings.timeZone);
+};
+
+/**
+ * Get the trading day of an instant as a local calendar date
+ * The result is midnight in the browser timezone on the trading day's date, so
+ * date-fns helpers and calendar grids bucket it on the right day.
+ * @param date - Instant to convert
+ * @param settings - Analysis timezone and day start
+ * @returns Date - Local midnight of the trading day
+ */
+export const getTradingDate = (date: Date, settings: AnalysisTimeSettings): Date => {
+  const { year, month, day } = getTradingDayParts(date, settings);
+  return new Date(year, month - 1, day);
+};
+
+/**
+ * Format the trading day of an instant
+ * @param date - Instant to format
+ * @param settings - Analysis timezone and day start
+ * @returns string - Trading day as yyyy-MM-dd
+ */
+export const formatTradingDay = (date: Date, settings: AnalysisTimeSettings): string => {
+  const { year, month, day } = getTradingDayParts(date, settings);
+  return `${year}-${pad(month)}-${pad(day)}`;
+};
+
+/**
+ * Format an instant as wall-clock time in a timezone
+ * @param date - Instant to format
+ * @param timeZone - IANA timezone name
+ * @returns string - Date and time as yyyy-MM-dd HH:mm
+ */
+export const formatZonedDateTime = (date: Date, timeZone: string): string => {
+  const { year, month, day, hour, minute } = getZonedDateParts(date, timeZone);
+  return `${year}-${pad(month)}-${pad(day)} ${pad(hour)}:${pad(minute)}`;
+};
+
+/**
+ * Derive the calendar fields of a candle from its open time
+ * Weekday, ISO week and month follow the trading day; the hour is the
+ * wall-clock hour in the analysis timezone.
+ * @param date - Candle open time
+ * @param settings - Analysis timezone and day start
+ * @returns Calendar fields for ProcessedDayData
+ */
+export const getCalendarFields = (
+  date: Date,
+  settings: AnalysisTimeSettings
+): Pick<ProcessedDayData, 'dayOfWeek' | 'weekOfYear' | 'monthOfYear' | 'hourOfDay'> => {
+  const { year, month, day, dayOfWeek } = getTradingDayParts(date, settings);
+  return {
+    dayOfWeek,
+    weekOfYear: getISOWeek({ year, month, day }).week,
+    monthOfYear: month,
+    hourOfDay: getZonedDateParts(date, settings.timeZone).hour,
+  };
+};
+
+/**
+ * Re-read the calendar fields of processed candles in other analysis time settings
+ * Fields are derived from the candle open time, so switching timezone or day
+ * start regroups the data without downloading it again.
+ * @param data - Processed candles
+ * @param settings - Analysis timezone and day start
+ * @returns ProcessedDayData[] - Copies with dayOfWeek, weekOfYear, monthOfYear and hourOfDay recomputed
+ */
+export const applyTimeSettings = (data: ProcessedDayData[], settings: AnalysisTimeSettings): ProcessedDayData[] => {
+  return data.map(candle => ({ ...candle, ...getCalendarFields(candle.date, settings) }));
+};
+
+/**
+ * Date daily and longer candles by their trading day
+ * Each candle keeps its prices and fields; only `date` becomes the local
+ * midnight of its trading day (see getTradingDate), which is what the
+ * calendar, charts and date-fns based aggregation expect.
+ * @param data - Processed daily, weekly or monthly candles
+ * @param settings - Analysis timezone and day start
+ * @returns ProcessedDayData[] - Copies dated by trading day
+ */
+export const toTradingDates = (data: ProcessedDayData[], settings: AnalysisTimeSettings): ProcessedDayData[] => {
+  return data.map(candle => ({ ...candle, date: getTradingDate(candle.date, settings) }));
+};
@@ -0,0 +1,210 @@
+import { ProcessedDayData, VolatilityEstimator, VolatilitySettings } from '@/types';
+import { getIntervalMs } from './intervals';
+
+type OhlcCandle = Pick<ProcessedDayData, 'open' | 'high' | 'low' | 'close'>;
+
+export type VolatilityLevel = 'low' | 'medium' | 'high';
+
+export interface VolatilityEstimatorInfo {
+  label: string;
+  description: string;
+}
+
+/**
+ * Volatility estimators the user can choose from
+ * All but the candle range report a standard deviation of log returns in percent.
+ */
+export const VOLATILITY_ESTIMATORS: Record<VolatilityEstimator, VolatilityEstimatorInfo> = {
+  range: { label: 'Candle range', description: 'High minus low in percent of the open' },
+  closeToClose: { label: 'Close-to-close', description: 'Realised volatility of log close-to-close returns' },
+  parkinson: { label: 'Parkinson', description: 'High-low range estimator; assumes no drift and no opening jumps' },
+  garmanKlass: { label: 'Garman-Klass', description: 'Uses open, high, low and close; assumes no drift and no opening jumps' },
+  rogersSatchell: { label: 'Rogers-Satchell', description: 'Range estimator that stays unbiased when prices trend' },
+  yangZhang: { label: 'Yang-Zhang', description: 'Combines opening jumps, open-to-close and Rogers-Satchell variance' },
+};
+
+// Estimation windows offered in the filters, in candles
+export const VOLATILITY_WINDOWS = [1, 5, 10, 20, 30, 60];
+
+export const DEFAULT_VOLATILITY_SETTINGS: VolatilitySettings = { estimator: 'range', window: 1, annualize: false };
+
+// Low/medium and medium/high boundaries of the candle range, in percent
+const RANGE_THRESHOLDS: [number, number] = [0.5, 1.5];
+
+// The expected high-low range of a driftless random walk is sqrt(8/pi) standard deviations
+const RANGE_TO_SIGMA = Math.sqrt(Math.PI / 8);
+
+const YEAR_MS = 365 * 24 * 60 * 60 * 1000;
+
+/**
+ * Get the number of candles in a year for annualising
+ * Crypto markets trade every day, so a year is 365 days of candles.
+ * @param interval - Binance interval string (e.g., '1h', '1d')
+ * @returns number - Candles per year
+ */
+export const getPeriodsPerYear = (interval: string): number => YEAR_MS / getIntervalMs(interval);
+
+const mean = (values: number[]): number => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+// Sample variance around the mean; a single value is taken as its own square (zero mean)
+const sampleVariance = (values: number[]): number => {
+  if (values.length < 2) return values.length === 1 ? values[0] ** 2 : 0;
+  const average = mean(values);
+  return values.reduce((sum, value) => sum + (value - average) ** 2, 0) / (values.length - 1);
+};
+
+interface LogMoves {
+  jump: number;   // ln(open / previous close)
+  up: number;     // ln(high / open)
+  down: number;   // ln(low / open)
+  body: number;   // ln(close / open)
+  range: number;  // (high - low) / open
+}
+
+/**
+ * Estimate the variance (or, for the candle range, the mean range) of one window
+ * @param moves - Log moves of the candles in the window, oldest first
+ * @param estimator - Volatility estimator
+ * @returns number - Per-candle variance of log returns, or the mean range for 'range'
+ */
+const estimateWindow = (moves: LogMoves[], estimator: VolatilityEstimator): number => {
+  const rogersSatchell = () => mean(moves.map(({ up, down, body }) => up * (up - body) + down * (down - body)));
+
+  switch (estimator) {
+    case 'range':
+      return mean(moves.map(move => move.range));
+    case 'closeToClose':
+      return mean(moves.map(({ jump, body }) => (jump + body) ** 2));
+    case 'parkinson':
+      return mean(moves.map(({ up, down }) => (up - down) ** 2)) / (4 * Math.LN2);
+    case 'garmanKlass':
+      return mean(moves.map(({ up, down, body }) => 0.5 * (up - down) ** 2 - (2 * Math.LN2 - 1) * body ** 2));
+    case 'rogersSatchell':
+      return rogersSatchell();
+    case 'yangZhang': {
+      const n = moves.length;
+      const k = n > 1 ? 0.34 / (1.34 + (n + 1) / (n - 1)) : 0;
+      const jumpVariance = sampleVariance(moves.map(move => move.jump));
+      const bodyVariance = sampleVariance(moves.map(move => move.body));
+      return jumpVariance + k * bodyVariance + (1 - k) * rogersSatchell();
+    }
+  }
+};
+
+/**
+ * Calculate volatility for every candle with the chosen estimator
+ * Each estimate covers the window of candles ending at that candle; the first
+ * candles use the shorter history available. The first candle's previous close
+ * is taken to be its own open. Close-to-close is realised volatility (returns
+ * taken as zero mean); Yang-Zhang uses sample variances for the opening jump
+ * and open-to-close parts.
+ * @param candles - Candles sorted oldest first
+ * @param settings - Estimator, window and annualisation
+ * @param interval - Candle interval, for annualising
+ * @returns number[] - Volatility in percent for each candle
+ */
+export const calculateVolatilitySeries = (
+  candles: OhlcCandle[],
+  settings: VolatilitySettings,
+  interval: string
+): number[] => {
+  const window = Math.max(1, Math.round(settings.window));
+  const scale = settings.annualize ? Math.sqrt(getPeriodsPerYear(interval)) : 1;
+
+  const moves: LogMoves[] = candles.map(({ open, high, low, close }, index) => ({
+    jump: Math.log(open / (index > 0 ? candles[index - 1].close : open)),
+    up: Math.log(high / open),
+    down: Math.log(low / open),
+    body: Math.log(close / open),
+    range: (high - low) / open,
+  }));
+
+  return moves.map((_, index) => {
+    const estimate = Math.max(0, estimateWindow(moves.slice(Math.max(0, index - window + 1), index + 1), settings.estimator));
+    const perCandle = settings.estimator === 'range' ? estimate : Math.sqrt(estimate);
+    return perCandle * 100 * scale;
+  });
+};
+
+/**
+ * Replace every candle's volatility with the chosen estimator's value
+ * @param data - Processed candles sorted oldest first
+ * @param settings - Estimator, window and annualisation
+ * @param interval - Candle interval, for annualising
+ * @returns ProcessedDayData[] - Copies with `volatility` re-estimated; the input itself for the default settings
+ */
+export const applyVolatilityEstimator = (
+  data: ProcessedDayData[],
+  settings: VolatilitySettings,
+  interval: string
+): ProcessedDayData[] => {
+  // Processed candles already carry the single-candle range
+  if (settings.estimator === 'range' && settings.window <= 1 && !settings.annualize) return data;
+
+  const series = calculateVolatilitySeries(data, settings, interval);
+  return data.map((candle, index) => ({ ...candle, volatility: series[index] }));
+};
+
+/**
+ * Estimate the volatility of the latest candle
+ * Only the candles inside the window (plus one for its previous close) are used.
+ * @param candles - Candles sorted oldest first
+ * @param settings - Estimator, window and annualisation
+ * @param interval - Candle interval, for annualising
+ * @returns number | null - Volatility in percent, or null without candles
+ */
+export const getLatestVolatility = (
+  candles: OhlcCandle[],
+  settings: VolatilitySettings,
+  interval: string
+): number | null => {
+  if (candles.length === 0) return null;
+  const series = calculateVolatilitySeries(candles.slice(-(Math.max(1, settings.window) + 1)), settings, interval);
+  return series[series.length - 1];
+};
+
+/**
+ * Get the low/medium and medium/high volatility boundaries for the settings
+ * The candle range keeps its 0.5% and 1.5% boundaries; the other estimators
+ * use the standard deviation those ranges imply, and annualised figures are
+ * scaled up to match.
+ * @param settings - Estimator and annualisation
+ * @param interval - Candle interval, for annualising
+ * @returns [number, number] - Boundaries in percent
+ */
+export const getVolatilityThresholds = (settings: VolatilitySettings, interval: string): [number, number] => {
+  const toEstimator = settings.estimator === 'range' ? 1 : RANGE_TO_SIGMA;
+  const scale = settings.annualize ? Math.sqrt(getPeriodsPerYear(interval)) : 1;
+  return [RANGE_THRESHOLDS[0] * toEstimator * scale, RANGE_THRESHOLDS[1] * toEstimator * scale];
+};
+
+/**
+ * Classify a volatility value against the boundaries
+ * @param volatility - Volatility in percent
+ * @param thresholds - Boundaries from getVolatilityThresholds
+ * @returns VolatilityLevel - Low, medium or high
+ */
+export const classifyVolatility = (volatility: number, thresholds: [number, number]): VolatilityLevel => {
+  if (volatility < thresholds[0]) return 'low';
+  if (volatility < thresholds[1]) return 'medium';
+  return 'high';
+};
+
+/**
+ * Describe the volatility settings in a few words
+ * @param settings - Estimator, window and annualisation
+ * @returns string - e.g. "Parkinson · 20 candles · annualised"
+ */
+export const describeVolatilitySettings = (settings: VolatilitySettings): string => {
+  const parts = [VOLATILITY_ESTIMATORS[settings.estimator].label];
+  if (settings.window > 1) parts.push(`${settings.window} candles`);
+  if (settings.annualize) parts.push('annualised');
+  return parts.join(' · ');
+};
+
+/**
+ * Format a volatility boundary for legends and labels
+ * @param value - Boundary in percent
+ * @returns string - Two significant figures, e.g. "0.31%"
+ */
+export const formatVolatilityThreshold = (value: number): string => `${Number(value.toPrecision(2))}%`;